@@ -1,7 +1,7 @@
 import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
 import { HashRouter, Routes, Route, Navigate, useLocation, Outlet, useOutlet } from 'react-router-dom';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
-import { LanguageProvider } from './contexts/LanguageContext';
+import { LanguageProvider, useLanguage } from './contexts/LanguageContext';
 import { TraceProvider } from './contexts/TraceContext';
 import { RefreshProvider, useRefresh } from './contexts/RefreshContext';
 import { TabProvider, useTabs } from './contexts/TabContext';
@@ -10,6 +10,8 @@ import { ModalContext, ModalContextType } from './contexts/ModalContext';
 import { isSupabaseConfigured, supabase } from './services/supabase';
 import ConfigurationNotice from './components/ConfigurationNotice';
 import { generateNextNumber } from './lib/numberGenerator';
+import { reconcileDocumentStatuses } from './lib/statusReconciliation';
+import { runDueRecurringInvoices } from './lib/recurringInvoices';
 import { Customer, Product, Task, Expense, Appointment } from './types';
 import { defaultPermissions } from './constants';
 
@@ -40,6 +42,11 @@ import MigrationCenterPage from './pages/MigrationCenterPage';
 import AuditLogPage from './pages/AuditLogPage';
 import TextBlocksPage from './pages/TextBlocksPage';
 import LegalContentPage from './pages/LegalContentPage';
+import DunningPage from './pages/DunningPage';
+import BankReconciliationPage from './pages/BankReconciliationPage';
+import DirectDebitPage from './pages/DirectDebitPage';
+import RecurringInvoicesPage from './pages/RecurringInvoicesPage';
+import QuotePortalPage from './pages/QuotePortalPage';
 
 // Modal Components
 import ProductModal from './components/modals/ProductModal';
@@ -92,8 +99,47 @@ const PermissionGuard: React.FC<{ children: React.ReactElement; permission: stri
 const ProtectedRoutes: React.FC = () => {
     const { profile } = useAuth();
     const { cacheCurrentPage } = useTabs();
+    const { triggerRefresh } = useRefresh();
+    const { language } = useLanguage();
     const outlet = useOutlet();
     const location = useLocation();
+
+    // Invoices past their due date and quotes past their validity date are moved to 'overdue' / 'expired'
+    // on load and then hourly, so lists and dashboard counters don't depend on someone changing the status by hand.
+    useEffect(() => {
+        const orgId = profile?.org_id;
+        if (!orgId) return;
+        const runReconciliation = async () => {
+            try {
+                const { overdueInvoices, expiredQuotes } = await reconcileDocumentStatuses(orgId);
+                if (overdueInvoices + expiredQuotes > 0) triggerRefresh();
+            } catch (error) {
+                console.error("Failed to reconcile document statuses:", error);
+            }
+        };
+        runReconciliation();
+        const intervalId = setInterval(runReconciliation, 60 * 60 * 1000);
+        return () => clearInterval(intervalId);
+    }, [profile?.org_id, triggerRefresh]);
+
+    // Recurring invoice templates are processed by the first admin or key user who opens the app after a run date.
+    const canRunRecurringInvoices = profile?.role === 'admin' || profile?.role === 'key_user';
+    useEffect(() => {
+        const orgId = profile?.org_id;
+        if (!orgId || !canRunRecurringInvoices) return;
+        const runRecurringInvoices = async () => {
+            try {
+                const { created, errors } = await runDueRecurringInvoices(orgId, language);
+                errors.forEach(error => console.error("Recurring invoice run failed:", error));
+                if (created.length > 0) triggerRefresh();
+            } catch (error) {
+                console.error("Failed to run recurring invoices:", error);
+            }
+        };
+        runRecurringInvoices();
+        const intervalId = setInterval(runRecurringInvoices, 60 * 60 * 1000);
+        return () => clearInterval(intervalId);
+    }, [profile?.org_id, canRunRecurringInvoices, language, triggerRefresh]);
     
     // By cloning the outlet and giving it a unique key based on the pathname,
     // we force React to create a NEW instance of the page component (e.g., InvoiceEditor)
@@ -124,6 +170,7 @@ const AppRoutes: React.FC = () => {
       {/* Public routes */}
       <Route path="/auth" element={<AuthPage />} />
       <Route path="/reset-password" element={<ResetPasswordPage />} />
+      <Route path="/quote/:token" element={<QuotePortalPage />} />
 
       {/* Protected routes are now nested under a single parent route */}
       <Route 
@@ -138,6 +185,10 @@ const AppRoutes: React.FC = () => {
         <Route path="/invoices" element={<PermissionGuard permission="invoices"><InvoicesPage /></PermissionGuard>} />
         <Route path="/invoices/new" element={<PermissionGuard permission="invoices"><InvoiceEditor /></PermissionGuard>} />
         <Route path="/invoices/edit/:id" element={<PermissionGuard permission="invoices"><InvoiceEditor /></PermissionGuard>} />
+        <Route path="/invoices/dunning" element={<PermissionGuard permission="invoices"><DunningPage /></PermissionGuard>} />
+        <Route path="/invoices/bank-reconciliation" element={<PermissionGuard permission="invoices"><BankReconciliationPage /></PermissionGuard>} />
+        <Route path="/invoices/direct-debit" element={<PermissionGuard permission="invoices"><DirectDebitPage /></PermissionGuard>} />
+        <Route path="/invoices/recurring" element={<PermissionGuard permission="invoices"><RecurringInvoicesPage /></PermissionGuard>} />
         <Route path="/quotes" element={<PermissionGuard permission="quotes"><QuotesPage /></PermissionGuard>} />
         <Route path="/quotes/new" element={<PermissionGuard permission="quotes"><QuoteEditor /></PermissionGuard>} />
         <Route path="/quotes/edit/:id" element={<PermissionGuard permission="quotes"><QuoteEditor /></PermissionGuard>} />
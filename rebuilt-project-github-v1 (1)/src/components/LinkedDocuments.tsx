@@ -0,0 +1,63 @@
+import React, { useState, useEffect } from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useRefresh } from '../contexts/RefreshContext';
+import { useTabs } from '../contexts/TabContext';
+import { getDocumentPath, getLinkedDocuments, LinkedDocument, LinkedDocumentType } from '../lib/documentLinks';
+import { formatEuropeanDate } from '../lib/formatting';
+import { BriefcaseIcon, DocumentPlusIcon, DocumentTextIcon } from '@heroicons/react/24/outline';
+
+interface LinkedDocumentsProps {
+  type: LinkedDocumentType;
+  id: number;
+}
+
+const typeIcons: { [key in LinkedDocumentType]: React.ElementType } = {
+  quote: DocumentPlusIcon,
+  invoice: DocumentTextIcon,
+  visit: BriefcaseIcon,
+};
+
+const LinkedDocuments: React.FC<LinkedDocumentsProps> = ({ type, id }) => {
+  const { t } = useLanguage();
+  const { refreshKey } = useRefresh();
+  const { openTab } = useTabs();
+  const [links, setLinks] = useState<LinkedDocument[]>([]);
+
+  useEffect(() => {
+    getLinkedDocuments(type, id)
+      .then(setLinks)
+      .catch(error => console.error('Error fetching linked documents:', error));
+  }, [type, id, refreshKey]);
+
+  if (links.length === 0) return null;
+
+  const typeLabel = (link: LinkedDocument) => {
+    if (link.type === 'invoice' && link.invoiceType && link.invoiceType !== 'invoice') return t(`invoice_type_${link.invoiceType}` as any);
+    return t(link.type === 'visit' ? 'visit' : link.type);
+  };
+
+  return (
+    <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
+      <h2 className="text-xl font-bold mb-4">{t('linkedDocuments')}</h2>
+      <ul className="divide-y dark:divide-gray-700 text-sm">
+        {links.map(link => {
+          const Icon = typeIcons[link.type];
+          return (
+            <li key={`${link.type}-${link.id}`} className="flex justify-between items-center py-2">
+              <span className="flex items-center gap-x-2">
+                <Icon className="w-5 h-5 text-gray-400" />
+                <span className="text-gray-500 dark:text-gray-400">{t(link.relation === 'source' ? 'createdFrom' : 'convertedTo')}</span>
+                <button onClick={() => openTab({ path: getDocumentPath(link.type, link.id), label: link.number })} className="font-medium text-primary-600 hover:underline">
+                  {typeLabel(link)} #{link.number}
+                </button>
+              </span>
+              <span className="text-gray-500 dark:text-gray-400">{formatEuropeanDate(link.date)} &middot; {t(link.status as any)}</span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default LinkedDocuments;
@@ -4,13 +4,14 @@ import { useAuth } from '../../contexts/AuthContext';
 import { useLanguage } from '../../contexts/LanguageContext';
 import { useTabs } from '../../contexts/TabContext';
 import { useModal } from '../../contexts/ModalContext';
-import { Invoice, InvoiceStatus, QuoteStatus } from '../../types';
-import { DocumentTextIcon, BanknotesIcon, PlusIcon, EnvelopeIcon, ArrowDownTrayIcon, PencilIcon, DocumentPlusIcon, DocumentDuplicateIcon, CalendarIcon, ClipboardDocumentListIcon, BriefcaseIcon, UserPlusIcon, CalendarDaysIcon, CurrencyDollarIcon, ArchiveBoxIcon, ExclamationTriangleIcon, ClockIcon, ArrowRightIcon } from '@heroicons/react/24/outline';
+import { Invoice, InvoiceStatus, QuoteStatus, RecurringInvoice } from '../../types';
+import { DocumentTextIcon, BanknotesIcon, PlusIcon, EnvelopeIcon, ArrowDownTrayIcon, PencilIcon, DocumentPlusIcon, DocumentDuplicateIcon, CalendarIcon, ClipboardDocumentListIcon, BriefcaseIcon, UserPlusIcon, CalendarDaysIcon, CurrencyDollarIcon, ArchiveBoxIcon, ExclamationTriangleIcon, ClockIcon, ArrowRightIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import generateDocumentPDF from '../../lib/pdfGenerator';
 import UpgradeBanner from '../ui/UpgradeBanner';
 import { CubeIcon } from '@heroicons/react/24/solid';
 import { formatEuropeanDate } from '../../lib/formatting';
+import { getInvoiceStatusLabelKey } from '../../lib/cancellation';
 import { parseAsLocalDate } from '../../lib/formatting';
 import { useNotifications } from '../../contexts/NotificationContext';
 
@@ -64,6 +65,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ refreshKey }) => {
     const [bannerMessage, setBannerMessage] = useState('');
     
     const [actionableItems, setActionableItems] = useState({ overdueInvoices: 0, expiringQuotes: 0, unassignedVisits: 0 });
+    const [upcomingRecurringInvoices, setUpcomingRecurringInvoices] = useState<RecurringInvoice[]>([]);
     const [dispatchSummary, setDispatchSummary] = useState<{ unassignedToday: number; employeeLoad: { id: string; name: string; activityCount: number }[] }>({ unassignedToday: 0, employeeLoad: [] });
   
     const fetchDashboardData = useCallback(async () => {
@@ -96,6 +98,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ refreshKey }) => {
             { data: appointmentsToday },
             { data: recentInvoicesData },
             { data: pendingQuotesData },
+            { data: recurringInvoicesData },
         ] = await Promise.all([
             applyOrgFilter(supabase.from('invoices').select('total_amount, issue_date, status').gte('issue_date', `${currentYear}-01-01`).lte('issue_date', `${currentYear}-12-31`)),
             applyOrgFilter(supabase.from('invoices').select('id', { count: 'exact', head: true }).eq('status', 'overdue')),
@@ -108,6 +111,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ refreshKey }) => {
             applyOrgFilter(supabase.from('appointments').select('id, user_id, status').gte('start_time', `${todayStr}T00:00:00`).lte('start_time', `${todayStr}T23:59:59`)),
             applyOrgFilter(supabase.from('invoices').select('*, customers:customers!left(id, name, email), organizations:organizations!left(name)').order('issue_date', { ascending: false }).limit(5)),
             applyOrgFilter(supabase.from('quotes').select('id').eq('status', 'sent')),
+            applyOrgFilter(supabase.from('recurring_invoices').select('*, customers(id, name, email), recurring_invoice_items(*)').eq('is_active', true).order('next_run_date', { ascending: true }).limit(5)),
         ]);
 
         if (invoicesData) {
@@ -121,7 +125,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ refreshKey }) => {
                 if (issueDate) {
                     const month = issueDate.getMonth();
                     if (['paid', 'sent', 'overdue', 'draft'].includes(inv.status)) {
-                        monthlySales[month][inv.status as InvoiceStatus] += inv.total_amount;
+                        monthlySales[month][inv.status as Exclude<InvoiceStatus, 'cancelled'>] += inv.total_amount;
                     }
                 }
             });
@@ -139,6 +143,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ refreshKey }) => {
         setDispatchSummary({ unassignedToday: unassignedTodayCount || 0, employeeLoad });
         
         setRecentInvoices(recentInvoicesData || []);
+        setUpcomingRecurringInvoices(recurringInvoicesData || []);
         
         if (profile?.current_plan === 'free') {
             const firstDayOfMonth = new Date(new Date().getFullYear(), new Date().getMonth(), 1).toISOString();
@@ -244,9 +249,44 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ refreshKey }) => {
         </div>
     );
     
+    const UpcomingRecurringInvoices = () => {
+        if (upcomingRecurringInvoices.length === 0) return null;
+        return (
+            <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-md">
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-lg font-semibold">{t('upcomingRecurringInvoices')}</h2>
+                    <button onClick={() => openTab({ path: '/invoices/recurring', label: t('recurringInvoices'), labelKey: 'recurringInvoices' })} className="text-sm font-medium text-primary-600 hover:underline">{t('recurringInvoices')}</button>
+                </div>
+                <div className="space-y-2">
+                    {upcomingRecurringInvoices.map(template => {
+                        const total = (template.recurring_invoice_items || []).reduce((acc, item) => {
+                            const net = Number(item.quantity) * Number(item.unit_price);
+                            return acc + net + net * (Number(item.vat_rate) / 100);
+                        }, 0);
+                        return (
+                            <div key={template.id} className="flex items-center justify-between p-2 bg-gray-50 dark:bg-slate-700/50 rounded-md">
+                                <div className="flex items-center">
+                                    <ArrowPathIcon className="w-5 h-5 mr-3 text-primary-500"/>
+                                    <div>
+                                        <p className="font-medium text-gray-800 dark:text-gray-200">{template.title}</p>
+                                        <p className="text-xs text-gray-500 dark:text-gray-400">{template.customers?.name} &middot; {t(`interval_${template.interval}` as any)}</p>
+                                    </div>
+                                </div>
+                                <div className="text-right">
+                                    <p className="text-sm font-semibold text-gray-800 dark:text-gray-100">€{total.toFixed(2)}</p>
+                                    <p className="text-xs text-gray-500 dark:text-gray-400">{formatEuropeanDate(template.next_run_date)}</p>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        );
+    };
+
     if (loading) return <div className="text-center p-8 text-gray-500">{t('loadingDashboard')}</div>;
     const hasChartData = salesData.some(month => month.paid > 0 || month.sent > 0 || month.overdue > 0 || month.draft > 0);
-    const statusColors: { [key in InvoiceStatus]: string } = { draft: 'bg-yellow-100 text-yellow-800', sent: 'bg-blue-100 text-blue-800', paid: 'bg-green-100 text-green-800', overdue: 'bg-red-100 text-red-800' };
+    const statusColors: { [key in InvoiceStatus]: string } = { draft: 'bg-yellow-100 text-yellow-800', sent: 'bg-blue-100 text-blue-800', paid: 'bg-green-100 text-green-800', overdue: 'bg-red-100 text-red-800', cancelled: 'bg-gray-100 text-gray-800' };
 
     return (
         <div className="space-y-8">
@@ -276,13 +316,15 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ refreshKey }) => {
             </div>
     
             <ActionCenter />
+
+            <UpcomingRecurringInvoices />
     
             <div className="grid grid-cols-1 lg:grid-cols-5 gap-8">
                 <div className="lg:col-span-3 bg-white dark:bg-slate-800 p-6 rounded-xl shadow-md"><h2 className="text-lg font-semibold mb-4">{t('sales_overview')}</h2>{hasChartData ? <ResponsiveContainer width="100%" height={300}><BarChart data={salesData} margin={{ top: 5, right: 20, left: -5, bottom: 5 }}><CartesianGrid strokeDasharray="3 3" vertical={false} stroke="rgba(200, 200, 200, 0.2)"/><XAxis dataKey="name" tick={{ fontSize: 12 }} stroke="#9ca3af" axisLine={false} tickLine={false} /><YAxis tickFormatter={yAxisTickFormatter} tick={{ fontSize: 12 }} stroke="#9ca3af" axisLine={false} tickLine={false} /><Tooltip content={<CustomTooltip />} cursor={{ fill: 'rgba(107, 114, 128, 0.1)' }} /><Legend iconType="circle" iconSize={10} wrapperStyle={{ paddingTop: '20px' }} /><Bar dataKey="paid" stackId="sales" name={t('paid')} fill="#22c55e" radius={[4, 4, 0, 0]} /><Bar dataKey="draft" stackId="sales" name={t('draft')} fill="#eab308" radius={[4, 4, 0, 0]} /><Bar dataKey="sent" stackId="sales" name={t('sent')} fill="#3b82f6" radius={[4, 4, 0, 0]} /><Bar dataKey="overdue" stackId="sales" name={t('overdue')} fill="#ef4444" radius={[4, 4, 0, 0]} /></BarChart></ResponsiveContainer> : <div className="flex items-center justify-center h-[300px] text-gray-500 dark:text-gray-400">{t('noSalesDataThisYear')}</div>}</div>
                 <div className="lg:col-span-2"><DispatchHub /></div>
             </div>
     
-            <div className="bg-white dark:bg-slate-800 rounded-xl shadow-md overflow-hidden"><h2 className="p-6 text-lg font-semibold border-b dark:border-slate-700">{t('recent_invoices')}</h2><div className="overflow-x-auto"><table className="min-w-full"><thead className="bg-gray-50/50 dark:bg-slate-800/50"><tr className="text-left"><th className="px-6 py-3 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">{t('invoice_number')}</th><th className="px-6 py-3 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">{t('customer')}</th>{profile?.role === 'super_admin' && <th className="px-6 py-3 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">{t('organization')}</th>}<th className="px-6 py-3 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">{t('date')}</th><th className="px-6 py-3 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">{t('total')}</th><th className="px-6 py-3 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">{t('status')}</th><th className="px-6 py-3 text-right text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">{t('actions')}</th></tr></thead><tbody className="divide-y divide-gray-200 dark:divide-slate-700">{recentInvoices.length > 0 ? recentInvoices.map(invoice => (<tr key={invoice.id} className="hover:bg-gray-50 dark:hover:bg-slate-700/50"><td className="px-6 py-4"><button onClick={() => openTab({ path: `/invoices/edit/${invoice.id}`, label: invoice.invoice_number })} className="font-medium text-primary-600 hover:underline">{invoice.invoice_number}</button></td><td className="px-6 py-4 whitespace-nowrap text-sm">{invoice.customers ? (<button onClick={() => openTab({ path: `/customers/${invoice.customer_id}`, label: invoice.customers.name })} className="font-medium text-primary-600 hover:underline">{invoice.customers.name}</button>) : (<span className="text-gray-900 dark:text-gray-200">N/A</span>)}</td>{profile?.role === 'super_admin' && <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{((invoice as any).organizations as any)?.name || 'N/A'}</td>}<td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{formatEuropeanDate(invoice.issue_date)}</td><td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-200">€{invoice.total_amount.toFixed(2)}</td><td className="px-6 py-4"><span className={`px-2 py-1 text-xs font-semibold rounded-full ${statusColors[invoice.status]} capitalize`}>{t(invoice.status as any)}</span></td><td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2"><button onClick={() => openTab({ path: `/invoices/edit/${invoice.id}`, label: invoice.invoice_number })} title={t('editView')}><PencilIcon className="w-5 h-5 inline-block text-primary-600 hover:text-primary-800"/></button><button onClick={() => handleDownloadPDF(invoice.id)} title={t('downloadPDF')}><ArrowDownTrayIcon className="w-5 h-5 inline-block text-gray-500 dark:text-gray-400 hover:text-primary-600"/></button></td></tr>)) : (<tr><td colSpan={profile?.role === 'super_admin' ? 7 : 6} className="p-4 text-center text-gray-500">{t('noRecentInvoices')}</td></tr>)}</tbody></table></div></div>
+            <div className="bg-white dark:bg-slate-800 rounded-xl shadow-md overflow-hidden"><h2 className="p-6 text-lg font-semibold border-b dark:border-slate-700">{t('recent_invoices')}</h2><div className="overflow-x-auto"><table className="min-w-full"><thead className="bg-gray-50/50 dark:bg-slate-800/50"><tr className="text-left"><th className="px-6 py-3 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">{t('invoice_number')}</th><th className="px-6 py-3 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">{t('customer')}</th>{profile?.role === 'super_admin' && <th className="px-6 py-3 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">{t('organization')}</th>}<th className="px-6 py-3 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">{t('date')}</th><th className="px-6 py-3 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">{t('total')}</th><th className="px-6 py-3 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">{t('status')}</th><th className="px-6 py-3 text-right text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">{t('actions')}</th></tr></thead><tbody className="divide-y divide-gray-200 dark:divide-slate-700">{recentInvoices.length > 0 ? recentInvoices.map(invoice => (<tr key={invoice.id} className="hover:bg-gray-50 dark:hover:bg-slate-700/50"><td className="px-6 py-4"><button onClick={() => openTab({ path: `/invoices/edit/${invoice.id}`, label: invoice.invoice_number })} className="font-medium text-primary-600 hover:underline">{invoice.invoice_number}</button></td><td className="px-6 py-4 whitespace-nowrap text-sm">{invoice.customers ? (<button onClick={() => openTab({ path: `/customers/${invoice.customer_id}`, label: invoice.customers.name })} className="font-medium text-primary-600 hover:underline">{invoice.customers.name}</button>) : (<span className="text-gray-900 dark:text-gray-200">N/A</span>)}</td>{profile?.role === 'super_admin' && <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{((invoice as any).organizations as any)?.name || 'N/A'}</td>}<td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{formatEuropeanDate(invoice.issue_date)}</td><td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-gray-200">€{invoice.total_amount.toFixed(2)}</td><td className="px-6 py-4"><span className={`px-2 py-1 text-xs font-semibold rounded-full ${statusColors[invoice.status]} capitalize`}>{t(getInvoiceStatusLabelKey(invoice.status) as any)}</span></td><td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2"><button onClick={() => openTab({ path: `/invoices/edit/${invoice.id}`, label: invoice.invoice_number })} title={t('editView')}><PencilIcon className="w-5 h-5 inline-block text-primary-600 hover:text-primary-800"/></button><button onClick={() => handleDownloadPDF(invoice.id)} title={t('downloadPDF')}><ArrowDownTrayIcon className="w-5 h-5 inline-block text-gray-500 dark:text-gray-400 hover:text-primary-600"/></button></td></tr>)) : (<tr><td colSpan={profile?.role === 'super_admin' ? 7 : 6} className="p-4 text-center text-gray-500">{t('noRecentInvoices')}</td></tr>)}</tbody></table></div></div>
         </div>
     );
 }
@@ -116,7 +116,7 @@ const FieldServiceDashboard: React.FC<FieldServiceDashboardProps> = ({ refreshKe
 
     const agendaItems = useMemo(() => {
         const visitStatusColors: { [key in VisitStatus]: string } = { planned: 'blue', completed: 'green', cancelled: 'red' };
-        const quoteStatusColors: { [key in QuoteStatus]: string } = { draft: 'yellow', sent: 'blue', accepted: 'green', declined: 'red' };
+        const quoteStatusColors: { [key in QuoteStatus]: string } = { draft: 'yellow', sent: 'blue', accepted: 'green', declined: 'red', expired: 'red' };
 
         const combined = [
             ...(activeFilters.visits ? visits.map(v => ({ id: `visit-${v.id}`, type: 'visit' as const, date: parseAsLocalDate(v.start_time), title: v.purpose || v.category, customerDetails: `Customer: ${v.customers?.name || 'N/A'}`, locationDetails: v.location || v.customers?.address, link: `/visits/edit/${v.id}`, label: v.visit_number, icon: BriefcaseIcon, status: v.status, statusColor: visitStatusColors[v.status] })) : []),
@@ -8,7 +8,7 @@ import { useLanguage } from '../../contexts/LanguageContext';
 // Define the set of base paths that are considered main/list pages (not object pages).
 const BASE_PATHS = new Set([
   '/', '/dispatcher', '/customers', '/appointments', '/visits', '/quotes',
-  '/invoices', '/inventory', '/expenses', '/tasks', '/reports', '/team',
+  '/invoices', '/invoices/dunning', '/invoices/bank-reconciliation', '/invoices/direct-debit', '/invoices/recurring', '/inventory', '/expenses', '/tasks', '/reports', '/team',
   '/settings', '/migration-center', '/profile'
 ]);
 
@@ -0,0 +1,96 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { DiscountType, InvoiceItem } from '../../types';
+import { calculateDocumentTotals, formatDiscount, toPercentDiscount } from '../../lib/documentTotals';
+
+interface CreditNoteModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (quantities: Record<number, number>) => void;
+  items: Partial<InvoiceItem>[];
+  creditedQuantities: Map<number, number>;
+  documentDiscount?: { discount_type?: DiscountType | null; discount_value?: number | null };
+  isProcessing?: boolean;
+}
+
+const CreditNoteModal: React.FC<CreditNoteModalProps> = ({ isOpen, onClose, onConfirm, items, creditedQuantities, documentDiscount = {}, isProcessing = false }) => {
+  const { t } = useLanguage();
+  const [quantities, setQuantities] = useState<Record<number, number>>({});
+
+  useEffect(() => {
+    if (isOpen) setQuantities({});
+  }, [isOpen]);
+
+  const creditableItems = useMemo(() => items
+    .filter(item => item.id)
+    .map(item => ({ ...item, remaining: Number(item.quantity || 0) - (creditedQuantities.get(item.id!) || 0) })),
+  [items, creditedQuantities]);
+
+  const creditTotal = useMemo(() => {
+    const creditedItems = creditableItems.map(item => ({
+      quantity: quantities[item.id!] || 0,
+      unit_price: item.unit_price,
+      vat_rate: item.vat_rate,
+      ...toPercentDiscount(Number(item.quantity || 0) * Number(item.unit_price || 0), item),
+    }));
+    const discount = toPercentDiscount(calculateDocumentTotals(items).subtotal, documentDiscount);
+    return calculateDocumentTotals(creditedItems, discount).grandTotal;
+  }, [creditableItems, quantities, items, documentDiscount]);
+
+  const handleQuantityChange = (itemId: number, value: string, remaining: number) => {
+    const numericValue = parseFloat(value);
+    const clamped = isNaN(numericValue) ? 0 : Math.min(Math.max(numericValue, 0), remaining);
+    setQuantities(prev => ({ ...prev, [itemId]: clamped }));
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50" role="dialog" aria-modal="true" aria-labelledby="credit-note-modal-title">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl p-6 flex flex-col max-h-[80vh]">
+        <h2 id="credit-note-modal-title" className="text-xl font-bold mb-2">{t('createCreditNote')}</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">{t('creditNoteQuantityHint')}</p>
+
+        <div className="flex-1 overflow-y-auto border-t border-b dark:border-gray-700">
+          <table className="min-w-full">
+            <thead><tr className="text-left text-sm text-gray-500 dark:text-gray-400">
+              <th className="py-2 pr-4">{t('description')}</th>
+              <th className="py-2 pr-4 w-28 text-right">{t('remainingQuantity')}</th>
+              <th className="py-2 w-32">{t('quantity')}</th>
+            </tr></thead>
+            <tbody className="divide-y dark:divide-gray-700">
+              {creditableItems.map(item => (
+                <tr key={item.id}>
+                  <td className="py-2 pr-4 text-sm">{item.description}<span className="block text-xs text-gray-500">€{(item.unit_price || 0).toFixed(2)}{item.discount_type && item.discount_value ? <> &middot; -{formatDiscount(item)}</> : null} &middot; {item.vat_rate}%</span></td>
+                  <td className="py-2 pr-4 text-sm text-right">{item.remaining}</td>
+                  <td className="py-2">
+                    <input type="number" min={0} max={item.remaining} step="any" value={quantities[item.id!] ?? ''} onChange={(e) => handleQuantityChange(item.id!, e.target.value, item.remaining)} disabled={item.remaining <= 0} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600 disabled:bg-gray-100 dark:disabled:bg-gray-700/50"/>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-between items-center pt-4">
+          <span className="font-bold">{t('total')}: €{(-creditTotal).toFixed(2)}</span>
+          <div className="flex space-x-2">
+            <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 rounded-md dark:bg-gray-600">
+              {t('cancel')}
+            </button>
+            <button
+              type="button"
+              onClick={() => onConfirm(quantities)}
+              disabled={isProcessing || creditTotal === 0}
+              className="px-4 py-2 text-white bg-primary-600 rounded-md disabled:bg-primary-300"
+            >
+              {isProcessing ? t('processing') : t('createCreditNote')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CreditNoteModal;
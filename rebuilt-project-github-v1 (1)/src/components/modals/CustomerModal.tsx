@@ -4,8 +4,14 @@ import React, { useState, useEffect } from 'react';
 import { supabase } from '../../services/supabase';
 import { useAuth } from '../../contexts/AuthContext';
 import { useLanguage } from '../../contexts/LanguageContext';
-import { Customer, Organization } from '../../types';
+import { Customer, Organization, SepaSequenceType, TaxTreatment } from '../../types';
 import { generateNextNumber } from '../../lib/numberGenerator';
+import { formatPaymentTerm, getPaymentTerms } from '../../lib/paymentTerms';
+import { requiresCustomerVatId, TAX_TREATMENTS } from '../../lib/taxTreatment';
+import { normalizeIban, validateSepaMandate } from '../../lib/sepa';
+import { parseAsLocalDate } from '../../lib/formatting';
+import DatePicker from '../ui/DatePicker';
+import { format } from 'date-fns';
 
 interface CustomerModalProps {
   customer: Customer | null;
@@ -15,17 +21,27 @@ interface CustomerModalProps {
 
 const CustomerModal: React.FC<CustomerModalProps> = ({ customer, closeModal, onSave }) => {
   const { user, profile } = useAuth();
-  const { t } = useLanguage();
+  const { t, language } = useLanguage();
   const [formData, setFormData] = useState({
     name: customer?.name || '',
     email: customer?.email || '',
     phone: customer?.phone || '',
     address: customer?.address || '',
+    vat_id: customer?.vat_id || '',
+    buyer_reference: customer?.buyer_reference || '',
+    payment_term_id: customer?.payment_term_id || '',
+    tax_treatment: (customer?.tax_treatment || 'domestic') as TaxTreatment,
     is_reminder_relevant: customer?.is_reminder_relevant || false,
+    sepa_mandate_id: customer?.sepa_mandate_id || '',
+    sepa_mandate_date: customer?.sepa_mandate_date || '',
+    sepa_iban: customer?.sepa_iban || '',
+    sepa_bic: customer?.sepa_bic || '',
+    sepa_sequence_type: (customer?.sepa_sequence_type || 'FRST') as SepaSequenceType,
+    datev_account: customer?.datev_account ? String(customer.datev_account) : '',
   });
   const [organization, setOrganization] = useState<Organization | null>(null);
   const [loading, setLoading] = useState(false);
-  const [errors, setErrors] = useState<{ email?: string; phone?: string }>({});
+  const [errors, setErrors] = useState<{ email?: string; phone?: string; vat_id?: string; sepa?: string; datev_account?: string }>({});
   
   useEffect(() => {
     const fetchOrg = async () => {
@@ -38,7 +54,7 @@ const CustomerModal: React.FC<CustomerModalProps> = ({ customer, closeModal, onS
   }, [profile]);
   
   const validate = () => {
-    const newErrors: { email?: string; phone?: string } = {};
+    const newErrors: { email?: string; phone?: string; vat_id?: string; sepa?: string; datev_account?: string } = {};
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
     const phoneRegex = /^[+\d()-\s]*$/;
 
@@ -48,12 +64,22 @@ const CustomerModal: React.FC<CustomerModalProps> = ({ customer, closeModal, onS
     if (formData.phone && !phoneRegex.test(formData.phone)) {
       newErrors.phone = 'Please enter a valid phone number format.';
     }
+    if (formData.datev_account.trim() && !/^\d{5,9}$/.test(formData.datev_account.trim())) {
+      newErrors.datev_account = t('datevDebtorAccountInvalid');
+    }
+    if (requiresCustomerVatId(formData.tax_treatment) && !formData.vat_id.trim()) {
+      newErrors.vat_id = t('taxTreatmentRequiresVatId');
+    }
+    const sepaErrors = validateSepaMandate(formData);
+    if (sepaErrors.length > 0) {
+      newErrors.sepa = sepaErrors.join(' ');
+    }
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value, type } = e.target;
     const isCheckbox = type === 'checkbox';
     
@@ -62,7 +88,22 @@ const CustomerModal: React.FC<CustomerModalProps> = ({ customer, closeModal, onS
       setErrors(prev => ({ ...prev, [name]: undefined }));
     }
   };
+
+  // Customers without a mandate store no SEPA data at all.
+  const getSepaData = () => {
+    const hasMandate = !!formData.sepa_mandate_id.trim();
+    return {
+      sepa_mandate_id: hasMandate ? formData.sepa_mandate_id.trim() : null,
+      sepa_mandate_date: hasMandate ? formData.sepa_mandate_date || null : null,
+      sepa_iban: hasMandate ? normalizeIban(formData.sepa_iban) : null,
+      sepa_bic: hasMandate ? formData.sepa_bic.replace(/\s+/g, '').toUpperCase() || null : null,
+      sepa_sequence_type: hasMandate ? formData.sepa_sequence_type : null,
+    };
+  };
   
+  // Without a number the debtor account is allocated automatically from the range of the DATEV settings.
+  const getDatevAccount = () => (formData.datev_account.trim() ? parseInt(formData.datev_account, 10) : null);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!validate()) {
@@ -76,7 +117,7 @@ const CustomerModal: React.FC<CustomerModalProps> = ({ customer, closeModal, onS
 
     try {
         if (customer?.id) { // Editing
-            const customerData = { ...formData };
+            const customerData = { ...formData, payment_term_id: formData.payment_term_id || null, ...getSepaData(), datev_account: getDatevAccount() };
             const { data, error } = await supabase
                 .from('customers')
                 .update(customerData)
@@ -91,6 +132,9 @@ const CustomerModal: React.FC<CustomerModalProps> = ({ customer, closeModal, onS
             const newNumber = await generateNextNumber(profile.org_id, 'customer');
             const customerData = { 
                 ...formData, 
+                payment_term_id: formData.payment_term_id || null,
+                ...getSepaData(),
+                datev_account: getDatevAccount(),
                 user_id: user.id,
                 org_id: profile.org_id,
                 customer_number: newNumber,
@@ -130,7 +174,52 @@ const CustomerModal: React.FC<CustomerModalProps> = ({ customer, closeModal, onS
                 <div>
                   <textarea name="address" value={formData.address} onChange={handleChange} placeholder={t('address')} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
                 </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div>
+                    <input name="vat_id" value={formData.vat_id} onChange={handleChange} placeholder={t('customerVatId')} className={`w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600 ${errors.vat_id ? 'border-red-500' : ''}`}/>
+                    {errors.vat_id && <p className="text-red-500 text-xs mt-1">{errors.vat_id}</p>}
+                  </div>
+                  <input name="buyer_reference" value={formData.buyer_reference} onChange={handleChange} placeholder={t('buyerReference')} title={t('buyerReferenceHint')} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium">{t('taxTreatment')}</label>
+                    <select name="tax_treatment" value={formData.tax_treatment} onChange={handleChange} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                        {TAX_TREATMENTS.map(treatment => <option key={treatment} value={treatment}>{t(`taxTreatment_${treatment}`)}</option>)}
+                    </select>
+                </div>
+                {getPaymentTerms(organization).length > 0 && (
+                    <div>
+                        <label className="block text-sm font-medium">{t('paymentTerms')}</label>
+                        <select name="payment_term_id" value={formData.payment_term_id} onChange={handleChange} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                            <option value="">{t('organizationDefault')}</option>
+                            {getPaymentTerms(organization).map(term => <option key={term.id} value={term.id}>{formatPaymentTerm(term, language)}</option>)}
+                        </select>
+                    </div>
+                )}
                 
+                <fieldset className="p-3 border rounded dark:border-gray-600 space-y-2">
+                    <legend className="px-1 text-sm font-medium">{t('sepaMandate')}</legend>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                        <input name="sepa_mandate_id" value={formData.sepa_mandate_id} onChange={handleChange} placeholder={t('sepaMandateId')} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+                        <div title={t('sepaMandateDate')}><DatePicker selected={parseAsLocalDate(formData.sepa_mandate_date)} onChange={date => setFormData(prev => ({ ...prev, sepa_mandate_date: date ? format(date, 'yyyy-MM-dd') : '' }))} /></div>
+                        <input name="sepa_iban" value={formData.sepa_iban} onChange={handleChange} placeholder="IBAN" className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+                        <input name="sepa_bic" value={formData.sepa_bic} onChange={handleChange} placeholder={`BIC (${t('optional')})`} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+                    </div>
+                    <select name="sepa_sequence_type" value={formData.sepa_sequence_type} onChange={handleChange} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                        <option value="FRST">{t('sepaSequence_FRST')}</option>
+                        <option value="RCUR">{t('sepaSequence_RCUR')}</option>
+                    </select>
+                    {errors.sepa && <p className="text-red-500 text-xs">{errors.sepa}</p>}
+                </fieldset>
+
+                {organization?.is_datev_export_enabled && (
+                    <div>
+                        <label className="block text-sm font-medium">{t('datevDebtorAccount')}</label>
+                        <input name="datev_account" inputMode="numeric" value={formData.datev_account} onChange={handleChange} placeholder={t('datevDebtorAccountAutomatic')} className={`mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600 ${errors.datev_account ? 'border-red-500' : ''}`}/>
+                        {errors.datev_account && <p className="text-red-500 text-xs mt-1">{errors.datev_account}</p>}
+                    </div>
+                )}
+
                 {organization?.is_visit_reminder_enabled && (
                     <div className="flex items-center">
                         <input id="is_reminder_relevant" name="is_reminder_relevant" type="checkbox" checked={formData.is_reminder_relevant} onChange={handleChange} className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"/>
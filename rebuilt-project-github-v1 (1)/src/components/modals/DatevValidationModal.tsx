@@ -0,0 +1,72 @@
+import React from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { DatevExport, DatevSkippedRecord } from '../../lib/datev';
+import { formatEuropeanDate } from '../../lib/formatting';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+
+interface DatevValidationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: () => void;
+  datevExport: DatevExport | null;
+}
+
+const DatevValidationModal: React.FC<DatevValidationModalProps> = ({ isOpen, onClose, onConfirm, datevExport }) => {
+  const { t } = useLanguage();
+
+  if (!isOpen || !datevExport) return null;
+
+  const bookingCount = datevExport.batches.reduce((sum, batch) => sum + batch.bookings.length, 0);
+
+  const detailLabel = (record: DatevSkippedRecord) => {
+    if (!record.detail) return '';
+    if (record.reason === 'missing_expense_account') return t(record.detail as any);
+    if (record.reason === 'missing_revenue_account') return record.detail.split(', ').map(detail => (detail.endsWith('%') ? detail : t(`taxTreatment_${detail}` as any))).join(', ');
+    return record.detail;
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50" role="dialog" aria-modal="true" aria-labelledby="datev-validation-modal-title">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-3xl p-6 max-h-[90vh] flex flex-col">
+        <h2 id="datev-validation-modal-title" className="text-xl font-bold mb-4 flex items-center gap-x-2">
+          <ExclamationTriangleIcon className="w-6 h-6 text-yellow-500" /> {t('datevValidationReport')}
+        </h2>
+        <p className="text-sm text-gray-600 dark:text-gray-300">
+          {t('datevBookingsReady').replace('{count}', String(bookingCount)).replace('{batches}', String(datevExport.batches.length))}
+        </p>
+        <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">{t('datevSkippedRecords').replace('{count}', String(datevExport.skipped.length))}</p>
+
+        <div className="overflow-auto mt-4 border-t dark:border-gray-700">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 dark:text-gray-400 uppercase">
+                <th className="px-3 py-2">{t('datevDocument')}</th>
+                <th className="px-3 py-2">{t('date')}</th>
+                <th className="px-3 py-2">{t('datevSkipReason')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {datevExport.skipped.map((record, index) => (
+                <tr key={index} className="border-b dark:border-gray-700">
+                  <td className="px-3 py-2">{t(record.documentType)} #{record.documentNumber}</td>
+                  <td className="px-3 py-2">{formatEuropeanDate(record.date)}</td>
+                  <td className="px-3 py-2">
+                    {t(`datevSkip_${record.reason}` as any)}
+                    {record.detail && <span className="text-gray-500"> ({detailLabel(record)})</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-end space-x-2 pt-6">
+          <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 rounded-md text-sm font-medium hover:bg-gray-300 dark:bg-gray-600 dark:hover:bg-gray-500">{t('cancel')}</button>
+          <button type="button" onClick={onConfirm} disabled={bookingCount === 0} className="px-4 py-2 text-white bg-primary-600 rounded-md text-sm font-medium hover:bg-primary-700 disabled:opacity-50">{t('exportAnyway')}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DatevValidationModal;
@@ -0,0 +1,73 @@
+import React, { useState, useEffect } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { DownPaymentAmount } from '../../lib/downPayments';
+import DiscountInput from '../ui/DiscountInput';
+
+interface DownPaymentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (amount: DownPaymentAmount) => void;
+  quoteTotal: number;
+  billedTotal: number;
+  isProcessing?: boolean;
+}
+
+const DownPaymentModal: React.FC<DownPaymentModalProps> = ({ isOpen, onClose, onConfirm, quoteTotal, billedTotal, isProcessing = false }) => {
+  const { t } = useLanguage();
+  const [amount, setAmount] = useState<DownPaymentAmount>({ type: 'percent', value: 0 });
+
+  useEffect(() => {
+    if (isOpen) setAmount({ type: 'percent', value: 0 });
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const remaining = Math.round((quoteTotal - billedTotal) * 100) / 100;
+  const grossAmount = Math.round((amount.type === 'percent' ? quoteTotal * amount.value / 100 : amount.value) * 100) / 100;
+  const isValid = grossAmount > 0 && grossAmount <= remaining;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50" role="dialog" aria-modal="true" aria-labelledby="down-payment-modal-title">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md p-6">
+        <h2 id="down-payment-modal-title" className="text-xl font-bold mb-2">{t('createDownPaymentInvoice')}</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">{t('downPaymentHint')}</p>
+
+        <div className="space-y-2 text-sm">
+          <div className="flex justify-between"><span>{t('quoteTotal')}:</span><span>€{quoteTotal.toFixed(2)}</span></div>
+          <div className="flex justify-between"><span>{t('billedAmount')}:</span><span>€{billedTotal.toFixed(2)}</span></div>
+          <div className="flex justify-between font-medium"><span>{t('remainingAmount')}:</span><span>€{remaining.toFixed(2)}</span></div>
+          <div className="flex justify-between items-center gap-4 pt-2">
+            <label className="font-medium">{t('downPayment')}:</label>
+            <div className="w-40">
+              <DiscountInput
+                discountType={amount.type}
+                discountValue={amount.value}
+                onChange={(value) => setAmount({ type: value.discount_type || 'percent', value: value.discount_value || 0 })}
+              />
+            </div>
+          </div>
+          {grossAmount > remaining && <p className="text-xs text-red-600">{t('downPaymentExceedsRemaining')}</p>}
+        </div>
+
+        <div className="flex justify-between items-center pt-6">
+          <span className="font-bold">{t('total')}: €{grossAmount.toFixed(2)}</span>
+          <div className="flex space-x-2">
+            <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 rounded-md dark:bg-gray-600">
+              {t('cancel')}
+            </button>
+            <button
+              type="button"
+              onClick={() => onConfirm(amount)}
+              disabled={isProcessing || !isValid}
+              className="px-4 py-2 text-white bg-primary-600 rounded-md disabled:bg-primary-300"
+            >
+              {isProcessing ? t('processing') : t('createDownPaymentInvoice')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DownPaymentModal;
@@ -0,0 +1,167 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../../services/supabase';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { Expense } from '../../types';
+import { EXPENSE_ATTACHMENTS_BUCKET, ParsedEInvoice, readEInvoiceFile } from '../../lib/eInvoiceImport';
+import { EInvoiceParty } from '../../lib/eInvoice';
+import { formatEuropeanDate } from '../../lib/formatting';
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+
+interface EInvoiceViewerModalProps {
+  // Either an already parsed invoice (preview before saving) or an expense whose attachment is loaded from storage.
+  invoice?: ParsedEInvoice | null;
+  expense?: Expense | null;
+  closeModal: () => void;
+}
+
+const EInvoiceViewerModal: React.FC<EInvoiceViewerModalProps> = ({ invoice: initialInvoice, expense, closeModal }) => {
+  const { t } = useLanguage();
+  const [invoice, setInvoice] = useState<ParsedEInvoice | null>(initialInvoice || null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (initialInvoice || !expense?.attachment_path) return;
+    const loadInvoice = async () => {
+      const { data, error: downloadError } = await supabase.storage.from(EXPENSE_ATTACHMENTS_BUCKET).download(expense.attachment_path!);
+      if (downloadError || !data) {
+        setError(downloadError?.message || 'File not found.');
+        return;
+      }
+      try {
+        const { invoice: parsed } = await readEInvoiceFile(data, expense.attachment_name || expense.attachment_path!);
+        setInvoice(parsed);
+      } catch (parseError: any) {
+        setError(parseError.message);
+      }
+    };
+    loadInvoice();
+  }, [initialInvoice, expense]);
+
+  const handleDownloadOriginal = async () => {
+    if (!expense?.attachment_path) return;
+    const { data, error: downloadError } = await supabase.storage.from(EXPENSE_ATTACHMENTS_BUCKET).download(expense.attachment_path);
+    if (downloadError || !data) { alert("Error downloading file: " + downloadError?.message); return; }
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([data], { type: expense.attachment_mime_type || data.type }));
+    link.download = expense.attachment_name || 'e-invoice';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+  };
+
+  const money = (value: number) => `${value.toFixed(2)} ${invoice?.currency === 'EUR' ? '€' : invoice?.currency || ''}`;
+
+  const PartyBlock: React.FC<{ title: string; party: EInvoiceParty }> = ({ title, party }) => (
+    <div>
+      <h3 className="text-xs font-semibold uppercase text-gray-500 dark:text-gray-400 mb-1">{title}</h3>
+      <p className="font-medium">{party.name || '-'}</p>
+      {party.street && <p>{party.street}</p>}
+      <p>{[party.countryCode, party.postalCode].filter(Boolean).join('-')} {party.city}</p>
+      {party.vatId && <p className="text-gray-500 dark:text-gray-400">{t('vat_id')}: {party.vatId}</p>}
+      {party.email && <p className="text-gray-500 dark:text-gray-400">{party.email}</p>}
+      {party.phone && <p className="text-gray-500 dark:text-gray-400">{party.phone}</p>}
+    </div>
+  );
+
+  const thClass = "px-3 py-2 text-left text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase border-b border-gray-200 dark:border-gray-700";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50" role="dialog" aria-modal="true" aria-labelledby="einvoice-viewer-title">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-3xl p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-start mb-4">
+          <h2 id="einvoice-viewer-title" className="text-xl font-bold">
+            {invoice?.typeCode === '381' ? t('eInvoiceCreditNote') : t('eInvoice')} {invoice?.number}
+          </h2>
+          {invoice && <span className="px-2 py-1 text-xs font-semibold rounded-full bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300">{invoice.format === 'ubl' ? 'UBL' : 'CII'}</span>}
+        </div>
+
+        {error ? (
+          <p className="p-4 text-red-600">{error}</p>
+        ) : !invoice ? (
+          <p className="p-4 text-center text-gray-500">{t('loading')}</p>
+        ) : (
+          <div className="space-y-6 text-sm">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+              <PartyBlock title={t('supplier')} party={invoice.seller} />
+              <PartyBlock title={t('recipient')} party={invoice.buyer} />
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 p-3 bg-gray-50 dark:bg-gray-700/50 rounded-md">
+              <div><p className="text-xs text-gray-500 dark:text-gray-400">{t('issue_date')}</p><p>{invoice.issueDate ? formatEuropeanDate(invoice.issueDate) : '-'}</p></div>
+              <div><p className="text-xs text-gray-500 dark:text-gray-400">{t('due_date')}</p><p>{invoice.dueDate ? formatEuropeanDate(invoice.dueDate) : '-'}</p></div>
+              <div><p className="text-xs text-gray-500 dark:text-gray-400">{t('buyerReference')}</p><p>{invoice.buyerReference || '-'}</p></div>
+              <div><p className="text-xs text-gray-500 dark:text-gray-400">{t('iban')}</p><p className="font-mono">{invoice.iban || '-'}</p></div>
+            </div>
+            {invoice.precedingInvoice && (
+              <p className="text-gray-500 dark:text-gray-400">{t('correctionForInvoice').replace('{number}', invoice.precedingInvoice.number).replace('{date}', invoice.precedingInvoice.issueDate ? formatEuropeanDate(invoice.precedingInvoice.issueDate) : '-')}</p>
+            )}
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full">
+                <thead>
+                  <tr>
+                    <th className={thClass}>#</th>
+                    <th className={thClass}>{t('description')}</th>
+                    <th className={`${thClass} text-right`}>{t('quantity')}</th>
+                    <th className={`${thClass} text-right`}>{t('unitPrice')}</th>
+                    <th className={`${thClass} text-right`}>{t('vat')}</th>
+                    <th className={`${thClass} text-right`}>{t('total')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {invoice.lines.map((line, index) => (
+                    <tr key={`${line.id}-${index}`} className="border-b border-gray-100 dark:border-gray-700">
+                      <td className="px-3 py-2 text-gray-500">{line.id}</td>
+                      <td className="px-3 py-2">{line.name}</td>
+                      <td className="px-3 py-2 text-right whitespace-nowrap">{line.quantity} <span className="text-xs text-gray-500">{line.unitCode}</span></td>
+                      <td className="px-3 py-2 text-right whitespace-nowrap">{money(line.unitPrice)}</td>
+                      <td className="px-3 py-2 text-right whitespace-nowrap">{line.vatRate}% <span className="text-xs text-gray-500">{line.vatCategory}</span></td>
+                      <td className="px-3 py-2 text-right whitespace-nowrap">{money(line.netAmount)}{line.allowanceAmount ? <span className="block text-xs text-gray-500">{t('discount')} -{money(line.allowanceAmount)}</span> : null}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex justify-end">
+              <dl className="w-full sm:w-72 space-y-1">
+                <div className="flex justify-between"><dt>{t('subtotal')}</dt><dd>{money(invoice.lineTotal)}</dd></div>
+                {invoice.allowances.map((allowance, index) => (
+                  <div key={index} className="flex justify-between text-gray-500 dark:text-gray-400">
+                    <dt>{allowance.reason || t('documentDiscount')} ({allowance.vatRate}%)</dt><dd>-{money(allowance.amount)}</dd>
+                  </div>
+                ))}
+                {invoice.allowanceTotal > 0 && <div className="flex justify-between"><dt>{t('netTotal')}</dt><dd>{money(invoice.grandTotal - invoice.taxTotal)}</dd></div>}
+                {invoice.taxes.map((tax, index) => (
+                  <div key={index} className="flex justify-between text-gray-500 dark:text-gray-400">
+                    <dt>{t('vat')} {tax.vatRate}% ({tax.vatCategory}) · {money(tax.taxableAmount)}</dt><dd>{money(tax.taxAmount)}</dd>
+                  </div>
+                ))}
+                <div className="flex justify-between font-bold border-t pt-1 dark:border-gray-600"><dt>{t('total')}</dt><dd>{money(invoice.grandTotal)}</dd></div>
+                {invoice.prepaidAmount > 0 && <div className="flex justify-between"><dt>{t('paidAmount')}</dt><dd>{money(invoice.prepaidAmount)}</dd></div>}
+                {invoice.amountDue !== invoice.grandTotal && <div className="flex justify-between font-bold"><dt>{t('openBalance')}</dt><dd>{money(invoice.amountDue)}</dd></div>}
+              </dl>
+            </div>
+
+            {invoice.note && <p className="whitespace-pre-wrap text-gray-600 dark:text-gray-300">{invoice.note}</p>}
+            {invoice.taxes.filter(tax => tax.exemptionReason).map((tax, index) => (
+              <p key={index} className="text-xs text-gray-500">{tax.vatCategory}: {tax.exemptionReason}</p>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-2 pt-6">
+          {expense?.attachment_path && (
+            <button type="button" onClick={handleDownloadOriginal} className="inline-flex items-center px-4 py-2 bg-gray-200 rounded dark:bg-gray-700">
+              <ArrowDownTrayIcon className="w-5 h-5 mr-2" /> {t('downloadOriginal')}
+            </button>
+          )}
+          <button type="button" onClick={closeModal} className="px-4 py-2 text-white bg-primary-600 rounded">{t('close')}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EInvoiceViewerModal;
@@ -1,13 +1,21 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { supabase } from '../../services/supabase';
 import { useAuth } from '../../contexts/AuthContext';
 import { useLanguage } from '../../contexts/LanguageContext';
-import { Expense } from '../../types';
+import { Expense, ExpenseVatLine, VatRate } from '../../types';
 import { generateNextNumber } from '../../lib/numberGenerator';
 import DatePicker from '../ui/DatePicker';
 import { format } from 'date-fns';
 import { parseAsLocalDate } from '../../lib/formatting';
 import { EXPENSE_CATEGORIES } from '../../constants';
+import { EXPENSE_ATTACHMENTS_BUCKET, ParsedEInvoice, readEInvoiceFile } from '../../lib/eInvoiceImport';
+import { calculateExpenseVatTotals, createVatLineFromGross, getExpenseVatLines } from '../../lib/expenseVat';
+import { getDefaultVatRate, getVatRateOptions, getVatRates } from '../../lib/vatRates';
+import { canApproveExpenses, notifyExpenseSubmitted, openExpenseAttachment, RECEIPT_ACCEPT, validateReceiptFile } from '../../lib/expenseApproval';
+import EInvoiceViewerModal from './EInvoiceViewerModal';
+import { DocumentArrowUpIcon, EyeIcon, PaperClipIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+
+const emptyVatLine = (vatRate: number): ExpenseVatLine => ({ vat_rate: vatRate, net_amount: 0, vat_amount: 0, is_deductible: true });
 
 interface ExpenseModalProps {
   expense: Expense | null;
@@ -21,29 +29,150 @@ const ExpenseModal: React.FC<ExpenseModalProps> = ({ expense, closeModal, onSave
   const [expenseDate, setExpenseDate] = useState<Date | null>(new Date());
   const [formData, setFormData] = useState({
     description: '',
-    amount: 0,
     category: EXPENSE_CATEGORIES[0].id, // Default to the first category
+    supplier_name: '',
+    supplier_invoice_number: '',
   });
+  const [vatRates, setVatRates] = useState<VatRate[]>(getVatRates());
+  // One line per VAT rate of the receipt; the amount of the expense is their gross total.
+  const [vatLines, setVatLines] = useState<ExpenseVatLine[]>([emptyVatLine(getDefaultVatRate(vatRates))]);
   const [loading, setLoading] = useState(false);
+  // An imported e-invoice: the file is uploaded to storage when the expense is saved.
+  const [eInvoiceFile, setEInvoiceFile] = useState<File | null>(null);
+  const [parsedInvoice, setParsedInvoice] = useState<ParsedEInvoice | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isViewerOpen, setIsViewerOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // A photo or PDF of the receipt, uploaded when the expense is saved. It replaces an imported e-invoice and vice versa.
+  const [receiptFile, setReceiptFile] = useState<File | null>(null);
+  const receiptInputRef = useRef<HTMLInputElement>(null);
+
+  const isApprover = canApproveExpenses(profile?.role);
+  // Approved expenses are locked for their submitter; a rejected one is resubmitted when its submitter saves it.
+  const isLocked = !!expense && !isApprover && (expense.status === 'approved' || expense.status === 'reimbursed');
+  const isResubmission = expense?.status === 'rejected' && expense.user_id === user?.id;
 
   useEffect(() => {
     if (expense) {
       setExpenseDate(parseAsLocalDate(expense.expense_date));
       setFormData({
         description: expense.description,
-        amount: expense.amount,
         category: expense.category || EXPENSE_CATEGORIES[0].id,
+        supplier_name: expense.supplier_name || '',
+        supplier_invoice_number: expense.supplier_invoice_number || '',
       });
+      setVatLines(getExpenseVatLines(expense));
     } else {
         setExpenseDate(new Date());
     }
   }, [expense]);
 
+  useEffect(() => {
+    if (!profile?.org_id) return;
+    supabase.from('organizations').select('vat_rates, datev_settings').eq('id', profile.org_id).single().then(({ data }) => {
+      if (!data) return;
+      const rates = getVatRates(data);
+      setVatRates(rates);
+      if (!expense) setVatLines([emptyVatLine(getDefaultVatRate(rates))]);
+    });
+  }, [profile?.org_id, expense]);
+
+  const vatTotals = calculateExpenseVatTotals(vatLines);
+  const vatRateOptions = getVatRateOptions(vatRates, expenseDate, vatLines.map(line => line.vat_rate));
+
+  // The gross amount of a line is entered from the receipt; net and VAT are derived from it.
+  const handleVatLineChange = (index: number, changes: { vat_rate?: number; gross?: number; is_deductible?: boolean }) => {
+    setVatLines(prev => prev.map((line, i) => {
+      if (i !== index) return line;
+      const gross = changes.gross ?? Number(line.net_amount) + Number(line.vat_amount);
+      return createVatLineFromGross(gross, changes.vat_rate ?? line.vat_rate, changes.is_deductible ?? line.is_deductible);
+    }));
+  };
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value, type } = e.target;
     // Check if the target is an input element before accessing 'type'
     const isNumberInput = (e.target instanceof HTMLInputElement) && type === 'number';
-    setFormData(prev => ({ ...prev, [name]: isNumberInput ? (value === '' ? null : parseFloat(value)) : value }));
+    setFormData(prev => ({
+      ...prev,
+      [name]: isNumberInput ? (value === '' ? null : parseFloat(value)) : value,
+    }));
+  };
+
+  const handleImportEInvoice = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setImportError(null);
+    try {
+      const { invoice } = await readEInvoiceFile(file, file.name);
+      // Credit notes reduce the expenses.
+      const sign = invoice.typeCode === '381' ? -1 : 1;
+      const netAmount = Math.round((invoice.grandTotal - invoice.taxTotal) * 100) / 100;
+      setEInvoiceFile(file);
+      setParsedInvoice(invoice);
+      setReceiptFile(null);
+      setFormData(prev => ({
+        ...prev,
+        description: [invoice.seller.name, invoice.number].filter(Boolean).join(' – '),
+        supplier_name: invoice.seller.name,
+        supplier_invoice_number: invoice.number,
+      }));
+      // The VAT breakdown of the e-invoice becomes the VAT lines of the expense.
+      setVatLines(invoice.taxes.length > 0
+        ? invoice.taxes.map(tax => ({ vat_rate: tax.vatRate, net_amount: sign * tax.taxableAmount, vat_amount: sign * tax.taxAmount, is_deductible: true }))
+        : [{ vat_rate: netAmount ? Math.round(invoice.taxTotal / netAmount * 1000) / 10 : 0, net_amount: sign * netAmount, vat_amount: sign * invoice.taxTotal, is_deductible: true }]);
+      if (invoice.issueDate) setExpenseDate(parseAsLocalDate(invoice.issueDate));
+    } catch (error: any) {
+      setImportError(error.message);
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleSelectReceipt = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setImportError(null);
+    try {
+      validateReceiptFile(file);
+      setReceiptFile(file);
+      setEInvoiceFile(null);
+      setParsedInvoice(null);
+    } catch (error: any) {
+      setImportError(error.message);
+    }
+    if (receiptInputRef.current) receiptInputRef.current.value = '';
+  };
+
+  const handleViewReceipt = async () => {
+    if (!expense) return;
+    try {
+      await openExpenseAttachment(expense);
+    } catch (error: any) {
+      alert('Error opening receipt: ' + error.message);
+    }
+  };
+
+  // Stores the receipt or imported e-invoice with the expense, replacing an earlier attachment.
+  const uploadAttachment = async (expenseId: number) => {
+    const file = eInvoiceFile || receiptFile;
+    if (!file || !profile?.org_id) return;
+    const filePath = `${profile.org_id}/${expenseId}/${Date.now()}-${file.name}`;
+    const { error: uploadError } = await supabase.storage.from(EXPENSE_ATTACHMENTS_BUCKET).upload(filePath, file);
+    if (uploadError) throw new Error(`Expense saved, but the ${eInvoiceFile ? 'e-invoice' : 'receipt'} could not be stored: ${uploadError.message}`);
+
+    const { error: updateError } = await supabase.from('expenses').update({
+      attachment_path: filePath,
+      attachment_name: file.name,
+      attachment_mime_type: file.type || (eInvoiceFile ? 'application/xml' : 'application/octet-stream'),
+      e_invoice_format: eInvoiceFile && parsedInvoice ? parsedInvoice.format : null,
+    }).eq('id', expenseId);
+    if (updateError) {
+      await supabase.storage.from(EXPENSE_ATTACHMENTS_BUCKET).remove([filePath]);
+      throw new Error(updateError.message);
+    }
+    if (expense?.attachment_path) {
+      await supabase.storage.from(EXPENSE_ATTACHMENTS_BUCKET).remove([expense.attachment_path]);
+    }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -63,8 +192,13 @@ const ExpenseModal: React.FC<ExpenseModalProps> = ({ expense, closeModal, onSave
     try {
       let expenseData: Partial<Expense> = {
         ...formData,
+        supplier_name: formData.supplier_name || null,
+        supplier_invoice_number: formData.supplier_invoice_number || null,
         expense_date: format(expenseDate, 'yyyy-MM-dd'),
-        amount: Number(formData.amount),
+        amount: vatTotals.gross,
+        net_amount: vatTotals.net,
+        vat_amount: vatTotals.vat,
+        vat_lines: vatLines,
         org_id: profile.org_id, // Always include org_id to satisfy RLS on update.
       };
 
@@ -73,6 +207,10 @@ const ExpenseModal: React.FC<ExpenseModalProps> = ({ expense, closeModal, onSave
         // Also preserve fields not on the form
         expenseData.user_id = expense.user_id;
         expenseData.expense_number = expense.expense_number;
+        if (isResubmission) {
+          expenseData.status = 'submitted';
+          expenseData.rejection_reason = null;
+        }
       } else { // Creating
         const newNumber = await generateNextNumber(profile.org_id, 'expense');
         expenseData = {
@@ -82,13 +220,17 @@ const ExpenseModal: React.FC<ExpenseModalProps> = ({ expense, closeModal, onSave
         };
       }
       
-      const { error } = await supabase
+      const { data: savedExpense, error } = await supabase
         .from('expenses')
         .upsert(expenseData)
         .select()
         .single();
 
       if (error) throw error;
+      await uploadAttachment(savedExpense.id);
+      if (!expense?.id || isResubmission) {
+        await notifyExpenseSubmitted(savedExpense, profile);
+      }
       
       onSave(); // Call parameter-less success callback
 
@@ -101,9 +243,46 @@ const ExpenseModal: React.FC<ExpenseModalProps> = ({ expense, closeModal, onSave
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50" role="dialog" aria-modal="true" aria-labelledby="expense-modal-title">
-      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-lg p-6">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl p-6 max-h-[90vh] overflow-y-auto">
         <h2 id="expense-modal-title" className="text-xl font-bold mb-4">{expense ? `${t('editExpense')} (${expense.expense_number})` : t('addExpense')}</h2>
+        {expense?.status === 'rejected' && (
+          <div className="mb-4 p-3 text-sm rounded-md bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-300">
+            <p className="font-medium">{t('expenseRejectedHint')}</p>
+            {expense.rejection_reason && <p className="mt-1">{expense.rejection_reason}</p>}
+          </div>
+        )}
+        {isLocked && (
+          <div className="mb-4 p-3 text-sm rounded-md bg-yellow-50 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-300">{t('expenseLockedHint')}</div>
+        )}
         <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="p-3 border border-dashed rounded-md dark:border-gray-600">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm text-gray-600 dark:text-gray-300">
+                {(eInvoiceFile || receiptFile)?.name || expense?.attachment_name || t('attachReceiptHint')}
+              </p>
+              <div className="flex gap-2">
+                {(parsedInvoice || (!receiptFile && expense?.e_invoice_format)) && (
+                  <button type="button" onClick={() => setIsViewerOpen(true)} className="inline-flex items-center px-3 py-1.5 text-sm bg-gray-200 rounded dark:bg-gray-700">
+                    <EyeIcon className="w-4 h-4 mr-1" /> {t('view')}
+                  </button>
+                )}
+                {!eInvoiceFile && !receiptFile && expense?.attachment_path && !expense.e_invoice_format && (
+                  <button type="button" onClick={handleViewReceipt} className="inline-flex items-center px-3 py-1.5 text-sm bg-gray-200 rounded dark:bg-gray-700">
+                    <EyeIcon className="w-4 h-4 mr-1" /> {t('view')}
+                  </button>
+                )}
+                <button type="button" onClick={() => receiptInputRef.current?.click()} disabled={isLocked} className="inline-flex items-center px-3 py-1.5 text-sm bg-gray-200 rounded dark:bg-gray-700 disabled:opacity-50">
+                  <PaperClipIcon className="w-4 h-4 mr-1" /> {t('uploadReceipt')}
+                </button>
+                <input ref={receiptInputRef} type="file" accept={RECEIPT_ACCEPT} onChange={handleSelectReceipt} className="hidden" />
+                <button type="button" onClick={() => fileInputRef.current?.click()} disabled={isLocked} className="inline-flex items-center px-3 py-1.5 text-sm text-white bg-primary-600 rounded hover:bg-primary-700 disabled:opacity-50">
+                  <DocumentArrowUpIcon className="w-4 h-4 mr-1" /> {t('importEInvoice')}
+                </button>
+                <input ref={fileInputRef} type="file" accept=".xml,.pdf,application/xml,text/xml,application/pdf" onChange={handleImportEInvoice} className="hidden" />
+              </div>
+            </div>
+            {importError && <p className="text-red-500 text-xs mt-2">{importError}</p>}
+          </div>
           <div className="mt-1">
             <label className="block text-sm font-medium">{t('date')}</label>
             <DatePicker selected={expenseDate} onChange={setExpenseDate} />
@@ -113,25 +292,76 @@ const ExpenseModal: React.FC<ExpenseModalProps> = ({ expense, closeModal, onSave
             <input name="description" value={formData.description} onChange={handleChange} placeholder="e.g., Office Supplies" required className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
           </div>
           <div className="grid grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium">{t('amount')} (€)</label>
-                <input name="amount" type="number" step="0.01" value={formData.amount} onChange={handleChange} placeholder="0.00" required className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
-              </div>
-              <div>
-                <label className="block text-sm font-medium">{t('category')}</label>
-                <select name="category" value={formData.category} onChange={handleChange} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
-                  {EXPENSE_CATEGORIES.map(cat => (
-                    <option key={cat.id} value={cat.id}>{t(cat.label as any)}</option>
-                  ))}
-                </select>
+            <div>
+              <label className="block text-sm font-medium">{t('supplierName')}</label>
+              <input name="supplier_name" value={formData.supplier_name} onChange={handleChange} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium">{t('supplierInvoiceNumber')}</label>
+              <input name="supplier_invoice_number" value={formData.supplier_invoice_number} onChange={handleChange} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium">{t('category')}</label>
+            <select name="category" value={formData.category} onChange={handleChange} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+              {EXPENSE_CATEGORIES.map(cat => (
+                <option key={cat.id} value={cat.id}>{t(cat.label as any)}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium">{t('expenseVatLines')}</label>
+            <table className="mt-1 w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+                  <th className="pr-2 w-24">{t('vat')}</th>
+                  <th className="pr-2">{t('grossAmount')} (€)</th>
+                  <th className="pr-2 text-right">{t('netAmount')}</th>
+                  <th className="pr-2 text-right">{t('vatAmount')}</th>
+                  <th className="pr-2 text-center" title={t('inputTaxDeductibleHint')}>{t('inputTaxDeductible')}</th>
+                  <th className="w-6"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {vatLines.map((line, index) => (
+                  <tr key={index}>
+                    <td className="pr-2 py-1">
+                      <select value={line.vat_rate} onChange={e => handleVatLineChange(index, { vat_rate: Number(e.target.value) })} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                        {vatRateOptions.map(rate => <option key={rate} value={rate}>{rate}%</option>)}
+                      </select>
+                    </td>
+                    <td className="pr-2 py-1">
+                      <input type="number" step="0.01" value={Math.round((Number(line.net_amount) + Number(line.vat_amount)) * 100) / 100} onChange={e => handleVatLineChange(index, { gross: parseFloat(e.target.value) || 0 })} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+                    </td>
+                    <td className="pr-2 py-1 text-right">€{Number(line.net_amount).toFixed(2)}</td>
+                    <td className="pr-2 py-1 text-right">€{Number(line.vat_amount).toFixed(2)}</td>
+                    <td className="pr-2 py-1 text-center">
+                      <input type="checkbox" checked={line.is_deductible} onChange={e => handleVatLineChange(index, { is_deductible: e.target.checked })} className="h-4 w-4 rounded border-gray-300 text-primary-600" />
+                    </td>
+                    <td className="py-1">
+                      {vatLines.length > 1 && <button type="button" onClick={() => setVatLines(prev => prev.filter((_, i) => i !== index))} title={t('delete')}><TrashIcon className="w-4 h-4 text-red-500" /></button>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="flex justify-between items-start mt-1">
+              <button type="button" onClick={() => setVatLines(prev => [...prev, emptyVatLine(getDefaultVatRate(vatRates, expenseDate))])} className="inline-flex items-center text-sm text-primary-600 hover:underline">
+                <PlusIcon className="w-4 h-4 mr-1" /> {t('addVatLine')}
+              </button>
+              <div className="text-sm text-right">
+                <p>{t('netAmount')} €{vatTotals.net.toFixed(2)} + {t('vatAmount')} €{vatTotals.vat.toFixed(2)} = <span className="font-bold">€{vatTotals.gross.toFixed(2)}</span></p>
+                {vatTotals.deductibleVat !== vatTotals.vat && <p className="text-xs text-gray-500 dark:text-gray-400">{t('inputTax')} €{vatTotals.deductibleVat.toFixed(2)}</p>}
               </div>
+            </div>
           </div>
           <div className="flex justify-end space-x-2 pt-2">
             <button type="button" onClick={closeModal} className="px-4 py-2 bg-gray-200 rounded">{t('cancel')}</button>
-            <button type="submit" disabled={loading} className="px-4 py-2 text-white bg-primary-600 rounded disabled:bg-primary-300">{loading ? t('processing') : t('save')}</button>
+            <button type="submit" disabled={loading || isLocked} className="px-4 py-2 text-white bg-primary-600 rounded disabled:bg-primary-300">{loading ? t('processing') : isResubmission ? t('resubmitExpense') : t('save')}</button>
           </div>
         </form>
       </div>
+      {isViewerOpen && <EInvoiceViewerModal invoice={parsedInvoice} expense={parsedInvoice ? null : expense} closeModal={() => setIsViewerOpen(false)} />}
     </div>
   );
 };
@@ -29,6 +29,7 @@ const ExpenseSelectionModal: React.FC<ExpenseSelectionModalProps> = ({ isOpen, o
       .from('expenses')
       .select('*')
       .eq('org_id', profile.org_id)
+      .neq('status', 'rejected')
       .order('expense_date', { ascending: false });
 
     if (error) {
@@ -0,0 +1,122 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { QuoteItem } from '../../types';
+import { compareQuoteRevisions, QuoteRevision, RevisionChange } from '../../lib/quoteRevisions';
+import { calculateItemNet, formatDiscount } from '../../lib/documentTotals';
+import { formatEuropeanDate } from '../../lib/formatting';
+import { getQuoteItemKind, isQuoteItemIncluded } from '../../lib/quoteOptions';
+
+interface QuoteRevisionCompareModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  revisions: QuoteRevision[];
+  /** The revision shown on the right; the one before it is shown on the left. */
+  currentRevisionId?: number;
+}
+
+const changeColors: { [key in RevisionChange]: string } = {
+  added: 'bg-green-50 dark:bg-green-900/20',
+  removed: 'bg-red-50 dark:bg-red-900/20 line-through text-gray-500',
+  changed: 'bg-yellow-50 dark:bg-yellow-900/20',
+  unchanged: '',
+};
+
+const QuoteRevisionCompareModal: React.FC<QuoteRevisionCompareModalProps> = ({ isOpen, onClose, revisions, currentRevisionId }) => {
+  const { t } = useLanguage();
+  const [leftId, setLeftId] = useState<number | null>(null);
+  const [rightId, setRightId] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || revisions.length === 0) return;
+    const currentIndex = Math.max(revisions.findIndex(revision => revision.id === currentRevisionId), 0);
+    const rightIndex = currentIndex > 0 ? currentIndex : Math.min(1, revisions.length - 1);
+    setRightId(revisions[rightIndex].id);
+    setLeftId(revisions[Math.max(rightIndex - 1, 0)].id);
+  }, [isOpen, revisions, currentRevisionId]);
+
+  const left = revisions.find(revision => revision.id === leftId);
+  const right = revisions.find(revision => revision.id === rightId);
+  const diffs = useMemo(() => (left && right ? compareQuoteRevisions(left, right) : []), [left, right]);
+
+  if (!isOpen) return null;
+
+  const renderItem = (item: QuoteItem | undefined, changedFields: (keyof QuoteItem)[], highlight: boolean) => {
+    if (!item) return <td colSpan={4} className="px-3 py-2 text-gray-400 text-center">—</td>;
+    const cls = (field: keyof QuoteItem) => (highlight && changedFields.includes(field) ? 'font-semibold text-yellow-800 dark:text-yellow-300' : '');
+    const kind = getQuoteItemKind(item);
+    return (
+      <>
+        <td className={`px-3 py-2 ${cls('description')}`}>
+          {item.description}
+          {kind !== 'standard' && (
+            <span className={`block text-xs text-gray-500 ${cls('is_optional') || cls('alternative_group') || cls('is_selected')}`}>
+              {kind === 'alternative' ? `${t('quoteItemKind_alternative')} ${item.alternative_group}` : t('quoteItemKind_optional')}
+              {isQuoteItemIncluded(item) ? ` · ${t('selectedByCustomer')}` : ''}
+            </span>
+          )}
+        </td>
+        <td className={`px-3 py-2 text-right ${cls('quantity')}`}>{item.quantity}</td>
+        <td className={`px-3 py-2 text-right ${cls('unit_price') || cls('discount_value') || cls('discount_type')}`}>
+          €{Number(item.unit_price).toFixed(2)}{item.discount_value ? <span className="block text-xs text-gray-500">-{formatDiscount(item)}</span> : null}
+        </td>
+        <td className={`px-3 py-2 text-right ${cls('vat_rate')}`}>€{calculateItemNet(item).toFixed(2)} <span className="text-xs text-gray-500">({item.vat_rate}%)</span></td>
+      </>
+    );
+  };
+
+  const revisionSelect = (value: number | null, onChange: (id: number) => void) => (
+    <select value={value ?? ''} onChange={e => onChange(Number(e.target.value))} className="w-full p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600">
+      {revisions.map(revision => <option key={revision.id} value={revision.id}>{revision.quote_number} ({formatEuropeanDate(revision.issue_date)})</option>)}
+    </select>
+  );
+
+  const revisionSummary = (revision?: QuoteRevision) => revision && (
+    <div className="text-sm space-y-1 mt-2">
+      <div className="flex justify-between"><span className="text-gray-500">{t('status')}:</span><span>{t(revision.status as any)}</span></div>
+      <div className="flex justify-between"><span className="text-gray-500">{t('valid_until')}:</span><span>{formatEuropeanDate(revision.valid_until_date)}</span></div>
+      <div className="flex justify-between font-bold"><span>{t('total')}:</span><span>€{Number(revision.total_amount).toFixed(2)}</span></div>
+    </div>
+  );
+
+  const difference = left && right ? Number(right.total_amount) - Number(left.total_amount) : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50" role="dialog" aria-modal="true" aria-labelledby="revision-compare-modal-title">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-6xl p-6 max-h-[90vh] flex flex-col">
+        <h2 id="revision-compare-modal-title" className="text-xl font-bold mb-4">{t('compareRevisions')}</h2>
+
+        <div className="grid grid-cols-2 gap-6">
+          <div>{revisionSelect(leftId, setLeftId)}{revisionSummary(left)}</div>
+          <div>{revisionSelect(rightId, setRightId)}{revisionSummary(right)}</div>
+        </div>
+
+        <div className="overflow-auto mt-4 border-t dark:border-gray-700">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 dark:text-gray-400 uppercase">
+                <th className="px-3 py-2">{t('description')}</th><th className="px-3 py-2 text-right">{t('quantity')}</th><th className="px-3 py-2 text-right">{t('unitPrice')}</th><th className="px-3 py-2 text-right border-r dark:border-gray-700">{t('total')}</th>
+                <th className="px-3 py-2">{t('description')}</th><th className="px-3 py-2 text-right">{t('quantity')}</th><th className="px-3 py-2 text-right">{t('unitPrice')}</th><th className="px-3 py-2 text-right">{t('total')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diffs.map((diff, index) => (
+                <tr key={index} className={`border-b dark:border-gray-700 ${changeColors[diff.change]}`}>
+                  {renderItem(diff.older, diff.changedFields, false)}
+                  {renderItem(diff.newer, diff.changedFields, true)}
+                </tr>
+              ))}
+              {diffs.length === 0 && <tr><td colSpan={8} className="p-4 text-center text-gray-500">{t('noQuoteItems')}</td></tr>}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-between items-center pt-6">
+          <span className="text-sm">{t('revisionDifference')}: <span className={`font-bold ${difference > 0 ? 'text-green-600' : difference < 0 ? 'text-red-600' : ''}`}>{difference > 0 ? '+' : ''}€{difference.toFixed(2)}</span></span>
+          <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 rounded-md dark:bg-gray-600">{t('close')}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuoteRevisionCompareModal;
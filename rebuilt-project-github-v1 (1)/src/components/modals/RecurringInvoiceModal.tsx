@@ -0,0 +1,266 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { supabase } from '../../services/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { Customer, RecurrenceInterval, RecurringInvoice, RecurringInvoiceItem, VatRate } from '../../types';
+import { RECURRENCE_INTERVALS, RECURRING_PLACEHOLDERS } from '../../lib/recurringInvoices';
+import { parseAsLocalDate } from '../../lib/formatting';
+import { getDefaultVatRate, getVatRateOptions, getVatRates } from '../../lib/vatRates';
+import DatePicker from '../ui/DatePicker';
+import { format } from 'date-fns';
+import { PlusIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+export type RecurringInvoiceDraft = Partial<RecurringInvoice> & { recurring_invoice_items?: Partial<RecurringInvoiceItem>[] };
+
+interface RecurringInvoiceModalProps {
+  template: RecurringInvoiceDraft | null;
+  customers: Customer[];
+  closeModal: () => void;
+  onSave: () => void;
+}
+
+const emptyItem = (vatRate: number): Partial<RecurringInvoiceItem> => ({ description: '', quantity: 1, unit_price: 0, vat_rate: vatRate });
+
+const RecurringInvoiceModal: React.FC<RecurringInvoiceModalProps> = ({ template, customers, closeModal, onSave }) => {
+  const { user, profile } = useAuth();
+  const { t } = useLanguage();
+  const [formData, setFormData] = useState({ title: '', customer_id: '', interval: 'monthly' as RecurrenceInterval, payment_days: 14, auto_send: false, is_active: true, customer_notes: '' });
+  const [startDate, setStartDate] = useState<Date | null>(new Date());
+  const [nextRunDate, setNextRunDate] = useState<Date | null>(new Date());
+  const [endDate, setEndDate] = useState<Date | null>(null);
+  const [vatRates, setVatRates] = useState<VatRate[]>(getVatRates());
+  const [items, setItems] = useState<Partial<RecurringInvoiceItem>[]>([emptyItem(getDefaultVatRate(vatRates))]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Generated invoices are dated on the run date, so the rates valid then are offered.
+  const defaultVatRate = getDefaultVatRate(vatRates, nextRunDate);
+  const vatRateOptions = getVatRateOptions(vatRates, nextRunDate, items.map(item => item.vat_rate));
+
+  useEffect(() => {
+    if (!profile?.org_id) return;
+    supabase.from('organizations').select('vat_rates, datev_settings').eq('id', profile.org_id).single().then(({ data }) => {
+      if (!data) return;
+      const rates = getVatRates(data);
+      setVatRates(rates);
+      setItems(prev => prev.map(item => (item.description ? item : { ...item, vat_rate: getDefaultVatRate(rates) })));
+    });
+  }, [profile?.org_id]);
+
+  useEffect(() => {
+    setFormData({
+      title: template?.title || '',
+      customer_id: template?.customer_id ? String(template.customer_id) : '',
+      interval: template?.interval || 'monthly',
+      payment_days: template?.payment_days ?? 14,
+      auto_send: template?.auto_send ?? false,
+      is_active: template?.is_active ?? true,
+      customer_notes: template?.customer_notes || '',
+    });
+    setStartDate(parseAsLocalDate(template?.start_date) || new Date());
+    setNextRunDate(parseAsLocalDate(template?.next_run_date || template?.start_date) || new Date());
+    setEndDate(parseAsLocalDate(template?.end_date));
+    setItems(template?.recurring_invoice_items?.length ? template.recurring_invoice_items : [emptyItem(getDefaultVatRate(vatRates))]);
+    setError('');
+  }, [template]);
+
+  const total = useMemo(() => items.reduce((acc, item) => {
+    const net = (item.quantity || 0) * (item.unit_price || 0);
+    return acc + net + net * ((item.vat_rate || 0) / 100);
+  }, 0), [items]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value, type } = e.target;
+    if (e.target instanceof HTMLInputElement && type === 'checkbox') {
+      setFormData(prev => ({ ...prev, [name]: (e.target as HTMLInputElement).checked }));
+    } else {
+      setFormData(prev => ({ ...prev, [name]: type === 'number' ? parseInt(value, 10) || 0 : value }));
+    }
+  };
+
+  const handleStartDateChange = (date: Date | null) => {
+    // For new templates the first run follows the start date until it is changed explicitly.
+    if (!template?.id && startDate && nextRunDate && startDate.getTime() === nextRunDate.getTime()) {
+      setNextRunDate(date);
+    }
+    setStartDate(date);
+  };
+
+  const handleItemChange = (index: number, field: keyof RecurringInvoiceItem, value: string) => {
+    setItems(prev => prev.map((item, i) => {
+      if (i !== index) return item;
+      if (field === 'quantity' || field === 'unit_price' || field === 'vat_rate') {
+        const numericValue = Number(value);
+        return { ...item, [field]: isNaN(numericValue) ? undefined : numericValue };
+      }
+      return { ...item, [field]: value };
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !profile?.org_id) return;
+
+    const validItems = items.filter(item => item.description && item.description.trim() !== '');
+    if (!formData.customer_id) {
+      setError(t('pleaseSelectCustomer'));
+      return;
+    }
+    if (!startDate || !nextRunDate) {
+      setError(t('recurringDatesRequired'));
+      return;
+    }
+    if (nextRunDate < startDate || (endDate && endDate < startDate)) {
+      setError(t('recurringDatesInvalid'));
+      return;
+    }
+    if (validItems.length === 0) {
+      setError(t('recurringItemsRequired'));
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    try {
+      const templateData = {
+        ...formData,
+        customer_id: parseInt(formData.customer_id, 10),
+        customer_notes: formData.customer_notes || null,
+        start_date: format(startDate, 'yyyy-MM-dd'),
+        next_run_date: format(nextRunDate, 'yyyy-MM-dd'),
+        end_date: endDate ? format(endDate, 'yyyy-MM-dd') : null,
+        org_id: profile.org_id, // Always include org_id to satisfy RLS on update.
+      };
+
+      let templateId = template?.id;
+      if (templateId) {
+        const { error: updateError } = await supabase.from('recurring_invoices').update(templateData).eq('id', templateId);
+        if (updateError) throw updateError;
+      } else {
+        const { data, error: insertError } = await supabase.from('recurring_invoices').insert({ ...templateData, user_id: user.id }).select('id').single();
+        if (insertError) throw insertError;
+        templateId = data.id;
+      }
+
+      await supabase.from('recurring_invoice_items').delete().eq('recurring_invoice_id', templateId);
+      const { error: itemsError } = await supabase.from('recurring_invoice_items').insert(validItems.map(item => ({
+        recurring_invoice_id: templateId,
+        product_id: item.product_id || null,
+        description: item.description,
+        quantity: item.quantity || 0,
+        unit_price: item.unit_price || 0,
+        vat_rate: item.vat_rate ?? defaultVatRate,
+      })));
+      if (itemsError) throw itemsError;
+
+      onSave();
+    } catch (saveError: any) {
+      setError(saveError.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClass = "mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50" role="dialog" aria-modal="true" aria-labelledby="recurring-invoice-modal-title">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-3xl p-6 flex flex-col max-h-[90vh]">
+        <h2 id="recurring-invoice-modal-title" className="text-xl font-bold mb-4">{template?.id ? t('editRecurringInvoice') : t('newRecurringInvoice')}</h2>
+        <form onSubmit={handleSubmit} className="flex-1 overflow-y-auto space-y-4 pr-1">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium">{t('title')}</label>
+              <input name="title" value={formData.title} onChange={handleChange} required className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium">{t('customer')}</label>
+              <select name="customer_id" value={formData.customer_id} onChange={handleChange} required className={inputClass}>
+                <option value="">{t('selectCustomer')}</option>
+                {customers.map(customer => <option key={customer.id} value={customer.id}>{customer.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium">{t('recurrenceInterval')}</label>
+              <select name="interval" value={formData.interval} onChange={handleChange} className={inputClass}>
+                {RECURRENCE_INTERVALS.map(interval => <option key={interval} value={interval}>{t(`interval_${interval}` as any)}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium">{t('paymentTermDays')}</label>
+              <input name="payment_days" type="number" min={0} value={formData.payment_days} onChange={handleChange} className={inputClass} />
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{t('recurringPaymentDaysHint')}</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium">{t('startDate')}</label>
+              <div className="mt-1"><DatePicker selected={startDate} onChange={handleStartDateChange} /></div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium">{t('nextRunDate')}</label>
+              <div className="mt-1"><DatePicker selected={nextRunDate} onChange={setNextRunDate} /></div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium">{t('endDate')} <span className="text-gray-500 font-normal">({t('optional')})</span></label>
+              <div className="mt-1 flex items-center gap-2">
+                <div className="flex-1"><DatePicker selected={endDate} onChange={setEndDate} /></div>
+                {endDate && <button type="button" onClick={() => setEndDate(null)} title={t('clear')}><XMarkIcon className="w-5 h-5 text-gray-500 hover:text-gray-700"/></button>}
+              </div>
+            </div>
+            <div className="flex flex-col justify-end gap-2">
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <input type="checkbox" name="auto_send" checked={formData.auto_send} onChange={handleChange} className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"/>
+                {t('autoSendRecurringInvoice')}
+              </label>
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <input type="checkbox" name="is_active" checked={formData.is_active} onChange={handleChange} className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"/>
+                {t('active')}
+              </label>
+            </div>
+          </div>
+
+          <div className="border-t dark:border-gray-700 pt-4">
+            <table className="min-w-full">
+              <thead><tr className="text-left text-sm text-gray-500 dark:text-gray-400">
+                <th className="py-2 pr-2">{t('description')}</th>
+                <th className="py-2 pr-2 w-24">{t('quantity')}</th>
+                <th className="py-2 pr-2 w-28">{t('unitPrice')}</th>
+                <th className="py-2 pr-2 w-24">{t('vatPercent')}</th>
+                <th className="py-2 w-8"></th>
+              </tr></thead>
+              <tbody>
+                {items.map((item, index) => (
+                  <tr key={index}>
+                    <td className="py-1 pr-2"><input value={item.description || ''} onChange={e => handleItemChange(index, 'description', e.target.value)} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600"/></td>
+                    <td className="py-1 pr-2"><input type="number" step="any" value={item.quantity ?? ''} onChange={e => handleItemChange(index, 'quantity', e.target.value)} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600"/></td>
+                    <td className="py-1 pr-2"><input type="number" step="0.01" value={item.unit_price ?? ''} onChange={e => handleItemChange(index, 'unit_price', e.target.value)} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600"/></td>
+                    <td className="py-1 pr-2"><select value={item.vat_rate} onChange={e => handleItemChange(index, 'vat_rate', e.target.value)} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600">{vatRateOptions.map(rate => <option key={rate} value={rate}>{rate}%</option>)}</select></td>
+                    <td className="py-1 text-right"><button type="button" onClick={() => setItems(prev => prev.filter((_, i) => i !== index))}><TrashIcon className="w-5 h-5 text-red-500 hover:text-red-700"/></button></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="flex justify-between items-center mt-2">
+              <button type="button" onClick={() => setItems(prev => [...prev, emptyItem(defaultVatRate)])} className="inline-flex items-center text-sm text-primary-600 hover:underline"><PlusIcon className="w-4 h-4 mr-1"/>{t('addItem')}</button>
+              <span className="font-bold">{t('total')}: €{total.toFixed(2)}</span>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium">{t('customerNotes')}</label>
+            <textarea name="customer_notes" value={formData.customer_notes} onChange={handleChange} rows={3} className={inputClass} />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{t('availablePlaceholders')}: {RECURRING_PLACEHOLDERS.join(', ')}</p>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex justify-end space-x-2 pt-2">
+            <button type="button" onClick={closeModal} className="px-4 py-2 bg-gray-200 rounded dark:bg-gray-600">{t('cancel')}</button>
+            <button type="submit" disabled={loading} className="px-4 py-2 text-white bg-primary-600 rounded disabled:bg-primary-300">{loading ? t('processing') : t('save')}</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default RecurringInvoiceModal;
@@ -0,0 +1,42 @@
+import React, { useState, useEffect } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { Expense } from '../../types';
+
+interface RejectExpenseModalProps {
+  expense: Expense | null;
+  onClose: () => void;
+  onConfirm: (reason: string) => void;
+}
+
+const RejectExpenseModal: React.FC<RejectExpenseModalProps> = ({ expense, onClose, onConfirm }) => {
+  const { t } = useLanguage();
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    setReason('');
+  }, [expense]);
+
+  if (!expense) return null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (reason.trim()) onConfirm(reason.trim());
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50" role="dialog" aria-modal="true" aria-labelledby="reject-expense-modal-title">
+      <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md p-6">
+        <h2 id="reject-expense-modal-title" className="text-xl font-bold mb-4 text-gray-900 dark:text-white">{t('rejectExpense')} ({expense.expense_number})</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-300 mb-2">{expense.description} · €{expense.amount.toFixed(2)}</p>
+        <label className="block text-sm font-medium">{t('rejectionReason')}</label>
+        <textarea value={reason} onChange={e => setReason(e.target.value)} rows={3} required autoFocus className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600" />
+        <div className="flex justify-end space-x-2 pt-4">
+          <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 rounded-md text-sm font-medium hover:bg-gray-300 dark:bg-gray-600 dark:hover:bg-gray-500">{t('cancel')}</button>
+          <button type="submit" disabled={!reason.trim()} className="px-4 py-2 text-white bg-red-600 rounded-md text-sm font-medium hover:bg-red-700 disabled:opacity-50">{t('reject')}</button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default RejectExpenseModal;
@@ -0,0 +1,52 @@
+import React, { useState, useEffect } from 'react';
+import { useLanguage } from '../../contexts/LanguageContext';
+import { VISIT_CATEGORIES } from '../../constants';
+import { VisitCategory } from '../../types';
+
+interface ScheduleVisitModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (category: VisitCategory) => void;
+  isProcessing?: boolean;
+}
+
+const ScheduleVisitModal: React.FC<ScheduleVisitModalProps> = ({ isOpen, onClose, onConfirm, isProcessing = false }) => {
+  const { t } = useLanguage();
+  const [category, setCategory] = useState<VisitCategory>('Maintenance');
+
+  useEffect(() => {
+    if (isOpen) setCategory('Maintenance');
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50" role="dialog" aria-modal="true" aria-labelledby="schedule-visit-modal-title">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md p-6">
+        <h2 id="schedule-visit-modal-title" className="text-xl font-bold mb-2">{t('scheduleVisit')}</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">{t('scheduleVisitHint')}</p>
+
+        <label className="block text-sm font-medium">{t('category')}</label>
+        <select value={category} onChange={e => setCategory(e.target.value as VisitCategory)} className="mt-1 w-full p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600">
+          {VISIT_CATEGORIES.map(c => <option key={c} value={c}>{t(c.toLowerCase() as any)}</option>)}
+        </select>
+
+        <div className="flex justify-end space-x-2 pt-6">
+          <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 rounded-md dark:bg-gray-600">
+            {t('cancel')}
+          </button>
+          <button
+            type="button"
+            onClick={() => onConfirm(category)}
+            disabled={isProcessing}
+            className="px-4 py-2 text-white bg-primary-600 rounded-md disabled:bg-primary-300"
+          >
+            {isProcessing ? t('processing') : t('scheduleVisit')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleVisitModal;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { DiscountType } from '../../types';
+
+interface DiscountInputProps {
+  discountType?: DiscountType | null;
+  discountValue?: number | null;
+  onChange: (discount: { discount_type: DiscountType | null; discount_value: number | null }) => void;
+  readOnly?: boolean;
+}
+
+const DiscountInput: React.FC<DiscountInputProps> = ({ discountType, discountValue, onChange, readOnly = false }) => {
+  const handleValueChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseFloat(e.target.value);
+    const hasValue = !isNaN(value) && value > 0;
+    onChange({ discount_type: hasValue ? discountType || 'percent' : discountType ?? null, discount_value: hasValue ? value : null });
+  };
+
+  const handleTypeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    onChange({ discount_type: e.target.value as DiscountType, discount_value: discountValue ?? null });
+  };
+
+  return (
+    <div className="flex">
+      <input
+        type="number"
+        min="0"
+        step="0.01"
+        value={discountValue || ''}
+        onChange={handleValueChange}
+        readOnly={readOnly}
+        placeholder="0"
+        className="w-full min-w-0 p-1 border rounded-l-md dark:bg-gray-700 dark:border-gray-600 read-only:bg-gray-100 dark:read-only:bg-gray-700/50"
+      />
+      <select
+        value={discountType || 'percent'}
+        onChange={handleTypeChange}
+        disabled={readOnly}
+        className="p-1 border border-l-0 rounded-r-md dark:bg-gray-700 dark:border-gray-600 disabled:bg-gray-100 dark:disabled:bg-gray-700/50"
+      >
+        <option value="percent">%</option>
+        <option value="amount">€</option>
+      </select>
+    </div>
+  );
+};
+
+export default DiscountInput;
@@ -1,4 +1,4 @@
-import { UserRole } from './types';
+import { UserRole, PaymentMethod, VisitCategory } from './types';
 import {
   HomeIcon,
   ArchiveBoxIcon,
@@ -19,7 +19,9 @@ import {
   ClipboardDocumentCheckIcon,
 } from '@heroicons/react/24/outline';
 
-export const GERMAN_VAT_RATES = [19, 7, 0];
+export const PAYMENT_METHODS: PaymentMethod[] = ['bank_transfer', 'cash', 'card', 'stripe', 'other'];
+
+export const VISIT_CATEGORIES: VisitCategory[] = ['Maintenance', 'Repair', 'Consulting', 'Training'];
 
 export const EXPENSE_CATEGORIES = [
   { id: 'travel', label: 'travel' },
@@ -167,6 +169,7 @@ export const translations = {
     iban: 'IBAN',
     bic: 'BIC',
     vat_id: 'USt-IdNr.',
+    steuernummer: 'Steuernummer',
     forgotPassword: 'Passwort vergessen?',
     forgotPasswordTitle: 'Passwort zurücksetzen',
     forgotPasswordInstructions: 'Geben Sie Ihre E-Mail-Adresse ein und wir senden Ihnen Anweisungen zum Zurücksetzen Ihres Passworts.',
@@ -250,6 +253,67 @@ export const translations = {
     invoiceIsPaid: 'Diese Rechnung ist bezahlt. Änderungen sind nicht erlaubt.',
     quoteIsAccepted: 'Dieses Angebot wurde akzeptiert und kann nicht mehr bearbeitet werden.',
     quote: 'Angebot',
+    invoice_type_cancellation: 'Stornorechnung',
+    invoice_type_credit_note: 'Gutschrift',
+    invoice_type_down_payment: 'Abschlagsrechnung',
+    invoice_type_final: 'Schlussrechnung',
+    createCancellation: 'Stornorechnung erstellen',
+    createCreditNote: 'Gutschrift erstellen',
+    confirmCancellationTitle: 'Rechnung stornieren',
+    confirmCancellationMessage: 'Für Rechnung Nr. {number} wird eine Stornorechnung über alle noch nicht gutgeschriebenen Positionen erstellt. Dieser Vorgang kann nicht rückgängig gemacht werden.',
+    creditNoteQuantityHint: 'Geben Sie je Position die Menge ein, die gutgeschrieben werden soll.',
+    remainingQuantity: 'Verbleibend',
+    correctionCreatedSuccess: '{number} wurde erstellt.',
+    correctionForInvoice: 'Zu Rechnung Nr. {number} vom {date}',
+    correctionIsReadOnly: 'Stornorechnungen und Gutschriften sind unveränderliche Belege und können nicht bearbeitet werden.',
+    invoiceHasCorrections: 'Zu dieser Rechnung existieren Korrekturbelege. Sie kann nicht mehr bearbeitet werden:',
+    payments: 'Zahlungen',
+    paymentDate: 'Zahlungsdatum',
+    paymentMethod: 'Zahlungsart',
+    paymentReference: 'Referenz',
+    paymentMethod_bank_transfer: 'Überweisung',
+    paymentMethod_cash: 'Bar',
+    paymentMethod_card: 'Karte',
+    paymentMethod_stripe: 'Online (Stripe)',
+    paymentMethod_other: 'Sonstige',
+    recordPayment: 'Zahlung erfassen',
+    paymentRecorded: 'Zahlung wurde erfasst.',
+    paymentRecordedInvoicePaid: 'Zahlung wurde erfasst. Die Rechnung ist vollständig bezahlt.',
+    confirmDeletePayment: 'Sind Sie sicher, dass Sie diese Zahlung löschen möchten?',
+    noPaymentsRecorded: 'Noch keine Zahlungen erfasst.',
+    paidAmount: 'Bezahlt',
+    openBalance: 'Offener Betrag',
+    paymentOn: 'Zahlung vom {date}',
+    dunning: 'Mahnwesen',
+    dunningRun: 'Mahnlauf',
+    dunningRunDescription: 'Alle überfälligen Rechnungen mit offenem Betrag und der jeweils fälligen Mahnstufe.',
+    startDunningRun: 'Mahnlauf starten',
+    confirmDunningRunMessage: 'Für {count} Rechnung(en) wird die nächste Mahnstufe erstellt. Kunden mit E-Mail-Adresse erhalten die Mahnung per E-Mail, für alle anderen wird das PDF heruntergeladen.',
+    dunningRunCompleted: '{sent} Mahnung(en) per E-Mail versendet, {printed} als PDF erstellt.',
+    showOnlyDueDunning: 'Nur fällige Mahnungen anzeigen',
+    dunningEmailDisabledHint: 'E-Mail-Versand ist nicht aktiviert. Mahnungen werden als PDF heruntergeladen.',
+    noDunningCandidates: 'Keine überfälligen Rechnungen gefunden.',
+    daysOverdue: 'Tage überfällig',
+    currentDunningLevel: 'Aktuelle Stufe',
+    nextDunningLevel: 'Nächste Stufe',
+    dunningNotDue: 'Noch nicht fällig',
+    noEmailAddress: 'Keine E-Mail-Adresse',
+    dunningLevel1: 'Zahlungserinnerung',
+    dunningLevel2: '1. Mahnung',
+    dunningLevel3: '2. Mahnung',
+    dunningFees: 'Mahngebühren',
+    dunningFee: 'Mahngebühr',
+    dunningInterest: 'Verzugszinsen',
+    dunningInterestRate: 'Verzugszinssatz (% p.a.)',
+    dunningGraceDays: 'Karenztage',
+    dunningPaymentDays: 'Zahlungsfrist (Tage)',
+    dunningText: 'Mahntext',
+    dunningSettingsDescription: 'Legen Sie pro Mahnstufe Karenztage, Gebühren und Texte fest. Die Karenztage zählen ab Fälligkeit bzw. ab der vorherigen Mahnung.',
+    totalDue: 'Zu zahlender Betrag',
+    paymentDeadline: 'Zahlungsfrist',
+    dunningText1: 'Sehr geehrte Damen und Herren,\n\nsicher ist es Ihrer Aufmerksamkeit entgangen, dass die Rechnung [document.number] vom [document.date] über [document.total] seit dem [document.due_date] fällig ist. Der offene Betrag beläuft sich auf [dunning.open_amount].\n\nBitte überweisen Sie den Betrag von [dunning.total_due] bis zum [dunning.payment_deadline]. Sollten Sie die Zahlung bereits veranlasst haben, betrachten Sie dieses Schreiben bitte als gegenstandslos.\n\nMit freundlichen Grüßen\n[organization.name]',
+    dunningText2: 'Sehr geehrte Damen und Herren,\n\nleider konnten wir trotz unserer Zahlungserinnerung keinen Zahlungseingang für die Rechnung [document.number] vom [document.date] feststellen. Der offene Betrag beläuft sich auf [dunning.open_amount], zuzüglich Mahngebühren von [dunning.fees] und Verzugszinsen von [dunning.interest].\n\nBitte überweisen Sie den Gesamtbetrag von [dunning.total_due] bis spätestens [dunning.payment_deadline].\n\nMit freundlichen Grüßen\n[organization.name]',
+    dunningText3: 'Sehr geehrte Damen und Herren,\n\ntrotz unserer Mahnung ist die Rechnung [document.number] vom [document.date] weiterhin unbezahlt. Der offene Betrag beläuft sich auf [dunning.open_amount], zuzüglich Mahngebühren von [dunning.fees] und Verzugszinsen von [dunning.interest].\n\nWir fordern Sie letztmalig auf, den Gesamtbetrag von [dunning.total_due] bis zum [dunning.payment_deadline] zu begleichen. Nach Ablauf dieser Frist werden wir die Forderung ohne weitere Ankündigung an ein Inkassounternehmen übergeben.\n\nMit freundlichen Grüßen\n[organization.name]',
     
     // Customers
     newCustomer: 'Neuer Kunde',
@@ -384,6 +448,8 @@ export const translations = {
     datevAccountDescription: 'Geben Sie die von Ihrem Steuerberater bereitgestellten Kontonummern ein. Diese sind für korrekte Finanzdatenexporte erforderlich.',
     debtorAccount: 'Sammeldebitorenkonto',
     creditorAccount: 'Sammelkreditorenkonto',
+    paymentAccount: 'Geldkonto für Zahlungseingänge',
+    paymentAccountHint: 'Ist ein Geldkonto (z. B. 1200 Bank) hinterlegt, werden auch die erfassten Zahlungen samt abgezogenem Skonto exportiert. Lassen Sie das Feld leer, wenn Ihr Steuerberater die Zahlungen aus den Kontoauszügen bucht.',
     revenueAccountMapping: 'Erlöskontenzuordnung',
     revenue19: 'Erlöskonto 19% MwSt.',
     revenue7: 'Erlöskonto 7% MwSt.',
@@ -417,11 +483,13 @@ export const translations = {
     quoteConversion: 'Angebotskonversion',
     profitLoss: 'Gewinn & Verlust',
     totalRevenue: 'Gesamtumsatz',
+    revenueBasis: 'Umsatzbasis',
+    revenueBasisCash: 'Ist-Versteuerung (Zahlungseingang)',
+    revenueBasisAccrual: 'Soll-Versteuerung (Rechnungsdatum)',
     totalExpenses: 'Gesamtausgaben',
     netProfit: 'Nettogewinn',
     taxSummary: 'Steuerübersicht',
     vatCollected: 'Eingenommene MwSt.',
-    vatPaidNotTracked: 'Gezahlte MwSt. aus Ausgaben wird noch nicht erfasst.',
     salesByCustomer: 'Umsatz nach Kunde',
     topSellingProducts: 'Meistverkaufte Produkte',
     teamPerformance: 'Teamleistung',
@@ -469,6 +537,269 @@ export const translations = {
     in_progress: 'In Arbeit',
     done: 'Erledigt',
     expired: 'Abgelaufen',
+    invoiceOverdueTitle: 'Rechnung überfällig',
+    invoiceIsNowOverdue: 'Rechnung {invoiceNumber} ({customerName}) ist jetzt überfällig.',
+    quoteExpiredTitle: 'Angebot abgelaufen',
+    quoteHasExpired: 'Angebot {quoteNumber} ({customerName}) ist abgelaufen.',
+    recurringInvoices: 'Wiederkehrende Rechnungen',
+    recurringInvoicesDescription: 'Vorlagen für Wartungs- und Abonnementrechnungen, die automatisch im eingestellten Intervall erstellt werden.',
+    newRecurringInvoice: 'Neue wiederkehrende Rechnung',
+    editRecurringInvoice: 'Wiederkehrende Rechnung bearbeiten',
+    deleteRecurringInvoice: 'Wiederkehrende Rechnung löschen',
+    confirmDeleteRecurringInvoice: 'Möchten Sie die Vorlage „{title}“ wirklich löschen? Bereits erstellte Rechnungen bleiben erhalten.',
+    recurrenceInterval: 'Intervall',
+    interval_monthly: 'Monatlich',
+    interval_quarterly: 'Vierteljährlich',
+    interval_half_yearly: 'Halbjährlich',
+    interval_yearly: 'Jährlich',
+    paymentTermDays: 'Zahlungsziel (Tage)',
+    recurringPaymentDaysHint: 'Gilt nur, wenn weder der Kunde noch die Organisation Zahlungsbedingungen hat.',
+    nextRunDate: 'Nächste Ausführung',
+    optional: 'optional',
+    active: 'Aktiv',
+    inactive: 'Inaktiv',
+    autoSendRecurringInvoice: 'Automatisch per E-Mail versenden',
+    recurringDatesRequired: 'Bitte Startdatum und nächste Ausführung angeben.',
+    recurringDatesInvalid: 'Nächste Ausführung und Enddatum dürfen nicht vor dem Startdatum liegen.',
+    recurringItemsRequired: 'Bitte mindestens eine Position angeben.',
+    recurringInvoiceSaved: 'Wiederkehrende Rechnung gespeichert.',
+    recurringInvoiceDeleted: 'Wiederkehrende Rechnung gelöscht.',
+    runDueRecurringInvoices: 'Fällige jetzt erstellen',
+    recurringRunCompleted: '{count} Rechnung(en) erstellt.',
+    noRecurringInvoices: 'Keine wiederkehrenden Rechnungen vorhanden.',
+    makeRecurring: 'Als wiederkehrend anlegen',
+    upcomingRecurringInvoices: 'Anstehende wiederkehrende Rechnungen',
+    recurringInvoiceCreatedTitle: 'Wiederkehrende Rechnung erstellt',
+    recurringInvoiceCreated: 'Rechnung {invoiceNumber} für {customerName} wurde aus der Vorlage „{title}“ als Entwurf erstellt.',
+    recurringInvoiceSent: 'Rechnung {invoiceNumber} für {customerName} wurde aus der Vorlage „{title}“ erstellt und per E-Mail versendet.',
+    eInvoiceFormat_xrechnung_ubl: 'XRechnung (UBL) herunterladen',
+    eInvoiceFormat_xrechnung_cii: 'XRechnung (CII) herunterladen',
+    eInvoiceExportFailed: 'E-Rechnung konnte nicht erstellt werden',
+    customerVatId: 'USt-IdNr. des Kunden',
+    buyerReference: 'Leitweg-ID / Käuferreferenz',
+    buyerReferenceHint: 'Pflichtangabe für XRechnungen an öffentliche Auftraggeber',
+    importEInvoice: 'E-Rechnung importieren',
+    viewEInvoice: 'E-Rechnung anzeigen',
+    eInvoice: 'E-Rechnung',
+    eInvoiceCreditNote: 'E-Gutschrift',
+    supplier: 'Lieferant',
+    recipient: 'Empfänger',
+    vat: 'MwSt.',
+    downloadOriginal: 'Original herunterladen',
+    supplierName: 'Lieferant',
+    supplierInvoiceNumber: 'Rechnungsnummer des Lieferanten',
+    netAmount: 'Netto',
+    vatAmount: 'MwSt.',
+    discount: 'Rabatt',
+    lineDiscounts: 'Positionsrabatte',
+    documentDiscount: 'Gesamtrabatt',
+    netTotal: 'Nettobetrag',
+    paymentTerms: 'Zahlungsbedingungen',
+    paymentTermsSettingsDescription: 'Wiederverwendbare Zahlungsbedingungen mit Zahlungsziel und optionalem Skonto. Die Standardbedingung gilt für alle Kunden ohne eigene Zahlungsbedingung und kann je Rechnung überschrieben werden.',
+    addPaymentTerm: 'Zahlungsbedingung hinzufügen',
+    paymentTermNamePlaceholder: 'z. B. 2 % Skonto / 30 Tage',
+    paymentTermNetDaysLabel: 'Zahlungsziel (Tage)',
+    paymentTermNetDays: '{days} Tage netto',
+    paymentTermSkontoDays: '{percent} % Skonto {days} Tage',
+    skonto: 'Skonto',
+    skontoPercent: 'Skonto (%)',
+    skontoDays: 'Skonto-Frist (Tage)',
+    isDefault: 'Standard',
+    organizationDefault: 'Standard der Organisation',
+    noPaymentTerms: 'Keine (Fälligkeit manuell)',
+    skontoUntil: '{percent} % Skonto bis {date} ({amount})',
+    skontoPaymentHint: 'Bei Zahlungseingang bis {date} gilt die Rechnung bereits mit {amount} als bezahlt, die Differenz wird als Skonto gebucht.',
+    skontoClause: 'Bei Zahlung bis zum {date} gewähren wir {percent} % Skonto ({amount}). Zahlbetrag bei Skontoabzug: {payAmount}.',
+    invoiceForQuote: 'Zu Angebot Nr. {number} vom {date}',
+    downPaymentItem: 'Abschlagszahlung {percent} % gemäß Angebot Nr. {number}',
+    downPaymentDeduction: 'Abzüglich Abschlagsrechnung Nr. {number} vom {date}',
+    quoteBilling: 'Abrechnung',
+    createDownPaymentInvoice: 'Abschlagsrechnung erstellen',
+    createFinalInvoice: 'Schlussrechnung erstellen',
+    noQuoteInvoices: 'Zu diesem Angebot wurden noch keine Rechnungen erstellt.',
+    quoteTotal: 'Angebotssumme',
+    billedAmount: 'Abgerechnet',
+    remainingAmount: 'Noch abzurechnen',
+    downPayment: 'Abschlag',
+    downPaymentHint: 'Geben Sie den Abschlag als Prozentsatz der Angebotssumme oder als Bruttobetrag ein. Er wird anteilig auf die Steuersätze des Angebots verteilt.',
+    downPaymentExceedsRemaining: 'Der Abschlag übersteigt den noch abzurechnenden Betrag.',
+    quoteInvoiceCreated: 'Rechnung {number} wurde erstellt.',
+    confirmFinalInvoiceMessage: 'Für Angebot Nr. {number} wird eine Schlussrechnung über alle Positionen erstellt, von der die bisherigen Abschlagsrechnungen abgezogen werden.',
+    taxTreatment: 'Steuerliche Behandlung',
+    taxTreatment_domestic: 'Inland (mit USt.)',
+    taxTreatment_reverse_charge: 'Reverse Charge (§ 13b UStG)',
+    taxTreatment_intra_eu: 'Innergemeinschaftliche Lieferung',
+    taxTreatment_export: 'Ausfuhrlieferung (Drittland)',
+    taxTreatment_small_business: 'Kleinunternehmer (§ 19 UStG)',
+    taxNote_reverse_charge: 'Steuerschuldnerschaft des Leistungsempfängers gemäß § 13b UStG.',
+    taxNote_intra_eu: 'Steuerfreie innergemeinschaftliche Lieferung gemäß § 4 Nr. 1b i. V. m. § 6a UStG.',
+    taxNote_export: 'Steuerfreie Ausfuhrlieferung gemäß § 4 Nr. 1a i. V. m. § 6 UStG.',
+    taxNote_small_business: 'Gemäß § 19 UStG wird keine Umsatzsteuer berechnet.',
+    taxTreatmentRequiresVatId: 'Für Reverse Charge und innergemeinschaftliche Lieferungen ist die USt-IdNr. des Kunden erforderlich.',
+    taxTreatmentAccountsDescription: 'Erlöse ohne deutsche Umsatzsteuer werden auf eigene Erlöskonten ohne BU-Schlüssel gebucht (Beispiele SKR03).',
+    vatRates: 'Steuersätze',
+    vatRatesSettingsDescription: 'Die Steuersätze, die in Rechnungen, Angeboten und Abo-Rechnungen ausgewählt werden können. Ein Satz ist nur für Belege wählbar, deren Datum in seinem Gültigkeitszeitraum liegt. Konto und BU-Schlüssel werden im DATEV-Export für Inlandsumsätze verwendet.',
+    vatRatePercent: 'Satz (%)',
+    validFrom: 'Gültig ab',
+    validTo: 'Gültig bis',
+    datevAccount: 'Erlöskonto',
+    datevBuKey: 'BU-Schlüssel',
+    vatRateLabelPlaceholder: 'z.B. Regelsatz',
+    addVatRate: 'Steuersatz hinzufügen',
+    vatRateAccountsHint: 'Die Erlöskonten für Inlandsumsätze werden je Steuersatz im Tab Steuersätze hinterlegt.',
+    bankReconciliation: 'Zahlungsabgleich',
+    bankReconciliationDescription: 'Importieren Sie Kontoauszüge und ordnen Sie Zahlungseingänge offenen Rechnungen zu. Vorschläge beruhen auf Rechnungsnummer im Verwendungszweck, Betrag und Name des Zahlers.',
+    importBankStatement: 'Kontoauszug importieren',
+    bankImportFormatsHint: 'Unterstützt werden CAMT.053 (XML) und MT940. Bereits importierte Buchungen werden übersprungen.',
+    bankStatementImported: 'Kontoauszug importiert',
+    bankStatementImportedMessage: '{count} Zahlungseingänge gelesen, davon {new} neu.',
+    confirmBankMatches: 'Zuordnungen buchen',
+    bankMatchesConfirmed: '{count} Zahlung(en) gebucht, {paid} Rechnung(en) vollständig bezahlt.',
+    bankTransactionStatus_open: 'Nicht zugeordnet',
+    bankTransactionStatus_matched: 'Zugeordnet',
+    bankTransactionStatus_ignored: 'Ignoriert',
+    bookingDate: 'Buchungsdatum',
+    payer: 'Zahler',
+    noInvoiceAssigned: '– Keine Rechnung –',
+    suggestedInvoices: 'Vorschläge',
+    otherOpenInvoices: 'Weitere offene Rechnungen',
+    bankMatchReason_invoice_number: 'Rechnungsnummer',
+    bankMatchReason_amount: 'Betrag',
+    bankMatchReason_customer_name: 'Kundenname',
+    ignoreBankTransaction: 'Ignorieren',
+    restoreBankTransaction: 'Wieder zuordnen',
+    noBankTransactions: 'Keine Buchungen vorhanden.',
+    sepaMandate: 'SEPA-Lastschriftmandat',
+    sepaMandateId: 'Mandatsreferenz',
+    sepaMandateDate: 'Datum der Unterschrift',
+    sepaSequence_FRST: 'Erstlastschrift (FRST)',
+    sepaSequence_RCUR: 'Folgelastschrift (RCUR)',
+    sepaSequenceType: 'Sequenz',
+    sepaCreditorId: 'Gläubiger-Identifikationsnummer',
+    sepaCreditorIdHint: 'Wird für SEPA-Lastschriften benötigt (z. B. DE98ZZZ09999999999).',
+    sepaCreditorIdMissing: 'Bitte hinterlegen Sie im Profil eine gültige Gläubiger-ID.',
+    directDebits: 'Lastschriften',
+    directDebitsDescription: 'Offene Rechnungen von Kunden mit SEPA-Mandat per Lastschrift einziehen.',
+    createDirectDebitFile: 'Lastschriftdatei erstellen',
+    collectionDate: 'Einzugsdatum',
+    showCollectedInvoices: 'Bereits eingezogene anzeigen',
+    noDirectDebitInvoices: 'Keine offenen Rechnungen mit SEPA-Mandat.',
+    confirmDirectDebitMessage: '{count} Rechnungen über {total} zum {date} einziehen? Die Rechnungen werden als eingezogen markiert.',
+    directDebitExported: '{count} Lastschriften exportiert (Nachricht {id}).',
+    invoicePaidOnlineTitle: 'Rechnung online bezahlt',
+    invoicePaidOnline: 'Rechnung {invoiceNumber} ({customerName}) wurde über Stripe bezahlt: €{amount}.',
+    quoteRevisions: 'Revisionen',
+    createRevision: 'Neue Revision',
+    confirmCreateRevisionMessage: 'Eine neue Revision von Angebot {number} erstellen? Der aktuelle Stand wird mit PDF archiviert und kann danach nicht mehr geändert oder in eine Rechnung umgewandelt werden.',
+    quoteRevisionCreated: 'Revision {number} wurde erstellt.',
+    quoteIsSuperseded: 'Diese Revision wurde durch eine neuere ersetzt und ist schreibgeschützt. Nur die aktuelle Revision kann in eine Rechnung umgewandelt werden.',
+    quoteIsSentHint: 'Dieses Angebot wurde bereits versendet. Um Positionen oder Konditionen zu ändern, erstellen Sie eine neue Revision.',
+    openLatestRevision: 'Aktuelle Revision öffnen',
+    compareRevisions: 'Revisionen vergleichen',
+    revisionDifference: 'Differenz',
+    noQuoteItems: 'Keine Positionen.',
+    supersededOn: 'ersetzt am',
+    superseded: 'Ersetzt',
+    showSupersededRevisions: 'Ersetzte Revisionen anzeigen',
+    quoteItemKind_standard: 'Standard',
+    quoteItemKind_optional: 'Optional',
+    quoteItemKind_alternative: 'Alternative',
+    alternativeGroup: 'Alternativgruppe',
+    selectedByCustomer: 'Vom Kunden gewählt',
+    notInQuoteTotal: 'Nicht in der Angebotssumme enthalten',
+    excludedItemsNote: 'Beträge in Klammern (optionale Positionen und nicht gewählte Alternativen) sind nicht in der Gesamtsumme enthalten.',
+    acceptanceLink: 'Annahme-Link',
+    copyAcceptanceLink: 'Annahme-Link kopieren',
+    acceptanceLinkCopied: 'Der Link wurde in die Zwischenablage kopiert. Ihr Kunde kann das Angebot darüber online annehmen oder ablehnen.',
+    quoteAnsweredOnline: 'Online angenommen von {name} am {date}.',
+    quoteDeclinedOnlineBy: 'Online abgelehnt von {name} am {date}.',
+    quoteAcceptedOnlineTitle: 'Angebot angenommen',
+    quoteAcceptedOnline: '{signerName} ({customerName}) hat das Angebot {quoteNumber} über €{amount} online angenommen.',
+    quoteDeclinedOnlineTitle: 'Angebot abgelehnt',
+    quoteDeclinedOnline: '{signerName} ({customerName}) hat das Angebot {quoteNumber} online abgelehnt.',
+    portalYourResponse: 'Ihre Antwort',
+    portalSignerName: 'Ihr vollständiger Name',
+    portalSign: 'Unterschreiben',
+    portalSignAgain: 'Erneut unterschreiben',
+    portalAcceptanceNote: 'Mit der Annahme beauftragen Sie die oben gewählten Leistungen verbindlich zum angegebenen Gesamtbetrag.',
+    portalAcceptQuote: 'Angebot annehmen',
+    portalDeclineQuote: 'Ablehnen',
+    portalEnterName: 'Bitte geben Sie Ihren Namen ein.',
+    portalSignatureRequired: 'Bitte unterschreiben Sie, um das Angebot anzunehmen.',
+    portalQuoteAccepted: 'Vielen Dank! Das Angebot wurde am {date} von {name} angenommen.',
+    portalQuoteDeclined: 'Das Angebot wurde am {date} von {name} abgelehnt.',
+    portalQuoteNotAvailable: 'Dieses Angebot kann nicht mehr angenommen werden. Bitte wenden Sie sich an uns.',
+    visit: 'Einsatz',
+    linkedDocuments: 'Verknüpfte Belege',
+    createdFrom: 'Erstellt aus',
+    convertedTo: 'Übernommen in',
+    invoice_status_cancelled: 'Storniert',
+    expenseStatus_submitted: 'Eingereicht',
+    expenseStatus_approved: 'Genehmigt',
+    expenseStatus_rejected: 'Abgelehnt',
+    expenseStatus_reimbursed: 'Erstattet',
+    allExpenses: 'Alle Ausgaben',
+    approvalQueue: 'Zur Genehmigung',
+    approveExpense: 'Ausgabe genehmigen',
+    rejectExpense: 'Ausgabe ablehnen',
+    markReimbursed: 'Als erstattet markieren',
+    reject: 'Ablehnen',
+    rejectionReason: 'Ablehnungsgrund',
+    viewReceipt: 'Beleg anzeigen',
+    uploadReceipt: 'Beleg hochladen',
+    attachReceiptHint: 'Foto oder PDF des Belegs anhängen oder XRechnung (XML) bzw. ZUGFeRD-PDF importieren, um die Ausgabe automatisch auszufüllen.',
+    expenseRejectedHint: 'Diese Ausgabe wurde abgelehnt. Korrigieren Sie sie und reichen Sie sie erneut ein.',
+    expenseLockedHint: 'Diese Ausgabe wurde genehmigt und kann nur noch von einem Genehmiger geändert werden.',
+    resubmitExpense: 'Erneut einreichen',
+    expenseSubmittedTitle: 'Ausgabe zur Genehmigung',
+    expenseSubmitted: '{userName} hat die Ausgabe {expenseNumber} über {amount} € zur Genehmigung eingereicht.',
+    expenseApprovedTitle: 'Ausgabe genehmigt',
+    expenseApproved: 'Ihre Ausgabe {expenseNumber} über {amount} € wurde von {userName} genehmigt.',
+    expenseRejectedTitle: 'Ausgabe abgelehnt',
+    expenseRejected: 'Ihre Ausgabe {expenseNumber} über {amount} € wurde von {userName} abgelehnt: {reason}',
+    expenseReimbursedTitle: 'Ausgabe erstattet',
+    expenseReimbursed: 'Ihre Ausgabe {expenseNumber} über {amount} € wurde erstattet.',
+    expenseVatLines: 'Beträge nach Steuersatz',
+    grossAmount: 'Brutto',
+    inputTaxDeductible: 'Abziehbar',
+    inputTaxDeductibleHint: 'Vorsteuer abziehbar. Nicht abziehbare Vorsteuer (z. B. bei Bewirtung) zählt zu den Kosten.',
+    addVatLine: 'Weiteren Steuersatz hinzufügen',
+    inputTax: 'Vorsteuer',
+    vatPayable: 'Umsatzsteuer-Zahllast',
+    datevInputBuKey: 'BU-Schlüssel Vorsteuer',
+    datevSkip_missing_input_tax_key: 'Kein BU-Schlüssel für die Vorsteuer von',
+    exportForDatevWithDocuments: 'Für DATEV exportieren (mit Belegen)',
+    datevDocumentsMissing: '{count} Belege wurden ohne Belegbild exportiert: {documents}',
+    datevDebtorAccount: 'DATEV-Debitorenkonto',
+    datevDebtorAccountAutomatic: 'Leer lassen für automatische Vergabe',
+    datevDebtorAccountInvalid: 'Das Debitorenkonto muss aus 5 bis 9 Ziffern bestehen.',
+    debtorRangeDescription: 'Jeder Kunde erhält ein eigenes Debitorenkonto (Personenkonto) aus diesem Nummernkreis. Das Debitorenkonto oben wird nur für Kunden ohne eigenes Konto verwendet.',
+    debtorRangeStart: 'Debitorenkonten von',
+    debtorRangeEnd: 'Debitorenkonten bis',
+    expense: 'Ausgabe',
+    payment: 'Zahlung',
+    datevBatchSetup: 'Buchungsstapel',
+    datevBatchDescription: 'Diese Angaben stehen im Kopf jeder Exportdatei (EXTF-Format 700) und werden vom Steuerberater zur Zuordnung des Mandanten benötigt.',
+    consultantNumber: 'Beraternummer',
+    clientNumber: 'Mandantennummer',
+    fiscalYearStart: 'Beginn des Wirtschaftsjahres',
+    accountLength: 'Sachkontenlänge',
+    lockPostings: 'Buchungen festschreiben',
+    lockPostingsHint: 'Festgeschriebene Buchungen können nach dem Import in DATEV nicht mehr geändert werden.',
+    datevSettingsIncomplete: 'Die DATEV-Einstellungen sind unvollständig. Bitte hinterlegen Sie Berater- und Mandantennummer in den Einstellungen.',
+    datevValidationReport: 'DATEV-Prüfbericht',
+    datevBookingsReady: '{count} Buchungen in {batches} Buchungsstapel(n) sind bereit zum Export.',
+    datevSkippedRecords: '{count} Belege werden nicht exportiert, weil ihnen eine Kontenzuordnung fehlt. Ergänzen Sie die Konten in den DATEV-Einstellungen, um sie zu exportieren.',
+    datevDocument: 'Beleg',
+    datevSkipReason: 'Grund',
+    datevSkip_missing_debtor_account: 'Kein Debitorenkonto hinterlegt',
+    datevSkip_missing_revenue_account: 'Kein Erlöskonto für',
+    datevSkip_missing_creditor_account: 'Kein Kreditorenkonto hinterlegt',
+    datevSkip_missing_expense_account: 'Kein Aufwandskonto für die Kategorie',
+    exportAnyway: 'Trotzdem exportieren',
+    scheduleVisit: 'Einsatz planen',
+    scheduleVisitHint: 'Der Einsatz wird für morgen ohne Mitarbeiter angelegt und übernimmt die bestellten Produkte des Angebots. Wählen Sie die Art der Arbeit.',
+    visitScheduledFromQuote: 'Einsatz {number} wurde angelegt. Weisen Sie ihn im Dispatcher einem Mitarbeiter zu.',
     update: 'Aktualisieren',
 
     // Calendar & Dates
@@ -720,6 +1051,7 @@ export const translations = {
     iban: 'IBAN',
     bic: 'BIC',
     vat_id: 'ID e TVSH-së',
+    steuernummer: 'Numri tatimor',
     forgotPassword: 'Harruat fjalëkalimin?',
     forgotPasswordTitle: 'Rivendos fjalëkalimin',
     forgotPasswordInstructions: 'Futni emailin tuaj dhe ne do t\'ju dërgojmë udhëzime për të rivendosur fjalëkalimin tuaj.',
@@ -801,6 +1133,67 @@ export const translations = {
     invoiceIsPaid: 'Kjo faturë është paguar. Ndryshimet nuk lejohen.',
     quoteIsAccepted: 'Kjo ofertë është pranuar dhe nuk mund të redaktohet më.',
     quote: 'Ofertë',
+    invoice_type_cancellation: 'Faturë anulluese',
+    invoice_type_credit_note: 'Notë krediti',
+    invoice_type_down_payment: 'Faturë paradhënieje',
+    invoice_type_final: 'Faturë përfundimtare',
+    createCancellation: 'Krijo faturë anulluese',
+    createCreditNote: 'Krijo notë krediti',
+    confirmCancellationTitle: 'Anulo faturën',
+    confirmCancellationMessage: 'Për faturën nr. {number} do të krijohet një faturë anulluese për të gjithë artikujt ende të pakredituar. Ky veprim nuk mund të zhbëhet.',
+    creditNoteQuantityHint: 'Shkruani sasinë për çdo artikull që do të kreditohet.',
+    remainingQuantity: 'E mbetur',
+    correctionCreatedSuccess: '{number} u krijua.',
+    correctionForInvoice: 'Për faturën nr. {number} të datës {date}',
+    correctionIsReadOnly: 'Faturat anulluese dhe notat e kreditit janë dokumente të pandryshueshme dhe nuk mund të redaktohen.',
+    invoiceHasCorrections: 'Për këtë faturë ekzistojnë dokumente korrigjuese. Ajo nuk mund të redaktohet më:',
+    payments: 'Pagesat',
+    paymentDate: 'Data e pagesës',
+    paymentMethod: 'Mënyra e pagesës',
+    paymentReference: 'Referenca',
+    paymentMethod_bank_transfer: 'Transfertë bankare',
+    paymentMethod_cash: 'Para në dorë',
+    paymentMethod_card: 'Kartë',
+    paymentMethod_stripe: 'Online (Stripe)',
+    paymentMethod_other: 'Tjetër',
+    recordPayment: 'Regjistro pagesën',
+    paymentRecorded: 'Pagesa u regjistrua.',
+    paymentRecordedInvoicePaid: 'Pagesa u regjistrua. Fatura është paguar plotësisht.',
+    confirmDeletePayment: 'Jeni i sigurt që doni ta fshini këtë pagesë?',
+    noPaymentsRecorded: 'Ende nuk ka pagesa të regjistruara.',
+    paidAmount: 'Paguar',
+    openBalance: 'Shuma e mbetur',
+    paymentOn: 'Pagesë më {date}',
+    dunning: 'Kujtesat e pagesës',
+    dunningRun: 'Ekzekutimi i kujtesave',
+    dunningRunDescription: 'Të gjitha faturat e vonuara me shumë të hapur dhe nivelin e kujtesës që duhet dërguar.',
+    startDunningRun: 'Nis ekzekutimin e kujtesave',
+    confirmDunningRunMessage: 'Për {count} faturë(a) do të krijohet niveli i radhës i kujtesës. Klientët me adresë emaili e marrin me email, për të tjerët shkarkohet PDF.',
+    dunningRunCompleted: '{sent} kujtesë(a) u dërguan me email, {printed} u krijuan si PDF.',
+    showOnlyDueDunning: 'Shfaq vetëm kujtesat që duhen dërguar',
+    dunningEmailDisabledHint: 'Dërgimi me email nuk është aktivizuar. Kujtesat shkarkohen si PDF.',
+    noDunningCandidates: 'Nuk u gjetën fatura të vonuara.',
+    daysOverdue: 'Ditë vonesë',
+    currentDunningLevel: 'Niveli aktual',
+    nextDunningLevel: 'Niveli i radhës',
+    dunningNotDue: 'Ende jo në afat',
+    noEmailAddress: 'Pa adresë emaili',
+    dunningLevel1: 'Kujtesë pagese',
+    dunningLevel2: 'Paralajmërimi i 1-rë',
+    dunningLevel3: 'Paralajmërimi i 2-të',
+    dunningFees: 'Tarifat e kujtesës',
+    dunningFee: 'Tarifa e kujtesës',
+    dunningInterest: 'Interesi i vonesës',
+    dunningInterestRate: 'Norma e interesit të vonesës (% në vit)',
+    dunningGraceDays: 'Ditë tolerance',
+    dunningPaymentDays: 'Afati i pagesës (ditë)',
+    dunningText: 'Teksti i kujtesës',
+    dunningSettingsDescription: 'Përcaktoni për çdo nivel ditët e tolerancës, tarifat dhe tekstet. Ditët e tolerancës llogariten nga afati i pagesës ose nga kujtesa e mëparshme.',
+    totalDue: 'Shuma për t\'u paguar',
+    paymentDeadline: 'Afati i pagesës',
+    dunningText1: 'Të nderuar,\n\nndoshta ju ka shpëtuar që fatura [document.number] e datës [document.date] në shumën [document.total] ishte në afat më [document.due_date]. Shuma e hapur është [dunning.open_amount].\n\nJu lutemi paguani shumën [dunning.total_due] deri më [dunning.payment_deadline]. Nëse e keni kryer tashmë pagesën, ju lutemi injorojeni këtë shkresë.\n\nMe respekt\n[organization.name]',
+    dunningText2: 'Të nderuar,\n\npavarësisht kujtesës sonë, nuk kemi marrë pagesën për faturën [document.number] të datës [document.date]. Shuma e hapur është [dunning.open_amount], plus tarifat e kujtesës [dunning.fees] dhe interesin e vonesës [dunning.interest].\n\nJu lutemi paguani shumën totale [dunning.total_due] jo më vonë se [dunning.payment_deadline].\n\nMe respekt\n[organization.name]',
+    dunningText3: 'Të nderuar,\n\npavarësisht paralajmërimit tonë, fatura [document.number] e datës [document.date] mbetet e papaguar. Shuma e hapur është [dunning.open_amount], plus tarifat e kujtesës [dunning.fees] dhe interesin e vonesës [dunning.interest].\n\nJu kërkojmë për herë të fundit të paguani shumën totale [dunning.total_due] deri më [dunning.payment_deadline]. Pas këtij afati kërkesa do t\'i dorëzohet një agjencie arkëtimi pa njoftim të mëtejshëm.\n\nMe respekt\n[organization.name]',
 
     // Customers
     newCustomer: 'Klient i Ri',
@@ -934,6 +1327,8 @@ export const translations = {
     datevAccountDescription: 'Futni numrat e llogarive të dhëna nga kontabilisti juaj. Këto janë të nevojshme për eksporte të sakta të të dhënave financiare.',
     debtorAccount: 'Llogaria e Debitorëve',
     creditorAccount: 'Llogaria e Kreditorëve',
+    paymentAccount: 'Llogaria monetare për pagesat e marra',
+    paymentAccountHint: 'Nëse është vendosur një llogari monetare (p.sh. 1200 Banka), eksportohen edhe pagesat e regjistruara bashkë me Skonto-n e zbritur. Lëreni bosh nëse kontabilisti i regjistron pagesat nga pasqyrat bankare.',
     revenueAccountMapping: 'Mapimi i Llogarive të të Ardhurave',
     revenue19: 'Llogaria e të Ardhurave 19% TVSH',
     revenue7: 'Llogaria e të Ardhurave 7% TVSH',
@@ -967,11 +1362,13 @@ export const translations = {
     quoteConversion: 'Konvertimi i Ofertave',
     profitLoss: 'Fitimi & Humbja',
     totalRevenue: 'Të Ardhurat Totale',
+    revenueBasis: 'Baza e të ardhurave',
+    revenueBasisCash: 'Baza e parasë (pagesat e marra)',
+    revenueBasisAccrual: 'Baza akruale (data e faturës)',
     totalExpenses: 'Shpenzimet Totale',
     netProfit: 'Fitimi Neto',
     taxSummary: 'Përmbledhja e Taksave',
     vatCollected: 'TVSH e Mbledhur',
-    vatPaidNotTracked: 'TVSH-ja e paguar nga shpenzimet nuk është gjurmuar ende.',
     salesByCustomer: 'Shitjet sipas Klientit',
     topSellingProducts: 'Produktet më të Shiturat',
     teamPerformance: 'Performanca e Ekipit',
@@ -1007,6 +1404,269 @@ export const translations = {
     // Statuses
     declined: 'Refuzuar',
     expired: 'Skaduar',
+    invoiceOverdueTitle: 'Faturë e vonuar',
+    invoiceIsNowOverdue: 'Fatura {invoiceNumber} ({customerName}) tani është e vonuar.',
+    quoteExpiredTitle: 'Oferta ka skaduar',
+    quoteHasExpired: 'Oferta {quoteNumber} ({customerName}) ka skaduar.',
+    recurringInvoices: 'Faturat periodike',
+    recurringInvoicesDescription: 'Shabllone për faturat e mirëmbajtjes dhe abonimeve që krijohen automatikisht në intervalin e caktuar.',
+    newRecurringInvoice: 'Faturë e re periodike',
+    editRecurringInvoice: 'Ndrysho faturën periodike',
+    deleteRecurringInvoice: 'Fshi faturën periodike',
+    confirmDeleteRecurringInvoice: 'A jeni të sigurt që doni të fshini shabllonin "{title}"? Faturat e krijuara mbeten.',
+    recurrenceInterval: 'Intervali',
+    interval_monthly: 'Mujore',
+    interval_quarterly: 'Tremujore',
+    interval_half_yearly: 'Gjashtëmujore',
+    interval_yearly: 'Vjetore',
+    paymentTermDays: 'Afati i pagesës (ditë)',
+    recurringPaymentDaysHint: 'Vlen vetëm nëse as klienti as organizata nuk kanë kushte pagese.',
+    nextRunDate: 'Ekzekutimi i radhës',
+    optional: 'opsionale',
+    active: 'Aktiv',
+    inactive: 'Joaktiv',
+    autoSendRecurringInvoice: 'Dërgo automatikisht me email',
+    recurringDatesRequired: 'Ju lutemi vendosni datën e fillimit dhe ekzekutimin e radhës.',
+    recurringDatesInvalid: 'Ekzekutimi i radhës dhe data e mbarimit nuk mund të jenë para datës së fillimit.',
+    recurringItemsRequired: 'Ju lutemi shtoni të paktën një artikull.',
+    recurringInvoiceSaved: 'Fatura periodike u ruajt.',
+    recurringInvoiceDeleted: 'Fatura periodike u fshi.',
+    runDueRecurringInvoices: 'Krijo tani të skaduarat',
+    recurringRunCompleted: 'U krijuan {count} faturë(a).',
+    noRecurringInvoices: 'Nuk ka fatura periodike.',
+    makeRecurring: 'Krijo si periodike',
+    upcomingRecurringInvoices: 'Faturat periodike të ardhshme',
+    recurringInvoiceCreatedTitle: 'Fatura periodike u krijua',
+    recurringInvoiceCreated: 'Fatura {invoiceNumber} për {customerName} u krijua si draft nga shablloni "{title}".',
+    recurringInvoiceSent: 'Fatura {invoiceNumber} për {customerName} u krijua nga shablloni "{title}" dhe u dërgua me email.',
+    eInvoiceFormat_xrechnung_ubl: 'Shkarko XRechnung (UBL)',
+    eInvoiceFormat_xrechnung_cii: 'Shkarko XRechnung (CII)',
+    eInvoiceExportFailed: 'E-fatura nuk mund të krijohej',
+    customerVatId: 'Numri i TVSH-së së klientit',
+    buyerReference: 'Leitweg-ID / Referenca e blerësit',
+    buyerReferenceHint: 'E detyrueshme për XRechnung ndaj autoriteteve publike',
+    importEInvoice: 'Importo e-faturë',
+    viewEInvoice: 'Shfaq e-faturën',
+    eInvoice: 'E-faturë',
+    eInvoiceCreditNote: 'Notë krediti elektronike',
+    supplier: 'Furnitori',
+    recipient: 'Marrësi',
+    vat: 'TVSH',
+    downloadOriginal: 'Shkarko origjinalin',
+    supplierName: 'Furnitori',
+    supplierInvoiceNumber: 'Numri i faturës së furnitorit',
+    netAmount: 'Neto',
+    vatAmount: 'TVSH',
+    discount: 'Zbritje',
+    lineDiscounts: 'Zbritje për artikuj',
+    documentDiscount: 'Zbritje totale',
+    netTotal: 'Shuma neto',
+    paymentTerms: 'Kushtet e pagesës',
+    paymentTermsSettingsDescription: 'Kushte pagese të ripërdorshme me afat pagese dhe Skonto opsionale. Kushti standard vlen për të gjithë klientët pa kusht të vetin dhe mund të ndryshohet për çdo faturë.',
+    addPaymentTerm: 'Shto kusht pagese',
+    paymentTermNamePlaceholder: 'p.sh. 2 % Skonto / 30 ditë',
+    paymentTermNetDaysLabel: 'Afati i pagesës (ditë)',
+    paymentTermNetDays: '{days} ditë neto',
+    paymentTermSkontoDays: '{percent} % Skonto {days} ditë',
+    skonto: 'Skonto',
+    skontoPercent: 'Skonto (%)',
+    skontoDays: 'Afati i Skonto (ditë)',
+    isDefault: 'Standard',
+    organizationDefault: 'Standardi i organizatës',
+    noPaymentTerms: 'Asnjë (afati manual)',
+    skontoUntil: '{percent} % Skonto deri më {date} ({amount})',
+    skontoPaymentHint: 'Për pagesa deri më {date} fatura konsiderohet e paguar me {amount}, diferenca regjistrohet si Skonto.',
+    skontoClause: 'Për pagesë deri më {date} ju ofrojmë {percent} % Skonto ({amount}). Shuma për t\'u paguar me zbritjen Skonto: {payAmount}.',
+    invoiceForQuote: 'Për ofertën nr. {number} të datës {date}',
+    downPaymentItem: 'Paradhënie {percent} % sipas ofertës nr. {number}',
+    downPaymentDeduction: 'Minus faturën e paradhënies nr. {number} të datës {date}',
+    quoteBilling: 'Faturimi',
+    createDownPaymentInvoice: 'Krijo faturë paradhënieje',
+    createFinalInvoice: 'Krijo faturë përfundimtare',
+    noQuoteInvoices: 'Për këtë ofertë nuk janë krijuar ende fatura.',
+    quoteTotal: 'Shuma e ofertës',
+    billedAmount: 'Faturuar',
+    remainingAmount: 'Mbetet për t\'u faturuar',
+    downPayment: 'Paradhënie',
+    downPaymentHint: 'Shkruani paradhënien si përqindje të shumës së ofertës ose si shumë bruto. Ajo ndahet proporcionalisht sipas normave të TVSH-së së ofertës.',
+    downPaymentExceedsRemaining: 'Paradhënia e tejkalon shumën që mbetet për t\'u faturuar.',
+    quoteInvoiceCreated: 'Fatura {number} u krijua.',
+    confirmFinalInvoiceMessage: 'Për ofertën nr. {number} do të krijohet një faturë përfundimtare për të gjitha pozicionet, nga e cila zbriten faturat e mëparshme të paradhënies.',
+    taxTreatment: 'Trajtimi tatimor',
+    taxTreatment_domestic: 'Vendase (me TVSH)',
+    taxTreatment_reverse_charge: 'Reverse charge (§ 13b UStG)',
+    taxTreatment_intra_eu: 'Furnizim brenda BE-së',
+    taxTreatment_export: 'Eksport (vend i tretë)',
+    taxTreatment_small_business: 'Biznes i vogël (§ 19 UStG)',
+    taxNote_reverse_charge: 'Detyrimi tatimor i marrësit të shërbimit sipas § 13b UStG (reverse charge).',
+    taxNote_intra_eu: 'Furnizim brenda BE-së i përjashtuar nga tatimi sipas § 4 Nr. 1b në lidhje me § 6a UStG.',
+    taxNote_export: 'Furnizim eksporti i përjashtuar nga tatimi sipas § 4 Nr. 1a në lidhje me § 6 UStG.',
+    taxNote_small_business: 'Sipas § 19 UStG nuk llogaritet TVSH.',
+    taxTreatmentRequiresVatId: 'Për reverse charge dhe furnizimet brenda BE-së kërkohet numri i TVSH-së së klientit.',
+    taxTreatmentAccountsDescription: 'Të ardhurat pa TVSH gjermane regjistrohen në llogari të veçanta të të ardhurave pa çelës BU (shembuj SKR03).',
+    vatRates: 'Normat e TVSH-së',
+    vatRatesSettingsDescription: 'Normat e TVSH-së që mund të zgjidhen në fatura, oferta dhe fatura periodike. Një normë mund të zgjidhet vetëm për dokumente, data e të cilave është brenda periudhës së vlefshmërisë. Llogaria dhe çelësi BU përdoren në eksportin DATEV për shitjet vendase.',
+    vatRatePercent: 'Norma (%)',
+    validFrom: 'E vlefshme nga',
+    validTo: 'E vlefshme deri',
+    datevAccount: 'Llogaria e të ardhurave',
+    datevBuKey: 'Çelësi BU',
+    vatRateLabelPlaceholder: 'p.sh. Norma standarde',
+    addVatRate: 'Shto normë TVSH-je',
+    vatRateAccountsHint: 'Llogaritë e të ardhurave për shitjet vendase caktohen për çdo normë TVSH-je te skeda Normat e TVSH-së.',
+    bankReconciliation: 'Rakordimi i pagesave',
+    bankReconciliationDescription: 'Importoni pasqyrat bankare dhe caktoni pagesat hyrëse te faturat e hapura. Sugjerimet bazohen në numrin e faturës në përshkrim, shumën dhe emrin e paguesit.',
+    importBankStatement: 'Importo pasqyrën bankare',
+    bankImportFormatsHint: 'Mbështeten CAMT.053 (XML) dhe MT940. Veprimet e importuara më parë anashkalohen.',
+    bankStatementImported: 'Pasqyra bankare u importua',
+    bankStatementImportedMessage: 'U lexuan {count} pagesa hyrëse, nga të cilat {new} të reja.',
+    confirmBankMatches: 'Regjistro caktimet',
+    bankMatchesConfirmed: 'U regjistruan {count} pagesa, {paid} fatura u paguan plotësisht.',
+    bankTransactionStatus_open: 'Të pacaktuara',
+    bankTransactionStatus_matched: 'Të caktuara',
+    bankTransactionStatus_ignored: 'Të shpërfillura',
+    bookingDate: 'Data e regjistrimit',
+    payer: 'Paguesi',
+    noInvoiceAssigned: '– Asnjë faturë –',
+    suggestedInvoices: 'Sugjerime',
+    otherOpenInvoices: 'Fatura të tjera të hapura',
+    bankMatchReason_invoice_number: 'Numri i faturës',
+    bankMatchReason_amount: 'Shuma',
+    bankMatchReason_customer_name: 'Emri i klientit',
+    ignoreBankTransaction: 'Shpërfill',
+    restoreBankTransaction: 'Rikthe për caktim',
+    noBankTransactions: 'Nuk ka veprime.',
+    sepaMandate: 'Mandati SEPA i debitimit direkt',
+    sepaMandateId: 'Referenca e mandatit',
+    sepaMandateDate: 'Data e nënshkrimit',
+    sepaSequence_FRST: 'Debitimi i parë (FRST)',
+    sepaSequence_RCUR: 'Debitim i përsëritur (RCUR)',
+    sepaSequenceType: 'Sekuenca',
+    sepaCreditorId: 'Numri identifikues i kreditorit',
+    sepaCreditorIdHint: 'Nevojitet për debitimet direkte SEPA (p.sh. DE98ZZZ09999999999).',
+    sepaCreditorIdMissing: 'Ju lutemi vendosni një ID të vlefshme kreditori në profil.',
+    directDebits: 'Debitimet direkte',
+    directDebitsDescription: 'Arkëtoni faturat e hapura të klientëve me mandat SEPA përmes debitimit direkt.',
+    createDirectDebitFile: 'Krijo skedarin e debitimit',
+    collectionDate: 'Data e arkëtimit',
+    showCollectedInvoices: 'Shfaq të arkëtuarat',
+    noDirectDebitInvoices: 'Nuk ka fatura të hapura me mandat SEPA.',
+    confirmDirectDebitMessage: 'Të arkëtohen {count} fatura prej {total} më {date}? Faturat do të shënohen si të arkëtuara.',
+    directDebitExported: 'U eksportuan {count} debitime (mesazhi {id}).',
+    invoicePaidOnlineTitle: 'Faturë e paguar online',
+    invoicePaidOnline: 'Fatura {invoiceNumber} ({customerName}) u pagua përmes Stripe: €{amount}.',
+    quoteRevisions: 'Rishikimet',
+    createRevision: 'Rishikim i ri',
+    confirmCreateRevisionMessage: 'Të krijohet një rishikim i ri i ofertës {number}? Gjendja aktuale arkivohet me PDF dhe më pas nuk mund të ndryshohet apo të kthehet në faturë.',
+    quoteRevisionCreated: 'Rishikimi {number} u krijua.',
+    quoteIsSuperseded: 'Ky rishikim është zëvendësuar nga një më i ri dhe është vetëm për lexim. Vetëm rishikimi aktual mund të kthehet në faturë.',
+    quoteIsSentHint: 'Kjo ofertë është dërguar tashmë. Për të ndryshuar artikujt ose kushtet, krijoni një rishikim të ri.',
+    openLatestRevision: 'Hap rishikimin aktual',
+    compareRevisions: 'Krahaso rishikimet',
+    revisionDifference: 'Diferenca',
+    noQuoteItems: 'Nuk ka artikuj.',
+    supersededOn: 'zëvendësuar më',
+    superseded: 'Zëvendësuar',
+    showSupersededRevisions: 'Shfaq rishikimet e zëvendësuara',
+    quoteItemKind_standard: 'Standard',
+    quoteItemKind_optional: 'Opsionale',
+    quoteItemKind_alternative: 'Alternativë',
+    alternativeGroup: 'Grupi alternativ',
+    selectedByCustomer: 'Zgjedhur nga klienti',
+    notInQuoteTotal: 'Nuk përfshihet në totalin e ofertës',
+    excludedItemsNote: 'Shumat në kllapa (zëra opsionalë dhe alternativa të pazgjedhura) nuk përfshihen në totalin.',
+    acceptanceLink: 'Lidhja e pranimit',
+    copyAcceptanceLink: 'Kopjo lidhjen e pranimit',
+    acceptanceLinkCopied: 'Lidhja u kopjua. Klienti juaj mund ta pranojë ose refuzojë ofertën online përmes saj.',
+    quoteAnsweredOnline: 'Pranuar online nga {name} më {date}.',
+    quoteDeclinedOnlineBy: 'Refuzuar online nga {name} më {date}.',
+    quoteAcceptedOnlineTitle: 'Oferta u pranua',
+    quoteAcceptedOnline: '{signerName} ({customerName}) pranoi online ofertën {quoteNumber} prej €{amount}.',
+    quoteDeclinedOnlineTitle: 'Oferta u refuzua',
+    quoteDeclinedOnline: '{signerName} ({customerName}) refuzoi online ofertën {quoteNumber}.',
+    portalYourResponse: 'Përgjigja juaj',
+    portalSignerName: 'Emri juaj i plotë',
+    portalSign: 'Nënshkruaj',
+    portalSignAgain: 'Nënshkruaj përsëri',
+    portalAcceptanceNote: 'Me pranimin, ju porosisni në mënyrë detyruese shërbimet e zgjedhura më sipër me shumën totale të treguar.',
+    portalAcceptQuote: 'Prano ofertën',
+    portalDeclineQuote: 'Refuzo',
+    portalEnterName: 'Ju lutemi shkruani emrin tuaj.',
+    portalSignatureRequired: 'Ju lutemi nënshkruani për të pranuar ofertën.',
+    portalQuoteAccepted: 'Faleminderit! Oferta u pranua më {date} nga {name}.',
+    portalQuoteDeclined: 'Oferta u refuzua më {date} nga {name}.',
+    portalQuoteNotAvailable: 'Kjo ofertë nuk mund të pranohet më. Ju lutemi na kontaktoni.',
+    visit: 'Vizitë',
+    linkedDocuments: 'Dokumentet e lidhura',
+    createdFrom: 'Krijuar nga',
+    convertedTo: 'Konvertuar në',
+    invoice_status_cancelled: 'Anuluar',
+    expenseStatus_submitted: 'Dorëzuar',
+    expenseStatus_approved: 'Miratuar',
+    expenseStatus_rejected: 'Refuzuar',
+    expenseStatus_reimbursed: 'Rimbursuar',
+    allExpenses: 'Të gjitha shpenzimet',
+    approvalQueue: 'Në pritje të miratimit',
+    approveExpense: 'Mirato shpenzimin',
+    rejectExpense: 'Refuzo shpenzimin',
+    markReimbursed: 'Shëno si të rimbursuar',
+    reject: 'Refuzo',
+    rejectionReason: 'Arsyeja e refuzimit',
+    viewReceipt: 'Shiko faturën',
+    uploadReceipt: 'Ngarko faturën',
+    attachReceiptHint: 'Bashkëngjitni një foto ose PDF të faturës, ose importoni XRechnung (XML) ose PDF ZUGFeRD për të plotësuar shpenzimin automatikisht.',
+    expenseRejectedHint: 'Ky shpenzim u refuzua. Korrigjojeni dhe dorëzojeni përsëri.',
+    expenseLockedHint: 'Ky shpenzim është miratuar dhe mund të ndryshohet vetëm nga një miratues.',
+    resubmitExpense: 'Dorëzo përsëri',
+    expenseSubmittedTitle: 'Shpenzim për miratim',
+    expenseSubmitted: '{userName} dorëzoi shpenzimin {expenseNumber} prej {amount} € për miratim.',
+    expenseApprovedTitle: 'Shpenzimi u miratua',
+    expenseApproved: 'Shpenzimi juaj {expenseNumber} prej {amount} € u miratua nga {userName}.',
+    expenseRejectedTitle: 'Shpenzimi u refuzua',
+    expenseRejected: 'Shpenzimi juaj {expenseNumber} prej {amount} € u refuzua nga {userName}: {reason}',
+    expenseReimbursedTitle: 'Shpenzimi u rimbursua',
+    expenseReimbursed: 'Shpenzimi juaj {expenseNumber} prej {amount} € u rimbursua.',
+    expenseVatLines: 'Shumat sipas normës së TVSH-së',
+    grossAmount: 'Bruto',
+    inputTaxDeductible: 'E zbritshme',
+    inputTaxDeductibleHint: 'TVSH e zbritshme. TVSH e pazbritshme (p.sh. për pritje) llogaritet si kosto.',
+    addVatLine: 'Shto një normë tjetër TVSH-je',
+    inputTax: 'TVSH e zbritshme',
+    vatPayable: 'TVSH për t\'u paguar',
+    datevInputBuKey: 'Çelësi BU për TVSH-në e zbritshme',
+    datevSkip_missing_input_tax_key: 'Nuk ka çelës BU për TVSH-në e zbritshme të',
+    exportForDatevWithDocuments: 'Eksporto për DATEV (me dokumente)',
+    datevDocumentsMissing: '{count} dokumente u eksportuan pa imazh: {documents}',
+    datevDebtorAccount: 'Llogaria e debitorit DATEV',
+    datevDebtorAccountAutomatic: 'Lëreni bosh për caktim automatik',
+    datevDebtorAccountInvalid: 'Llogaria e debitorit duhet të ketë 5 deri në 9 shifra.',
+    debtorRangeDescription: 'Çdo klient merr llogarinë e vet të debitorit nga ky interval numrash. Llogaria e debitorit më sipër përdoret vetëm për klientët pa llogari të vetën.',
+    debtorRangeStart: 'Llogaritë e debitorëve nga',
+    debtorRangeEnd: 'Llogaritë e debitorëve deri',
+    expense: 'Shpenzim',
+    payment: 'Pagesë',
+    datevBatchSetup: 'Grupi i regjistrimeve',
+    datevBatchDescription: 'Këto të dhëna shkruhen në krye të çdo skedari eksporti (formati EXTF 700) dhe i nevojiten kontabilistit për të identifikuar klientin.',
+    consultantNumber: 'Numri i këshilltarit',
+    clientNumber: 'Numri i klientit',
+    fiscalYearStart: 'Fillimi i vitit financiar',
+    accountLength: 'Gjatësia e llogarive',
+    lockPostings: 'Kyç regjistrimet',
+    lockPostingsHint: 'Regjistrimet e kyçura nuk mund të ndryshohen më pas importimit në DATEV.',
+    datevSettingsIncomplete: 'Cilësimet DATEV janë të paplota. Ju lutemi vendosni numrin e këshilltarit dhe të klientit te cilësimet.',
+    datevValidationReport: 'Raporti i kontrollit DATEV',
+    datevBookingsReady: '{count} regjistrime në {batches} grup(e) janë gati për eksport.',
+    datevSkippedRecords: '{count} dokumente nuk eksportohen sepse u mungon caktimi i llogarisë. Plotësoni llogaritë te cilësimet DATEV për t\'i eksportuar.',
+    datevDocument: 'Dokumenti',
+    datevSkipReason: 'Arsyeja',
+    datevSkip_missing_debtor_account: 'Nuk ka llogari debitori',
+    datevSkip_missing_revenue_account: 'Nuk ka llogari të ardhurash për',
+    datevSkip_missing_creditor_account: 'Nuk ka llogari kreditori',
+    datevSkip_missing_expense_account: 'Nuk ka llogari shpenzimesh për kategorinë',
+    exportAnyway: 'Eksporto gjithsesi',
+    scheduleVisit: 'Planifiko vizitë',
+    scheduleVisitHint: 'Vizita krijohet për nesër pa punonjës dhe merr produktet e porositura të ofertës. Zgjidhni llojin e punës.',
+    visitScheduledFromQuote: 'Vizita {number} u krijua. Caktojeni te një punonjës në dispeçer.',
     update: 'Përditëso',
     
     // Misc
@@ -0,0 +1,159 @@
+// @vitest-environment happy-dom
+// CAMT files are parsed with the browser's DOMParser.
+import { describe, expect, it } from 'vitest';
+import { findMatchCandidates, OpenInvoice, parseCamt053, parseMt940, proposeMatch } from './bankImport';
+
+const CAMT_053 = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.08">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Ntry>
+        <Amt Ccy="EUR">119.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts><Cd>BOOK</Cd></Sts>
+        <BookgDt><Dt>2025-01-15</Dt></BookgDt>
+        <ValDt><Dt>2025-01-16</Dt></ValDt>
+        <AcctSvcrRef>BANKREF-1</AcctSvcrRef>
+        <NtryDtls>
+          <TxDtls>
+            <RltdPties>
+              <Dbtr><Pty><Nm>Müller  GmbH</Nm></Pty></Dbtr>
+              <DbtrAcct><Id><IBAN>DE89370400440532013000</IBAN></Id></DbtrAcct>
+            </RltdPties>
+            <RmtInf><Ustrd>Rechnung RE-2025-0001</Ustrd></RmtInf>
+          </TxDtls>
+        </NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">50.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts><Cd>BOOK</Cd></Sts>
+        <BookgDt><Dt>2025-01-15</Dt></BookgDt>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">300.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><DtTm>2025-01-17T10:00:00</DtTm></BookgDt>
+        <NtryDtls>
+          <TxDtls>
+            <Amt Ccy="EUR">100.00</Amt>
+            <Refs><EndToEndId>E2E-1</EndToEndId></Refs>
+            <RmtInf><Strd><CdtrRefInf><Ref>RE-2025-0002</Ref></CdtrRefInf></Strd></RmtInf>
+          </TxDtls>
+          <TxDtls>
+            <Amt Ccy="EUR">200.00</Amt>
+            <RmtInf><Ustrd>RE-2025-0003</Ustrd></RmtInf>
+          </TxDtls>
+        </NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">20.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts><Cd>PDNG</Cd></Sts>
+        <BookgDt><Dt>2025-01-18</Dt></BookgDt>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+const MT940 = [
+  ':20:STARTUMS',
+  ':25:37040044/0532013000',
+  ':28C:00001/001',
+  ':60F:C241230EUR1000,00',
+  ':61:2412310102CR119,00NTRFNONREF//BANKREF-2',
+  ':86:166?00GUTSCHRIFT?20EREF+E2E-7?21SVWZ+Rechnung RE-2025-0001?22 vielen Dank',
+  '?31DE89370400440532013000?32Müller GmbH',
+  ':61:250102D50,00NTRFNONREF',
+  ':86:Lastschrift',
+  ':62F:C250102EUR1069,00',
+  '-',
+].join('\r\n');
+
+const openInvoice = (id: number, invoiceNumber: string, totalAmount: number, customerName: string): OpenInvoice => ({
+  id,
+  invoice_number: invoiceNumber,
+  total_amount: totalAmount,
+  status: 'sent',
+  issue_date: '2025-01-01',
+  customers: { name: customerName },
+  invoice_payments: [],
+} as unknown as OpenInvoice);
+
+describe('parseCamt053', () => {
+  it('reads booked credits with payer, IBAN and remittance information', () => {
+    const [credit] = parseCamt053(CAMT_053);
+    expect(credit).toEqual({
+      booking_date: '2025-01-15',
+      value_date: '2025-01-16',
+      currency: 'EUR',
+      amount: 119,
+      counterparty_name: 'Müller GmbH',
+      counterparty_iban: 'DE89370400440532013000',
+      reference: 'Rechnung RE-2025-0001',
+      bank_reference: 'BANKREF-1',
+    });
+  });
+
+  it('splits batch bookings, and skips debits and pending entries', () => {
+    const credits = parseCamt053(CAMT_053);
+    expect(credits.map(credit => [credit.booking_date, credit.amount, credit.reference, credit.bank_reference])).toEqual([
+      ['2025-01-15', 119, 'Rechnung RE-2025-0001', 'BANKREF-1'],
+      ['2025-01-17', 100, 'RE-2025-0002', 'E2E-1'],
+      ['2025-01-17', 200, 'RE-2025-0003', null],
+    ]);
+  });
+
+  it('rejects files that are not a CAMT.053 statement', () => {
+    expect(() => parseCamt053('<Document><Other/></Document>')).toThrow(/not a CAMT.053/);
+    expect(() => parseCamt053('no xml')).toThrow();
+  });
+});
+
+describe('parseMt940', () => {
+  it('reads credits with the German field 86 subfields and skips debits', () => {
+    expect(parseMt940(MT940)).toEqual([{
+      booking_date: '2025-01-02',
+      value_date: '2024-12-31',
+      currency: 'EUR',
+      amount: 119,
+      counterparty_name: 'Müller GmbH',
+      counterparty_iban: 'DE89370400440532013000',
+      reference: 'Rechnung RE-2025-0001 vielen Dank E2E-7',
+      bank_reference: 'BANKREF-2',
+    }]);
+  });
+
+  it('rejects files without transactions', () => {
+    expect(() => parseMt940(':20:STARTUMS\n:25:37040044/0532013000')).toThrow(/not an MT940/);
+  });
+});
+
+describe('findMatchCandidates', () => {
+  const invoices = [
+    openInvoice(1, 'RE-2025-0001', 119, 'Müller GmbH'),
+    openInvoice(2, 'RE-2025-0010', 119, 'Schmidt KG'),
+    openInvoice(3, 'RE-2025-0002', 50, 'Weber'),
+  ];
+
+  it('ranks the invoice named in the reference with matching amount and payer first', () => {
+    const candidates = findMatchCandidates({ amount: 119, booking_date: '2025-01-15', counterparty_name: 'MUELLER GMBH', reference: 'Rechnung RE 2025 0001' }, invoices);
+    expect(candidates.map(candidate => [candidate.invoice.id, candidate.reasons])).toEqual([
+      [1, ['invoice_number', 'amount', 'customer_name']],
+      [2, ['amount']],
+    ]);
+    expect(proposeMatch(candidates)?.invoice.id).toBe(1);
+  });
+
+  it('does not match an invoice number that is only the prefix of another number', () => {
+    const candidates = findMatchCandidates({ amount: 10, booking_date: '2025-01-15', counterparty_name: null, reference: 'RE-2025-00010' }, invoices);
+    expect(candidates).toEqual([]);
+  });
+
+  it('proposes nothing if the amount alone matches several invoices', () => {
+    const candidates = findMatchCandidates({ amount: 119, booking_date: '2025-01-15', counterparty_name: 'Unbekannt', reference: 'Zahlung' }, invoices);
+    expect(candidates.map(candidate => candidate.invoice.id)).toEqual([1, 2]);
+    expect(proposeMatch(candidates)).toBeNull();
+  });
+});
@@ -0,0 +1,340 @@
+import { supabase } from "../services/supabase";
+import { BankTransaction, Invoice, InvoicePayment, InvoiceStatus } from "../types";
+import { calculateOpenBalance, calculatePaymentSkonto, recordPayment } from "./payments";
+
+/**
+ * A credit booked on the bank account, as read from a statement file.
+ */
+export type ParsedBankTransaction = Pick<BankTransaction,
+  'booking_date' | 'value_date' | 'amount' | 'currency' | 'counterparty_name' | 'counterparty_iban' | 'reference' | 'bank_reference'>;
+
+/**
+ * An open invoice that incoming payments can be matched against.
+ */
+export type OpenInvoice = Invoice & { invoice_payments?: Pick<InvoicePayment, 'amount' | 'skonto_amount'>[] };
+
+export type MatchReason = 'invoice_number' | 'amount' | 'customer_name';
+
+export interface BankMatchCandidate {
+  invoice: OpenInvoice;
+  openBalance: number;
+  score: number;
+  reasons: MatchReason[];
+}
+
+// An invoice number in the reference is the strongest hint; amount and payer name only count together.
+const MATCH_WEIGHTS: Record<MatchReason, number> = { invoice_number: 3, amount: 2, customer_name: 1 };
+const PROPOSAL_MIN_SCORE = 3;
+
+// --- XML helpers: CAMT files use a default namespace that differs per version, so elements are matched by their local name only.
+
+const children = (parent: Element | null | undefined, name: string): Element[] =>
+  parent ? Array.from(parent.children).filter(el => el.localName === name) : [];
+
+const child = (parent: Element | null | undefined, ...path: string[]): Element | null => {
+  let current: Element | null = parent || null;
+  for (const name of path) {
+    current = children(current, name)[0] || null;
+    if (!current) return null;
+  }
+  return current;
+};
+
+const text = (parent: Element | null | undefined, ...path: string[]): string => child(parent, ...path)?.textContent?.trim() || '';
+
+const clean = (value: string): string => value.replace(/\s+/g, ' ').trim();
+
+const camtDate = (parent: Element | null): string => (text(parent, 'Dt') || text(parent, 'DtTm')).slice(0, 10);
+
+const parseCamtEntry = (entry: Element): ParsedBankTransaction[] => {
+  // Version 08 and later wrap the status in a code element.
+  const status = text(entry, 'Sts', 'Cd') || text(entry, 'Sts');
+  if (text(entry, 'CdtDbtInd') !== 'CRDT' || status !== 'BOOK' || text(entry, 'RvslInd') === 'true') return [];
+
+  const entryAmount = child(entry, 'Amt');
+  const booking = {
+    booking_date: camtDate(child(entry, 'BookgDt')),
+    value_date: camtDate(child(entry, 'ValDt')) || null,
+    currency: entryAmount?.getAttribute('Ccy') || 'EUR',
+  };
+  const details = children(child(entry, 'NtryDtls'), 'TxDtls');
+
+  // Batch bookings list every single credit with its own amount; otherwise the entry is the credit.
+  const transactions = (details.length > 0 ? details : [null]).map(detail => {
+    const parties = child(detail, 'RltdPties');
+    const debtor = child(parties, 'Dbtr', 'Pty') || child(parties, 'Dbtr');
+    const remittance = child(detail, 'RmtInf');
+    const reference = [
+      ...children(remittance, 'Ustrd').map(el => el.textContent || ''),
+      ...children(remittance, 'Strd').map(el => text(el, 'CdtrRefInf', 'Ref')),
+    ].filter(Boolean).join(' ') || text(entry, 'AddtlNtryInf');
+    const amount = details.length > 1 ? text(detail, 'Amt') || text(detail, 'AmtDtls', 'TxAmt', 'Amt') : entryAmount?.textContent || '';
+    return {
+      ...booking,
+      amount: Math.round(parseFloat(amount) * 100) / 100,
+      counterparty_name: clean(text(debtor, 'Nm')) || null,
+      counterparty_iban: text(parties, 'DbtrAcct', 'Id', 'IBAN') || null,
+      reference: clean(reference) || null,
+      bank_reference: text(detail, 'Refs', 'AcctSvcrRef') || text(entry, 'AcctSvcrRef') || text(detail, 'Refs', 'EndToEndId') || null,
+    };
+  });
+  return transactions.filter(transaction => transaction.booking_date && transaction.amount > 0);
+};
+
+/**
+ * Parses the booked credits of a CAMT.053 bank statement (ISO 20022, any version).
+ * @param xml The XML document as string.
+ */
+export const parseCamt053 = (xml: string): ParsedBankTransaction[] => {
+  const xmlDocument = new DOMParser().parseFromString(xml, 'application/xml');
+  if (xmlDocument.getElementsByTagName('parsererror').length > 0) {
+    throw new Error("The file is not a valid XML document.");
+  }
+  const statementRoot = child(xmlDocument.documentElement, 'BkToCstmrStmt');
+  if (!statementRoot) {
+    throw new Error("The XML file is not a CAMT.053 bank statement.");
+  }
+  return children(statementRoot, 'Stmt').flatMap(statement => children(statement, 'Ntry').flatMap(parseCamtEntry));
+};
+
+// MT940 dates are YYMMDD; the entry date only has MMDD and takes the year of the value date,
+// corrected for bookings around the turn of the year.
+const mt940Date = (yymmdd: string, mmdd?: string): string => {
+  let year = 2000 + parseInt(yymmdd.slice(0, 2), 10);
+  const valueMonth = yymmdd.slice(2, 4);
+  if (!mmdd) return `${year}-${valueMonth}-${yymmdd.slice(4, 6)}`;
+  if (mmdd.slice(0, 2) === '12' && valueMonth === '01') year--;
+  if (mmdd.slice(0, 2) === '01' && valueMonth === '12') year++;
+  return `${year}-${mmdd.slice(0, 2)}-${mmdd.slice(2, 4)}`;
+};
+
+// SEPA credits prefix the parts of the remittance information with keywords. The free text (SVWZ)
+// and the end-to-end reference (EREF) are kept; mandate and creditor IDs are irrelevant for matching.
+const sepaReference = (value: string): string => {
+  const parts = value.split(/(EREF|KREF|MREF|CRED|DEBT|COAM|OAMT|SVWZ|ABWA|ABWE)\+/);
+  if (parts.length < 3) return value;
+  const byKeyword = new Map<string, string>();
+  for (let i = 1; i < parts.length; i += 2) byKeyword.set(parts[i], parts[i + 1].trim());
+  const endToEndId = byKeyword.get('EREF');
+  return [byKeyword.get('SVWZ'), endToEndId !== 'NOTPROVIDED' ? endToEndId : ''].filter(Boolean).join(' ');
+};
+
+// German banks structure field 86 with ?nn subfields: 20-29 and 60-63 hold the remittance
+// information, 32-33 the payer's name and 31 the payer's IBAN.
+const parseMt940Details = (details: string): Pick<ParsedBankTransaction, 'counterparty_name' | 'counterparty_iban' | 'reference'> => {
+  const flat = details.replace(/\r?\n/g, '');
+  if (!/\?\d\d/.test(flat)) return { counterparty_name: null, counterparty_iban: null, reference: clean(flat) || null };
+  const subfields = new Map<number, string>();
+  flat.split('?').slice(1).forEach(part => subfields.set(parseInt(part.slice(0, 2), 10), part.slice(2)));
+  const join = (codes: number[]) => clean(codes.map(code => subfields.get(code) || '').join(''));
+  const iban = (subfields.get(31) || '').trim();
+  return {
+    counterparty_name: join([32, 33]) || null,
+    counterparty_iban: /^[A-Z]{2}\d{2}/.test(iban) ? iban : null,
+    reference: clean(sepaReference(join([20, 21, 22, 23, 24, 25, 26, 27, 28, 29, 60, 61, 62, 63]))) || null,
+  };
+};
+
+/**
+ * Parses the credits of an MT940 bank statement (SWIFT, including the German field 86 structure).
+ * @param content The statement file as text; may contain several statements.
+ */
+export const parseMt940 = (content: string): ParsedBankTransaction[] => {
+  // Fields start with :tag: at the beginning of a line and may continue over several lines.
+  const fields: { tag: string; value: string }[] = [];
+  content.split(/\r?\n/).forEach(line => {
+    const match = line.match(/^:(\d\d[A-Z]?):(.*)$/);
+    if (match) fields.push({ tag: match[1], value: match[2] });
+    else if (fields.length > 0 && line.trim() !== '-' && !line.startsWith('-}')) fields[fields.length - 1].value += `\n${line}`;
+  });
+  if (!fields.some(field => field.tag === '61')) {
+    throw new Error("The file is not an MT940 bank statement.");
+  }
+
+  const transactions: ParsedBankTransaction[] = [];
+  let currency = 'EUR';
+  fields.forEach((field, index) => {
+    if (field.tag === '60F' || field.tag === '60M') currency = field.value.slice(7, 10) || currency;
+    if (field.tag !== '61') return;
+    const match = field.value.match(/^(\d{6})(\d{4})?(R?[CD])[A-Z]?(\d+,\d{0,2})[A-Z][A-Z0-9]{3}([^/\n]*)(?:\/\/([^\n]*))?/);
+    if (!match || match[3] !== 'C') return;
+    const next = fields[index + 1];
+    const details = next?.tag === '86' ? parseMt940Details(next.value) : { counterparty_name: null, counterparty_iban: null, reference: null };
+    const customerReference = match[5].trim();
+    transactions.push({
+      booking_date: mt940Date(match[1], match[2]),
+      value_date: mt940Date(match[1]),
+      amount: Math.round(parseFloat(match[4].replace(',', '.')) * 100) / 100,
+      currency,
+      ...details,
+      reference: details.reference || (customerReference !== 'NONREF' ? customerReference : null) || null,
+      bank_reference: match[6]?.trim() || null,
+    });
+  });
+  return transactions.filter(transaction => transaction.amount > 0);
+};
+
+/**
+ * Reads an uploaded bank statement, either CAMT.053 (XML) or MT940.
+ * MT940 files are often Latin-1 encoded, so the content is decoded as UTF-8 only if it is valid UTF-8.
+ */
+export const readBankStatementFile = async (file: Blob): Promise<ParsedBankTransaction[]> => {
+  const buffer = await file.arrayBuffer();
+  let content: string;
+  try {
+    content = new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    content = new TextDecoder('iso-8859-1').decode(buffer);
+  }
+  content = content.replace(/^\uFEFF/, '');
+  return content.trimStart().startsWith('<') ? parseCamt053(content) : parseMt940(content);
+};
+
+const sha256 = async (value: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Saves the credits of a statement in the reconciliation queue. Credits that were already imported
+ * with an earlier (overlapping) statement are skipped.
+ * @returns The newly queued transactions.
+ */
+export const importBankTransactions = async (
+  transactions: ParsedBankTransaction[],
+  orgId: string,
+  userId: string | null
+): Promise<BankTransaction[]> => {
+  // Identical credits on the same day are told apart by their position, which is the same in every statement.
+  const occurrences = new Map<string, number>();
+  const rows = await Promise.all(transactions.map(async transaction => {
+    const key = [transaction.booking_date, transaction.amount.toFixed(2), transaction.counterparty_iban, transaction.reference, transaction.bank_reference].join('|');
+    const occurrence = (occurrences.get(key) || 0) + 1;
+    occurrences.set(key, occurrence);
+    return { ...transaction, org_id: orgId, user_id: userId, status: 'open', import_hash: await sha256(`${key}#${occurrence}`) };
+  }));
+  if (rows.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('bank_transactions')
+    .upsert(rows, { onConflict: 'org_id,import_hash', ignoreDuplicates: true })
+    .select();
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data || []) as BankTransaction[];
+};
+
+const normalizeName = (name: string): string[] => name
+  .toLowerCase()
+  .replace(/ä/g, 'ae').replace(/ö/g, 'oe').replace(/ü/g, 'ue').replace(/ß/g, 'ss')
+  .replace(/[^a-z0-9]+/g, ' ')
+  .split(' ')
+  .filter(token => token.length > 1 && !['gmbh', 'mbh', 'ag', 'kg', 'ug', 'co', 'ohg', 'ek', 'gbr', 'shpk'].includes(token));
+
+// Invoice numbers are often typed with other separators or none at all, e.g. "RE 2024 0001" for "RE-2024-0001".
+const containsInvoiceNumber = (reference: string, invoiceNumber: string): boolean => {
+  const characters = invoiceNumber.toUpperCase().replace(/[^A-Z0-9]/g, '').split('');
+  if (characters.length === 0) return false;
+  const pattern = characters.map(character => character.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('[\\s\\-_/.]*');
+  return new RegExp(`(?<![A-Z0-9])${pattern}(?![0-9])`).test(reference.toUpperCase());
+};
+
+/**
+ * Rates every open invoice against a bank credit: invoice number in the reference, amount equal to
+ * the open balance (or to the balance less Skonto) and payer name matching the customer.
+ * @returns The invoices with at least one matching criterion, best first.
+ */
+export const findMatchCandidates = (
+  transaction: Pick<BankTransaction, 'amount' | 'booking_date' | 'counterparty_name' | 'reference'>,
+  invoices: OpenInvoice[]
+): BankMatchCandidate[] => {
+  const payerTokens = normalizeName(transaction.counterparty_name || '');
+  return invoices
+    .map(invoice => {
+      const payments = invoice.invoice_payments || [];
+      const openBalance = calculateOpenBalance(invoice, payments);
+      const reasons: MatchReason[] = [];
+      if (transaction.reference && containsInvoiceNumber(transaction.reference, invoice.invoice_number)) {
+        reasons.push('invoice_number');
+      }
+      if (Math.abs(openBalance - transaction.amount) < 0.005
+        || calculatePaymentSkonto(invoice, payments, { amount: transaction.amount, payment_date: transaction.booking_date }) > 0) {
+        reasons.push('amount');
+      }
+      const customerTokens = normalizeName(invoice.customers?.name || '');
+      if (customerTokens.length > 0 && customerTokens.every(token => payerTokens.includes(token))) {
+        reasons.push('customer_name');
+      }
+      return { invoice, openBalance, reasons, score: reasons.reduce((sum, reason) => sum + MATCH_WEIGHTS[reason], 0) };
+    })
+    .filter(candidate => candidate.score > 0)
+    .sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Picks the invoice proposed for a bank credit: the best candidate, if it is convincing and unambiguous.
+ * @returns The proposal, or null if the credit has to be assigned manually.
+ */
+export const proposeMatch = (candidates: BankMatchCandidate[]): BankMatchCandidate | null => {
+  const [best, second] = candidates;
+  if (!best || best.score < PROPOSAL_MIN_SCORE || (second && second.score === best.score)) return null;
+  return best;
+};
+
+/**
+ * Books a bank credit as payment of an invoice and removes it from the reconciliation queue.
+ * The credit is claimed before the payment is recorded, so it can only be booked once,
+ * even if it is confirmed twice or by two users at the same time.
+ * @returns The resulting invoice status.
+ */
+export const confirmBankMatch = async (
+  transaction: BankTransaction,
+  invoice: Pick<Invoice, 'id' | 'org_id'>,
+  userId: string | null
+): Promise<InvoiceStatus> => {
+  const { data: claimed, error: claimError } = await supabase
+    .from('bank_transactions')
+    .update({ status: 'matched', invoice_id: invoice.id })
+    .eq('id', transaction.id)
+    .eq('status', 'open')
+    .select('id');
+  if (claimError) {
+    throw new Error(claimError.message);
+  }
+  if (!claimed || claimed.length === 0) {
+    throw new Error("This bank transaction is no longer open; it has already been matched or ignored.");
+  }
+
+  let result: Awaited<ReturnType<typeof recordPayment>>;
+  try {
+    result = await recordPayment(invoice, {
+      amount: transaction.amount,
+      payment_date: transaction.booking_date,
+      method: 'bank_transfer',
+      reference: transaction.reference || transaction.bank_reference || undefined,
+    }, userId, supabase);
+  } catch (e) {
+    await supabase.from('bank_transactions').update({ status: 'open', invoice_id: null }).eq('id', transaction.id);
+    throw e;
+  }
+
+  const { error } = await supabase
+    .from('bank_transactions')
+    .update({ payment_id: result.payment.id })
+    .eq('id', transaction.id);
+  if (error) {
+    throw new Error(error.message);
+  }
+  return result.status;
+};
+
+/**
+ * Marks a bank credit as not belonging to any invoice, or puts it back into the queue.
+ */
+export const setBankTransactionIgnored = async (transactionId: number, ignored: boolean): Promise<void> => {
+  const { error } = await supabase.from('bank_transactions').update({ status: ignored ? 'ignored' : 'open' }).eq('id', transactionId).eq('status', ignored ? 'open' : 'ignored');
+  if (error) {
+    throw new Error(error.message);
+  }
+};
@@ -0,0 +1,217 @@
+import { supabase } from "../services/supabase";
+import { Profile, Invoice, InvoiceItem, InvoiceStatus, InvoiceType } from "../types";
+import { generateNextNumber } from "./numberGenerator";
+import { calculateDocumentTotals, toPercentDiscount } from "./documentTotals";
+import { syncInvoicePaymentStatus } from "./payments";
+
+export type CorrectionType = 'cancellation' | 'credit_note';
+
+/** Invoice types that bill the customer, as opposed to correction documents. */
+export const BILLING_INVOICE_TYPES: InvoiceType[] = ['invoice', 'down_payment', 'final'];
+
+/**
+ * Returns the translation key of an invoice status. Cancelled invoices read "Storniert" rather than the
+ * "Abgesagt" of cancelled visits and appointments.
+ */
+export const getInvoiceStatusLabelKey = (status: InvoiceStatus): string => status === 'cancelled' ? 'invoice_status_cancelled' : status;
+
+/**
+ * Returns true for cancellation invoices and credit notes, which are immutable
+ * correction documents rather than regular invoices.
+ */
+export const isCorrectionDocument = (invoice: Partial<Invoice>): boolean => {
+  return invoice.invoice_type === 'cancellation' || invoice.invoice_type === 'credit_note';
+};
+
+/**
+ * Sums up how much of each original invoice line has already been credited
+ * by existing cancellation invoices or credit notes.
+ * @param originalInvoiceId The ID of the invoice being corrected.
+ * @returns The existing correction documents and a map of original_item_id -> credited quantity.
+ */
+export const getExistingCorrections = async (originalInvoiceId: number) => {
+  const { data, error } = await supabase
+    .from('invoices')
+    .select('id, invoice_number, invoice_type, issue_date, total_amount, invoice_items(original_item_id, quantity)')
+    .eq('original_invoice_id', originalInvoiceId)
+    .order('issue_date', { ascending: true });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const creditedQuantities = new Map<number, number>();
+  (data || []).forEach(correction => {
+    (correction.invoice_items || []).forEach((item: { original_item_id: number | null; quantity: number }) => {
+      if (!item.original_item_id) return;
+      // Correction items carry negative quantities.
+      creditedQuantities.set(item.original_item_id, (creditedQuantities.get(item.original_item_id) || 0) + Math.abs(Number(item.quantity)));
+    });
+  });
+
+  return { corrections: (data || []) as Partial<Invoice>[], creditedQuantities };
+};
+
+/**
+ * Creates a cancellation invoice (Stornorechnung) or credit note (Gutschrift) for an issued invoice.
+ * The new document mirrors the selected lines with negative quantities, gets its own number
+ * sequence and releases the reserved stock of the credited products.
+ * If the invoice is not paid yet, a cancellation closes it (both documents become 'cancelled') and a
+ * credit note reduces its open balance, so it is no longer dunned or collected in full.
+ * @param originalInvoiceId The ID of the invoice to correct.
+ * @param type 'cancellation' reverses everything that has not been credited yet, 'credit_note' only the given quantities.
+ * @param profile The profile of the user performing the action.
+ * @param quantities For credit notes: map of original invoice_item id -> quantity to credit.
+ * @returns The newly created correction document.
+ */
+export const createCorrectionInvoice = async (
+  originalInvoiceId: number,
+  type: CorrectionType,
+  profile: Profile,
+  quantities: Record<number, number> = {}
+): Promise<Invoice> => {
+  if (!profile.org_id) {
+    throw new Error("User is not associated with an organization.");
+  }
+
+  // 1. Fetch the original invoice with its items, ensuring it belongs to the user's org
+  const { data: invoiceRows, error: invoiceError } = await supabase
+    .from('invoices')
+    .select('*, invoice_items:invoice_items!left(*)')
+    .eq('id', originalInvoiceId)
+    .eq('org_id', profile.org_id);
+
+  if (invoiceError) {
+    throw new Error(invoiceError.message);
+  }
+  if (!invoiceRows || invoiceRows.length === 0) {
+    throw new Error("Invoice not found or you do not have permission to access it.");
+  }
+
+  const firstRow = invoiceRows[0];
+  const allItems = invoiceRows.map(row => row.invoice_items).flat().filter(Boolean);
+  const originalItems: InvoiceItem[] = Array.from(new Map(allItems.map(item => [item.id, item])).values());
+  const { invoice_items, ...original } = firstRow as Invoice;
+
+  if (isCorrectionDocument(original)) {
+    throw new Error("Cancellation invoices and credit notes cannot be corrected themselves.");
+  }
+  const issuedStatuses: InvoiceStatus[] = ['sent', 'paid', 'overdue'];
+  if (!issuedStatuses.includes(original.status)) {
+    throw new Error("Only issued invoices can be cancelled or credited. Draft invoices can still be edited.");
+  }
+
+  // 2. Determine what is still open to credit
+  const { corrections, creditedQuantities } = await getExistingCorrections(originalInvoiceId);
+  const existingCancellation = corrections.find(c => c.invoice_type === 'cancellation');
+  if (existingCancellation) {
+    throw new Error(`Invoice #${original.invoice_number} has already been cancelled by #${existingCancellation.invoice_number}.`);
+  }
+
+  const lines = originalItems
+    .map(item => {
+      const remaining = Number(item.quantity) - (creditedQuantities.get(item.id) || 0);
+      const quantity = type === 'cancellation' ? remaining : Number(quantities[item.id] || 0);
+      if (quantity > remaining) {
+        throw new Error(`Cannot credit more than the remaining quantity (${remaining}) for "${item.description}".`);
+      }
+      return { item, quantity };
+    })
+    .filter(line => line.quantity > 0);
+
+  if (lines.length === 0) {
+    throw new Error(type === 'cancellation'
+      ? `Invoice #${original.invoice_number} has already been fully credited.`
+      : "Please enter a quantity for at least one item.");
+  }
+
+  // 3. Prepare the correction document
+  const newNumber = await generateNextNumber(profile.org_id, type);
+  const today = new Date().toISOString().split('T')[0];
+  // Discounts are carried over as percentages of the original amounts, so partial credits are reduced proportionally.
+  const originalTotals = calculateDocumentTotals(originalItems, original);
+  const newItems = lines.map(({ item, quantity }) => ({
+    product_id: item.product_id,
+    description: item.description,
+    quantity: -quantity,
+    unit_price: item.unit_price,
+    vat_rate: item.vat_rate,
+    ...toPercentDiscount(Number(item.quantity) * Number(item.unit_price), item),
+    original_item_id: item.id,
+  }));
+  const documentDiscount = toPercentDiscount(originalTotals.subtotal, original);
+  const totalAmount = calculateDocumentTotals(newItems, documentDiscount).grandTotal;
+  const isUnpaid = original.status !== 'paid';
+
+  const newInvoiceData: Omit<Invoice, 'id' | 'customers' | 'invoice_items' | 'organizations' | 'original_invoice' | 'created_at'> = {
+    user_id: profile.id,
+    org_id: profile.org_id,
+    customer_id: original.customer_id,
+    invoice_number: newNumber,
+    issue_date: today,
+    due_date: today,
+    total_amount: totalAmount,
+    // A correction of a paid invoice is settled by refunding, otherwise it offsets the open amount.
+    status: !isUnpaid ? 'paid' : type === 'cancellation' ? 'cancelled' : 'sent',
+    invoice_type: type,
+    original_invoice_id: original.id,
+    tax_treatment: original.tax_treatment,
+    customer_notes: '',
+    internal_notes: '',
+    ...documentDiscount,
+  };
+
+  // 4. Insert the correction document
+  const { data: createdInvoice, error: insertError } = await supabase
+    .from('invoices')
+    .insert(newInvoiceData)
+    .select()
+    .single();
+
+  if (insertError || !createdInvoice) {
+    throw new Error(insertError?.message || `Failed to create ${type.replace('_', ' ')}.`);
+  }
+
+  // 5. Insert the negated items
+  const { error: itemsInsertError } = await supabase
+    .from('invoice_items')
+    .insert(newItems.map(item => ({ ...item, invoice_id: createdInvoice.id })));
+
+  if (itemsInsertError) {
+    // Rollback: if items fail, delete the document we just created
+    await supabase.from('invoices').delete().eq('id', createdInvoice.id);
+    throw new Error(itemsInsertError.message || "Failed to create correction items.");
+  }
+
+  // 6. Close the unpaid original or reduce its open balance
+  if (isUnpaid) {
+    const { error: originalUpdateError } = await supabase
+      .from('invoices')
+      .update(type === 'cancellation'
+        ? { status: 'cancelled' }
+        : { credited_amount: Math.round((Number(original.credited_amount || 0) - totalAmount) * 100) / 100 })
+      .eq('id', original.id);
+    if (originalUpdateError) {
+      await supabase.from('invoices').delete().eq('id', createdInvoice.id);
+      throw new Error(originalUpdateError.message);
+    }
+    if (type === 'credit_note') {
+      await syncInvoicePaymentStatus(original.id, supabase);
+    }
+  }
+
+  // 7. Release the stock that was reserved by the original invoice
+  const stockUpdates = lines
+    .filter(({ item }) => item.product_id)
+    .map(({ item, quantity }) => ({ product_id: item.product_id!, quantity_delta: -quantity }));
+
+  if (stockUpdates.length > 0) {
+    const { error: stockError } = await supabase.rpc('update_stock_levels', { updates: stockUpdates });
+    if (stockError) {
+      // The document itself is valid, so this is logged rather than rolled back.
+      console.error(`Stock update failed for ${newNumber}:`, stockError);
+    }
+  }
+
+  return createdInvoice as Invoice;
+};
@@ -1,9 +1,19 @@
 import { supabase } from "../services/supabase";
-import { Profile, Quote, Invoice, QuoteItem } from "../types";
+import { Profile, Quote, Invoice, QuoteItem, Product, Visit, VisitCategory, VisitStatus } from "../types";
+import { addDays, addMinutes, setHours, startOfDay } from "date-fns";
 import { generateNextNumber } from "./numberGenerator";
+import { calculateDocumentTotals } from "./documentTotals";
+import { calculateDueDate, getPaymentTermFields, getPaymentTerms, resolvePaymentTerm } from "./paymentTerms";
+import { applyTaxTreatment, getTaxTreatment } from "./taxTreatment";
+import { getIncludedQuoteItems } from "./quoteOptions";
+import { getQuoteBilling } from "./downPayments";
 
 /**
- * Converts a given quote into a new invoice.
+ * Converts a given quote into a new invoice. The invoice references the quote via quote_id.
+ * Creating the invoice with its items and accepting the quote happens in one transaction
+ * (convert_quote_to_invoice), which also rejects a second conversion of the same quote.
+ * Quotes already billed by down-payment or final invoices are refused: their remaining amount is billed
+ * by the final invoice, which deducts the down payments.
  * @param quoteId The ID of the quote to convert.
  * @param profile The profile of the user performing the action.
  * @returns The newly created invoice object.
@@ -16,7 +26,7 @@ export const convertQuoteToInvoice = async (quoteId: number, profile: Profile):
   // 1. Fetch the full quote data with its items, ensuring it belongs to the user's org
   const { data: quoteRows, error: quoteError } = await supabase
     .from('quotes')
-    .select('*, quote_items:quote_items!left(*)')
+    .select('*, quote_items:quote_items!left(*), customers:customers!left(payment_term_id, tax_treatment), organizations:org_id(payment_terms)')
     .eq('id', quoteId)
     .eq('org_id', profile.org_id);
 
@@ -34,88 +44,182 @@ export const convertQuoteToInvoice = async (quoteId: number, profile: Profile):
   const { quote_items, ...quoteData } = firstRow;
   const quote = { ...quoteData, quote_items: uniqueItems };
 
-  const quoteItems: QuoteItem[] = quote.quote_items || [];
-  
-  if (quote.status === 'accepted') {
-    // Check if an invoice already exists for this quote to prevent duplicates
-    const { data: existingInvoice, error: checkError } = await supabase
-      .from('invoices')
-      .select('id')
-      .ilike('customer_notes', `%Converted from Quote #${quote.quote_number}%`)
-      .single();
-    
-    if (checkError && checkError.code !== 'PGRST116') { // Ignore "no rows" error
-      throw checkError;
-    }
+  // Only the latest revision reflects what the customer can accept.
+  if (quote.superseded_at) {
+    throw new Error(`Quote #${quote.quote_number} has been superseded by a newer revision and can no longer be converted.`);
+  }
 
-    if (existingInvoice) {
-      throw new Error(`An invoice has already been created for quote #${quote.quote_number}.`);
-    }
+  const billing = await getQuoteBilling(quote.id);
+  const billedInvoice = billing.invoices.find(invoice => invoice.billedAmount !== 0);
+  if (billedInvoice) {
+    throw new Error(billedInvoice.invoice_type === 'down_payment'
+      ? `Quote #${quote.quote_number} has down payments. Create the final invoice instead, which deducts them.`
+      : `Quote #${quote.quote_number} has already been billed by invoice #${billedInvoice.invoice_number}.`);
   }
 
+  // Only the ordered items are invoiced: optional lines and alternatives the customer did not select are dropped.
+  // Customers with a treatment without German VAT are invoiced at 0%.
+  const taxTreatment = getTaxTreatment(quote.customers);
+  const quoteItems: QuoteItem[] = applyTaxTreatment(getIncludedQuoteItems(quote.quote_items || []), taxTreatment);
+
   // 2. Prepare the new invoice data
   const newInvoiceNumber = await generateNextNumber(profile.org_id, 'invoice');
   const today = new Date();
-  const dueDate = new Date();
-  dueDate.setDate(today.getDate() + 14); // Due in 14 days by default
+  // The customer's payment terms or the organization's default set the due date; without any, it is due in 14 days.
+  const paymentTerm = resolvePaymentTerm(getPaymentTerms(quote.organizations), quote.customers);
+  const dueDate = paymentTerm ? calculateDueDate(today, paymentTerm) : new Date();
+  if (!paymentTerm) dueDate.setDate(today.getDate() + 14);
 
-  const newInvoiceData: Omit<Invoice, 'id' | 'customers' | 'invoice_items' | 'organizations' | 'created_at'> = {
+  const newInvoiceData: Omit<Invoice, 'id' | 'customers' | 'invoice_items' | 'organizations' | 'quote' | 'created_at'> = {
     user_id: profile.id,
     org_id: profile.org_id,
     customer_id: quote.customer_id,
     invoice_number: newInvoiceNumber,
     issue_date: today.toISOString().split('T')[0],
     due_date: dueDate.toISOString().split('T')[0],
-    total_amount: quote.total_amount,
+    total_amount: calculateDocumentTotals(quoteItems, quote).grandTotal,
     status: 'draft',
-    customer_notes: `Converted from Quote #${quote.quote_number}\n\n${quote.customer_notes || ''}`.trim(),
+    quote_id: quote.id,
+    tax_treatment: taxTreatment,
+    customer_notes: quote.customer_notes || '',
     internal_notes: quote.internal_notes || '',
+    discount_type: quote.discount_type || null,
+    discount_value: quote.discount_value || null,
+    ...getPaymentTermFields(paymentTerm),
   };
 
-  // 3. Insert the new invoice
-  const { data: createdInvoice, error: invoiceInsertError } = await supabase
-    .from('invoices')
-    .insert(newInvoiceData)
+  const newInvoiceItems = quoteItems.map(item => ({
+    product_id: item.product_id,
+    description: item.description,
+    quantity: item.quantity,
+    unit_price: item.unit_price,
+    vat_rate: item.vat_rate,
+    discount_type: item.discount_type || null,
+    discount_value: item.discount_value || null,
+  }));
+
+  // 3. Create the invoice and its items and accept the quote in one transaction
+  const { data: createdInvoice, error: conversionError } = await supabase.rpc('convert_quote_to_invoice', {
+    p_quote_id: quote.id,
+    p_invoice: newInvoiceData,
+    p_items: newInvoiceItems,
+  });
+
+  if (conversionError || !createdInvoice) {
+    throw new Error(conversionError?.message || "Failed to create invoice.");
+  }
+
+  // 4. Return the newly created invoice
+  return createdInvoice as Invoice;
+};
+
+// Units of service products that describe working time, in minutes per unit.
+const TIME_UNIT_MINUTES: { [unit: string]: number } = {
+  'min': 1, 'min.': 1, 'minute': 1, 'minuten': 1, 'minutes': 1,
+  'h': 60, 'std': 60, 'std.': 60, 'stunde': 60, 'stunden': 60, 'hour': 60, 'hours': 60, 'orë': 60,
+  'tag': 480, 'tage': 480, 'day': 480, 'days': 480, 'ditë': 480,
+};
+const DEFAULT_VISIT_MINUTES = 60;
+// Visits scheduled from a quote start on the next day at this hour until the dispatcher moves them.
+const DEFAULT_VISIT_START_HOUR = 8;
+
+/**
+ * Suggests the duration of a visit from the working time of the service lines (e.g. 3 h of installation),
+ * rounded up to quarter hours. Without service lines in a time unit, a visit takes one hour.
+ * @returns The duration in minutes.
+ */
+export const suggestVisitDuration = (items: { quantity?: number | null; products?: Pick<Product, 'type' | 'unit'> | null }[]): number => {
+  const minutes = items.reduce((sum, item) => {
+    if (item.products?.type !== 'service') return sum;
+    const perUnit = TIME_UNIT_MINUTES[(item.products.unit || '').trim().toLowerCase()] || 0;
+    return sum + perUnit * Number(item.quantity || 0);
+  }, 0);
+  return minutes > 0 ? Math.ceil(minutes / 15) * 15 : DEFAULT_VISIT_MINUTES;
+};
+
+/**
+ * Schedules a visit for an accepted quote. The visit references the quote via quote_id, takes over the
+ * ordered products as visit products and the customer's address as location, and lasts as long as the
+ * service lines suggest. It is created unassigned for the next day, to be assigned in the dispatcher.
+ * @param quoteId The ID of the quote.
+ * @param profile The profile of the user performing the action.
+ * @param category The kind of work the visit is planned for.
+ * @returns The new visit.
+ */
+export const createVisitFromQuote = async (quoteId: number, profile: Profile, category: VisitCategory): Promise<Visit> => {
+  if (!profile.org_id) {
+    throw new Error("User is not associated with an organization.");
+  }
+
+  const { data: quote, error: quoteError } = await supabase
+    .from('quotes')
+    .select('*, quote_items(*, products(name, type, unit)), customers(name, address)')
+    .eq('id', quoteId)
+    .eq('org_id', profile.org_id)
+    .single();
+
+  if (quoteError || !quote) {
+    throw new Error(quoteError?.message || "Quote not found or you do not have permission to access it.");
+  }
+  if (quote.superseded_at) {
+    throw new Error(`Quote #${quote.quote_number} has been superseded by a newer revision.`);
+  }
+  if (quote.status !== 'accepted') {
+    throw new Error(`Quote #${quote.quote_number} has to be accepted before a visit can be scheduled.`);
+  }
+
+  const orderedItems = getIncludedQuoteItems((quote.quote_items || []) as (QuoteItem & { products?: Pick<Product, 'name' | 'type' | 'unit'> | null })[]).sort((a, b) => a.id - b.id);
+  const productItems = orderedItems.filter(item => item.product_id);
+  const serviceDescriptions = orderedItems.filter(item => item.products?.type === 'service').map(item => item.description).filter(Boolean);
+
+  const startTime = setHours(startOfDay(addDays(new Date(), 1)), DEFAULT_VISIT_START_HOUR);
+  const endTime = addMinutes(startTime, suggestVisitDuration(orderedItems));
+  const visitNumber = await generateNextNumber(profile.org_id, 'visit');
+
+  const { data: visit, error: visitError } = await supabase
+    .from('visits')
+    .insert({
+      org_id: profile.org_id,
+      user_id: profile.id,
+      customer_id: quote.customer_id,
+      assigned_employee_id: null,
+      visit_number: visitNumber,
+      start_time: startTime.toISOString(),
+      end_time: endTime.toISOString(),
+      status: 'planned' as VisitStatus,
+      category,
+      location: quote.customers?.address || '',
+      purpose: serviceDescriptions.length > 0 ? serviceDescriptions.join(', ') : `Quote #${quote.quote_number}`,
+      internal_notes: quote.internal_notes || '',
+      quote_id: quote.id,
+    })
     .select()
     .single();
 
-  if (invoiceInsertError || !createdInvoice) {
-    throw new Error(invoiceInsertError?.message || "Failed to create invoice.");
+  if (visitError || !visit) {
+    throw new Error(visitError?.message || "Failed to create the visit.");
   }
-  
-  // 4. Prepare and insert the invoice items
-  if (quoteItems.length > 0) {
-    const newInvoiceItems = quoteItems.map(item => ({
-      invoice_id: createdInvoice.id,
+
+  if (productItems.length > 0) {
+    const { error: productsError } = await supabase.from('visit_products').insert(productItems.map(item => ({
+      visit_id: visit.id,
       product_id: item.product_id,
-      description: item.description,
       quantity: item.quantity,
       unit_price: item.unit_price,
-      vat_rate: item.vat_rate,
-    }));
-
-    const { error: itemsInsertError } = await supabase
-      .from('invoice_items')
-      .insert(newInvoiceItems);
-
-    if (itemsInsertError) {
-      // Rollback: if items fail, delete the invoice we just created
-      await supabase.from('invoices').delete().eq('id', createdInvoice.id);
-      throw new Error(itemsInsertError.message || "Failed to create invoice items.");
+    })));
+    if (productsError) {
+      await supabase.from('visits').delete().eq('id', visit.id);
+      throw new Error(productsError.message || "Failed to create the visit products.");
     }
-  }
 
-  // 5. Update the original quote's status to 'accepted'
-  const { error: quoteUpdateError } = await supabase
-    .from('quotes')
-    .update({ status: 'accepted' })
-    .eq('id', quoteId);
-  
-  if (quoteUpdateError) {
-    // This is not a critical failure, but should be logged.
-    console.warn(`Failed to update quote #${quote.quote_number} status to 'accepted'.`, quoteUpdateError);
+    // Planned visits reserve the stock of their products, as they do when created in the visit editor.
+    const { error: stockError } = await supabase.rpc('update_stock_levels', {
+      updates: productItems.map(item => ({ product_id: item.product_id!, quantity_delta: item.quantity })),
+    });
+    if (stockError) {
+      console.error("Stock update for scheduled visit failed:", stockError);
+    }
   }
 
-  // 6. Return the newly created invoice
-  return createdInvoice as Invoice;
-};
\ No newline at end of file
+  return visit as Visit;
+};
@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'vitest';
+import { Customer, DatevSettings, Expense, Invoice, VatRate } from '../types';
+import { createDatevFile, DatevPayment, encodeWindows1252, getFiscalYearStart, prepareDatevExport } from './datev';
+
+type ExportInvoice = Invoice & { invoice_items: any[] | null; customers: any | null };
+
+const settings: DatevSettings = {
+  consultant_number: '1001',
+  client_number: '12345',
+  fiscal_year_start_month: 1,
+  account_length: 4,
+  debtor_account: '10000',
+  creditor_account: '70000',
+};
+
+const vatRates: VatRate[] = [
+  { id: '19', label: '19 %', rate: 19, datev_account: '8400', datev_bu_key: '3' },
+  { id: '7', label: '7 %', rate: 7 },
+];
+
+const invoice = (id: number, issueDate: string, items: { quantity: number; unit_price: number; vat_rate: number }[], customer?: Partial<Customer>): ExportInvoice => ({
+  id,
+  invoice_number: `RE-${id}`,
+  issue_date: issueDate,
+  status: 'paid',
+  invoice_items: items,
+  customers: { name: 'Müller GmbH', ...customer },
+} as unknown as ExportInvoice);
+
+const payment = (invoiceNumber: string, paymentDate: string, amount: number, skontoAmount: number, customer?: Partial<Customer>): DatevPayment => ({
+  amount,
+  payment_date: paymentDate,
+  skonto_amount: skontoAmount,
+  invoices: { invoice_number: invoiceNumber, customers: { name: 'Müller GmbH', ...customer } },
+} as unknown as DatevPayment);
+
+// The Buchungsstapel is written as Windows-1252; decode it the same way DATEV does.
+const readFile = async (blob: Blob): Promise<string[]> => new TextDecoder('windows-1252').decode(await blob.arrayBuffer()).split('\r\n');
+
+describe('encodeWindows1252', () => {
+  it('encodes umlauts as Latin-1 and the Euro sign in the 0x80 range', () => {
+    expect(Array.from(encodeWindows1252('Mü€ß'))).toEqual([0x4d, 0xfc, 0x80, 0xdf]);
+  });
+
+  it('replaces characters without a Windows-1252 code', () => {
+    expect(Array.from(encodeWindows1252('a✓b'))).toEqual([0x61, 0x3f, 0x62]);
+  });
+});
+
+describe('getFiscalYearStart', () => {
+  it('returns the start of the fiscal year containing the date', () => {
+    expect(getFiscalYearStart(new Date(2025, 2, 15))).toEqual(new Date(2025, 0, 1));
+    expect(getFiscalYearStart(new Date(2025, 2, 15), 7)).toEqual(new Date(2024, 6, 1));
+    expect(getFiscalYearStart(new Date(2025, 6, 1), 7)).toEqual(new Date(2025, 6, 1));
+  });
+});
+
+describe('prepareDatevExport', () => {
+  const dateRange = { start: new Date(2024, 11, 1), end: new Date(2025, 0, 31) };
+
+  it('books invoices gross on the debtor and revenue account with the BU-Schlüssel of the rate', () => {
+    const result = prepareDatevExport([invoice(1, '2025-01-10', [{ quantity: 2, unit_price: 50, vat_rate: 19 }])], [], settings, vatRates, dateRange);
+    expect(result.skipped).toEqual([]);
+    expect(result.batches).toHaveLength(1);
+    expect(result.batches[0].bookings).toMatchObject([{ amount: 119, debitCredit: 'S', account: '10000', contraAccount: '8400', buKey: '3', documentNumber: 'RE-1' }]);
+  });
+
+  it('books credit notes as the reverse entry with a positive amount', () => {
+    const result = prepareDatevExport([invoice(2, '2025-01-10', [{ quantity: -1, unit_price: 100, vat_rate: 19 }])], [], settings, vatRates, dateRange);
+    expect(result.batches[0].bookings[0]).toMatchObject({ amount: 119, debitCredit: 'H' });
+  });
+
+  it('books supplier credit notes as the reverse entry with a positive amount', () => {
+    const creditNote = { id: 1, expense_number: 'AU-1', expense_date: '2025-01-10', description: 'Gutschrift', category: 'material', vat_lines: [{ vat_rate: 0, net_amount: -50, vat_amount: 0, is_deductible: true }] } as unknown as Expense;
+    const result = prepareDatevExport([], [creditNote], { ...settings, expense_mappings: { material: '3400' } }, vatRates, dateRange);
+    expect(result.batches[0].bookings[0]).toMatchObject({ amount: 50, debitCredit: 'H', account: '3400', contraAccount: '70000' });
+  });
+
+  it('uses the own debtor account of the customer and exports it as master data', () => {
+    const result = prepareDatevExport([invoice(3, '2025-01-10', [{ quantity: 1, unit_price: 10, vat_rate: 19 }], { datev_account: 10005 })], [], settings, vatRates, dateRange);
+    expect(result.batches[0].bookings[0].account).toBe('10005');
+    expect(result.debtors.map(debtor => debtor.datev_account)).toEqual([10005]);
+  });
+
+  it('splits bookings across the turn of the fiscal year into one batch per year', () => {
+    const result = prepareDatevExport([
+      invoice(4, '2024-12-20', [{ quantity: 1, unit_price: 10, vat_rate: 19 }]),
+      invoice(5, '2025-01-05', [{ quantity: 1, unit_price: 10, vat_rate: 19 }]),
+    ], [], settings, vatRates, dateRange);
+    expect(result.batches.map(batch => [batch.fiscalYearStart, batch.start, batch.end])).toEqual([
+      [new Date(2024, 0, 1), new Date(2024, 11, 1), new Date(2024, 11, 31)],
+      [new Date(2025, 0, 1), new Date(2025, 0, 1), new Date(2025, 0, 31)],
+    ]);
+  });
+
+  it('skips invoices with a VAT rate without revenue account instead of exporting them partially', () => {
+    const result = prepareDatevExport([invoice(6, '2025-01-10', [
+      { quantity: 1, unit_price: 10, vat_rate: 19 },
+      { quantity: 1, unit_price: 10, vat_rate: 7 },
+    ])], [], settings, vatRates, dateRange);
+    expect(result.batches).toEqual([]);
+    expect(result.skipped).toEqual([{ documentType: 'invoice', documentNumber: 'RE-6', date: '2025-01-10', reason: 'missing_revenue_account', detail: '7%' }]);
+  });
+
+  it('books payments from the payment account against the debtor with the deducted Skonto', () => {
+    const payments = [payment('RE-9', '2025-01-20', 116.62, 2.38, { datev_account: 10007 })];
+    const result = prepareDatevExport([], [], { ...settings, payment_account: '1200' }, vatRates, dateRange, payments);
+    expect(result.batches[0].bookings).toMatchObject([{ amount: 116.62, debitCredit: 'S', account: '1200', contraAccount: '10007', buKey: '', documentNumber: 'RE-9', skonto: 2.38 }]);
+    expect(result.debtors.map(debtor => debtor.datev_account)).toEqual([10007]);
+  });
+
+  it('does not book payments without a payment account', () => {
+    const result = prepareDatevExport([], [], settings, vatRates, dateRange, [payment('RE-9', '2025-01-20', 119, 0)]);
+    expect(result.batches).toEqual([]);
+    expect(result.skipped).toEqual([]);
+  });
+
+  it('skips payments without a debtor account', () => {
+    const result = prepareDatevExport([], [], { ...settings, debtor_account: '', payment_account: '1200' }, vatRates, dateRange, [payment('RE-9', '2025-01-20', 119, 0)]);
+    expect(result.skipped).toEqual([{ documentType: 'payment', documentNumber: 'RE-9', date: '2025-01-20', reason: 'missing_debtor_account', detail: '' }]);
+  });
+
+  it('rejects settings without consultant or client number', () => {
+    expect(() => prepareDatevExport([], [], { ...settings, consultant_number: '' }, vatRates, dateRange)).toThrow(/Beraternummer/);
+    expect(() => prepareDatevExport([], [], { ...settings, client_number: '100000' }, vatRates, dateRange)).toThrow(/Mandantennummer/);
+  });
+});
+
+describe('createDatevFile', () => {
+  it('writes the EXTF 700 header, all column headings and one row per booking', async () => {
+    const dateRange = { start: new Date(2025, 0, 1), end: new Date(2025, 0, 31) };
+    const { batches } = prepareDatevExport([invoice(7, '2025-01-10', [{ quantity: 1, unit_price: 100, vat_rate: 19 }])], [], settings, vatRates, dateRange);
+    const [header, columns, row, end] = await readFile(createDatevFile(batches[0], settings));
+
+    const headerFields = header.split(';');
+    expect(headerFields.slice(0, 5)).toEqual(['"EXTF"', '700', '21', '"Buchungsstapel"', '13']);
+    // Beraternummer, Mandantennummer, WJ-Beginn, Sachkontenlänge, Datum von / bis
+    expect(headerFields.slice(10, 16)).toEqual(['1001', '12345', '20250101', '4', '20250101', '20250131']);
+    // Festschreibung is on unless disabled.
+    expect(headerFields[20]).toBe('1');
+
+    const columnNames = columns.split(';');
+    expect(columnNames).toHaveLength(125);
+    const rowFields = row.split(';');
+    expect(rowFields).toHaveLength(125);
+    const field = (name: string) => rowFields[columnNames.indexOf(name)];
+    expect(field('Umsatz (ohne Soll/Haben-Kz)')).toBe('119,00');
+    expect(field('Soll/Haben-Kennzeichen')).toBe('"S"');
+    expect(field('Konto')).toBe('10000');
+    expect(field('Gegenkonto (ohne BU-Schlüssel)')).toBe('8400');
+    expect(field('BU-Schlüssel')).toBe('"3"');
+    expect(field('Belegdatum')).toBe('1001');
+    expect(field('Belegfeld 1')).toBe('"RE-7"');
+    expect(field('Skonto')).toBe('');
+    expect(field('Buchungstext')).toBe('"RE-7 Müller GmbH"');
+    expect(end).toBe('');
+  });
+
+  it('writes the Skonto of a payment into the Skonto column', async () => {
+    const dateRange = { start: new Date(2025, 0, 1), end: new Date(2025, 0, 31) };
+    const withPayments = { ...settings, payment_account: '1200' };
+    const { batches } = prepareDatevExport([], [], withPayments, vatRates, dateRange, [payment('RE-9', '2025-01-20', 116.62, 2.38)]);
+    const [, columns, row] = await readFile(createDatevFile(batches[0], withPayments));
+    const columnNames = columns.split(';');
+    const rowFields = row.split(';');
+    const field = (name: string) => rowFields[columnNames.indexOf(name)];
+    expect(field('Umsatz (ohne Soll/Haben-Kz)')).toBe('116,62');
+    expect(field('Konto')).toBe('1200');
+    expect(field('Gegenkonto (ohne BU-Schlüssel)')).toBe('10000');
+    expect(field('Skonto')).toBe('2,38');
+  });
+
+  it('writes the lock flag as 0 if postings are not locked', async () => {
+    const dateRange = { start: new Date(2025, 0, 1), end: new Date(2025, 0, 31) };
+    const unlocked = { ...settings, lock_postings: false };
+    const { batches } = prepareDatevExport([invoice(8, '2025-01-10', [{ quantity: 1, unit_price: 100, vat_rate: 19 }])], [], unlocked, vatRates, dateRange);
+    const [header] = await readFile(createDatevFile(batches[0], unlocked));
+    expect(header.split(';')[20]).toBe('0');
+  });
+});
@@ -1,113 +1,478 @@
-import { Invoice, Expense, DatevSettings } from '../types';
-import { format } from 'date-fns';
-import { downloadCsv } from './export';
-
-interface DatevRow {
-    'Umsatz (ohne Soll/Haben-Kz)': string;
-    'Soll/Haben-Kennzeichen': 'S' | 'H';
-    'WKZ Umsatz': 'EUR';
-    'Kurs': string;
-    'Basis-Umsatz': string;
-    'WKZ Basis-Umsatz': string;
-    'Konto': string;
-    'Gegenkonto': string;
-    'BU-Schlüssel': string;
-    'Belegdatum': string;
-    'Belegfeld 1': string;
-    'Belegfeld 2': string;
-    'Skonto': string;
-    'Buchungstext': string;
+import { Invoice, Expense, Customer, DatevSettings, InvoicePayment, TaxTreatment, VatRate } from '../types';
+import { addYears, format, subDays } from 'date-fns';
+import { parsePostalAddress } from './eInvoice';
+import { calculateDocumentTotals } from './documentTotals';
+import { getTaxTreatment } from './taxTreatment';
+import { findVatRate } from './vatRates';
+import { getExpenseVatLines } from './expenseVat';
+
+/** A booking of the Buchungsstapel. The amount is always positive; corrections are booked with the opposite Soll/Haben-Kennzeichen. */
+export interface DatevBooking {
+    amount: number;
+    debitCredit: 'S' | 'H';
+    account: string;
+    contraAccount: string;
+    buKey: string;
+    date: Date;
+    documentNumber: string;
+    text: string;
+    /** The Skonto deducted by a payment; DATEV books it on the Skonto account of the revenue and corrects the VAT. */
+    skonto?: number;
+    /** Beleginfo pairs, e.g. the number of the invoice a credit note refers to. */
+    documentInfo?: { type: string; content: string }[];
+    /** The GUID of the document image the booking is linked to (Beleglink). */
+    documentGuid?: string;
+}
+
+/** An invoice or expense whose document image can be exported together with its bookings. */
+export interface DatevDocument {
+    guid: string;
+    documentType: 'invoice' | 'expense';
+    id: number;
+    documentNumber: string;
+    date: string;
+    /** The stored receipt of an expense; invoices are rendered as PDF instead. */
+    attachment?: { path: string; name: string | null; mimeType: string | null };
+}
+
+/** A Buchungsstapel covers a single fiscal year; DATEV derives the year of the Belegdatum (DDMM) from it. */
+export interface DatevBatch {
+    fiscalYearStart: Date;
+    start: Date;
+    end: Date;
+    bookings: DatevBooking[];
+}
+
+export type DatevSkipReason = 'missing_debtor_account' | 'missing_revenue_account' | 'missing_creditor_account' | 'missing_expense_account' | 'missing_input_tax_key';
+
+/** A document that cannot be exported because an account mapping is missing. */
+export interface DatevSkippedRecord {
+    documentType: 'invoice' | 'expense' | 'payment';
+    documentNumber: string;
+    date: string;
+    reason: DatevSkipReason;
+    /** The VAT rate, tax treatment or expense category without an account. */
+    detail: string;
+}
+
+/** A payment received on an invoice, with the invoice and customer it is booked against. */
+export type DatevPayment = InvoicePayment & { invoices: (Pick<Invoice, 'invoice_number'> & { customers: any | null }) | null };
+
+export interface DatevExport {
+    batches: DatevBatch[];
+    skipped: DatevSkippedRecord[];
+    /** The customers booked on their own debtor account, exported as master data alongside the batches. */
+    debtors: Customer[];
+    /** The exported invoices and expenses, referenced by the documentGuid of their bookings. */
+    documents: DatevDocument[];
 }
 
-const formatDatevDate = (date: Date) => format(date, 'ddMM');
+const DEFAULT_ACCOUNT_LENGTH = 4;
+
+// The 125 columns of the Buchungsstapel in format version 13 (EXTF 700), in the order DATEV expects them.
+const DATEV_COLUMNS: string[] = [
+    'Umsatz (ohne Soll/Haben-Kz)', 'Soll/Haben-Kennzeichen', 'WKZ Umsatz', 'Kurs', 'Basis-Umsatz', 'WKZ Basis-Umsatz', 'Konto', 'Gegenkonto (ohne BU-Schlüssel)',
+    'BU-Schlüssel', 'Belegdatum', 'Belegfeld 1', 'Belegfeld 2', 'Skonto', 'Buchungstext', 'Postensperre', 'Diverse Adressnummer', 'Geschäftspartnerbank',
+    'Sachverhalt', 'Zinssperre', 'Beleglink',
+    ...Array.from({ length: 8 }, (_, i) => [`Beleginfo - Art ${i + 1}`, `Beleginfo - Inhalt ${i + 1}`]).flat(),
+    'KOST1 - Kostenstelle', 'KOST2 - Kostenstelle', 'Kost-Menge', 'EU-Land u. UStID (Bestimmung)', 'EU-Steuersatz (Bestimmung)', 'Abw. Versteuerungsart',
+    'Sachverhalt L+L', 'Funktionsergänzung L+L', 'BU 49 Hauptfunktionstyp', 'BU 49 Hauptfunktionsnummer', 'BU 49 Funktionsergänzung',
+    ...Array.from({ length: 20 }, (_, i) => [`Zusatzinformation - Art ${i + 1}`, `Zusatzinformation - Inhalt ${i + 1}`]).flat(),
+    'Stück', 'Gewicht', 'Zahlweise', 'Forderungsart', 'Veranlagungsjahr', 'Zugeordnete Fälligkeit', 'Skontotyp', 'Auftragsnummer', 'Buchungstyp',
+    'USt-Schlüssel (Anzahlungen)', 'EU-Land (Anzahlungen)', 'Sachverhalt L+L (Anzahlungen)', 'EU-Steuersatz (Anzahlungen)', 'Erlöskonto (Anzahlungen)',
+    'Herkunft-Kz', 'Buchungs GUID', 'KOST-Datum', 'SEPA-Mandatsreferenz', 'Skontosperre', 'Gesellschaftername', 'Beteiligtennummer', 'Identifikationsnummer',
+    'Zeichnernummer', 'Postensperre bis', 'Bezeichnung SoBil-Sachverhalt', 'Kennzeichen SoBil-Buchung', 'Festschreibung', 'Leistungsdatum',
+    'Datum Zuord. Steuerperiode', 'Fälligkeit', 'Generalumkehr (GU)', 'Steuersatz', 'Land', 'Abrechnungsreferenz', 'BVV-Position',
+    'EU-Land u. UStID (Ursprung)', 'EU-Steuersatz (Ursprung)', 'Abw. Skontokonto',
+];
+
+// The leading columns of the Debitoren/Kreditoren master data (format version 5) up to the first bank account.
+// DATEV treats the omitted trailing columns (further bank accounts, dunning and payment settings) as empty.
+const MASTER_DATA_COLUMNS: string[] = [
+    'Konto', 'Name (Adressatentyp Unternehmen)', 'Unternehmensgegenstand', 'Name (Adressatentyp natürl. Person)', 'Vorname (Adressatentyp natürl. Person)',
+    'Name (Adressatentyp keine Angabe)', 'Adressatentyp', 'Kurzbezeichnung', 'EU-Land', 'EU-UStID', 'Anrede', 'Titel/Akad. Grad', 'Adelstitel', 'Namensvorsatz',
+    'Adressart', 'Straße', 'Postfach', 'Postleitzahl', 'Ort', 'Land', 'Versandzusatz', 'Adresszusatz', 'Abweichende Anrede', 'Abw. Zustellbezeichnung 1',
+    'Abw. Zustellbezeichnung 2', 'Kennz. Korrespondenzadresse', 'Adresse Gültig von', 'Adresse Gültig bis', 'Telefon', 'Bemerkung (Telefon)', 'Telefon GL',
+    'Bemerkung (Telefon GL)', 'E-Mail', 'Bemerkung (E-Mail)', 'Internet', 'Bemerkung (Internet)', 'Fax', 'Bemerkung (Fax)', 'Sonstige', 'Bemerkung (Sonstige)',
+    'Bankleitzahl 1', 'Bankbezeichnung 1', 'Bank-Kontonummer 1', 'Länderkennzeichen 1', 'IBAN-Nr. 1', 'Leerfeld', 'SWIFT-Code 1', 'Abw. Kontoinhaber 1',
+    'Kennz. Hauptbankverb. 1', 'Bankverb 1 Gültig von', 'Bankverb 1 Gültig bis',
+];
+
+// Windows-1252 differs from Latin-1 only in 0x80-0x9F, which it uses for these characters.
+const WINDOWS_1252_SPECIAL: { [char: string]: number } = {
+    '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e,
+    '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+/**
+ * Encodes text as Windows-1252, the encoding DATEV expects. Characters without a Windows-1252 code are replaced by '?'.
+ */
+export const encodeWindows1252 = (text: string): Uint8Array => {
+    const bytes = new Uint8Array(text.length);
+    for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i);
+        const char = text[i];
+        if (WINDOWS_1252_SPECIAL[char] !== undefined) {
+            bytes[i] = WINDOWS_1252_SPECIAL[char];
+        } else if (code < 0x80 || (code >= 0xa0 && code <= 0xff)) {
+            bytes[i] = code;
+        } else {
+            bytes[i] = 0x3f;
+        }
+    }
+    return bytes;
+};
+
+/**
+ * Returns the first day of the fiscal year containing the date.
+ * @param startMonth The month the fiscal year starts in (1 = January).
+ */
+export const getFiscalYearStart = (date: Date, startMonth: number = 1): Date => {
+    const year = date.getMonth() + 1 >= startMonth ? date.getFullYear() : date.getFullYear() - 1;
+    return new Date(year, startMonth - 1, 1);
+};
 
-export const generateDatevExport = async (
+const formatAmount = (amount: number) => amount.toFixed(2).replace('.', ',');
+
+// Text fields are quoted; quotes are doubled and line breaks are not allowed.
+const formatText = (value: string) => `"${value.replace(/[\r\n]+/g, ' ').replace(/"/g, '""')}"`;
+
+// Belegfeld 1 allows at most 36 characters of A-Z, 0-9 and $ & % * + - / (lower case letters are accepted as well).
+const formatDocumentNumber = (value: string) => value.replace(/[^a-zA-Z0-9$&%*+\-/]/g, '').substring(0, 36);
+
+// Bookings are only linked to document images that are contained in the same export package.
+const toDatevRow = (booking: DatevBooking, linkedDocuments?: Set<string>): string => {
+    const values: { [column: string]: string } = {
+        'Umsatz (ohne Soll/Haben-Kz)': formatAmount(booking.amount),
+        'Soll/Haben-Kennzeichen': formatText(booking.debitCredit),
+        'WKZ Umsatz': formatText('EUR'),
+        'Konto': booking.account,
+        'Gegenkonto (ohne BU-Schlüssel)': booking.contraAccount,
+        'BU-Schlüssel': booking.buKey ? formatText(booking.buKey) : '',
+        'Belegdatum': format(booking.date, 'ddMM'),
+        'Belegfeld 1': formatText(formatDocumentNumber(booking.documentNumber)),
+        'Skonto': booking.skonto ? formatAmount(booking.skonto) : '',
+        'Buchungstext': formatText(booking.text.substring(0, 60)),
+        'Beleglink': booking.documentGuid && linkedDocuments?.has(booking.documentGuid) ? formatText(`BEDI "${booking.documentGuid}"`) : '',
+    };
+    (booking.documentInfo || []).slice(0, 8).forEach((info, i) => {
+        values[`Beleginfo - Art ${i + 1}`] = formatText(info.type.substring(0, 20));
+        values[`Beleginfo - Inhalt ${i + 1}`] = formatText(info.content.substring(0, 210));
+    });
+    return DATEV_COLUMNS.map(column => values[column] ?? '').join(';');
+};
+
+// A customer's master data record; the address is split into street, postal code and city as far as it can be recognized.
+const toMasterDataRow = (customer: Customer): string => {
+    const address = parsePostalAddress(customer.address);
+    const vatId = (customer.vat_id || '').replace(/\s/g, '').toUpperCase();
+    const values: { [column: string]: string } = {
+        'Konto': String(customer.datev_account),
+        'Name (Adressatentyp Unternehmen)': formatText(customer.name.substring(0, 50)),
+        'Adressatentyp': '2',
+        'Kurzbezeichnung': formatText(customer.name.substring(0, 15)),
+        'EU-Land': vatId ? formatText(vatId.substring(0, 2)) : '',
+        'EU-UStID': vatId ? formatText(vatId.substring(2, 15)) : '',
+        'Adressart': formatText('STR'),
+        'Straße': formatText(address.street.substring(0, 36)),
+        'Postleitzahl': formatText(address.postalCode),
+        'Ort': formatText(address.city.substring(0, 30)),
+        'Land': formatText(address.countryCode),
+        'Telefon': customer.phone ? formatText(customer.phone.substring(0, 60)) : '',
+        'E-Mail': customer.email ? formatText(customer.email.substring(0, 60)) : '',
+        'IBAN-Nr. 1': customer.sepa_iban ? formatText(customer.sepa_iban.replace(/\s/g, '')) : '',
+        'SWIFT-Code 1': customer.sepa_bic ? formatText(customer.sepa_bic) : '',
+        'Kennz. Hauptbankverb. 1': customer.sepa_iban ? formatText('1') : '',
+    };
+    return MASTER_DATA_COLUMNS.map(column => values[column] ?? '').join(';');
+};
+
+// The header record of an EXTF file: format, consultant and client, fiscal year, account length and, for a Buchungsstapel, its period.
+const toDatevHeader = (settings: DatevSettings, fileFormat: { category: number; name: string; version: number }, fiscalYearStart: Date, batch?: DatevBatch): string => [
+    formatText('EXTF'), '700', String(fileFormat.category), formatText(fileFormat.name), String(fileFormat.version), format(new Date(), 'yyyyMMddHHmmssSSS'), '', formatText('RE'), formatText(''), formatText(''),
+    settings.consultant_number || '', settings.client_number || '', format(fiscalYearStart, 'yyyyMMdd'), String(settings.account_length || DEFAULT_ACCOUNT_LENGTH),
+    batch ? format(batch.start, 'yyyyMMdd') : '', batch ? format(batch.end, 'yyyyMMdd') : '', formatText(batch ? `Buchungsstapel ${format(batch.start, 'MM/yyyy')}` : ''), formatText(''),
+    batch ? '1' : '', batch ? '0' : '', batch ? (settings.lock_postings === false ? '0' : '1') : '', formatText(batch ? 'EUR' : ''), '', formatText(''), '', '', formatText(''), '', '', '', formatText(''),
+].join(';');
+
+/**
+ * Checks the consultant and client number, which DATEV needs to assign the batch to the right client.
+ * @throws If a number is missing or out of range.
+ */
+export const validateDatevSettings = (settings: DatevSettings): void => {
+    const consultantNumber = Number(settings.consultant_number);
+    const clientNumber = Number(settings.client_number);
+    if (!Number.isInteger(consultantNumber) || consultantNumber < 1001 || consultantNumber > 9999999) {
+        throw new Error("The DATEV consultant number (Beraternummer) must be a number between 1001 and 9999999.");
+    }
+    if (!Number.isInteger(clientNumber) || clientNumber < 1 || clientNumber > 99999) {
+        throw new Error("The DATEV client number (Mandantennummer) must be a number between 1 and 99999.");
+    }
+};
+
+// Revenues without German VAT are booked on dedicated accounts (SKR03: 8337 §13b, 8125 intra-EU, 8120 export,
+// 8195 §19). These accounts determine the VAT return fields themselves, so they are booked without a BU-Schlüssel.
+const TAX_TREATMENT_ACCOUNTS: Record<Exclude<TaxTreatment, 'domestic'>, keyof DatevSettings> = {
+    reverse_charge: 'revenue_reverse_charge',
+    intra_eu: 'revenue_intra_eu',
+    export: 'revenue_export',
+    small_business: 'revenue_small_business',
+};
+
+// Domestic revenues are booked on the account and BU-Schlüssel of the VAT rate valid on the invoice date.
+const getRevenueBooking = (settings: DatevSettings, vatRates: VatRate[], treatment: TaxTreatment, vatRate: number, date: Date): { account: string; buKey: string } => {
+    if (treatment !== 'domestic') {
+        return { account: (settings[TAX_TREATMENT_ACCOUNTS[treatment]] as string | undefined) || '', buKey: '' };
+    }
+    const catalogueEntry = findVatRate(vatRates, vatRate, date);
+    return { account: catalogueEntry?.datev_account || '', buKey: catalogueEntry?.datev_bu_key || '' };
+};
+
+/**
+ * Prepares the DATEV bookings of the invoices, expenses and payments and splits them into one Buchungsstapel per fiscal year.
+ * Documents whose accounts are not mapped are not exported; they are listed in the skipped records instead.
+ * @param dateRange The exported period; the batches are limited to it.
+ * @param payments The payments received in the period; only booked if a payment account is set.
+ */
+export const prepareDatevExport = (
     invoices: (Invoice & { invoice_items: any[] | null; customers: any | null })[],
     expenses: Expense[],
     settings: DatevSettings,
-    dateRange: { start: Date; end: Date }
-) => {
-    const rows: DatevRow[] = [];
+    vatRates: VatRate[],
+    dateRange: { start: Date; end: Date },
+    payments: DatevPayment[] = []
+): DatevExport => {
+    validateDatevSettings(settings);
+
+    const bookings: DatevBooking[] = [];
+    const skipped: DatevSkippedRecord[] = [];
+    const debtors = new Map<number, Customer>();
+    const documents: DatevDocument[] = [];
 
     // Process Invoices (Revenues)
     invoices.forEach(invoice => {
         const invoiceDate = new Date(invoice.issue_date + 'T00:00:00'); // Parse as local
-        
-        const netTotalsByVat: { [key: number]: number } = {};
-        (invoice.invoice_items || []).forEach(item => {
-            const netAmount = item.quantity * item.unit_price;
-            netTotalsByVat[item.vat_rate] = (netTotalsByVat[item.vat_rate] || 0) + netAmount;
-        });
-        
+        const skip = (reason: DatevSkipReason, detail: string = '') => skipped.push({ documentType: 'invoice', documentNumber: invoice.invoice_number, date: invoice.issue_date, reason, detail });
+
+        // Customers are booked on their own debtor account (Personenkonto), others on the collective debtor account.
+        const debtorAccount = invoice.customers?.datev_account ? String(invoice.customers.datev_account) : settings.debtor_account;
+        if (!debtorAccount) {
+            skip('missing_debtor_account');
+            return;
+        }
+
+        // Net amounts per VAT rate after line and document discounts. Skonto is not deducted here: it is booked with the payment.
+        const { netTotalsByVat, vatTotals } = calculateDocumentTotals(invoice.invoice_items || [], invoice);
+        const treatment = getTaxTreatment(invoice);
+
+        // An invoice is only exported completely; a missing account for one of its VAT rates skips the whole invoice.
+        const invoiceBookings: DatevBooking[] = [];
+        const documentGuid = crypto.randomUUID().toUpperCase();
+        const unmappedRates: string[] = [];
         Object.entries(netTotalsByVat).forEach(([vatRateStr, netAmount]) => {
-            const vatRate = parseInt(vatRateStr);
-            let revenueAccount = '';
-            if (vatRate === 19) revenueAccount = settings.revenue_19 || '';
-            else if (vatRate === 7) revenueAccount = settings.revenue_7 || '';
-            else if (vatRate === 0) revenueAccount = settings.revenue_0 || '';
-
-            if (revenueAccount && settings.debtor_account) {
-                rows.push({
-                    'Umsatz (ohne Soll/Haben-Kz)': (netAmount * (1 + vatRate / 100)).toFixed(2).replace('.', ','),
-                    'Soll/Haben-Kennzeichen': 'S',
-                    'WKZ Umsatz': 'EUR', 'Kurs': '', 'Basis-Umsatz': '', 'WKZ Basis-Umsatz': '',
-                    'Konto': settings.debtor_account,
-                    'Gegenkonto': revenueAccount,
-                    'BU-Schlüssel': vatRate === 19 ? '3' : vatRate === 7 ? '2' : '', // Common BU for 19/7%
-                    'Belegdatum': formatDatevDate(invoiceDate),
-                    'Belegfeld 1': invoice.invoice_number,
-                    'Belegfeld 2': '', 'Skonto': '',
-                    'Buchungstext': `${invoice.invoice_number} ${invoice.customers?.name || ''}`.substring(0, 60),
-                });
+            const vatRate = Number(vatRateStr);
+            const { account: revenueAccount, buKey } = getRevenueBooking(settings, vatRates, treatment, vatRate, invoiceDate);
+            if (!revenueAccount) {
+                unmappedRates.push(treatment === 'domestic' ? `${vatRate}%` : treatment);
+                return;
             }
+
+            // Cancellation invoices and credit notes carry negative amounts and are booked as the reverse entry.
+            const grossAmount = netAmount + vatTotals[vatRate];
+            invoiceBookings.push({
+                amount: Math.abs(grossAmount),
+                debitCredit: grossAmount < 0 ? 'H' : 'S',
+                account: debtorAccount,
+                contraAccount: revenueAccount,
+                buKey,
+                date: invoiceDate,
+                documentNumber: invoice.invoice_number,
+                text: `${invoice.invoice_number} ${invoice.customers?.name || ''}`,
+                documentInfo: invoice.original_invoice?.invoice_number ? [{ type: 'Ursprungsbeleg', content: invoice.original_invoice.invoice_number }] : undefined,
+                documentGuid,
+            });
         });
+
+        if (unmappedRates.length > 0) {
+            skip('missing_revenue_account', unmappedRates.join(', '));
+            return;
+        }
+        bookings.push(...invoiceBookings);
+        documents.push({ guid: documentGuid, documentType: 'invoice', id: invoice.id, documentNumber: invoice.invoice_number, date: invoice.issue_date });
+        if (invoice.customers?.datev_account && !debtors.has(invoice.customers.datev_account)) {
+            debtors.set(invoice.customers.datev_account, invoice.customers);
+        }
     });
 
     // Process Expenses
     expenses.forEach(expense => {
         const expenseDate = new Date(expense.expense_date + 'T00:00:00');
         const expenseAccount = settings.expense_mappings?.[expense.category || ''] || '';
-        
-        if (expenseAccount && settings.creditor_account) {
-            rows.push({
-                'Umsatz (ohne Soll/Haben-Kz)': expense.amount.toFixed(2).replace('.', ','),
-                'Soll/Haben-Kennzeichen': 'H',
-                'WKZ Umsatz': 'EUR', 'Kurs': '', 'Basis-Umsatz': '', 'WKZ Basis-Umsatz': '',
-                'Konto': expenseAccount,
-                'Gegenkonto': settings.creditor_account,
-                'BU-Schlüssel': '9', // Assuming '9' for Vorsteuer 19%
-                'Belegdatum': formatDatevDate(expenseDate),
-                'Belegfeld 1': expense.expense_number,
-                'Belegfeld 2': '', 'Skonto': '',
-                'Buchungstext': `${expense.expense_number} ${expense.description}`.substring(0, 60),
-            });
+        const skip = (reason: DatevSkipReason, detail: string = '') => skipped.push({ documentType: 'expense', documentNumber: expense.expense_number, date: expense.expense_date, reason, detail });
+
+        if (!settings.creditor_account) {
+            skip('missing_creditor_account');
+            return;
+        }
+        if (!expenseAccount) {
+            skip('missing_expense_account', expense.category || '');
+            return;
         }
+
+        // Deductible input tax is split off by the BU-Schlüssel of its rate; non-deductible VAT stays part of the costs.
+        const vatLines = getExpenseVatLines(expense);
+        const missingKeys = vatLines
+            .filter(line => line.is_deductible && Number(line.vat_rate) > 0 && !findVatRate(vatRates, line.vat_rate, expenseDate)?.datev_input_bu_key)
+            .map(line => `${line.vat_rate}%`);
+        if (missingKeys.length > 0) {
+            skip('missing_input_tax_key', missingKeys.join(', '));
+            return;
+        }
+
+        const documentGuid = crypto.randomUUID().toUpperCase();
+        documents.push({
+            guid: documentGuid,
+            documentType: 'expense',
+            id: expense.id,
+            documentNumber: expense.expense_number,
+            date: expense.expense_date,
+            attachment: expense.attachment_path ? { path: expense.attachment_path, name: expense.attachment_name || null, mimeType: expense.attachment_mime_type || null } : undefined,
+        });
+        vatLines.forEach(line => {
+            const grossAmount = Number(line.net_amount) + Number(line.vat_amount);
+            if (!grossAmount) return;
+            // Credit notes of suppliers carry negative amounts and are booked as the reverse entry.
+            bookings.push({
+                amount: Math.abs(grossAmount),
+                debitCredit: grossAmount < 0 ? 'H' : 'S',
+                account: expenseAccount,
+                contraAccount: settings.creditor_account!,
+                buKey: line.is_deductible && Number(line.vat_rate) > 0 ? findVatRate(vatRates, line.vat_rate, expenseDate)!.datev_input_bu_key! : '',
+                date: expenseDate,
+                documentNumber: expense.expense_number,
+                text: `${expense.expense_number} ${expense.description}`,
+                documentGuid,
+            });
+        });
     });
 
-    if (rows.length === 0) {
-        throw new Error("No data could be formatted for DATEV. Check your data and settings.");
+    // Payments are booked from the payment account against the debtor, with the invoice number in Belegfeld 1 so that
+    // DATEV can settle the open item. The Skonto column carries the Skonto the payment deducted.
+    if (settings.payment_account) {
+        payments.forEach(payment => {
+            const invoiceNumber = payment.invoices?.invoice_number || '';
+            const customer = payment.invoices?.customers;
+            const debtorAccount = customer?.datev_account ? String(customer.datev_account) : settings.debtor_account;
+            if (!debtorAccount) {
+                skipped.push({ documentType: 'payment', documentNumber: invoiceNumber, date: payment.payment_date, reason: 'missing_debtor_account', detail: '' });
+                return;
+            }
+            const skonto = Number(payment.skonto_amount || 0);
+            bookings.push({
+                amount: Number(payment.amount),
+                debitCredit: 'S',
+                account: settings.payment_account!,
+                contraAccount: debtorAccount,
+                buKey: '',
+                date: new Date(payment.payment_date + 'T00:00:00'),
+                documentNumber: invoiceNumber,
+                text: `${invoiceNumber} ${customer?.name || ''}`,
+                skonto: skonto > 0 ? skonto : undefined,
+            });
+            if (customer?.datev_account && !debtors.has(customer.datev_account)) {
+                debtors.set(customer.datev_account, customer);
+            }
+        });
     }
-    
-    // DATEV requires specific headers in the CSV file itself.
-    const csvHeader = [
-        `"EXTF";${rows.length + 1};210;"Buchungsstapel";8;`,
-        `"ZoguOne Export";"";"";"";"";"";${format(dateRange.start, 'yyyyMMdd')};${format(dateRange.end, 'yyyyMMdd')};"";"";1;`,
-        `"Umsatz (ohne Soll/Haben-Kz)";"Soll/Haben-Kennzeichen";"WKZ Umsatz";"Kurs";"Basis-Umsatz";"WKZ Basis-Umsatz";"Konto";"Gegenkonto";"BU-Schlüssel";"Belegdatum";"Belegfeld 1";"Belegfeld 2";"Skonto";"Buchungstext"`
-    ].join('\r\n');
-    
-    // Custom CSV conversion for DATEV format (semicolon delimited, quoted values)
-    const csvRows = rows.map(row => Object.values(row).map(val => `"${val}"`).join(';'));
-    const csvBody = csvRows.join('\r\n');
-
-    const csvData = `${csvHeader}\r\n${csvBody}`;
-
-    const blob = new Blob([csvData], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
+
+    // DATEV only accepts bookings of one fiscal year per batch, so an export across the turn of the fiscal year is split.
+    const batches = new Map<number, DatevBatch>();
+    bookings.forEach(booking => {
+        const fiscalYearStart = getFiscalYearStart(booking.date, settings.fiscal_year_start_month || 1);
+        let batch = batches.get(fiscalYearStart.getTime());
+        if (!batch) {
+            const fiscalYearEnd = subDays(addYears(fiscalYearStart, 1), 1);
+            batch = {
+                fiscalYearStart,
+                start: dateRange.start > fiscalYearStart ? dateRange.start : fiscalYearStart,
+                end: dateRange.end < fiscalYearEnd ? dateRange.end : fiscalYearEnd,
+                bookings: [],
+            };
+            batches.set(fiscalYearStart.getTime(), batch);
+        }
+        batch.bookings.push(booking);
+    });
+
+    return {
+        batches: [...batches.values()].sort((a, b) => a.fiscalYearStart.getTime() - b.fiscalYearStart.getTime()),
+        skipped,
+        debtors: [...debtors.values()].sort((a, b) => a.datev_account! - b.datev_account!),
+        documents,
+    };
+};
+
+/**
+ * Writes a batch as an EXTF file (format 700): header record, column headings and one row per booking, encoded as Windows-1252.
+ * @param linkedDocuments The GUIDs of the document images exported with the batch; their bookings get a Beleglink.
+ */
+export const createDatevFile = (batch: DatevBatch, settings: DatevSettings, linkedDocuments?: Set<string>): Blob => {
+    const lines = [
+        toDatevHeader(settings, { category: 21, name: 'Buchungsstapel', version: 13 }, batch.fiscalYearStart, batch),
+        DATEV_COLUMNS.join(';'),
+        ...batch.bookings.map(booking => toDatevRow(booking, linkedDocuments)),
+    ];
+    return new Blob([encodeWindows1252(lines.join('\r\n') + '\r\n')], { type: 'text/csv;charset=windows-1252' });
+};
+
+/**
+ * Writes the master data of the debtors as an EXTF Debitoren/Kreditoren file. Suppliers have no master data
+ * of their own; their invoices are booked on the collective creditor account.
+ */
+export const createDatevMasterDataFile = (debtors: Customer[], settings: DatevSettings): Blob => {
+    const lines = [
+        toDatevHeader(settings, { category: 16, name: 'Debitoren/Kreditoren', version: 5 }, getFiscalYearStart(new Date(), settings.fiscal_year_start_month || 1)),
+        MASTER_DATA_COLUMNS.join(';'),
+        ...debtors.map(toMasterDataRow),
+    ];
+    return new Blob([encodeWindows1252(lines.join('\r\n') + '\r\n')], { type: 'text/csv;charset=windows-1252' });
+};
+
+/**
+ * Returns the file name of a batch, following the EXTF_ naming convention of DATEV.
+ */
+export const getDatevFileName = (batch: DatevBatch): string => {
+    return `EXTF_Buchungsstapel_${format(batch.start, 'yyyyMMdd')}_${format(batch.end, 'yyyyMMdd')}.csv`;
+};
+
+/**
+ * Returns the file name of the master data file.
+ */
+export const getDatevMasterDataFileName = (): string => `EXTF_Debitoren_Kreditoren_${format(new Date(), 'yyyyMMdd')}.csv`;
+
+/**
+ * Triggers a browser download of a file.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
     const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
     link.setAttribute('href', url);
-    link.setAttribute('download', `DATEV_Export_${format(new Date(), 'yyyy-MM-dd')}.csv`);
+    link.setAttribute('download', fileName);
     link.style.visibility = 'hidden';
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
-};
\ No newline at end of file
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * Downloads one EXTF file per batch of a prepared export and the master data of its debtors.
+ */
+export const downloadDatevExport = (datevExport: DatevExport, settings: DatevSettings): void => {
+    if (datevExport.batches.length === 0) {
+        throw new Error("No data could be formatted for DATEV. Check your data and settings.");
+    }
+    datevExport.batches.forEach(batch => downloadBlob(createDatevFile(batch, settings), getDatevFileName(batch)));
+    if (datevExport.debtors.length > 0) {
+        downloadBlob(createDatevMasterDataFile(datevExport.debtors, settings), getDatevMasterDataFileName());
+    }
+};
@@ -0,0 +1,115 @@
+import { format } from 'date-fns';
+import { supabase } from '../services/supabase';
+import { DatevSettings } from '../types';
+import { createDatevFile, createDatevMasterDataFile, DatevDocument, DatevExport, downloadBlob, getDatevFileName, getDatevMasterDataFileName } from './datev';
+import { EXPENSE_ATTACHMENTS_BUCKET } from './eInvoiceImport';
+import generateDocumentPDF from './pdfGenerator';
+import { createZip, ZipEntry } from './zip';
+
+type Language = 'de' | 'al';
+
+export interface DatevPackageResult {
+  /** The number of document images contained in the package. */
+  documentCount: number;
+  /** The invoices and expenses exported without a document image, e.g. expenses without a receipt. */
+  missingDocuments: string[];
+}
+
+const escapeXml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+const getFileExtension = (fileName: string | null | undefined, fallback: string) => {
+  const match = /\.([a-z0-9]+)$/i.exec(fileName || '');
+  return match ? match[1].toLowerCase() : fallback;
+};
+
+const loadDocumentImage = async (document: DatevDocument, language: Language): Promise<{ data: Blob; extension: string } | null> => {
+  if (document.documentType === 'invoice') {
+    const pdf = await generateDocumentPDF(document.id, 'invoice', language, 'blob');
+    return pdf ? { data: pdf, extension: 'pdf' } : null;
+  }
+  if (!document.attachment) return null;
+  const { data, error } = await supabase.storage.from(EXPENSE_ATTACHMENTS_BUCKET).download(document.attachment.path);
+  if (error || !data) throw new Error(error?.message || `Failed to download the receipt of expense ${document.documentNumber}.`);
+  return { data, extension: getFileExtension(document.attachment.name || document.attachment.path, 'pdf') };
+};
+
+// The document.xml of the Belegbilder format lists every document image with the GUID its bookings link to.
+// Outgoing invoices have type 2 (Rechnungsausgang), receipts of expenses type 1 (Rechnungseingang).
+const createDocumentXml = (files: { document: DatevDocument; fileName: string }[], settings: DatevSettings): string => `<?xml version="1.0" encoding="utf-8"?>
+<archive xmlns="http://xml.datev.de/bedi/tps/document/v06.0" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://xml.datev.de/bedi/tps/document/v06.0 Document_v060.xsd" version="6.0" generatingSystem="ZoguOne">
+  <header>
+    <date>${format(new Date(), "yyyy-MM-dd'T'HH:mm:ss")}</date>
+    <description>${escapeXml('Belege zum Buchungsstapel')}</description>
+    <consultantNumber>${escapeXml(settings.consultant_number || '')}</consultantNumber>
+    <clientNumber>${escapeXml(settings.client_number || '')}</clientNumber>
+  </header>
+  <content>
+${files.map(({ document, fileName }) => `    <document guid="${document.guid}" processID="1" type="${document.documentType === 'invoice' ? 2 : 1}">
+      <description>${escapeXml(document.documentNumber)}</description>
+      <keywords>${escapeXml(`${document.documentNumber} ${document.date}`)}</keywords>
+      <extension xsi:type="File" name="${escapeXml(fileName)}"/>
+    </document>`).join('\n')}
+  </content>
+</archive>
+`;
+
+/**
+ * Downloads a prepared DATEV export as one ZIP package: the Buchungsstapel and master data files, the invoice
+ * PDFs and expense receipts, and the document.xml describing them. Bookings are linked to their document
+ * image through a Beleglink (BEDI GUID), so the documents appear next to the bookings in DATEV.
+ * Documents whose image is unavailable are exported without a link and reported in the result.
+ * @param dateRange The exported period, used for the file name of the package.
+ * @param language The language of the invoice PDFs.
+ */
+export const downloadDatevDocumentPackage = async (
+  datevExport: DatevExport,
+  settings: DatevSettings,
+  dateRange: { start: Date; end: Date },
+  language: Language
+): Promise<DatevPackageResult> => {
+  if (datevExport.batches.length === 0) {
+    throw new Error("No data could be formatted for DATEV. Check your data and settings.");
+  }
+
+  const files: { document: DatevDocument; fileName: string; data: Uint8Array }[] = [];
+  const missingDocuments: string[] = [];
+  const usedNames = new Set<string>();
+
+  // PDFs are generated one after another to keep the memory use of large exports low.
+  for (const document of datevExport.documents) {
+    try {
+      const image = await loadDocumentImage(document, language);
+      if (!image) {
+        missingDocuments.push(document.documentNumber);
+        continue;
+      }
+      const baseName = document.documentNumber.replace(/[^A-Za-z0-9._-]/g, '_');
+      let fileName = `${baseName}.${image.extension}`;
+      for (let i = 2; usedNames.has(fileName); i++) fileName = `${baseName}_${i}.${image.extension}`;
+      usedNames.add(fileName);
+      files.push({ document, fileName, data: new Uint8Array(await image.data.arrayBuffer()) });
+    } catch (error) {
+      console.error(`Failed to load the document image of ${document.documentNumber}:`, error);
+      missingDocuments.push(document.documentNumber);
+    }
+  }
+
+  const linkedDocuments = new Set(files.map(file => file.document.guid));
+  const toEntry = async (name: string, blob: Blob): Promise<ZipEntry> => ({ name, data: new Uint8Array(await blob.arrayBuffer()) });
+  const entries: ZipEntry[] = [
+    { name: 'document.xml', data: new TextEncoder().encode(createDocumentXml(files, settings)) },
+    ...files.map(file => ({ name: file.fileName, data: file.data })),
+    ...await Promise.all(datevExport.batches.map(batch => toEntry(getDatevFileName(batch), createDatevFile(batch, settings, linkedDocuments)))),
+  ];
+  if (datevExport.debtors.length > 0) {
+    entries.push(await toEntry(getDatevMasterDataFileName(), createDatevMasterDataFile(datevExport.debtors, settings)));
+  }
+
+  downloadBlob(createZip(entries), `DATEV_Belege_${format(dateRange.start, 'yyyyMMdd')}_${format(dateRange.end, 'yyyyMMdd')}.zip`);
+  return { documentCount: files.length, missingDocuments };
+};
@@ -0,0 +1,72 @@
+import { supabase } from "../services/supabase";
+import { InvoiceType } from "../types";
+
+export type LinkedDocumentType = 'quote' | 'invoice' | 'visit';
+
+/**
+ * A document related to another one: the document it was created from ('source'),
+ * or a document created from it ('derived').
+ */
+export interface LinkedDocument {
+  type: LinkedDocumentType;
+  id: number;
+  number: string;
+  date: string;
+  status: string;
+  relation: 'source' | 'derived';
+  invoiceType?: InvoiceType | null;
+}
+
+/**
+ * Returns the editor path of a document.
+ */
+export const getDocumentPath = (type: LinkedDocumentType, id: number): string => {
+  switch (type) {
+    case 'quote': return `/quotes/edit/${id}`;
+    case 'invoice': return `/invoices/edit/${id}`;
+    case 'visit': return `/visits/edit/${id}`;
+  }
+};
+
+const toQuoteLink = (quote: any, relation: LinkedDocument['relation']): LinkedDocument => ({ type: 'quote', id: quote.id, number: quote.quote_number, date: quote.issue_date, status: quote.status, relation });
+const toInvoiceLink = (invoice: any, relation: LinkedDocument['relation']): LinkedDocument => ({ type: 'invoice', id: invoice.id, number: invoice.invoice_number, date: invoice.issue_date, status: invoice.status, relation, invoiceType: invoice.invoice_type });
+const toVisitLink = (visit: any, relation: LinkedDocument['relation']): LinkedDocument => ({ type: 'visit', id: visit.id, number: visit.visit_number, date: visit.start_time, status: visit.status, relation });
+
+/**
+ * Fetches the documents a quote, invoice or visit was created from and the documents created from it.
+ * Quotes are the source of invoices (invoices.quote_id) and visits (visits.quote_id); visits are the source of invoices (invoices.visit_id).
+ * @param type The type of the document.
+ * @param id The ID of the document.
+ */
+export const getLinkedDocuments = async (type: LinkedDocumentType, id: number): Promise<LinkedDocument[]> => {
+  const invoiceColumns = 'id, invoice_number, issue_date, status, invoice_type';
+
+  if (type === 'quote') {
+    const [{ data: invoices, error: invoicesError }, { data: visits, error: visitsError }] = await Promise.all([
+      supabase.from('invoices').select(invoiceColumns).eq('quote_id', id).order('issue_date', { ascending: true }),
+      supabase.from('visits').select('id, visit_number, start_time, status').eq('quote_id', id).order('start_time', { ascending: true }),
+    ]);
+    if (invoicesError || visitsError) throw new Error((invoicesError || visitsError)!.message);
+    return [...(visits || []).map(visit => toVisitLink(visit, 'derived')), ...(invoices || []).map(invoice => toInvoiceLink(invoice, 'derived'))];
+  }
+
+  if (type === 'invoice') {
+    const { data: invoice, error } = await supabase
+      .from('invoices')
+      .select('quote:quote_id(id, quote_number, issue_date, status), visit:visit_id(id, visit_number, start_time, status)')
+      .eq('id', id)
+      .single();
+    if (error) throw new Error(error.message);
+    const links: LinkedDocument[] = [];
+    if (invoice?.quote) links.push(toQuoteLink(invoice.quote, 'source'));
+    if (invoice?.visit) links.push(toVisitLink(invoice.visit, 'source'));
+    return links;
+  }
+
+  const [{ data: visit, error: visitError }, { data: invoices, error: invoicesError }] = await Promise.all([
+    supabase.from('visits').select('quote:quote_id(id, quote_number, issue_date, status)').eq('id', id).single(),
+    supabase.from('invoices').select(invoiceColumns).eq('visit_id', id).order('issue_date', { ascending: true }),
+  ]);
+  if (visitError || invoicesError) throw new Error((visitError || invoicesError)!.message);
+  return [...(visit?.quote ? [toQuoteLink(visit.quote, 'source')] : []), ...(invoices || []).map(invoice => toInvoiceLink(invoice, 'derived'))];
+};
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { calculateDiscount, calculateDocumentTotals, calculateItemNet, formatDiscount, toPercentDiscount } from './documentTotals';
+
+describe('calculateDiscount', () => {
+  it('applies percentage discounts, capped at 100 %', () => {
+    expect(calculateDiscount(200, { discount_type: 'percent', discount_value: 10 })).toBe(20);
+    expect(calculateDiscount(200, { discount_type: 'percent', discount_value: 150 })).toBe(200);
+  });
+
+  it('caps absolute discounts at the amount', () => {
+    expect(calculateDiscount(50, { discount_type: 'amount', discount_value: 80 })).toBe(50);
+  });
+
+  it('follows the sign of negated amounts', () => {
+    expect(calculateDiscount(-200, { discount_type: 'percent', discount_value: 10 })).toBe(-20);
+    expect(calculateDiscount(-200, { discount_type: 'amount', discount_value: 30 })).toBe(-30);
+  });
+
+  it('ignores missing or non-positive discounts', () => {
+    expect(calculateDiscount(200, {})).toBe(0);
+    expect(calculateDiscount(200, { discount_type: 'percent', discount_value: -5 })).toBe(0);
+  });
+});
+
+describe('calculateItemNet', () => {
+  it('rounds half away from zero so negated lines mirror the original', () => {
+    expect(calculateItemNet({ quantity: 1, unit_price: 0.125 })).toBe(0.13);
+    expect(calculateItemNet({ quantity: -1, unit_price: 0.125 })).toBe(-0.13);
+  });
+
+  it('deducts the line discount', () => {
+    expect(calculateItemNet({ quantity: 2, unit_price: 100, discount_type: 'percent', discount_value: 10 })).toBe(180);
+  });
+});
+
+describe('calculateDocumentTotals', () => {
+  it('sums the lines and their VAT per rate', () => {
+    const totals = calculateDocumentTotals([
+      { quantity: 2, unit_price: 50, vat_rate: 19 },
+      { quantity: 1, unit_price: 100, vat_rate: 7 },
+    ]);
+    expect(totals.netTotalsByVat).toEqual({ 7: 100, 19: 100 });
+    expect(totals.vatTotals).toEqual({ 7: 7, 19: 19 });
+    expect(totals.netTotal).toBe(200);
+    expect(totals.grandTotal).toBe(226);
+  });
+
+  it('reports line discounts separately from the gross subtotal', () => {
+    const totals = calculateDocumentTotals([{ quantity: 1, unit_price: 200, vat_rate: 19, discount_type: 'percent', discount_value: 10 }]);
+    expect(totals.grossSubtotal).toBe(200);
+    expect(totals.lineDiscountTotal).toBe(20);
+    expect(totals.subtotal).toBe(180);
+    expect(totals.grandTotal).toBe(214.2);
+  });
+
+  it('distributes the document discount over the VAT rates by their net amounts', () => {
+    const totals = calculateDocumentTotals(
+      [{ quantity: 1, unit_price: 100, vat_rate: 19 }, { quantity: 1, unit_price: 50, vat_rate: 7 }],
+      { discount_type: 'amount', discount_value: 30 }
+    );
+    expect(totals.documentDiscount).toBe(30);
+    expect(totals.netTotalsByVat).toEqual({ 7: 40, 19: 80 });
+    expect(totals.vatTotals).toEqual({ 7: 2.8, 19: 15.2 });
+    expect(totals.totalVat).toBe(18);
+    expect(totals.grandTotal).toBe(138);
+  });
+
+  it('gives the rounding remainder of the discount to the last rate', () => {
+    const totals = calculateDocumentTotals(
+      [0, 7, 19].map(vat_rate => ({ quantity: 1, unit_price: 100, vat_rate })),
+      { discount_type: 'amount', discount_value: 10 }
+    );
+    expect(totals.netTotalsByVat).toEqual({ 0: 96.67, 7: 96.67, 19: 96.66 });
+    expect(totals.netTotal).toBe(290);
+  });
+
+  it('returns zero totals for an empty document', () => {
+    const totals = calculateDocumentTotals([], { discount_type: 'percent', discount_value: 10 });
+    expect(totals.netTotal).toBe(0);
+    expect(totals.grandTotal).toBe(0);
+  });
+});
+
+describe('toPercentDiscount', () => {
+  it('converts an absolute discount into its share of the amount', () => {
+    expect(toPercentDiscount(200, { discount_type: 'amount', discount_value: 50 })).toEqual({ discount_type: 'percent', discount_value: 25 });
+  });
+
+  it('keeps percentage discounts and clears empty ones', () => {
+    expect(toPercentDiscount(200, { discount_type: 'percent', discount_value: 5 })).toEqual({ discount_type: 'percent', discount_value: 5 });
+    expect(toPercentDiscount(200, {})).toEqual({ discount_type: null, discount_value: null });
+  });
+});
+
+describe('formatDiscount', () => {
+  it('formats percentage and absolute discounts', () => {
+    expect(formatDiscount({ discount_type: 'percent', discount_value: 10 })).toBe('10 %');
+    expect(formatDiscount({ discount_type: 'amount', discount_value: 25 })).toBe('€25.00');
+  });
+});
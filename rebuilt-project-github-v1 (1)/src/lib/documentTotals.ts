@@ -0,0 +1,120 @@
+import { DiscountType } from "../types";
+
+interface Discount {
+  discount_type?: DiscountType | null;
+  discount_value?: number | null;
+}
+
+interface TotalsItem extends Discount {
+  quantity?: number | null;
+  unit_price?: number | null;
+  vat_rate?: number | null;
+}
+
+export interface DocumentTotals {
+  /** Sum of all lines before any discount. */
+  grossSubtotal: number;
+  /** Sum of all line discounts. */
+  lineDiscountTotal: number;
+  /** Sum of all lines after their line discounts. */
+  subtotal: number;
+  /** The discount on the whole document. */
+  documentDiscount: number;
+  /** subtotal - documentDiscount; the tax base of the document. */
+  netTotal: number;
+  /** Net amount per VAT rate after all discounts. */
+  netTotalsByVat: { [rate: number]: number };
+  vatTotals: { [rate: number]: number };
+  totalVat: number;
+  grandTotal: number;
+}
+
+// Rounds half away from zero, so the negated lines of a cancellation mirror the original amounts exactly.
+const round2 = (value: number): number => Math.sign(value) * Math.round((Math.abs(value) + Number.EPSILON) * 100) / 100;
+
+/**
+ * Applies a percentage or absolute discount to an amount. Absolute discounts are capped at the
+ * amount and follow its sign, so negated lines of cancellation invoices are reduced in the same way.
+ * @returns The discount, with the same sign as the amount.
+ */
+export const calculateDiscount = (amount: number, discount: Discount): number => {
+  const value = Number(discount.discount_value || 0);
+  if (!discount.discount_type || value <= 0 || amount === 0) return 0;
+  if (discount.discount_type === 'percent') {
+    return round2(amount * Math.min(value, 100) / 100);
+  }
+  return Math.sign(amount) * Math.min(value, Math.abs(amount));
+};
+
+/**
+ * Returns the net amount of a line after its line discount, rounded to cents.
+ */
+export const calculateItemNet = (item: TotalsItem): number => {
+  const gross = round2(Number(item.quantity || 0) * Number(item.unit_price || 0));
+  return round2(gross - calculateDiscount(gross, item));
+};
+
+/**
+ * Calculates the totals of an invoice or quote. The document discount is distributed over the
+ * VAT rates in proportion to their net amounts, as the tax base of every rate is reduced by it.
+ * @param items The document lines.
+ * @param documentDiscount The discount on the whole document.
+ */
+export const calculateDocumentTotals = (items: TotalsItem[], documentDiscount: Discount = {}): DocumentTotals => {
+  let grossSubtotal = 0;
+  const lineNetsByVat: { [rate: number]: number } = {};
+  items.forEach(item => {
+    const vatRate = Number(item.vat_rate || 0);
+    grossSubtotal += Number(item.quantity || 0) * Number(item.unit_price || 0);
+    lineNetsByVat[vatRate] = round2((lineNetsByVat[vatRate] || 0) + calculateItemNet(item));
+  });
+
+  const subtotal = round2(Object.values(lineNetsByVat).reduce((a, b) => a + b, 0));
+  const discount = calculateDiscount(subtotal, documentDiscount);
+
+  const netTotalsByVat: { [rate: number]: number } = {};
+  const vatTotals: { [rate: number]: number } = {};
+  const rates = Object.keys(lineNetsByVat).map(Number);
+  let distributed = 0;
+  rates.forEach((rate, index) => {
+    // The last rate takes the rounding remainder so the shares add up to the discount exactly.
+    const share = index === rates.length - 1
+      ? round2(discount - distributed)
+      : subtotal !== 0 ? round2(discount * lineNetsByVat[rate] / subtotal) : 0;
+    distributed = round2(distributed + share);
+    netTotalsByVat[rate] = round2(lineNetsByVat[rate] - share);
+    vatTotals[rate] = round2(netTotalsByVat[rate] * rate / 100);
+  });
+
+  const netTotal = round2(subtotal - discount);
+  const totalVat = round2(Object.values(vatTotals).reduce((a, b) => a + b, 0));
+  return {
+    grossSubtotal: round2(grossSubtotal),
+    lineDiscountTotal: round2(grossSubtotal - subtotal),
+    subtotal,
+    documentDiscount: discount,
+    netTotal,
+    netTotalsByVat,
+    vatTotals,
+    totalVat,
+    grandTotal: round2(netTotal + totalVat),
+  };
+};
+
+/**
+ * Expresses a discount as a percentage of the given amount. Used when only part of a document is
+ * credited, so that an absolute discount is reduced in proportion to the credited share.
+ */
+export const toPercentDiscount = (amount: number, discount: Discount): Discount => {
+  if (!discount.discount_type || !discount.discount_value) return { discount_type: null, discount_value: null };
+  if (discount.discount_type === 'percent') return { discount_type: 'percent', discount_value: Number(discount.discount_value) };
+  return { discount_type: 'percent', discount_value: amount !== 0 ? Math.abs(calculateDiscount(amount, discount) / amount) * 100 : 0 };
+};
+
+/**
+ * Formats a discount for display, e.g. "10 %" or "€25.00".
+ */
+export const formatDiscount = (discount: Discount): string => {
+  const value = Number(discount.discount_value || 0);
+  return discount.discount_type === 'percent' ? `${value} %` : `€${value.toFixed(2)}`;
+};
@@ -0,0 +1,308 @@
+import { supabase } from "../services/supabase";
+import { DiscountType, Invoice, InvoiceItem, InvoiceStatus, InvoiceType, Profile, Quote, QuoteItem } from "../types";
+import { translations } from "../constants";
+import { generateNextNumber } from "./numberGenerator";
+import { calculateDocumentTotals, formatDiscount } from "./documentTotals";
+import { formatEuropeanDate } from "./formatting";
+import { calculateDueDate, getPaymentTermFields, getPaymentTerms, resolvePaymentTerm } from "./paymentTerms";
+import { applyTaxTreatment, getTaxTreatment } from "./taxTreatment";
+import { getIncludedQuoteItems } from "./quoteOptions";
+
+type Language = 'de' | 'al';
+type NewInvoiceItem = Omit<InvoiceItem, 'id' | 'invoice_id'>;
+
+interface BilledDocument {
+  id: number;
+  invoice_number: string;
+  invoice_type: InvoiceType;
+  issue_date: string;
+  status: InvoiceStatus;
+  total_amount: number;
+  original_invoice_id?: number | null;
+  discount_type?: DiscountType | null;
+  discount_value?: number | null;
+  invoice_items: { quantity: number; unit_price: number; vat_rate: number; discount_type?: DiscountType | null; discount_value?: number | null }[];
+}
+
+export interface QuoteBillingInvoice {
+  id: number;
+  invoice_number: string;
+  invoice_type: InvoiceType;
+  issue_date: string;
+  status: InvoiceStatus;
+  total_amount: number;
+  /** Gross amount still billed after cancellations and credit notes. */
+  billedAmount: number;
+  /** Net amount per VAT rate still billed after cancellations and credit notes. */
+  billedNetByVat: { [rate: number]: number };
+}
+
+export interface QuoteBilling {
+  invoices: QuoteBillingInvoice[];
+  /** Gross amount billed by all invoices of the quote. */
+  billedTotal: number;
+  /** True once an invoice or final invoice bills the whole quote. */
+  isFullyBilled: boolean;
+}
+
+export interface DownPaymentAmount {
+  type: DiscountType;
+  /** Percent of the quote, or the gross amount of the down payment. */
+  value: number;
+}
+
+const round2 = (value: number): number => Math.sign(value) * Math.round((Math.abs(value) + Number.EPSILON) * 100) / 100;
+
+const translate = (key: string, language: Language): string =>
+  (translations[language] as Record<string, string>)[key] || (translations.de as Record<string, string>)[key] || key;
+
+const BILLED_DOCUMENT_COLUMNS = 'id, invoice_number, invoice_type, issue_date, status, total_amount, original_invoice_id, discount_type, discount_value, invoice_items(quantity, unit_price, vat_rate, discount_type, discount_value)';
+
+/**
+ * Fetches a quote with its items, customer payment terms and organization, ensuring it belongs to the user's org.
+ * Only the items the customer ordered are returned; options and alternatives that were not selected are not billed.
+ */
+const fetchQuote = async (quoteId: number, orgId: string) => {
+  const { data: quoteRows, error } = await supabase
+    .from('quotes')
+    .select('*, quote_items:quote_items!left(*), customers:customers!left(payment_term_id, tax_treatment), organizations:org_id(payment_terms)')
+    .eq('id', quoteId)
+    .eq('org_id', orgId);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!quoteRows || quoteRows.length === 0) {
+    throw new Error("Quote not found or you do not have permission to access it.");
+  }
+
+  const allItems = quoteRows.map(row => row.quote_items).flat().filter(Boolean);
+  const quoteItems: QuoteItem[] = getIncludedQuoteItems(Array.from(new Map(allItems.map(item => [item.id, item])).values()));
+  const { quote_items, ...quote } = quoteRows[0];
+  if (quote.status !== 'accepted') {
+    throw new Error(`Quote #${quote.quote_number} has to be accepted before it can be billed.`);
+  }
+  return { quote: quote as Quote, quoteItems };
+};
+
+/**
+ * Summarizes how much of a quote has been billed by its down-payment, final and regular invoices.
+ * Cancellations and credit notes of these invoices reduce the billed amounts.
+ * @param quoteId The ID of the quote.
+ */
+export const getQuoteBilling = async (quoteId: number): Promise<QuoteBilling> => {
+  const { data: invoices, error } = await supabase
+    .from('invoices')
+    .select(BILLED_DOCUMENT_COLUMNS)
+    .eq('quote_id', quoteId)
+    .order('issue_date', { ascending: true })
+    .order('id', { ascending: true });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const billedInvoices = (invoices || []) as BilledDocument[];
+  let corrections: BilledDocument[] = [];
+  if (billedInvoices.length > 0) {
+    const { data: correctionData, error: correctionError } = await supabase
+      .from('invoices')
+      .select(BILLED_DOCUMENT_COLUMNS)
+      .in('original_invoice_id', billedInvoices.map(invoice => invoice.id));
+    if (correctionError) {
+      throw new Error(correctionError.message);
+    }
+    corrections = (correctionData || []) as BilledDocument[];
+  }
+
+  const result = billedInvoices.map(invoice => {
+    const documents = [invoice, ...corrections.filter(correction => correction.original_invoice_id === invoice.id)];
+    const billedNetByVat: { [rate: number]: number } = {};
+    documents.forEach(document => {
+      const { netTotalsByVat } = calculateDocumentTotals(document.invoice_items || [], document);
+      Object.entries(netTotalsByVat).forEach(([rate, net]) => {
+        billedNetByVat[Number(rate)] = round2((billedNetByVat[Number(rate)] || 0) + net);
+      });
+    });
+    const billedAmount = round2(documents.reduce((sum, document) => sum + Number(document.total_amount || 0), 0));
+    const { invoice_items, original_invoice_id, discount_type, discount_value, ...summary } = invoice;
+    return { ...summary, billedAmount, billedNetByVat };
+  });
+
+  return {
+    invoices: result,
+    billedTotal: round2(result.reduce((sum, invoice) => sum + invoice.billedAmount, 0)),
+    isFullyBilled: result.some(invoice => invoice.invoice_type !== 'down_payment' && invoice.billedAmount !== 0),
+  };
+};
+
+/**
+ * Inserts an invoice billing a quote, together with its items.
+ */
+const insertQuoteInvoice = async (
+  quote: Quote,
+  invoiceType: 'down_payment' | 'final',
+  items: NewInvoiceItem[],
+  profile: Profile
+): Promise<Invoice> => {
+  const newInvoiceNumber = await generateNextNumber(profile.org_id!, 'invoice');
+  const today = new Date();
+  // Customers with a treatment without German VAT are invoiced at 0%.
+  const taxTreatment = getTaxTreatment(quote.customers);
+  const invoiceItems = applyTaxTreatment(items, taxTreatment);
+  // The customer's payment terms or the organization's default set the due date; without any, it is due in 14 days.
+  const paymentTerm = resolvePaymentTerm(getPaymentTerms(quote.organizations), quote.customers);
+  const dueDate = paymentTerm ? calculateDueDate(today, paymentTerm) : new Date();
+  if (!paymentTerm) dueDate.setDate(today.getDate() + 14);
+
+  const newInvoiceData: Omit<Invoice, 'id' | 'customers' | 'invoice_items' | 'organizations' | 'original_invoice' | 'quote' | 'created_at'> = {
+    user_id: profile.id,
+    org_id: profile.org_id!,
+    customer_id: quote.customer_id,
+    invoice_number: newInvoiceNumber,
+    issue_date: today.toISOString().split('T')[0],
+    due_date: dueDate.toISOString().split('T')[0],
+    total_amount: calculateDocumentTotals(invoiceItems).grandTotal,
+    status: 'draft',
+    invoice_type: invoiceType,
+    quote_id: quote.id,
+    tax_treatment: taxTreatment,
+    customer_notes: invoiceType === 'final' ? quote.customer_notes || '' : '',
+    internal_notes: '',
+    ...getPaymentTermFields(paymentTerm),
+  };
+
+  const { data: createdInvoice, error: invoiceInsertError } = await supabase
+    .from('invoices')
+    .insert(newInvoiceData)
+    .select()
+    .single();
+
+  if (invoiceInsertError || !createdInvoice) {
+    throw new Error(invoiceInsertError?.message || "Failed to create invoice.");
+  }
+
+  const { error: itemsInsertError } = await supabase
+    .from('invoice_items')
+    .insert(invoiceItems.map(item => ({ ...item, invoice_id: createdInvoice.id })));
+
+  if (itemsInsertError) {
+    // Rollback: if items fail, delete the invoice we just created
+    await supabase.from('invoices').delete().eq('id', createdInvoice.id);
+    throw new Error(itemsInsertError.message || "Failed to create invoice items.");
+  }
+
+  return createdInvoice as Invoice;
+};
+
+/**
+ * Creates a down-payment invoice (Abschlagsrechnung) for an accepted quote. The down payment is split
+ * over the VAT rates of the quote in proportion to their net amounts, with one line per rate.
+ * @param quoteId The ID of the quote to bill.
+ * @param amount A percentage of the quote total, or a gross amount.
+ * @param profile The profile of the user performing the action.
+ * @param language The language of the line descriptions.
+ * @returns The newly created down-payment invoice.
+ */
+export const createDownPaymentInvoice = async (
+  quoteId: number,
+  amount: DownPaymentAmount,
+  profile: Profile,
+  language: Language = 'de'
+): Promise<Invoice> => {
+  if (!profile.org_id) {
+    throw new Error("User is not associated with an organization.");
+  }
+
+  const { quote, quoteItems } = await fetchQuote(quoteId, profile.org_id);
+  const billing = await getQuoteBilling(quoteId);
+  if (billing.isFullyBilled) {
+    throw new Error(`Quote #${quote.quote_number} has already been fully invoiced.`);
+  }
+
+  const quoteTotals = calculateDocumentTotals(quoteItems, quote);
+  const value = Number(amount.value);
+  const grossAmount = round2(amount.type === 'percent' ? quoteTotals.grandTotal * value / 100 : value);
+  if (!(grossAmount > 0) || quoteTotals.grandTotal <= 0) {
+    throw new Error("Please enter a down payment greater than zero.");
+  }
+  const remaining = round2(quoteTotals.grandTotal - billing.billedTotal);
+  if (grossAmount > remaining) {
+    throw new Error(`The down payment exceeds the amount of the quote that has not been billed yet (€${remaining.toFixed(2)}).`);
+  }
+
+  const share = grossAmount / quoteTotals.grandTotal;
+  const rates = Object.keys(quoteTotals.netTotalsByVat).map(Number).filter(rate => quoteTotals.netTotalsByVat[rate] !== 0);
+  const nets = rates.map(rate => round2(quoteTotals.netTotalsByVat[rate] * share));
+  // The last rate absorbs the rounding difference, so the invoice total matches the requested amount.
+  if (rates.length > 0) {
+    const last = rates.length - 1;
+    const otherGross = rates.slice(0, last).reduce((sum, rate, index) => sum + round2(nets[index] * (1 + rate / 100)), 0);
+    nets[last] = round2((grossAmount - otherGross) / (1 + rates[last] / 100));
+  }
+
+  const percentLabel = String(amount.type === 'percent' ? value : round2(share * 100));
+  const description = translate('downPaymentItem', language)
+    .replace('{percent}', percentLabel)
+    .replace('{number}', quote.quote_number);
+  const items: NewInvoiceItem[] = rates.map((rate, index) => ({ description, quantity: 1, unit_price: nets[index], vat_rate: rate }));
+
+  return insertQuoteInvoice(quote, 'down_payment', items, profile);
+};
+
+/**
+ * Creates the final invoice (Schlussrechnung) for an accepted quote. It bills all quote items and
+ * deducts every down payment that has not been cancelled, with its net amount per VAT rate, so the
+ * VAT of the down payments is offset at the rate it was charged.
+ * @param quoteId The ID of the quote to bill.
+ * @param profile The profile of the user performing the action.
+ * @param language The language of the generated line descriptions.
+ * @returns The newly created final invoice.
+ */
+export const createFinalInvoice = async (quoteId: number, profile: Profile, language: Language = 'de'): Promise<Invoice> => {
+  if (!profile.org_id) {
+    throw new Error("User is not associated with an organization.");
+  }
+
+  const { quote, quoteItems } = await fetchQuote(quoteId, profile.org_id);
+  const billing = await getQuoteBilling(quoteId);
+  if (billing.isFullyBilled) {
+    throw new Error(`Quote #${quote.quote_number} has already been fully invoiced.`);
+  }
+
+  const items: NewInvoiceItem[] = quoteItems.map(item => ({
+    product_id: item.product_id,
+    description: item.description,
+    quantity: item.quantity,
+    unit_price: item.unit_price,
+    vat_rate: item.vat_rate,
+    discount_type: item.discount_type || null,
+    discount_value: item.discount_value || null,
+  }));
+
+  // The document discount of the quote becomes a deduction line per VAT rate, as a discount on the
+  // final invoice itself would also apply to the deducted down payments.
+  const lineNetsByVat = calculateDocumentTotals(quoteItems).netTotalsByVat;
+  const quoteTotals = calculateDocumentTotals(quoteItems, quote);
+  if (quoteTotals.documentDiscount !== 0) {
+    Object.keys(lineNetsByVat).map(Number).forEach(rate => {
+      const discount = round2(lineNetsByVat[rate] - quoteTotals.netTotalsByVat[rate]);
+      if (discount === 0) return;
+      items.push({ description: `${translate('documentDiscount', language)} (${formatDiscount(quote)})`, quantity: -1, unit_price: discount, vat_rate: rate });
+    });
+  }
+
+  billing.invoices
+    .filter(invoice => invoice.invoice_type === 'down_payment' && invoice.billedAmount !== 0)
+    .forEach(invoice => {
+      const description = translate('downPaymentDeduction', language)
+        .replace('{number}', invoice.invoice_number)
+        .replace('{date}', formatEuropeanDate(invoice.issue_date));
+      Object.entries(invoice.billedNetByVat).forEach(([rate, net]) => {
+        if (net === 0) return;
+        items.push({ description, quantity: -1, unit_price: net, vat_rate: Number(rate) });
+      });
+    });
+
+  return insertQuoteInvoice(quote, 'final', items, profile);
+};
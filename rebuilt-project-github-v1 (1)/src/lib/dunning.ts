@@ -0,0 +1,252 @@
+import { supabase } from "../services/supabase";
+import { DunningLevelSettings, DunningNotice, DunningSettings, Invoice, InvoicePayment, Profile } from "../types";
+import { translations } from "../constants";
+import { addDays, differenceInCalendarDays, format } from "date-fns";
+import { calculateOpenBalance } from "./payments";
+import { formatEuropeanDate, parseAsLocalDate, resolvePlaceholders } from "./formatting";
+import { generateDunningPDF } from "./pdfGenerator";
+
+const translate = (key: string, language: 'de' | 'al'): string | undefined =>
+  (translations[language] as Record<string, string>)[key] || (translations.de as Record<string, string>)[key];
+
+// Levels used until an organization configures its own: payment reminder, 1st and 2nd dunning notice.
+export const DEFAULT_DUNNING_LEVELS: DunningLevelSettings[] = [
+  { level: 1, grace_days: 7, payment_days: 7, fee: 0 },
+  { level: 2, grace_days: 14, payment_days: 7, fee: 5 },
+  { level: 3, grace_days: 14, payment_days: 7, fee: 10 },
+];
+
+// Placeholders available in the dunning text blocks, resolved by resolvePlaceholders().
+export const DUNNING_PLACEHOLDERS = [
+  '[customer.name]', '[document.number]', '[document.date]', '[document.due_date]', '[document.total]',
+  '[dunning.open_amount]', '[dunning.fees]', '[dunning.interest]', '[dunning.total_due]', '[dunning.payment_deadline]',
+  '[organization.name]',
+];
+
+export interface DunningCandidate {
+  invoice: Invoice;
+  notices: Pick<DunningNotice, 'id' | 'level' | 'notice_date' | 'fee'>[];
+  openBalance: number;
+  daysOverdue: number;
+  currentLevel: number;
+  nextLevel: DunningLevelSettings | null; // null if no further level is due (yet)
+  fees: number; // fees of all previous notices plus the next level's fee
+  interest: number;
+}
+
+/**
+ * Merges an organization's dunning settings with the defaults.
+ */
+export const getDunningSettings = (settings?: DunningSettings | null): Required<DunningSettings> => {
+  const levels = DEFAULT_DUNNING_LEVELS.map(defaultLevel => ({
+    ...defaultLevel,
+    ...(settings?.levels || []).find(level => level.level === defaultLevel.level),
+  }));
+  return { interest_rate: settings?.interest_rate ?? 0, levels };
+};
+
+/**
+ * Returns the translated name of a dunning level, e.g. "Zahlungserinnerung" or "1. Mahnung".
+ */
+export const getDunningLevelName = (level: number, language: 'de' | 'al' = 'de'): string => {
+  return translate(`dunningLevel${level}`, language) || `${level}`;
+};
+
+/**
+ * Calculates simple default interest (Verzugszinsen) on the open balance from the due date.
+ * @param openBalance The amount still open on the invoice.
+ * @param dueDate The invoice due date ('yyyy-MM-dd').
+ * @param interestRate Interest in percent per year.
+ * @param asOf The date the interest is calculated for.
+ * @returns The interest rounded to cents.
+ */
+export const calculateDunningInterest = (openBalance: number, dueDate: string, interestRate: number, asOf: Date = new Date()): number => {
+  const due = parseAsLocalDate(dueDate);
+  if (!due || !interestRate || openBalance <= 0) return 0;
+  const days = Math.max(differenceInCalendarDays(asOf, due), 0);
+  return Math.round(openBalance * (interestRate / 100) * (days / 365) * 100) / 100;
+};
+
+/**
+ * Evaluates an invoice for the dunning run: its open balance, current level and the level that is due next.
+ * A level is due once its grace days have passed since the due date (first level) or the previous notice.
+ */
+export const buildDunningCandidate = (
+  invoice: Invoice,
+  payments: Pick<InvoicePayment, 'amount'>[],
+  notices: Pick<DunningNotice, 'id' | 'level' | 'notice_date' | 'fee'>[],
+  settings: Required<DunningSettings>,
+  today: Date = new Date()
+): DunningCandidate => {
+  const openBalance = calculateOpenBalance(invoice, payments);
+  const dueDate = parseAsLocalDate(invoice.due_date);
+  const daysOverdue = dueDate ? differenceInCalendarDays(today, dueDate) : 0;
+  const lastNotice = notices.reduce<typeof notices[number] | null>((latest, notice) => (!latest || notice.level > latest.level ? notice : latest), null);
+  const currentLevel = lastNotice?.level || 0;
+  const candidateLevel = settings.levels.find(level => level.level === currentLevel + 1) || null;
+
+  let nextLevel: DunningLevelSettings | null = null;
+  if (candidateLevel && openBalance > 0) {
+    const referenceDate = parseAsLocalDate(lastNotice ? lastNotice.notice_date : invoice.due_date);
+    if (referenceDate && differenceInCalendarDays(today, referenceDate) >= candidateLevel.grace_days) {
+      nextLevel = candidateLevel;
+    }
+  }
+
+  const previousFees = notices.reduce((sum, notice) => sum + Number(notice.fee || 0), 0);
+  return {
+    invoice,
+    notices,
+    openBalance,
+    daysOverdue,
+    currentLevel,
+    nextLevel,
+    fees: previousFees + (nextLevel ? Number(nextLevel.fee || 0) : 0),
+    interest: calculateDunningInterest(openBalance, invoice.due_date, settings.interest_rate, today),
+  };
+};
+
+/**
+ * Creates the next dunning notice for an invoice and marks the invoice as overdue.
+ * @param candidate The evaluated invoice, see buildDunningCandidate().
+ * @param profile The profile of the user running the dunning.
+ * @param language The language used for the default text of the level.
+ * @returns The newly created notice.
+ */
+export const createDunningNotice = async (
+  candidate: DunningCandidate,
+  profile: Profile,
+  language: 'de' | 'al' = 'de'
+): Promise<DunningNotice> => {
+  const { invoice, nextLevel } = candidate;
+  if (!profile.org_id) {
+    throw new Error("User is not associated with an organization.");
+  }
+  if (!nextLevel) {
+    throw new Error(`No dunning level is due for invoice #${invoice.invoice_number}.`);
+  }
+
+  const today = new Date();
+  const paymentDeadline = addDays(today, nextLevel.payment_days);
+  const totalDue = candidate.openBalance + candidate.fees + candidate.interest;
+  const template = nextLevel.text?.trim() || translate(`dunningText${nextLevel.level}`, language) || '';
+  const text = resolvePlaceholders(template, {
+    customer: invoice.customers,
+    document: { number: invoice.invoice_number, date: invoice.issue_date, due_date: invoice.due_date, total: invoice.total_amount },
+    dunning: {
+      open_amount: `€${candidate.openBalance.toFixed(2)}`,
+      fees: `€${candidate.fees.toFixed(2)}`,
+      interest: `€${candidate.interest.toFixed(2)}`,
+      total_due: `€${totalDue.toFixed(2)}`,
+      payment_deadline: formatEuropeanDate(paymentDeadline),
+    },
+    organization: invoice.organizations,
+  });
+
+  const { data: notice, error } = await supabase
+    .from('dunning_notices')
+    .insert({
+      org_id: profile.org_id,
+      invoice_id: invoice.id,
+      customer_id: invoice.customer_id,
+      user_id: profile.id,
+      level: nextLevel.level,
+      notice_date: format(today, 'yyyy-MM-dd'),
+      payment_deadline: format(paymentDeadline, 'yyyy-MM-dd'),
+      open_balance: candidate.openBalance,
+      fee: Number(nextLevel.fee || 0),
+      interest: candidate.interest,
+      text,
+    })
+    .select()
+    .single();
+
+  if (error || !notice) {
+    throw new Error(error?.message || "Failed to create dunning notice.");
+  }
+
+  if (invoice.status === 'sent') {
+    const { error: statusError } = await supabase.from('invoices').update({ status: 'overdue' }).eq('id', invoice.id);
+    if (statusError) {
+      // The notice itself is valid, so this is logged rather than rolled back.
+      console.error(`Failed to mark invoice ${invoice.invoice_number} as overdue:`, statusError);
+    }
+  }
+
+  return notice as DunningNotice;
+};
+
+const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
+
+// Returns the creation time of the latest email logged for an invoice, or null if none has been sent yet.
+const getLatestEmailLogTime = async (invoiceId: number): Promise<string | null> => {
+  const { data } = await supabase
+    .from('email_logs')
+    .select('created_at')
+    .eq('related_document_id', String(invoiceId))
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  return data?.created_at || null;
+};
+
+/**
+ * Sends a dunning notice to the customer via the `send-document-email` function. The function
+ * only knows invoices, so the notice is sent as a document of the dunned invoice (document_type
+ * 'invoice') with the rendered notice attached instead of the invoice, and the email carries the
+ * function's invoice subject. The email_logs entry the function writes is then marked as dunning
+ * step with its level, so that it can be told apart from the invoice emails.
+ * @param notice The notice to send.
+ * @param language The language of the PDF.
+ */
+export const sendDunningNotice = async (notice: DunningNotice, language: 'de' | 'al' = 'de'): Promise<void> => {
+  const pdfBlob = await generateDunningPDF(notice.id, language, 'blob');
+  if (!pdfBlob) throw new Error("Failed to generate PDF blob.");
+
+  const pdfBase64 = await blobToBase64(pdfBlob);
+  const loggedBefore = await getLatestEmailLogTime(notice.invoice_id);
+
+  const { error } = await supabase.functions.invoke('send-document-email', {
+    body: {
+      document_id: notice.invoice_id,
+      document_type: 'invoice',
+      pdf_base_64: pdfBase64,
+    },
+  });
+
+  if (error) {
+    const functionError = error.context?.json?.error;
+    throw new Error(functionError || error.message);
+  }
+
+  const { error: updateError } = await supabase.from('dunning_notices').update({ sent_via_email: true }).eq('id', notice.id);
+  if (updateError) {
+    console.error(`Failed to flag dunning notice ${notice.id} as sent:`, updateError);
+  }
+
+  // The entry written by the function is the newest invoice email of this invoice logged after the call started.
+  let logQuery = supabase
+    .from('email_logs')
+    .select('id')
+    .eq('related_document_id', String(notice.invoice_id))
+    .eq('document_type', 'invoice');
+  if (loggedBefore) {
+    logQuery = logQuery.gt('created_at', loggedBefore);
+  }
+  const { data: logEntry } = await logQuery.order('created_at', { ascending: false }).limit(1).maybeSingle();
+  if (!logEntry) {
+    console.error(`No email log entry found for dunning notice ${notice.id}.`);
+    return;
+  }
+  const { error: logError } = await supabase.from('email_logs').update({ document_type: 'dunning', dunning_level: notice.level }).eq('id', logEntry.id);
+  if (logError) {
+    console.error(`Failed to log dunning notice ${notice.id} in email_logs:`, logError);
+  }
+};
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { Customer, Invoice, InvoiceItem, Organization } from '../types';
+import { buildEInvoiceData, generateCiiXml, generateUblXml, validateEInvoiceData } from './eInvoice';
+
+const organization = {
+  company_name: 'Muster Haustechnik GmbH',
+  address: 'Musterstr. 1\n12345 Berlin',
+  ust_idnr: 'DE 123456789',
+  email: 'info@muster.de',
+  phone: '030 123456',
+  iban: 'DE89 3704 0044 0532 0130 00',
+} as Organization;
+
+const customer = {
+  name: 'Müller GmbH',
+  address: 'Hauptstr. 5\n80331 München',
+  email: 'buchhaltung@mueller.de',
+  buyer_reference: '991-12345-67',
+} as Customer;
+
+const items = [{ description: 'Wartung Heizung', quantity: 2, unit_price: 50, vat_rate: 19 }] as InvoiceItem[];
+
+const buildData = (invoice: Partial<Invoice> = {}, org: Partial<Organization> = {}, buyer: Partial<Customer> = {}, invoiceItems = items) => buildEInvoiceData({
+  invoice_number: 'RE-2025-0001',
+  issue_date: '2025-03-01',
+  due_date: '2025-03-31',
+  status: 'sent',
+  organizations: { ...organization, ...org },
+  customers: { ...customer, ...buyer },
+  ...invoice,
+} as Invoice, invoiceItems);
+
+describe('validateEInvoiceData', () => {
+  it('accepts a complete domestic invoice', () => {
+    expect(validateEInvoiceData(buildData())).toEqual([]);
+  });
+
+  it('requires the buyer reference (Leitweg-ID)', () => {
+    expect(validateEInvoiceData(buildData({}, {}, { buyer_reference: null }))).toEqual([
+      "Buyer reference (Leitweg-ID) is missing. Enter it in the customer's master data.",
+    ]);
+  });
+
+  it('requires the contact details of seller and buyer', () => {
+    const errors = validateEInvoiceData(buildData({}, { email: undefined, phone: undefined }, { email: undefined }));
+    expect(errors).toContain("Organization email is missing (seller contact and electronic address).");
+    expect(errors).toContain("Organization phone number is missing (seller contact).");
+    expect(errors).toContain("Customer email is missing (buyer electronic address).");
+  });
+
+  it('requires structured addresses', () => {
+    const errors = validateEInvoiceData(buildData({}, { address: 'Musterstr. 1' }, { address: 'Hauptstr. 5' }));
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toMatch(/^Organization address must contain/);
+    expect(errors[1]).toMatch(/^Customer address must contain/);
+  });
+
+  it('requires the seller VAT ID or tax number and the IBAN', () => {
+    const errors = validateEInvoiceData(buildData({}, { ust_idnr: undefined, iban: undefined }));
+    expect(errors).toContain("Organization VAT ID (USt-IdNr.) or tax number (Steuernummer) is missing. Enter it in the settings.");
+    expect(errors).toContain("Organization IBAN is missing (payment instructions).");
+  });
+
+  it('accepts the tax number of small businesses without VAT ID', () => {
+    const data = buildData({ tax_treatment: 'small_business' }, { ust_idnr: undefined, steuernummer: '12/345/67890' }, {}, [{ ...items[0], vat_rate: 0 }]);
+    expect(validateEInvoiceData(data)).toEqual([]);
+  });
+
+  it('requires the customer VAT ID for reverse-charge invoices', () => {
+    const invoiceItems = [{ ...items[0], vat_rate: 0 }];
+    expect(validateEInvoiceData(buildData({ tax_treatment: 'reverse_charge' }, {}, {}, invoiceItems))).toEqual([
+      "Customer VAT ID is missing (required for reverse-charge and intra-community invoices).",
+    ]);
+    expect(validateEInvoiceData(buildData({ tax_treatment: 'reverse_charge' }, {}, { vat_id: 'DE 987654321' }, invoiceItems))).toEqual([]);
+  });
+
+  it('requires a VAT rate above 0 % for standard rated items', () => {
+    const data = buildData();
+    data.taxes[0].vatRate = 0;
+    expect(validateEInvoiceData(data)).toEqual(["Standard rated items need a VAT rate above 0%."]);
+  });
+
+  it('requires the corrected invoice on credit notes', () => {
+    const errors = validateEInvoiceData(buildData({ invoice_type: 'credit_note' }));
+    expect(errors).toEqual(["The corrected invoice could not be determined."]);
+  });
+
+  it('rejects invoices without items or with unnamed items', () => {
+    expect(validateEInvoiceData(buildData({}, {}, {}, []))).toContain("The invoice has no items.");
+    expect(validateEInvoiceData(buildData({}, {}, {}, [{ ...items[0], description: ' ' }]))).toEqual(["Item 1 has no description."]);
+  });
+});
+
+describe('seller tax registration', () => {
+  const data = buildData({}, { ust_idnr: undefined, steuernummer: '12/345/67890' });
+
+  it('writes the tax number with the FC scheme in UBL', () => {
+    const xml = generateUblXml(data);
+    expect(xml).toContain('<cac:PartyTaxScheme><cbc:CompanyID>12/345/67890</cbc:CompanyID><cac:TaxScheme><cbc:ID>FC</cbc:ID></cac:TaxScheme></cac:PartyTaxScheme>');
+    expect(xml).not.toContain('<cbc:ID>VAT</cbc:ID></cac:TaxScheme></cac:PartyTaxScheme>');
+  });
+
+  it('writes the tax number with the FC scheme in CII', () => {
+    expect(generateCiiXml(data)).toContain('<ram:SpecifiedTaxRegistration><ram:ID schemeID="FC">12/345/67890</ram:ID></ram:SpecifiedTaxRegistration>');
+  });
+});
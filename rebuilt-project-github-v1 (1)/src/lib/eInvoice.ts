@@ -0,0 +1,532 @@
+import { format } from 'date-fns';
+import { Customer, Invoice, InvoiceItem, Organization, TaxTreatment } from '../types';
+import { parseAsLocalDate } from './formatting';
+import { calculateDocumentTotals, calculateItemNet } from './documentTotals';
+import { hasSkonto } from './skonto';
+import { isCorrectionDocument } from './cancellation';
+import { getTaxTreatment } from './taxTreatment';
+
+/**
+ * Output formats for invoices. 'pdf' is the plain layout, the XRechnung formats produce the XML only.
+ * ZUGFeRD / Factur-X is not offered: it requires a PDF/A-3 file, which jsPDF cannot produce.
+ */
+export type DocumentFormat = 'pdf' | 'xrechnung_ubl' | 'xrechnung_cii';
+
+export const E_INVOICE_FORMATS: Exclude<DocumentFormat, 'pdf'>[] = ['xrechnung_ubl', 'xrechnung_cii'];
+
+// EN 16931 VAT category codes (UNTDID 5305) used by this app.
+export type VatCategoryCode = 'S' | 'Z' | 'E' | 'AE' | 'K' | 'G' | 'O';
+
+const XRECHNUNG_CUSTOMIZATION_ID = 'urn:cen.eu:en16931:2017#compliant#urn:xeinkauf.de:kosit:xrechnung_3.0';
+
+export interface EInvoiceParty {
+  name: string;
+  street: string;
+  postalCode: string;
+  city: string;
+  countryCode: string;
+  vatId?: string;
+  /** The tax number (Steuernummer) as tax registration identifier (BT-32); sellers without a VAT ID need it instead. */
+  taxNumber?: string;
+  email?: string;
+  phone?: string;
+}
+
+export interface EInvoiceLine {
+  id: string;
+  name: string;
+  quantity: number;
+  unitCode: string;
+  unitPrice: number;
+  netAmount: number;
+  /** Line allowance (BG-27), already deducted from netAmount. */
+  allowanceAmount?: number;
+  vatCategory: VatCategoryCode;
+  vatRate: number;
+}
+
+/** A document level allowance (BG-20), one per VAT category and rate it reduces. */
+export interface EInvoiceAllowance {
+  amount: number;
+  reason: string;
+  vatCategory: VatCategoryCode;
+  vatRate: number;
+}
+
+export interface EInvoiceTax {
+  vatCategory: VatCategoryCode;
+  vatRate: number;
+  taxableAmount: number;
+  taxAmount: number;
+  exemptionReason?: string;
+}
+
+/**
+ * The invoice in the structure of the EN 16931 semantic model, independent of the XML syntax.
+ * Amounts of cancellation invoices and credit notes are turned positive, as the type code (381) carries the sign.
+ * Down-payment invoices are partial invoices (326).
+ */
+export interface EInvoiceData {
+  number: string;
+  typeCode: '380' | '381' | '326';
+  issueDate: string;
+  dueDate: string;
+  currency: string;
+  buyerReference?: string;
+  precedingInvoice?: { number: string; issueDate: string };
+  note?: string;
+  seller: EInvoiceParty;
+  buyer: EInvoiceParty;
+  iban?: string;
+  bic?: string;
+  skonto?: { percent: number; days: number };
+  lines: EInvoiceLine[];
+  allowances: EInvoiceAllowance[];
+  taxes: EInvoiceTax[];
+  lineTotal: number;
+  allowanceTotal: number;
+  taxTotal: number;
+  grandTotal: number;
+  prepaidAmount: number;
+  amountDue: number;
+}
+
+const round2 = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+const amount = (value: number): string => round2(value).toFixed(2);
+
+const escapeXml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+const COUNTRY_NAMES: Record<string, string> = {
+  deutschland: 'DE', germany: 'DE', österreich: 'AT', austria: 'AT', schweiz: 'CH', switzerland: 'CH',
+  shqipëri: 'AL', shqiperi: 'AL', albania: 'AL', albanien: 'AL', kosovo: 'XK', niederlande: 'NL', frankreich: 'FR',
+};
+
+/**
+ * Splits the free-text address of a customer or organization into the structured
+ * fields e-invoices require. Expects the street on the first line(s), "12345 City"
+ * on a later line and optionally a country name or ISO code on the last line.
+ * @returns The parsed address; fields that could not be recognized are empty.
+ */
+export const parsePostalAddress = (address?: string | null): Omit<EInvoiceParty, 'name' | 'vatId' | 'taxNumber' | 'email' | 'phone'> => {
+  const lines = String(address || '').split(/\n|,/).map(line => line.trim()).filter(Boolean);
+  let countryCode = 'DE';
+  const lastLine = lines[lines.length - 1]?.toLowerCase();
+  if (lastLine && (COUNTRY_NAMES[lastLine] || /^[a-z]{2}$/.test(lastLine))) {
+    countryCode = COUNTRY_NAMES[lastLine] || lastLine.toUpperCase();
+    lines.pop();
+  }
+
+  const cityIndex = lines.findIndex(line => /^(?:[A-Z]{1,2}[- ])?\d{4,5}\s+\S/.test(line));
+  if (cityIndex === -1) {
+    return { street: lines[0] || '', postalCode: '', city: '', countryCode };
+  }
+  const [, postalCode, city] = lines[cityIndex].match(/^(?:[A-Z]{1,2}[- ])?(\d{4,5})\s+(.+)$/)!;
+  return { street: lines.slice(0, cityIndex).join(', '), postalCode, city, countryCode };
+};
+
+// VAT categories of the tax treatments without German VAT, with the exemption reason (BT-120) they require.
+const TAX_TREATMENT_CATEGORIES: Record<Exclude<TaxTreatment, 'domestic'>, { code: VatCategoryCode; exemptionReason: string }> = {
+  reverse_charge: { code: 'AE', exemptionReason: 'Steuerschuldnerschaft des Leistungsempfängers (§ 13b UStG)' },
+  intra_eu: { code: 'K', exemptionReason: 'Steuerfreie innergemeinschaftliche Lieferung (§ 4 Nr. 1b UStG)' },
+  export: { code: 'G', exemptionReason: 'Steuerfreie Ausfuhrlieferung (§ 4 Nr. 1a UStG)' },
+  small_business: { code: 'E', exemptionReason: 'Kein Ausweis von Umsatzsteuer, da Kleinunternehmer gemäß § 19 UStG' },
+};
+
+/**
+ * Maps a VAT rate and the tax treatment of the invoice to its EN 16931 category. Domestic 0% lines
+ * are treated as exempt, which requires an exemption reason on the invoice.
+ */
+export const getVatCategory = (vatRate: number, treatment: TaxTreatment = 'domestic'): { code: VatCategoryCode; exemptionReason?: string } => {
+  if (treatment !== 'domestic') return TAX_TREATMENT_CATEGORIES[treatment];
+  if (vatRate > 0) return { code: 'S' };
+  return { code: 'E', exemptionReason: 'Steuerbefreit' };
+};
+
+// Maps the free-text product units to UN/ECE Recommendation 20 codes; C62 ("one") is the neutral fallback.
+const UNIT_CODES: Record<string, string> = {
+  h: 'HUR', std: 'HUR', 'std.': 'HUR', stunde: 'HUR', stunden: 'HUR', hour: 'HUR', hours: 'HUR', orë: 'HUR',
+  min: 'MIN', minute: 'MIN', minuten: 'MIN',
+  tag: 'DAY', tage: 'DAY', day: 'DAY', days: 'DAY',
+  stk: 'H87', 'stk.': 'H87', stück: 'H87', pcs: 'H87', piece: 'H87', copë: 'H87',
+  km: 'KMT', m: 'MTR', m2: 'MTK', 'm²': 'MTK', m3: 'MTQ', 'm³': 'MTQ', kg: 'KGM', l: 'LTR', liter: 'LTR',
+  pauschal: 'LS', pauschale: 'LS', psch: 'LS', 'psch.': 'LS',
+};
+
+const getUnitCode = (unit?: string | null): string => UNIT_CODES[String(unit || '').trim().toLowerCase()] || 'C62';
+
+/**
+ * Converts an invoice with its items, customer and organization into the EN 16931 model.
+ * @param invoice The invoice (with customers and organizations joined).
+ * @param items The invoice items, optionally with their product's unit.
+ * @param prepaidAmount Payments already received (BT-113).
+ * @param precedingInvoice The corrected invoice, for cancellation invoices and credit notes.
+ */
+export const buildEInvoiceData = (
+  invoice: Invoice,
+  items: (InvoiceItem & { products?: { unit?: string | null } | null })[],
+  prepaidAmount = 0,
+  precedingInvoice?: { invoice_number: string; issue_date: string } | null
+): EInvoiceData => {
+  const org = (invoice.organizations || {}) as Organization;
+  const customer = (invoice.customers || {}) as Customer;
+  const isCorrection = isCorrectionDocument(invoice);
+  const treatment = getTaxTreatment(invoice);
+  const sign = isCorrection ? -1 : 1;
+
+  const lines: EInvoiceLine[] = items.map((item, index) => {
+    const quantity = sign * Number(item.quantity);
+    const unitPrice = Number(item.unit_price);
+    const netAmount = round2(sign * calculateItemNet(item));
+    return {
+      id: String(index + 1),
+      name: item.description,
+      quantity,
+      unitCode: getUnitCode(item.products?.unit),
+      unitPrice,
+      netAmount,
+      allowanceAmount: round2(quantity * unitPrice - netAmount) || undefined,
+      vatCategory: getVatCategory(Number(item.vat_rate), treatment).code,
+      vatRate: Number(item.vat_rate),
+    };
+  });
+
+  // The document discount is split per VAT rate, as every allowance (BG-20) must name the rate it reduces.
+  const totals = calculateDocumentTotals(items, invoice);
+  const taxes: EInvoiceTax[] = [];
+  const allowances: EInvoiceAllowance[] = [];
+  Object.keys(totals.netTotalsByVat).map(Number).forEach(vatRate => {
+    const { code: vatCategory, exemptionReason } = getVatCategory(vatRate, treatment);
+    const taxableAmount = round2(sign * totals.netTotalsByVat[vatRate]);
+    const lineNet = round2(lines.filter(line => line.vatRate === vatRate).reduce((sum, line) => sum + line.netAmount, 0));
+    if (round2(lineNet - taxableAmount) !== 0) {
+      allowances.push({ amount: round2(lineNet - taxableAmount), reason: 'Rabatt', vatCategory, vatRate });
+    }
+    taxes.push({ vatCategory, vatRate, taxableAmount, taxAmount: round2(sign * totals.vatTotals[vatRate]), exemptionReason });
+  });
+
+  const lineTotal = round2(lines.reduce((sum, line) => sum + line.netAmount, 0));
+  const allowanceTotal = round2(allowances.reduce((sum, allowance) => sum + allowance.amount, 0));
+  const taxTotal = round2(taxes.reduce((sum, tax) => sum + tax.taxAmount, 0));
+  const grandTotal = round2(lineTotal - allowanceTotal + taxTotal);
+  const sellerAddress = parsePostalAddress(org.address);
+  const buyerAddress = parsePostalAddress(customer.address);
+
+  return {
+    number: invoice.invoice_number,
+    typeCode: isCorrection ? '381' : invoice.invoice_type === 'down_payment' ? '326' : '380',
+    issueDate: invoice.issue_date,
+    dueDate: invoice.due_date,
+    currency: 'EUR',
+    buyerReference: customer.buyer_reference?.trim() || undefined,
+    precedingInvoice: precedingInvoice ? { number: precedingInvoice.invoice_number, issueDate: precedingInvoice.issue_date } : undefined,
+    note: invoice.customer_notes?.trim() || undefined,
+    seller: {
+      name: org.company_name || org.name || '',
+      ...sellerAddress,
+      vatId: org.ust_idnr?.replace(/\s/g, '') || undefined,
+      taxNumber: org.steuernummer?.trim() || undefined,
+      email: org.email || undefined,
+      phone: org.phone || undefined,
+    },
+    buyer: {
+      name: customer.name || '',
+      ...buyerAddress,
+      vatId: customer.vat_id?.replace(/\s/g, '') || undefined,
+      email: customer.email || undefined,
+      phone: customer.phone || undefined,
+    },
+    iban: org.iban?.replace(/\s/g, '') || undefined,
+    bic: org.bic?.replace(/\s/g, '') || undefined,
+    skonto: !isCorrection && hasSkonto(invoice) ? { percent: Number(invoice.skonto_percent), days: Number(invoice.skonto_days) } : undefined,
+    lines,
+    allowances,
+    taxes,
+    lineTotal,
+    allowanceTotal,
+    taxTotal,
+    grandTotal,
+    prepaidAmount: round2(prepaidAmount),
+    amountDue: round2(grandTotal - prepaidAmount),
+  };
+};
+
+/**
+ * Checks the fields EN 16931 and the German CIUS (XRechnung) require.
+ * @returns A list of human-readable problems; empty if the invoice can be exported.
+ */
+export const validateEInvoiceData = (data: EInvoiceData): string[] => {
+  const errors: string[] = [];
+
+  if (!data.issueDate) errors.push("Invoice date is missing.");
+  if (data.typeCode !== '381' && !data.dueDate) errors.push("Due date is missing.");
+  if (data.typeCode === '381' && !data.precedingInvoice) errors.push("The corrected invoice could not be determined.");
+  if (data.lines.length === 0) errors.push("The invoice has no items.");
+  data.lines.forEach(line => {
+    if (!line.name?.trim()) errors.push(`Item ${line.id} has no description.`);
+  });
+  if (!data.buyerReference) {
+    errors.push("Buyer reference (Leitweg-ID) is missing. Enter it in the customer's master data.");
+  }
+
+  // Seller (BG-4)
+  if (!data.seller.name) errors.push("Organization name is missing.");
+  // Small businesses (§19 UStG) often have no VAT ID; EN 16931 accepts the tax number instead (BR-CO-26).
+  if (!data.seller.vatId && !data.seller.taxNumber) errors.push("Organization VAT ID (USt-IdNr.) or tax number (Steuernummer) is missing. Enter it in the settings.");
+  if (!data.seller.street || !data.seller.postalCode || !data.seller.city) {
+    errors.push("Organization address must contain street, postal code and city (e.g. \"Musterstr. 1\" and \"12345 Berlin\" on separate lines).");
+  }
+  if (!data.seller.email) errors.push("Organization email is missing (seller contact and electronic address).");
+  if (!data.seller.phone) errors.push("Organization phone number is missing (seller contact).");
+  if (!data.iban) errors.push("Organization IBAN is missing (payment instructions).");
+
+  // Buyer (BG-7)
+  if (!data.buyer.name) errors.push("Customer name is missing.");
+  if ((!data.buyer.postalCode || !data.buyer.city)) {
+    errors.push("Customer address must contain postal code and city (e.g. \"12345 Berlin\" on its own line).");
+  }
+  if (!data.buyer.email) errors.push("Customer email is missing (buyer electronic address).");
+
+  // VAT breakdown (BG-23)
+  data.taxes.forEach(tax => {
+    if (tax.vatCategory === 'S' && tax.vatRate <= 0) errors.push(`Standard rated items need a VAT rate above 0%.`);
+    if (['E', 'AE', 'K', 'G', 'O'].includes(tax.vatCategory) && !tax.exemptionReason) {
+      errors.push(`VAT category ${tax.vatCategory} requires an exemption reason.`);
+    }
+  });
+  if (data.taxes.some(tax => tax.vatCategory === 'AE' || tax.vatCategory === 'K') && !data.buyer.vatId) {
+    errors.push("Customer VAT ID is missing (required for reverse-charge and intra-community invoices).");
+  } else if (data.buyer.countryCode !== data.seller.countryCode && !data.buyer.vatId && !data.taxes.some(tax => tax.vatCategory === 'G')) {
+    errors.push("Customer VAT ID is missing (required for customers abroad).");
+  }
+
+  return errors;
+};
+
+const xmlDate = (date: string): string => format(parseAsLocalDate(date)!, 'yyyy-MM-dd');
+// XRechnung expects Skonto in the payment terms text as "#SKONTO#TAGE=n#PROZENT=n.nn#", each entry on its own line.
+const paymentTermsText = (data: EInvoiceData): string => [
+  data.dueDate ? `Zahlbar bis ${format(parseAsLocalDate(data.dueDate)!, 'dd.MM.yyyy')}` : '',
+  data.skonto ? `#SKONTO#TAGE=${data.skonto.days}#PROZENT=${data.skonto.percent.toFixed(2)}#\n` : '',
+].filter(Boolean).join('\n');
+
+const ciiDate = (date: string): string => format(parseAsLocalDate(date)!, 'yyyyMMdd');
+
+/**
+ * Renders the invoice as XRechnung 3.0 in the UBL syntax (Invoice, or CreditNote for type code 381).
+ */
+export const generateUblXml = (data: EInvoiceData): string => {
+  const isCreditNote = data.typeCode === '381';
+  const root = isCreditNote ? 'CreditNote' : 'Invoice';
+  const lineTag = isCreditNote ? 'CreditNoteLine' : 'InvoiceLine';
+  const quantityTag = isCreditNote ? 'CreditedQuantity' : 'InvoicedQuantity';
+  const e = escapeXml;
+
+  const party = (p: EInvoiceParty, isSeller: boolean) => `
+      <cac:Party>
+        ${p.email ? `<cbc:EndpointID schemeID="EM">${e(p.email)}</cbc:EndpointID>` : ''}
+        <cac:PostalAddress>
+          ${p.street ? `<cbc:StreetName>${e(p.street)}</cbc:StreetName>` : ''}
+          <cbc:CityName>${e(p.city)}</cbc:CityName>
+          <cbc:PostalZone>${e(p.postalCode)}</cbc:PostalZone>
+          <cac:Country><cbc:IdentificationCode>${p.countryCode}</cbc:IdentificationCode></cac:Country>
+        </cac:PostalAddress>
+        ${p.vatId ? `<cac:PartyTaxScheme><cbc:CompanyID>${e(p.vatId)}</cbc:CompanyID><cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme></cac:PartyTaxScheme>` : ''}
+        ${p.taxNumber ? `<cac:PartyTaxScheme><cbc:CompanyID>${e(p.taxNumber)}</cbc:CompanyID><cac:TaxScheme><cbc:ID>FC</cbc:ID></cac:TaxScheme></cac:PartyTaxScheme>` : ''}
+        <cac:PartyLegalEntity><cbc:RegistrationName>${e(p.name)}</cbc:RegistrationName></cac:PartyLegalEntity>
+        ${isSeller ? `<cac:Contact><cbc:Name>${e(p.name)}</cbc:Name>${p.phone ? `<cbc:Telephone>${e(p.phone)}</cbc:Telephone>` : ''}${p.email ? `<cbc:ElectronicMail>${e(p.email)}</cbc:ElectronicMail>` : ''}</cac:Contact>` : ''}
+      </cac:Party>`;
+
+  const lines = data.lines.map(line => `
+  <cac:${lineTag}>
+    <cbc:ID>${line.id}</cbc:ID>
+    <cbc:${quantityTag} unitCode="${line.unitCode}">${line.quantity}</cbc:${quantityTag}>
+    <cbc:LineExtensionAmount currencyID="${data.currency}">${amount(line.netAmount)}</cbc:LineExtensionAmount>
+    ${line.allowanceAmount ? `<cac:AllowanceCharge><cbc:ChargeIndicator>false</cbc:ChargeIndicator><cbc:AllowanceChargeReason>Rabatt</cbc:AllowanceChargeReason><cbc:Amount currencyID="${data.currency}">${amount(line.allowanceAmount)}</cbc:Amount></cac:AllowanceCharge>` : ''}
+    <cac:Item>
+      <cbc:Name>${e(line.name)}</cbc:Name>
+      <cac:ClassifiedTaxCategory>
+        <cbc:ID>${line.vatCategory}</cbc:ID>
+        <cbc:Percent>${line.vatRate}</cbc:Percent>
+        <cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme>
+      </cac:ClassifiedTaxCategory>
+    </cac:Item>
+    <cac:Price><cbc:PriceAmount currencyID="${data.currency}">${amount(line.unitPrice)}</cbc:PriceAmount></cac:Price>
+  </cac:${lineTag}>`).join('');
+
+  const allowances = data.allowances.map(allowance => `
+  <cac:AllowanceCharge>
+    <cbc:ChargeIndicator>false</cbc:ChargeIndicator>
+    <cbc:AllowanceChargeReason>${e(allowance.reason)}</cbc:AllowanceChargeReason>
+    <cbc:Amount currencyID="${data.currency}">${amount(allowance.amount)}</cbc:Amount>
+    <cac:TaxCategory>
+      <cbc:ID>${allowance.vatCategory}</cbc:ID>
+      <cbc:Percent>${allowance.vatRate}</cbc:Percent>
+      <cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme>
+    </cac:TaxCategory>
+  </cac:AllowanceCharge>`).join('');
+
+  const taxSubtotals = data.taxes.map(tax => `
+    <cac:TaxSubtotal>
+      <cbc:TaxableAmount currencyID="${data.currency}">${amount(tax.taxableAmount)}</cbc:TaxableAmount>
+      <cbc:TaxAmount currencyID="${data.currency}">${amount(tax.taxAmount)}</cbc:TaxAmount>
+      <cac:TaxCategory>
+        <cbc:ID>${tax.vatCategory}</cbc:ID>
+        <cbc:Percent>${tax.vatRate}</cbc:Percent>
+        ${tax.exemptionReason ? `<cbc:TaxExemptionReason>${e(tax.exemptionReason)}</cbc:TaxExemptionReason>` : ''}
+        <cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme>
+      </cac:TaxCategory>
+    </cac:TaxSubtotal>`).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<${root} xmlns="urn:oasis:names:specification:ubl:schema:xsd:${root}-2" xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2" xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2">
+  <cbc:CustomizationID>${XRECHNUNG_CUSTOMIZATION_ID}</cbc:CustomizationID>
+  <cbc:ProfileID>urn:fdc:peppol.eu:2017:poacc:billing:01:1.0</cbc:ProfileID>
+  <cbc:ID>${e(data.number)}</cbc:ID>
+  <cbc:IssueDate>${xmlDate(data.issueDate)}</cbc:IssueDate>
+  ${!isCreditNote && data.dueDate ? `<cbc:DueDate>${xmlDate(data.dueDate)}</cbc:DueDate>` : ''}
+  <cbc:${root}TypeCode>${data.typeCode}</cbc:${root}TypeCode>
+  ${data.note ? `<cbc:Note>${e(data.note)}</cbc:Note>` : ''}
+  <cbc:DocumentCurrencyCode>${data.currency}</cbc:DocumentCurrencyCode>
+  ${data.buyerReference ? `<cbc:BuyerReference>${e(data.buyerReference)}</cbc:BuyerReference>` : ''}
+  ${data.precedingInvoice ? `<cac:BillingReference><cac:InvoiceDocumentReference><cbc:ID>${e(data.precedingInvoice.number)}</cbc:ID><cbc:IssueDate>${xmlDate(data.precedingInvoice.issueDate)}</cbc:IssueDate></cac:InvoiceDocumentReference></cac:BillingReference>` : ''}
+  <cac:AccountingSupplierParty>${party(data.seller, true)}
+  </cac:AccountingSupplierParty>
+  <cac:AccountingCustomerParty>${party(data.buyer, false)}
+  </cac:AccountingCustomerParty>
+  ${data.iban ? `<cac:PaymentMeans>
+    <cbc:PaymentMeansCode>58</cbc:PaymentMeansCode>
+    <cbc:PaymentID>${e(data.number)}</cbc:PaymentID>
+    <cac:PayeeFinancialAccount>
+      <cbc:ID>${e(data.iban)}</cbc:ID>
+      <cbc:Name>${e(data.seller.name)}</cbc:Name>
+      ${data.bic ? `<cac:FinancialInstitutionBranch><cbc:ID>${e(data.bic)}</cbc:ID></cac:FinancialInstitutionBranch>` : ''}
+    </cac:PayeeFinancialAccount>
+  </cac:PaymentMeans>` : ''}
+  ${data.dueDate || data.skonto ? `<cac:PaymentTerms><cbc:Note>${e(paymentTermsText(data))}</cbc:Note></cac:PaymentTerms>` : ''}${allowances}
+  <cac:TaxTotal>
+    <cbc:TaxAmount currencyID="${data.currency}">${amount(data.taxTotal)}</cbc:TaxAmount>${taxSubtotals}
+  </cac:TaxTotal>
+  <cac:LegalMonetaryTotal>
+    <cbc:LineExtensionAmount currencyID="${data.currency}">${amount(data.lineTotal)}</cbc:LineExtensionAmount>
+    <cbc:TaxExclusiveAmount currencyID="${data.currency}">${amount(data.lineTotal - data.allowanceTotal)}</cbc:TaxExclusiveAmount>
+    <cbc:TaxInclusiveAmount currencyID="${data.currency}">${amount(data.grandTotal)}</cbc:TaxInclusiveAmount>
+    ${data.allowanceTotal ? `<cbc:AllowanceTotalAmount currencyID="${data.currency}">${amount(data.allowanceTotal)}</cbc:AllowanceTotalAmount>` : ''}
+    ${data.prepaidAmount ? `<cbc:PrepaidAmount currencyID="${data.currency}">${amount(data.prepaidAmount)}</cbc:PrepaidAmount>` : ''}
+    <cbc:PayableAmount currencyID="${data.currency}">${amount(data.amountDue)}</cbc:PayableAmount>
+  </cac:LegalMonetaryTotal>${lines}
+</${root}>
+`;
+};
+
+/**
+ * Renders the invoice as XRechnung 3.0 in the UN/CEFACT CII syntax.
+ */
+export const generateCiiXml = (data: EInvoiceData): string => {
+  const e = escapeXml;
+
+  const party = (p: EInvoiceParty, isSeller: boolean) => `
+        <ram:Name>${e(p.name)}</ram:Name>
+        ${isSeller ? `<ram:DefinedTradeContact><ram:PersonName>${e(p.name)}</ram:PersonName>${p.phone ? `<ram:TelephoneUniversalCommunication><ram:CompleteNumber>${e(p.phone)}</ram:CompleteNumber></ram:TelephoneUniversalCommunication>` : ''}${p.email ? `<ram:EmailURIUniversalCommunication><ram:URIID>${e(p.email)}</ram:URIID></ram:EmailURIUniversalCommunication>` : ''}</ram:DefinedTradeContact>` : ''}
+        <ram:PostalTradeAddress>
+          <ram:PostcodeCode>${e(p.postalCode)}</ram:PostcodeCode>
+          ${p.street ? `<ram:LineOne>${e(p.street)}</ram:LineOne>` : ''}
+          <ram:CityName>${e(p.city)}</ram:CityName>
+          <ram:CountryID>${p.countryCode}</ram:CountryID>
+        </ram:PostalTradeAddress>
+        ${p.email ? `<ram:URIUniversalCommunication><ram:URIID schemeID="EM">${e(p.email)}</ram:URIID></ram:URIUniversalCommunication>` : ''}
+        ${p.vatId ? `<ram:SpecifiedTaxRegistration><ram:ID schemeID="VA">${e(p.vatId)}</ram:ID></ram:SpecifiedTaxRegistration>` : ''}
+        ${p.taxNumber ? `<ram:SpecifiedTaxRegistration><ram:ID schemeID="FC">${e(p.taxNumber)}</ram:ID></ram:SpecifiedTaxRegistration>` : ''}`;
+
+  const lines = data.lines.map(line => `
+    <ram:IncludedSupplyChainTradeLineItem>
+      <ram:AssociatedDocumentLineDocument><ram:LineID>${line.id}</ram:LineID></ram:AssociatedDocumentLineDocument>
+      <ram:SpecifiedTradeProduct><ram:Name>${e(line.name)}</ram:Name></ram:SpecifiedTradeProduct>
+      <ram:SpecifiedLineTradeAgreement>
+        <ram:NetPriceProductTradePrice><ram:ChargeAmount>${amount(line.unitPrice)}</ram:ChargeAmount></ram:NetPriceProductTradePrice>
+      </ram:SpecifiedLineTradeAgreement>
+      <ram:SpecifiedLineTradeDelivery><ram:BilledQuantity unitCode="${line.unitCode}">${line.quantity}</ram:BilledQuantity></ram:SpecifiedLineTradeDelivery>
+      <ram:SpecifiedLineTradeSettlement>
+        <ram:ApplicableTradeTax><ram:TypeCode>VAT</ram:TypeCode><ram:CategoryCode>${line.vatCategory}</ram:CategoryCode><ram:RateApplicablePercent>${line.vatRate}</ram:RateApplicablePercent></ram:ApplicableTradeTax>
+        ${line.allowanceAmount ? `<ram:SpecifiedTradeAllowanceCharge><ram:ChargeIndicator><udt:Indicator>false</udt:Indicator></ram:ChargeIndicator><ram:ActualAmount>${amount(line.allowanceAmount)}</ram:ActualAmount><ram:Reason>Rabatt</ram:Reason></ram:SpecifiedTradeAllowanceCharge>` : ''}
+        <ram:SpecifiedTradeSettlementLineMonetarySummation><ram:LineTotalAmount>${amount(line.netAmount)}</ram:LineTotalAmount></ram:SpecifiedTradeSettlementLineMonetarySummation>
+      </ram:SpecifiedLineTradeSettlement>
+    </ram:IncludedSupplyChainTradeLineItem>`).join('');
+
+  const taxes = data.taxes.map(tax => `
+      <ram:ApplicableTradeTax>
+        <ram:CalculatedAmount>${amount(tax.taxAmount)}</ram:CalculatedAmount>
+        <ram:TypeCode>VAT</ram:TypeCode>
+        ${tax.exemptionReason ? `<ram:ExemptionReason>${e(tax.exemptionReason)}</ram:ExemptionReason>` : ''}
+        <ram:BasisAmount>${amount(tax.taxableAmount)}</ram:BasisAmount>
+        <ram:CategoryCode>${tax.vatCategory}</ram:CategoryCode>
+        <ram:RateApplicablePercent>${tax.vatRate}</ram:RateApplicablePercent>
+      </ram:ApplicableTradeTax>`).join('');
+
+  const allowances = data.allowances.map(allowance => `
+      <ram:SpecifiedTradeAllowanceCharge>
+        <ram:ChargeIndicator><udt:Indicator>false</udt:Indicator></ram:ChargeIndicator>
+        <ram:ActualAmount>${amount(allowance.amount)}</ram:ActualAmount>
+        <ram:Reason>${e(allowance.reason)}</ram:Reason>
+        <ram:CategoryTradeTax><ram:TypeCode>VAT</ram:TypeCode><ram:CategoryCode>${allowance.vatCategory}</ram:CategoryCode><ram:RateApplicablePercent>${allowance.vatRate}</ram:RateApplicablePercent></ram:CategoryTradeTax>
+      </ram:SpecifiedTradeAllowanceCharge>`).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rsm:CrossIndustryInvoice xmlns:rsm="urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100" xmlns:ram="urn:un:unece:uncefact:data:standard:ReusableAggregateBusinessInformationEntity:100" xmlns:udt="urn:un:unece:uncefact:data:standard:UnqualifiedDataType:100">
+  <rsm:ExchangedDocumentContext>
+    <ram:BusinessProcessSpecifiedDocumentContextParameter><ram:ID>urn:fdc:peppol.eu:2017:poacc:billing:01:1.0</ram:ID></ram:BusinessProcessSpecifiedDocumentContextParameter>
+    <ram:GuidelineSpecifiedDocumentContextParameter><ram:ID>${XRECHNUNG_CUSTOMIZATION_ID}</ram:ID></ram:GuidelineSpecifiedDocumentContextParameter>
+  </rsm:ExchangedDocumentContext>
+  <rsm:ExchangedDocument>
+    <ram:ID>${e(data.number)}</ram:ID>
+    <ram:TypeCode>${data.typeCode}</ram:TypeCode>
+    <ram:IssueDateTime><udt:DateTimeString format="102">${ciiDate(data.issueDate)}</udt:DateTimeString></ram:IssueDateTime>
+    ${data.note ? `<ram:IncludedNote><ram:Content>${e(data.note)}</ram:Content></ram:IncludedNote>` : ''}
+  </rsm:ExchangedDocument>
+  <rsm:SupplyChainTradeTransaction>${lines}
+    <ram:ApplicableHeaderTradeAgreement>
+      ${data.buyerReference ? `<ram:BuyerReference>${e(data.buyerReference)}</ram:BuyerReference>` : ''}
+      <ram:SellerTradeParty>${party(data.seller, true)}
+      </ram:SellerTradeParty>
+      <ram:BuyerTradeParty>${party(data.buyer, false)}
+      </ram:BuyerTradeParty>
+    </ram:ApplicableHeaderTradeAgreement>
+    <ram:ApplicableHeaderTradeDelivery>
+      <ram:ActualDeliverySupplyChainEvent><ram:OccurrenceDateTime><udt:DateTimeString format="102">${ciiDate(data.issueDate)}</udt:DateTimeString></ram:OccurrenceDateTime></ram:ActualDeliverySupplyChainEvent>
+    </ram:ApplicableHeaderTradeDelivery>
+    <ram:ApplicableHeaderTradeSettlement>
+      <ram:PaymentReference>${e(data.number)}</ram:PaymentReference>
+      <ram:InvoiceCurrencyCode>${data.currency}</ram:InvoiceCurrencyCode>
+      ${data.iban ? `<ram:SpecifiedTradeSettlementPaymentMeans>
+        <ram:TypeCode>58</ram:TypeCode>
+        <ram:PayeePartyCreditorFinancialAccount><ram:IBANID>${e(data.iban)}</ram:IBANID><ram:AccountName>${e(data.seller.name)}</ram:AccountName></ram:PayeePartyCreditorFinancialAccount>
+        ${data.bic ? `<ram:PayeeSpecifiedCreditorFinancialInstitution><ram:BICID>${e(data.bic)}</ram:BICID></ram:PayeeSpecifiedCreditorFinancialInstitution>` : ''}
+      </ram:SpecifiedTradeSettlementPaymentMeans>` : ''}${taxes}${allowances}
+      ${data.dueDate ? `<ram:SpecifiedTradePaymentTerms>${data.skonto ? `<ram:Description>${e(paymentTermsText(data))}</ram:Description>` : ''}<ram:DueDateDateTime><udt:DateTimeString format="102">${ciiDate(data.dueDate)}</udt:DateTimeString></ram:DueDateDateTime></ram:SpecifiedTradePaymentTerms>` : ''}
+      <ram:SpecifiedTradeSettlementHeaderMonetarySummation>
+        <ram:LineTotalAmount>${amount(data.lineTotal)}</ram:LineTotalAmount>
+        ${data.allowanceTotal ? `<ram:AllowanceTotalAmount>${amount(data.allowanceTotal)}</ram:AllowanceTotalAmount>` : ''}
+        <ram:TaxBasisTotalAmount>${amount(data.lineTotal - data.allowanceTotal)}</ram:TaxBasisTotalAmount>
+        <ram:TaxTotalAmount currencyID="${data.currency}">${amount(data.taxTotal)}</ram:TaxTotalAmount>
+        <ram:GrandTotalAmount>${amount(data.grandTotal)}</ram:GrandTotalAmount>
+        <ram:TotalPrepaidAmount>${amount(data.prepaidAmount)}</ram:TotalPrepaidAmount>
+        <ram:DuePayableAmount>${amount(data.amountDue)}</ram:DuePayableAmount>
+      </ram:SpecifiedTradeSettlementHeaderMonetarySummation>
+      ${data.precedingInvoice ? `<ram:InvoiceReferencedDocument><ram:IssuerAssignedID>${e(data.precedingInvoice.number)}</ram:IssuerAssignedID><ram:FormattedIssueDateTime><udt:DateTimeString format="102">${ciiDate(data.precedingInvoice.issueDate)}</udt:DateTimeString></ram:FormattedIssueDateTime></ram:InvoiceReferencedDocument>` : ''}
+    </ram:ApplicableHeaderTradeSettlement>
+  </rsm:SupplyChainTradeTransaction>
+</rsm:CrossIndustryInvoice>
+`;
+};
+
+/**
+ * Builds the XML for the given e-invoice format.
+ */
+export const generateEInvoiceXml = (data: EInvoiceData, formatType: Exclude<DocumentFormat, 'pdf'>): string => {
+  if (formatType === 'xrechnung_ubl') return generateUblXml(data);
+  return generateCiiXml(data);
+};
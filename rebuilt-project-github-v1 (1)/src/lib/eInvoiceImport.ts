@@ -0,0 +1,273 @@
+import { EInvoiceAllowance, EInvoiceData, EInvoiceLine, EInvoiceParty, EInvoiceTax, VatCategoryCode } from './eInvoice';
+
+export const EXPENSE_ATTACHMENTS_BUCKET = 'expense-attachments';
+
+/**
+ * An incoming e-invoice, parsed into the same model that is used for the outgoing ones.
+ * `format` tells which XML syntax the supplier used.
+ */
+export interface ParsedEInvoice extends EInvoiceData {
+  format: 'ubl' | 'cii';
+}
+
+// --- XML helpers: e-invoices use several namespace prefixes, so elements are matched by their local name only.
+
+const children = (parent: Element | null | undefined, name: string): Element[] =>
+  parent ? Array.from(parent.children).filter(el => el.localName === name) : [];
+
+const child = (parent: Element | null | undefined, ...path: string[]): Element | null => {
+  let current: Element | null = parent || null;
+  for (const name of path) {
+    current = children(current, name)[0] || null;
+    if (!current) return null;
+  }
+  return current;
+};
+
+const text = (parent: Element | null | undefined, ...path: string[]): string => child(parent, ...path)?.textContent?.trim() || '';
+
+const num = (parent: Element | null | undefined, ...path: string[]): number => {
+  const value = parseFloat(text(parent, ...path));
+  return isNaN(value) ? 0 : value;
+};
+
+// CII dates use format 102 (yyyyMMdd); the app works with yyyy-MM-dd.
+const ciiDate = (value: string): string => /^\d{8}$/.test(value) ? `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}` : value;
+
+const typeCodeOf = (code: string, isCreditNote = false): EInvoiceData['typeCode'] => {
+  if (isCreditNote || code === '381') return '381';
+  return code === '326' ? '326' : '380';
+};
+
+const parseUbl = (root: Element): ParsedEInvoice => {
+  const isCreditNote = root.localName === 'CreditNote';
+  const party = (el: Element | null): EInvoiceParty => ({
+    name: text(el, 'PartyLegalEntity', 'RegistrationName') || text(el, 'PartyName', 'Name'),
+    street: [text(el, 'PostalAddress', 'StreetName'), text(el, 'PostalAddress', 'AdditionalStreetName')].filter(Boolean).join(', '),
+    postalCode: text(el, 'PostalAddress', 'PostalZone'),
+    city: text(el, 'PostalAddress', 'CityName'),
+    countryCode: text(el, 'PostalAddress', 'Country', 'IdentificationCode'),
+    vatId: text(el, 'PartyTaxScheme', 'CompanyID') || undefined,
+    email: text(el, 'Contact', 'ElectronicMail') || text(el, 'EndpointID') || undefined,
+    phone: text(el, 'Contact', 'Telephone') || undefined,
+  });
+
+  // Charges (ChargeIndicator true) are not itemized in the model; they are contained in the totals.
+  const ublAllowances = (el: Element | null): Element[] => children(el, 'AllowanceCharge').filter(ac => text(ac, 'ChargeIndicator') === 'false');
+
+  const lines: EInvoiceLine[] = children(root, isCreditNote ? 'CreditNoteLine' : 'InvoiceLine').map(line => {
+    const quantity = child(line, isCreditNote ? 'CreditedQuantity' : 'InvoicedQuantity');
+    return {
+      id: text(line, 'ID'),
+      name: text(line, 'Item', 'Name') || text(line, 'Item', 'Description'),
+      quantity: parseFloat(quantity?.textContent || '0') || 0,
+      unitCode: quantity?.getAttribute('unitCode') || 'C62',
+      unitPrice: num(line, 'Price', 'PriceAmount'),
+      netAmount: num(line, 'LineExtensionAmount'),
+      allowanceAmount: ublAllowances(line).reduce((sum, allowance) => sum + num(allowance, 'Amount'), 0) || undefined,
+      vatCategory: text(line, 'Item', 'ClassifiedTaxCategory', 'ID') as VatCategoryCode,
+      vatRate: num(line, 'Item', 'ClassifiedTaxCategory', 'Percent'),
+    };
+  });
+
+  // A second TaxTotal without subtotals may carry the VAT in accounting currency; the document currency one has the breakdown.
+  const taxTotal = children(root, 'TaxTotal').find(el => children(el, 'TaxSubtotal').length > 0) || child(root, 'TaxTotal');
+  const taxes: EInvoiceTax[] = children(taxTotal, 'TaxSubtotal').map(subtotal => ({
+    vatCategory: text(subtotal, 'TaxCategory', 'ID') as VatCategoryCode,
+    vatRate: num(subtotal, 'TaxCategory', 'Percent'),
+    taxableAmount: num(subtotal, 'TaxableAmount'),
+    taxAmount: num(subtotal, 'TaxAmount'),
+    exemptionReason: text(subtotal, 'TaxCategory', 'TaxExemptionReason') || undefined,
+  }));
+
+  const allowances: EInvoiceAllowance[] = ublAllowances(root).map(allowance => ({
+    amount: num(allowance, 'Amount'),
+    reason: text(allowance, 'AllowanceChargeReason'),
+    vatCategory: text(allowance, 'TaxCategory', 'ID') as VatCategoryCode,
+    vatRate: num(allowance, 'TaxCategory', 'Percent'),
+  }));
+
+  const totals = child(root, 'LegalMonetaryTotal');
+  const precedingNumber = text(root, 'BillingReference', 'InvoiceDocumentReference', 'ID');
+  return {
+    format: 'ubl',
+    number: text(root, 'ID'),
+    typeCode: typeCodeOf(text(root, 'InvoiceTypeCode'), isCreditNote),
+    issueDate: text(root, 'IssueDate'),
+    dueDate: text(root, 'DueDate') || text(root, 'PaymentMeans', 'PaymentDueDate'),
+    currency: text(root, 'DocumentCurrencyCode') || 'EUR',
+    buyerReference: text(root, 'BuyerReference') || undefined,
+    precedingInvoice: precedingNumber ? { number: precedingNumber, issueDate: text(root, 'BillingReference', 'InvoiceDocumentReference', 'IssueDate') } : undefined,
+    note: children(root, 'Note').map(note => note.textContent?.trim()).filter(Boolean).join('\n') || undefined,
+    seller: party(child(root, 'AccountingSupplierParty', 'Party')),
+    buyer: party(child(root, 'AccountingCustomerParty', 'Party')),
+    iban: text(root, 'PaymentMeans', 'PayeeFinancialAccount', 'ID') || undefined,
+    bic: text(root, 'PaymentMeans', 'PayeeFinancialAccount', 'FinancialInstitutionBranch', 'ID') || undefined,
+    lines,
+    allowances,
+    taxes,
+    lineTotal: num(totals, 'LineExtensionAmount'),
+    allowanceTotal: num(totals, 'AllowanceTotalAmount'),
+    taxTotal: num(taxTotal, 'TaxAmount'),
+    grandTotal: num(totals, 'TaxInclusiveAmount'),
+    prepaidAmount: num(totals, 'PrepaidAmount'),
+    amountDue: num(totals, 'PayableAmount'),
+  };
+};
+
+const parseCii = (root: Element): ParsedEInvoice => {
+  const document = child(root, 'ExchangedDocument');
+  const transaction = child(root, 'SupplyChainTradeTransaction');
+  const agreement = child(transaction, 'ApplicableHeaderTradeAgreement');
+  const settlement = child(transaction, 'ApplicableHeaderTradeSettlement');
+  const totals = child(settlement, 'SpecifiedTradeSettlementHeaderMonetarySummation');
+
+  const party = (el: Element | null): EInvoiceParty => {
+    const registrations = children(el, 'SpecifiedTaxRegistration');
+    const vatRegistration = registrations.find(reg => child(reg, 'ID')?.getAttribute('schemeID') === 'VA') || registrations[0];
+    return {
+      name: text(el, 'Name'),
+      street: [text(el, 'PostalTradeAddress', 'LineOne'), text(el, 'PostalTradeAddress', 'LineTwo')].filter(Boolean).join(', '),
+      postalCode: text(el, 'PostalTradeAddress', 'PostcodeCode'),
+      city: text(el, 'PostalTradeAddress', 'CityName'),
+      countryCode: text(el, 'PostalTradeAddress', 'CountryID'),
+      vatId: text(vatRegistration, 'ID') || undefined,
+      email: text(el, 'DefinedTradeContact', 'EmailURIUniversalCommunication', 'URIID') || text(el, 'URIUniversalCommunication', 'URIID') || undefined,
+      phone: text(el, 'DefinedTradeContact', 'TelephoneUniversalCommunication', 'CompleteNumber') || undefined,
+    };
+  };
+
+  const ciiAllowances = (el: Element | null): Element[] => children(el, 'SpecifiedTradeAllowanceCharge').filter(ac => text(ac, 'ChargeIndicator', 'Indicator') === 'false');
+
+  const lines: EInvoiceLine[] = children(transaction, 'IncludedSupplyChainTradeLineItem').map(line => {
+    const quantity = child(line, 'SpecifiedLineTradeDelivery', 'BilledQuantity');
+    return {
+      id: text(line, 'AssociatedDocumentLineDocument', 'LineID'),
+      name: text(line, 'SpecifiedTradeProduct', 'Name'),
+      quantity: parseFloat(quantity?.textContent || '0') || 0,
+      unitCode: quantity?.getAttribute('unitCode') || 'C62',
+      unitPrice: num(line, 'SpecifiedLineTradeAgreement', 'NetPriceProductTradePrice', 'ChargeAmount'),
+      netAmount: num(line, 'SpecifiedLineTradeSettlement', 'SpecifiedTradeSettlementLineMonetarySummation', 'LineTotalAmount'),
+      allowanceAmount: ciiAllowances(child(line, 'SpecifiedLineTradeSettlement')).reduce((sum, allowance) => sum + num(allowance, 'ActualAmount'), 0) || undefined,
+      vatCategory: text(line, 'SpecifiedLineTradeSettlement', 'ApplicableTradeTax', 'CategoryCode') as VatCategoryCode,
+      vatRate: num(line, 'SpecifiedLineTradeSettlement', 'ApplicableTradeTax', 'RateApplicablePercent'),
+    };
+  });
+
+  const taxes: EInvoiceTax[] = children(settlement, 'ApplicableTradeTax').map(tax => ({
+    vatCategory: text(tax, 'CategoryCode') as VatCategoryCode,
+    vatRate: num(tax, 'RateApplicablePercent'),
+    taxableAmount: num(tax, 'BasisAmount'),
+    taxAmount: num(tax, 'CalculatedAmount'),
+    exemptionReason: text(tax, 'ExemptionReason') || undefined,
+  }));
+
+  const allowances: EInvoiceAllowance[] = ciiAllowances(settlement).map(allowance => ({
+    amount: num(allowance, 'ActualAmount'),
+    reason: text(allowance, 'Reason'),
+    vatCategory: text(allowance, 'CategoryTradeTax', 'CategoryCode') as VatCategoryCode,
+    vatRate: num(allowance, 'CategoryTradeTax', 'RateApplicablePercent'),
+  }));
+
+  const paymentMeans = child(settlement, 'SpecifiedTradeSettlementPaymentMeans');
+  const precedingNumber = text(settlement, 'InvoiceReferencedDocument', 'IssuerAssignedID');
+  return {
+    format: 'cii',
+    number: text(document, 'ID'),
+    typeCode: typeCodeOf(text(document, 'TypeCode')),
+    issueDate: ciiDate(text(document, 'IssueDateTime', 'DateTimeString')),
+    dueDate: ciiDate(text(settlement, 'SpecifiedTradePaymentTerms', 'DueDateDateTime', 'DateTimeString')),
+    currency: text(settlement, 'InvoiceCurrencyCode') || 'EUR',
+    buyerReference: text(agreement, 'BuyerReference') || undefined,
+    precedingInvoice: precedingNumber ? { number: precedingNumber, issueDate: ciiDate(text(settlement, 'InvoiceReferencedDocument', 'FormattedIssueDateTime', 'DateTimeString')) } : undefined,
+    note: children(document, 'IncludedNote').map(note => text(note, 'Content')).filter(Boolean).join('\n') || undefined,
+    seller: party(child(agreement, 'SellerTradeParty')),
+    buyer: party(child(agreement, 'BuyerTradeParty')),
+    iban: text(paymentMeans, 'PayeePartyCreditorFinancialAccount', 'IBANID') || undefined,
+    bic: text(paymentMeans, 'PayeeSpecifiedCreditorFinancialInstitution', 'BICID') || undefined,
+    lines,
+    allowances,
+    taxes,
+    lineTotal: num(totals, 'LineTotalAmount'),
+    allowanceTotal: num(totals, 'AllowanceTotalAmount'),
+    taxTotal: num(totals, 'TaxTotalAmount'),
+    grandTotal: num(totals, 'GrandTotalAmount'),
+    prepaidAmount: num(totals, 'TotalPrepaidAmount'),
+    amountDue: num(totals, 'DuePayableAmount'),
+  };
+};
+
+/**
+ * Parses an XRechnung or ZUGFeRD / Factur-X invoice in UBL or CII syntax.
+ * @param xml The XML document as string.
+ * @returns The invoice in the EN 16931 model.
+ */
+export const parseEInvoiceXml = (xml: string): ParsedEInvoice => {
+  const xmlDocument = new DOMParser().parseFromString(xml, 'application/xml');
+  if (xmlDocument.getElementsByTagName('parsererror').length > 0) {
+    throw new Error("The file is not a valid XML document.");
+  }
+  const root = xmlDocument.documentElement;
+  if (root.localName === 'Invoice' || root.localName === 'CreditNote') return parseUbl(root);
+  if (root.localName === 'CrossIndustryInvoice') return parseCii(root);
+  throw new Error(`Unsupported e-invoice format "${root.localName}". Expected XRechnung or ZUGFeRD (UBL or CII).`);
+};
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Extracts the embedded invoice XML (factur-x.xml, zugferd-invoice.xml, xrechnung.xml) from a hybrid PDF.
+ * Looks at every stream declared as /EmbeddedFile, so it does not depend on the PDF's object structure.
+ * @returns The XML, or null if the PDF contains no e-invoice.
+ */
+export const extractXmlFromPdf = async (buffer: ArrayBuffer): Promise<string | null> => {
+  const bytes = new Uint8Array(buffer);
+  // A latin1 view keeps byte offsets and string offsets identical.
+  let raw = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    raw += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+
+  const streamPattern = /stream\r?\n/g;
+  let match: RegExpExecArray | null;
+  while ((match = streamPattern.exec(raw)) !== null) {
+    if (raw.slice(match.index - 3, match.index) === 'end') continue;
+    const header = raw.slice(raw.lastIndexOf(' obj', match.index), match.index);
+    if (!/\/Type\s*\/EmbeddedFile\b/.test(header)) continue;
+
+    const start = match.index + match[0].length;
+    const lengthMatch = header.match(/\/Length\s+(\d+)\b(?!\s+\d+\s+R)/);
+    const end = lengthMatch ? start + parseInt(lengthMatch[1], 10) : raw.indexOf('endstream', start);
+    let data = bytes.subarray(start, end);
+    if (!lengthMatch) {
+      while (data.length > 0 && (data[data.length - 1] === 0x0a || data[data.length - 1] === 0x0d)) data = data.subarray(0, data.length - 1);
+    }
+
+    try {
+      const decoded = /\/FlateDecode/.test(header) ? await inflate(data) : data;
+      const xml = new TextDecoder('utf-8').decode(decoded);
+      if (/CrossIndustryInvoice|urn:oasis:names:specification:ubl:schema:xsd:(Invoice|CreditNote)-2/.test(xml)) {
+        return xml.replace(/^\uFEFF/, '');
+      }
+    } catch (error) {
+      console.error("Failed to decode embedded file:", error);
+    }
+  }
+  return null;
+};
+
+/**
+ * Reads an uploaded e-invoice, either as plain XML or as a ZUGFeRD / Factur-X PDF.
+ * @returns The XML and the parsed invoice.
+ */
+export const readEInvoiceFile = async (file: Blob, fileName: string): Promise<{ xml: string; invoice: ParsedEInvoice }> => {
+  const isPdf = file.type === 'application/pdf' || fileName.toLowerCase().endsWith('.pdf');
+  const xml = isPdf ? await extractXmlFromPdf(await file.arrayBuffer()) : await file.text();
+  if (!xml) {
+    throw new Error("The PDF does not contain an embedded e-invoice (ZUGFeRD / Factur-X).");
+  }
+  return { xml, invoice: parseEInvoiceXml(xml) };
+};
@@ -0,0 +1,105 @@
+import { supabase } from '../services/supabase';
+import { Expense, ExpenseStatus, Profile, UserRole } from '../types';
+import { EXPENSE_ATTACHMENTS_BUCKET } from './eInvoiceImport';
+import { createNotification } from './notifications';
+
+// The roles allowed to approve, reject and reimburse the expenses of their organization.
+export const EXPENSE_APPROVER_ROLES: UserRole[] = ['admin', 'key_user'];
+
+// Only reviewed expenses are costs: they count in the reports and are booked in DATEV with their input tax.
+export const BOOKED_EXPENSE_STATUSES: ExpenseStatus[] = ['approved', 'reimbursed'];
+
+export const RECEIPT_ACCEPT = 'image/*,application/pdf';
+const MAX_RECEIPT_SIZE = 10 * 1024 * 1024;
+const RECEIPT_URL_EXPIRY_SECONDS = 300;
+
+// The notification the submitter receives for each decision on their expense.
+const STATUS_NOTIFICATIONS: Record<Exclude<ExpenseStatus, 'submitted'>, { title: string; body: string }> = {
+  approved: { title: 'expenseApprovedTitle', body: 'expenseApproved' },
+  rejected: { title: 'expenseRejectedTitle', body: 'expenseRejected' },
+  reimbursed: { title: 'expenseReimbursedTitle', body: 'expenseReimbursed' },
+};
+
+export const canApproveExpenses = (role?: UserRole | null): boolean => !!role && (role === 'super_admin' || EXPENSE_APPROVER_ROLES.includes(role));
+
+/**
+ * Checks that a file can be stored as the receipt of an expense: an image or a PDF of at most 10 MB.
+ * Throws an error describing the problem otherwise.
+ */
+export const validateReceiptFile = (file: File): void => {
+  if (!file.type.startsWith('image/') && file.type !== 'application/pdf') {
+    throw new Error("Receipts must be an image or a PDF file.");
+  }
+  if (file.size > MAX_RECEIPT_SIZE) {
+    throw new Error("Receipts can be at most 10 MB.");
+  }
+};
+
+/**
+ * Opens the stored receipt or e-invoice of an expense in a new browser tab.
+ */
+export const openExpenseAttachment = async (expense: Pick<Expense, 'attachment_path'>): Promise<void> => {
+  if (!expense.attachment_path) throw new Error("This expense has no receipt.");
+  const { data, error } = await supabase.storage.from(EXPENSE_ATTACHMENTS_BUCKET).createSignedUrl(expense.attachment_path, RECEIPT_URL_EXPIRY_SECONDS);
+  if (error || !data) throw new Error(error?.message || "The receipt could not be loaded.");
+  window.open(data.signedUrl, '_blank');
+};
+
+/**
+ * Notifies the approvers of the organization that an expense awaits their review.
+ * The submitter is not notified, even if they are an approver themselves.
+ */
+export const notifyExpenseSubmitted = async (expense: Pick<Expense, 'id' | 'org_id' | 'expense_number' | 'amount'>, submitter: Profile): Promise<void> => {
+  const { data: approvers, error } = await supabase
+    .from('profiles')
+    .select('id')
+    .eq('org_id', expense.org_id)
+    .in('role', EXPENSE_APPROVER_ROLES)
+    .neq('id', submitter.id);
+  if (error) {
+    console.error('Error fetching expense approvers:', error.message);
+    return;
+  }
+
+  await Promise.all((approvers || []).map(approver => createNotification({
+    user_id: approver.id,
+    org_id: expense.org_id,
+    title: 'expenseSubmittedTitle',
+    body: JSON.stringify({ key: 'expenseSubmitted', params: { expenseNumber: expense.expense_number, userName: submitter.full_name, amount: Number(expense.amount).toFixed(2) } }),
+    type: 'generic',
+    related_entity_path: '/expenses',
+    related_entity_id: String(expense.id),
+  }, supabase)));
+};
+
+/**
+ * Approves, rejects or reimburses an expense and notifies its submitter.
+ * The database only allows the transitions of the workflow and requires a reason for rejections.
+ * @param rejectionReason Shown to the submitter; required when the status is 'rejected'.
+ */
+export const setExpenseStatus = async (expense: Expense, status: Exclude<ExpenseStatus, 'submitted'>, approver: Profile, rejectionReason?: string): Promise<Expense> => {
+  if (status === 'rejected' && !rejectionReason?.trim()) {
+    throw new Error("A reason is required to reject an expense.");
+  }
+
+  const { data, error } = await supabase.rpc('set_expense_status', {
+    p_expense_id: expense.id,
+    p_status: status,
+    p_rejection_reason: rejectionReason?.trim() || null,
+  });
+  if (error) throw new Error(error.message);
+
+  if (expense.user_id !== approver.id) {
+    await createNotification({
+      user_id: expense.user_id,
+      org_id: expense.org_id,
+      title: STATUS_NOTIFICATIONS[status].title,
+      body: JSON.stringify({ key: STATUS_NOTIFICATIONS[status].body, params: { expenseNumber: expense.expense_number, userName: approver.full_name, amount: Number(expense.amount).toFixed(2), reason: rejectionReason?.trim() || '' } }),
+      type: 'generic',
+      related_entity_path: '/expenses',
+      related_entity_id: String(expense.id),
+    }, supabase);
+  }
+
+  return data as Expense;
+};
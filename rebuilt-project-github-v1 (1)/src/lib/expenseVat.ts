@@ -0,0 +1,51 @@
+import { Expense, ExpenseVatLine } from "../types";
+
+// Expenses recorded before the VAT split store only their gross amount. They are treated as 19% receipts,
+// which is what the DATEV export always booked them as.
+const LEGACY_VAT_RATE = 19;
+
+const round2 = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+
+export interface ExpenseVatTotals {
+  net: number;
+  vat: number;
+  /** The input tax (Vorsteuer) that can be reclaimed. */
+  deductibleVat: number;
+  gross: number;
+  /** The costs of the expense: the net amount plus the VAT that cannot be reclaimed. */
+  costs: number;
+}
+
+/**
+ * Splits a gross amount into a VAT line of the given rate.
+ */
+export const createVatLineFromGross = (gross: number, vatRate: number, isDeductible: boolean = true): ExpenseVatLine => {
+  const net = round2(gross / (1 + vatRate / 100));
+  return { vat_rate: vatRate, net_amount: net, vat_amount: round2(gross - net), is_deductible: isDeductible };
+};
+
+/**
+ * Returns the VAT lines of an expense. Expenses without lines get a single line from their net and VAT amount,
+ * or, if they only have a gross amount, a 19% line.
+ */
+export const getExpenseVatLines = (expense: Pick<Expense, 'amount' | 'net_amount' | 'vat_amount' | 'vat_lines'>): ExpenseVatLine[] => {
+  if (expense.vat_lines && expense.vat_lines.length > 0) {
+    return expense.vat_lines;
+  }
+  if (expense.net_amount !== null && expense.net_amount !== undefined && expense.vat_amount !== null && expense.vat_amount !== undefined) {
+    const net = Number(expense.net_amount);
+    const vat = Number(expense.vat_amount);
+    return [{ vat_rate: net ? Math.round(vat / net * 1000) / 10 : 0, net_amount: net, vat_amount: vat, is_deductible: true }];
+  }
+  return [createVatLineFromGross(Number(expense.amount), LEGACY_VAT_RATE)];
+};
+
+/**
+ * Sums the VAT lines of an expense.
+ */
+export const calculateExpenseVatTotals = (lines: ExpenseVatLine[]): ExpenseVatTotals => {
+  const net = round2(lines.reduce((sum, line) => sum + Number(line.net_amount), 0));
+  const vat = round2(lines.reduce((sum, line) => sum + Number(line.vat_amount), 0));
+  const deductibleVat = round2(lines.filter(line => line.is_deductible).reduce((sum, line) => sum + Number(line.vat_amount), 0));
+  return { net, vat, deductibleVat, gross: round2(net + vat), costs: round2(net + vat - deductibleVat) };
+};
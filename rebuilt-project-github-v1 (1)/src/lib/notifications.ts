@@ -1,4 +1,4 @@
-import { supabase } from '../services/supabase';
+import { SupabaseClient } from '@supabase/supabase-js';
 import { Notification } from '../types';
 
 type NotificationPayload = Omit<Notification, 'id' | 'created_at' | 'is_read'>;
@@ -6,9 +6,10 @@ type NotificationPayload = Omit<Notification, 'id' | 'created_at' | 'is_read'>;
 /**
  * Creates a new notification in the database for a specific user.
  * @param payload The data for the notification.
+ * @param client The Supabase client to use: the app's client, or a service-role client on the server.
  */
-export const createNotification = async (payload: NotificationPayload): Promise<void> => {
-  const { error } = await supabase.from('notifications').insert(payload);
+export const createNotification = async (payload: NotificationPayload, client: SupabaseClient): Promise<void> => {
+  const { error } = await client.from('notifications').insert(payload);
   if (error) {
     // We log the error but don't throw, to avoid breaking the user's primary action (e.g., saving a task)
     // if the notification fails to send.
@@ -1,6 +1,6 @@
 import { supabase } from '../services/supabase';
 
-export type SequenceType = 'customer' | 'quote' | 'invoice' | 'task' | 'product' | 'appointment' | 'expense' | 'visit';
+export type SequenceType = 'customer' | 'quote' | 'invoice' | 'task' | 'product' | 'appointment' | 'expense' | 'visit' | 'cancellation' | 'credit_note';
 
 /**
  * Generates the next sequential number for a given document type.
@@ -13,7 +13,7 @@ export type SequenceType = 'customer' | 'quote' | 'invoice' | 'task' | 'product'
 export const generateNextNumber = async (orgId: string, type: SequenceType): Promise<string> => {
     const year = new Date().getFullYear();
     let sequenceName: string = type;
-    if (['quote', 'invoice', 'task', 'appointment', 'expense', 'visit'].includes(type)) {
+    if (['quote', 'invoice', 'task', 'appointment', 'expense', 'visit', 'cancellation', 'credit_note'].includes(type)) {
         sequenceName = `${type}_${year}`;
     }
 
@@ -45,6 +45,8 @@ export const generateNextNumber = async (orgId: string, type: SequenceType): Pro
         case 'appointment': return `APP-${year}-${String(nextVal).padStart(4, '0')}`;
         case 'expense': return `EXP-${year}-${String(nextVal).padStart(4, '0')}`;
         case 'visit': return `VIS-${year}-${String(nextVal).padStart(4, '0')}`;
+        case 'cancellation': return `STO-${year}-${String(nextVal).padStart(4, '0')}`;
+        case 'credit_note': return `GS-${year}-${String(nextVal).padStart(4, '0')}`;
         default: throw new Error('Unknown sequence type');
     }
 };
\ No newline at end of file
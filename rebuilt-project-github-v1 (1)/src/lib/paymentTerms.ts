@@ -0,0 +1,65 @@
+import { addDays } from "date-fns";
+import { Customer, Invoice, Organization, PaymentTerm } from "../types";
+import { translations } from "../constants";
+import { formatEuropeanDate } from "./formatting";
+import { calculateSkontoAmount, getSkontoDeadline, SkontoInvoice } from "./skonto";
+
+const round2 = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+
+const translate = (key: string, language: 'de' | 'al'): string =>
+  (translations[language] as Record<string, string>)[key] || (translations.de as Record<string, string>)[key] || key;
+
+/**
+ * Returns the payment terms configured for an organization.
+ */
+export const getPaymentTerms = (org?: Pick<Organization, 'payment_terms'> | null): PaymentTerm[] => org?.payment_terms || [];
+
+/**
+ * Picks the payment terms for a customer: the customer's own terms, otherwise the organization's default.
+ * @returns The terms, or null if neither the customer nor the organization has any.
+ */
+export const resolvePaymentTerm = (terms: PaymentTerm[], customer?: Pick<Customer, 'payment_term_id'> | null): PaymentTerm | null => {
+  return terms.find(term => term.id === customer?.payment_term_id) || terms.find(term => term.is_default) || null;
+};
+
+/**
+ * Returns the invoice fields copied from payment terms. The Skonto conditions are stored on the
+ * invoice itself, so later changes to the terms do not alter issued invoices.
+ */
+export const getPaymentTermFields = (term: PaymentTerm | null): Pick<Invoice, 'payment_term_id' | 'skonto_percent' | 'skonto_days'> => ({
+  payment_term_id: term?.id || null,
+  skonto_percent: term?.skonto_percent || null,
+  skonto_days: term?.skonto_percent ? term.skonto_days ?? 0 : null,
+});
+
+/**
+ * Calculates the due date of payment terms, counted from the issue date.
+ */
+export const calculateDueDate = (issueDate: Date, term: PaymentTerm): Date => addDays(issueDate, term.net_days || 0);
+
+/**
+ * Formats payment terms for selection lists, e.g. "2 % Skonto 10 Tage, 30 Tage netto".
+ */
+export const formatPaymentTerm = (term: PaymentTerm, language: 'de' | 'al' = 'de'): string => {
+  const net = translate('paymentTermNetDays', language).replace('{days}', String(term.net_days));
+  if (!term.skonto_percent) return `${term.name} (${net})`;
+  const skonto = translate('paymentTermSkontoDays', language)
+    .replace('{percent}', String(term.skonto_percent))
+    .replace('{days}', String(term.skonto_days ?? 0));
+  return `${term.name} (${skonto}, ${net})`;
+};
+
+/**
+ * Builds the Skonto clause printed on the invoice, including the discount and the amount to pay.
+ * @returns The clause, or null if the invoice grants no Skonto.
+ */
+export const getSkontoClause = (invoice: SkontoInvoice, language: 'de' | 'al' = 'de'): string | null => {
+  const deadline = getSkontoDeadline(invoice);
+  if (!deadline) return null;
+  const skontoAmount = calculateSkontoAmount(invoice);
+  return translate('skontoClause', language)
+    .replace('{percent}', String(Number(invoice.skonto_percent)))
+    .replace('{date}', formatEuropeanDate(deadline))
+    .replace('{amount}', `€${skontoAmount.toFixed(2)}`)
+    .replace('{payAmount}', `€${round2((invoice.total_amount || 0) - skontoAmount).toFixed(2)}`);
+};
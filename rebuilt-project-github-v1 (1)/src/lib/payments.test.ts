@@ -0,0 +1,144 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { calculateOpenBalance, calculatePaidAmount, calculatePaymentSkonto, syncInvoicePaymentStatus } from './payments';
+
+// A client that returns the given invoice and records the status updates written for it.
+const invoiceClient = (invoice: Record<string, unknown>) => {
+  const updates: Record<string, unknown>[] = [];
+  const client = {
+    from: () => ({
+      select: () => ({ eq: () => ({ single: async () => ({ data: invoice, error: null }) }) }),
+      update: (values: Record<string, unknown>) => ({
+        eq: async () => {
+          updates.push(values);
+          return { error: null };
+        },
+      }),
+    }),
+  } as unknown as SupabaseClient;
+  return { client, updates };
+};
+
+describe('calculatePaidAmount', () => {
+  it('sums the payments including the Skonto deducted by them', () => {
+    expect(calculatePaidAmount([{ amount: 100 }, { amount: 50, skonto_amount: 3 }])).toBe(153);
+  });
+
+  it('returns 0 without payments', () => {
+    expect(calculatePaidAmount()).toBe(0);
+  });
+});
+
+describe('calculateOpenBalance', () => {
+  it('deducts payments and credit notes from the total', () => {
+    expect(calculateOpenBalance({ total_amount: 119, status: 'sent', credited_amount: 19 }, [{ amount: 40 }])).toBe(60);
+  });
+
+  it('rounds to cents and treats floating point leftovers as settled', () => {
+    expect(calculateOpenBalance({ total_amount: 0.3, status: 'sent' }, [{ amount: 0.1 }, { amount: 0.2 }])).toBe(0);
+    expect(calculateOpenBalance({ total_amount: 100, status: 'sent' }, [{ amount: 33.333 }])).toBe(66.67);
+  });
+
+  it('counts invoices paid before payments were tracked as settled', () => {
+    expect(calculateOpenBalance({ total_amount: 119, status: 'paid' }, [])).toBe(0);
+  });
+
+  it('keeps the balance of a paid invoice whose ledger does not cover it', () => {
+    expect(calculateOpenBalance({ total_amount: 119, status: 'paid' }, [{ amount: 100 }])).toBe(19);
+  });
+
+  it('has nothing open on cancelled invoices', () => {
+    expect(calculateOpenBalance({ total_amount: 119, status: 'cancelled' }, [{ amount: 10 }])).toBe(0);
+  });
+
+  it('returns a negative balance for overpaid invoices', () => {
+    expect(calculateOpenBalance({ total_amount: 100, status: 'sent' }, [{ amount: 120 }])).toBe(-20);
+  });
+});
+
+describe('syncInvoicePaymentStatus', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2025, 2, 15));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const invoice = { id: 1, status: 'sent', total_amount: 119, credited_amount: 0, due_date: '2025-03-31', invoice_payments: [] as unknown[] };
+
+  it('marks an invoice paid once the payments cover it', async () => {
+    const { client, updates } = invoiceClient({ ...invoice, invoice_payments: [{ amount: 100 }, { amount: 19 }] });
+    await expect(syncInvoicePaymentStatus(1, client)).resolves.toBe('paid');
+    expect(updates).toEqual([{ status: 'paid' }]);
+  });
+
+  it('counts the Skonto of a payment towards the total', async () => {
+    const { client } = invoiceClient({ ...invoice, invoice_payments: [{ amount: 116.62, skonto_amount: 2.38 }] });
+    await expect(syncInvoicePaymentStatus(1, client)).resolves.toBe('paid');
+  });
+
+  it('leaves a partly paid invoice unchanged', async () => {
+    const { client, updates } = invoiceClient({ ...invoice, invoice_payments: [{ amount: 50 }] });
+    await expect(syncInvoicePaymentStatus(1, client)).resolves.toBe('sent');
+    expect(updates).toEqual([]);
+  });
+
+  it('reopens a paid invoice with an open balance as sent or overdue by its due date', async () => {
+    const notDue = invoiceClient({ ...invoice, status: 'paid', invoice_payments: [{ amount: 50 }] });
+    await expect(syncInvoicePaymentStatus(1, notDue.client)).resolves.toBe('sent');
+
+    const overdue = invoiceClient({ ...invoice, status: 'paid', due_date: '2025-03-01', invoice_payments: [{ amount: 50 }] });
+    await expect(syncInvoicePaymentStatus(1, overdue.client)).resolves.toBe('overdue');
+    expect(overdue.updates).toEqual([{ status: 'overdue' }]);
+  });
+
+  it('cancels an invoice credited in full without any payment', async () => {
+    const { client } = invoiceClient({ ...invoice, credited_amount: 119 });
+    await expect(syncInvoicePaymentStatus(1, client)).resolves.toBe('cancelled');
+  });
+
+  it('never changes a cancelled invoice', async () => {
+    const { client, updates } = invoiceClient({ ...invoice, status: 'cancelled', invoice_payments: [{ amount: 119 }] });
+    await expect(syncInvoicePaymentStatus(1, client)).resolves.toBe('cancelled');
+    expect(updates).toEqual([]);
+  });
+});
+
+describe('calculatePaymentSkonto', () => {
+  // 2 % Skonto within 10 days on 119.00: 2.38 may be deducted until 2025-03-11.
+  const invoice = { issue_date: '2025-03-01', total_amount: 119, skonto_percent: 2, skonto_days: 10 };
+
+  it('grants the Skonto to a payment of the reduced amount within the period', () => {
+    expect(calculatePaymentSkonto(invoice, [], { amount: 116.62, payment_date: '2025-03-11' })).toBe(2.38);
+  });
+
+  it('grants no Skonto after the period', () => {
+    expect(calculatePaymentSkonto(invoice, [], { amount: 116.62, payment_date: '2025-03-12' })).toBe(0);
+  });
+
+  it('grants no Skonto if the remainder exceeds it', () => {
+    expect(calculatePaymentSkonto(invoice, [], { amount: 100, payment_date: '2025-03-05' })).toBe(0);
+  });
+
+  it('grants only the actual remainder if less than the Skonto is left', () => {
+    expect(calculatePaymentSkonto(invoice, [], { amount: 118, payment_date: '2025-03-05' })).toBe(1);
+  });
+
+  it('grants no Skonto to a payment covering the full balance', () => {
+    expect(calculatePaymentSkonto(invoice, [], { amount: 119, payment_date: '2025-03-05' })).toBe(0);
+  });
+
+  it('takes earlier payments and credit notes into account', () => {
+    expect(calculatePaymentSkonto({ ...invoice, credited_amount: 19 }, [{ amount: 50 }], { amount: 47.62, payment_date: '2025-03-05' })).toBe(2.38);
+  });
+
+  it('grants Skonto only once per invoice', () => {
+    expect(calculatePaymentSkonto(invoice, [{ amount: 50, skonto_amount: 1 }], { amount: 67, payment_date: '2025-03-05' })).toBe(0);
+  });
+
+  it('grants no Skonto on invoices without Skonto terms', () => {
+    expect(calculatePaymentSkonto({ ...invoice, skonto_percent: 0 }, [], { amount: 116.62, payment_date: '2025-03-05' })).toBe(0);
+  });
+});
@@ -0,0 +1,166 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { Invoice, InvoicePayment, InvoiceStatus, PaymentMethod } from "../types";
+import { format } from "date-fns";
+import { calculateSkontoAmount, getSkontoDeadline } from "./skonto";
+
+// Balances below half a cent are treated as settled to avoid floating point leftovers.
+const BALANCE_TOLERANCE = 0.005;
+
+type LedgerEntry = Pick<InvoicePayment, 'amount'> & Partial<Pick<InvoicePayment, 'skonto_amount'>>;
+
+/**
+ * Sums up all payments recorded for an invoice, including the Skonto deducted by them.
+ */
+export const calculatePaidAmount = (payments: LedgerEntry[] = []): number => {
+  return payments.reduce((sum, payment) => sum + Number(payment.amount || 0) + Number(payment.skonto_amount || 0), 0);
+};
+
+/**
+ * Calculates the amount that is still open on an invoice, after payments and credit notes.
+ * Invoices marked as paid before payments were tracked have no ledger entries and count as settled;
+ * cancelled invoices have nothing open.
+ * @param invoice The invoice (only total_amount, credited_amount and status are used).
+ * @param payments The payments recorded for this invoice.
+ * @returns The open balance, rounded to cents.
+ */
+export const calculateOpenBalance = (invoice: Pick<Invoice, 'total_amount' | 'status' | 'credited_amount'>, payments: LedgerEntry[] = []): number => {
+  if (invoice.status === 'cancelled' || (invoice.status === 'paid' && payments.length === 0)) return 0;
+  const balance = Math.round(((invoice.total_amount || 0) - Number(invoice.credited_amount || 0) - calculatePaidAmount(payments)) * 100) / 100;
+  return Math.abs(balance) < BALANCE_TOLERANCE ? 0 : balance;
+};
+
+/**
+ * Re-evaluates an invoice's status from its payment ledger.
+ * A fully paid invoice becomes 'paid'; a 'paid' invoice with an open balance falls back to 'sent' or 'overdue'.
+ * An invoice credited in full by credit notes without any payment becomes 'cancelled'.
+ * @param invoiceId The ID of the invoice to reconcile.
+ * @param client The Supabase client to use: the app's client, or a service-role client on the server.
+ * @returns The (possibly unchanged) status of the invoice.
+ */
+export const syncInvoicePaymentStatus = async (invoiceId: number, client: SupabaseClient): Promise<InvoiceStatus> => {
+  const { data: invoice, error } = await client
+    .from('invoices')
+    .select('id, status, total_amount, credited_amount, due_date, invoice_payments(amount, skonto_amount)')
+    .eq('id', invoiceId)
+    .single();
+
+  if (error || !invoice) {
+    throw new Error(error?.message || "Invoice not found.");
+  }
+
+  const payments = invoice.invoice_payments || [];
+  const paidAmount = calculatePaidAmount(payments);
+  const openBalance = invoice.total_amount - Number(invoice.credited_amount || 0) - paidAmount;
+  let newStatus: InvoiceStatus = invoice.status;
+
+  if (invoice.status === 'cancelled') {
+    return newStatus;
+  }
+  if (payments.length === 0 && Number(invoice.credited_amount || 0) > 0 && openBalance < BALANCE_TOLERANCE) {
+    newStatus = 'cancelled';
+  } else if (payments.length > 0 && openBalance < BALANCE_TOLERANCE && invoice.status !== 'paid') {
+    newStatus = 'paid';
+  } else if (invoice.status === 'paid' && payments.length > 0 && openBalance >= BALANCE_TOLERANCE) {
+    // due_date is a plain 'yyyy-MM-dd' string, so a string comparison is sufficient.
+    newStatus = invoice.due_date < format(new Date(), 'yyyy-MM-dd') ? 'overdue' : 'sent';
+  }
+
+  if (newStatus !== invoice.status) {
+    const { error: updateError } = await client.from('invoices').update({ status: newStatus }).eq('id', invoiceId);
+    if (updateError) {
+      throw new Error(updateError.message);
+    }
+  }
+
+  return newStatus;
+};
+
+/**
+ * Determines the Skonto a payment may deduct: if it is made within the Skonto period and the
+ * difference to the open balance does not exceed the Skonto, the payment settles the invoice.
+ * Only one payment per invoice can deduct Skonto.
+ * @returns The Skonto to record with the payment; 0 if none applies.
+ */
+export const calculatePaymentSkonto = (
+  invoice: Pick<Invoice, 'issue_date' | 'total_amount' | 'skonto_percent' | 'skonto_days'> & Partial<Pick<Invoice, 'credited_amount'>>,
+  payments: LedgerEntry[],
+  payment: { amount: number; payment_date: string }
+): number => {
+  const deadline = getSkontoDeadline(invoice);
+  if (!deadline || payment.payment_date > deadline || payments.some(p => Number(p.skonto_amount) > 0)) return 0;
+  const openBalance = Math.round(((invoice.total_amount || 0) - Number(invoice.credited_amount || 0) - calculatePaidAmount(payments)) * 100) / 100;
+  const remainder = Math.round((openBalance - payment.amount) * 100) / 100;
+  return remainder > 0 && remainder <= calculateSkontoAmount(invoice) + BALANCE_TOLERANCE ? remainder : 0;
+};
+
+/**
+ * Records a (partial) payment for an invoice and marks the invoice as paid once the balance reaches zero.
+ * A payment within the Skonto period that covers the balance less the Skonto settles the invoice.
+ * @param invoice The invoice receiving the payment.
+ * @param payment The payment details.
+ * @param userId The ID of the user recording the payment.
+ * @param client The Supabase client to use: the app's client, or a service-role client on the server.
+ * @returns The new payment and the resulting invoice status.
+ */
+export const recordPayment = async (
+  invoice: Pick<Invoice, 'id' | 'org_id'>,
+  payment: { amount: number; payment_date: string; method: PaymentMethod; reference?: string },
+  userId: string | null,
+  client: SupabaseClient
+): Promise<{ payment: InvoicePayment; status: InvoiceStatus }> => {
+  if (!payment.amount || isNaN(payment.amount) || payment.amount <= 0) {
+    throw new Error("Payment amount must be greater than zero.");
+  }
+  if (!payment.payment_date) {
+    throw new Error("Payment date is required.");
+  }
+
+  const { data: invoiceData, error: invoiceError } = await client
+    .from('invoices')
+    .select('issue_date, total_amount, credited_amount, skonto_percent, skonto_days, invoice_payments(amount, skonto_amount)')
+    .eq('id', invoice.id)
+    .single();
+
+  if (invoiceError || !invoiceData) {
+    throw new Error(invoiceError?.message || "Invoice not found.");
+  }
+
+  const skontoAmount = calculatePaymentSkonto(invoiceData, invoiceData.invoice_payments || [], payment);
+
+  const { data: createdPayment, error } = await client
+    .from('invoice_payments')
+    .insert({
+      org_id: invoice.org_id,
+      invoice_id: invoice.id,
+      user_id: userId,
+      amount: Math.round(payment.amount * 100) / 100,
+      payment_date: payment.payment_date,
+      method: payment.method,
+      reference: payment.reference || null,
+      skonto_amount: skontoAmount,
+    })
+    .select()
+    .single();
+
+  if (error || !createdPayment) {
+    throw new Error(error?.message || "Failed to record payment.");
+  }
+
+  const status = await syncInvoicePaymentStatus(invoice.id, client);
+  return { payment: createdPayment as InvoicePayment, status };
+};
+
+/**
+ * Deletes a recorded payment and reopens the invoice if it is no longer fully paid.
+ * @param paymentId The ID of the payment to delete.
+ * @param invoiceId The ID of the invoice the payment belongs to.
+ * @param client The Supabase client to use.
+ * @returns The resulting invoice status.
+ */
+export const deletePayment = async (paymentId: number, invoiceId: number, client: SupabaseClient): Promise<InvoiceStatus> => {
+  const { error } = await client.from('invoice_payments').delete().eq('id', paymentId);
+  if (error) {
+    throw new Error(error.message);
+  }
+  return syncInvoicePaymentStatus(invoiceId, client);
+};
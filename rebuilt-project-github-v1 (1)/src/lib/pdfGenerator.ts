@@ -2,9 +2,17 @@ import { jsPDF } from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import QRCode from 'qrcode';
 import { supabase } from '../services/supabase';
-import { Invoice, Quote, Visit } from '../types';
+import { Invoice, InvoicePayment, Quote, Visit } from '../types';
 import { translations } from '../constants';
 import { formatEuropeanDate, formatEuropeanTime } from './formatting';
+import { calculateOpenBalance, calculatePaidAmount } from './payments';
+import { getSkontoClause } from './paymentTerms';
+import { calculateDocumentTotals, calculateItemNet, formatDiscount } from './documentTotals';
+import { DocumentFormat, buildEInvoiceData, generateEInvoiceXml, validateEInvoiceData } from './eInvoice';
+import { isCorrectionDocument } from './cancellation';
+import { getTaxTreatment, getTaxTreatmentNote, requiresCustomerVatId } from './taxTreatment';
+import { findVatRate, getVatRates } from './vatRates';
+import { getIncludedQuoteItems, getQuoteItemKind, isQuoteItemIncluded } from './quoteOptions';
 
 // Define a consistent footer height to reserve space at the bottom of each page.
 const FOOTER_HEIGHT = 20;
@@ -86,11 +94,18 @@ const drawTextBox = (doc: jsPDF, text: string, x: number, y: number, width: numb
 };
 
 
+/**
+ * Renders an invoice or quote.
+ * @param format 'pdf' for the plain layout; for invoices also 'xrechnung_ubl' / 'xrechnung_cii'
+ * (XML only). E-invoices are validated first and an error listing all missing mandatory fields is
+ * thrown if the invoice can't be exported.
+ */
 export const generateDocumentPDF = async (
     documentId: number, 
     documentType: 'invoice' | 'quote', 
     language: 'de' | 'al' = 'de',
-    outputType: 'download' | 'blob' = 'download'
+    outputType: 'download' | 'blob' = 'download',
+    format: DocumentFormat = 'pdf'
 ): Promise<void | Blob> => {
     const t = (key: any) => translations[language][key] || translations['de'][key as any] || key;
     const tableName = documentType === 'invoice' ? 'invoices' : 'quotes';
@@ -113,6 +128,44 @@ export const generateDocumentPDF = async (
         throw new Error(`Could not fetch ${documentType}: ${error?.message || 'Not found'}`);
     }
 
+    if (format !== 'pdf') {
+        if (documentType !== 'invoice') {
+            throw new Error("E-invoices can only be created for invoices.");
+        }
+        const invoiceData = docData as Invoice;
+        if (invoiceData.status === 'draft') {
+            throw new Error("Draft invoices can't be exported as e-invoice. Issue the invoice first.");
+        }
+        const [{ data: originalInvoice }, { data: paymentsData }] = await Promise.all([
+            invoiceData.original_invoice_id
+                ? supabase.from('invoices').select('invoice_number, issue_date').eq('id', invoiceData.original_invoice_id).single()
+                : Promise.resolve({ data: null }),
+            supabase.from('invoice_payments').select('amount, skonto_amount').eq('invoice_id', documentId),
+        ]);
+        const prepaid = calculatePaidAmount(paymentsData || []);
+        const eInvoiceData = buildEInvoiceData(invoiceData, docData.invoice_items || [], prepaid, originalInvoice);
+        const validationErrors = validateEInvoiceData(eInvoiceData);
+        if (validationErrors.length > 0) {
+            throw new Error(`The invoice can't be exported as e-invoice:\n- ${validationErrors.join('\n- ')}`);
+        }
+        const eInvoiceXml = generateEInvoiceXml(eInvoiceData, format);
+
+        // XRechnung is the XML alone; there is no visual representation to render.
+        const xmlBlob = new Blob([eInvoiceXml], { type: 'application/xml' });
+        if (outputType === 'blob') {
+            return xmlBlob;
+        }
+        const link = document.createElement('a');
+        const url = URL.createObjectURL(xmlBlob);
+        link.setAttribute('href', url);
+        link.setAttribute('download', `${invoiceData.invoice_number}_${format}.xml`);
+        link.style.visibility = 'hidden';
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        return;
+    }
+
     const doc = new jsPDF();
     const org = docData.organizations;
     const customer = docData.customers;
@@ -155,7 +208,11 @@ export const generateDocumentPDF = async (
     // 3. Document Details
     let detailsY = 80;
     doc.setFontSize(14).setFont(undefined, 'bold');
-    const docTitle = `${t(documentType)} #${docData[numberProp]}`;
+    // Cancellation invoices and credit notes are rendered with their own title and a reference to the corrected invoice,
+    // down-payment and final invoices with their own title and a reference to the quote they bill.
+    const invoiceType = documentType === 'invoice' ? (docData as Invoice).invoice_type : undefined;
+    const isCorrection = isCorrectionDocument({ invoice_type: invoiceType });
+    const docTitle = `${invoiceType && invoiceType !== 'invoice' ? t(`invoice_type_${invoiceType}`) : t(documentType)} #${docData[numberProp]}`;
     doc.text(docTitle, PAGE_MARGIN, detailsY);
     
     detailsY += 10;
@@ -167,6 +224,25 @@ export const generateDocumentPDF = async (
         doc.text(`${t('valid_until')}: ${formatEuropeanDate((docData as Quote).valid_until_date)}`, pageWidth - PAGE_MARGIN, detailsY + 5, { align: 'right' });
     }
     doc.text(`${t('customer_number')}: ${customer.customer_number}`, PAGE_MARGIN, detailsY);
+    if (isCorrection && (docData as Invoice).original_invoice_id) {
+        const { data: originalInvoice } = await supabase
+            .from('invoices')
+            .select('invoice_number, issue_date')
+            .eq('id', (docData as Invoice).original_invoice_id!)
+            .single();
+        if (originalInvoice) {
+            doc.text(t('correctionForInvoice').replace('{number}', originalInvoice.invoice_number).replace('{date}', formatEuropeanDate(originalInvoice.issue_date)), PAGE_MARGIN, detailsY + 5);
+        }
+    } else if (documentType === 'invoice' && (docData as Invoice).quote_id) {
+        const { data: billedQuote } = await supabase
+            .from('quotes')
+            .select('quote_number, issue_date')
+            .eq('id', (docData as Invoice).quote_id!)
+            .single();
+        if (billedQuote) {
+            doc.text(t('invoiceForQuote').replace('{number}', billedQuote.quote_number).replace('{date}', formatEuropeanDate(billedQuote.issue_date)), PAGE_MARGIN, detailsY + 5);
+        }
+    }
 
     y = detailsY + 15;
 
@@ -181,9 +257,11 @@ export const generateDocumentPDF = async (
         y = drawTextBox(doc, customerNotes, PAGE_MARGIN, y, pageWidth - (PAGE_MARGIN * 2), { fontSize: 10, fontStyle: 'normal' });
     }
 
-    const head = [[t('position'), t('description'), t('quantity'), t('unitPrice'), `MwSt./VAT %`, t('total')]];
+    // The discount column is only shown when at least one line has a discount.
+    const hasLineDiscounts = items.some((item: any) => item.discount_type && Number(item.discount_value) > 0);
+    const head = [[t('position'), t('description'), t('quantity'), t('unitPrice'), ...(hasLineDiscounts ? [t('discount')] : []), `MwSt./VAT %`, t('total')]];
     const body = items.map((item: any, index: number) => {
-        const itemTotal = item.quantity * item.unit_price;
+        const itemTotal = calculateItemNet(item);
         const vatAmount = itemTotal * (item.vat_rate / 100);
         const totalWithVat = itemTotal + vatAmount;
 
@@ -196,6 +274,14 @@ export const generateDocumentPDF = async (
                 descriptionContent = `${item.description} (${item.products.unit})`;
             }
         }
+
+        // Optional lines and alternatives are labelled; their price is put in brackets while it is not part of the total.
+        const itemKind = documentType === 'quote' ? getQuoteItemKind(item) : 'standard';
+        const isIncluded = documentType !== 'quote' || isQuoteItemIncluded(item);
+        if (itemKind !== 'standard') {
+            const kindLabel = itemKind === 'alternative' ? `${t('quoteItemKind_alternative')} ${item.alternative_group}` : t('quoteItemKind_optional');
+            descriptionContent = `${kindLabel}: ${descriptionContent}`;
+        }
         
         const descriptionCell = Object.keys(styles).length > 0 
             ? { content: descriptionContent, styles } 
@@ -206,10 +292,12 @@ export const generateDocumentPDF = async (
             descriptionCell,
             item.quantity,
             `€${item.unit_price.toFixed(2)}`,
+            ...(hasLineDiscounts ? [item.discount_type && Number(item.discount_value) > 0 ? `-${formatDiscount(item)}` : ''] : []),
             `${item.vat_rate}%`,
-            `€${totalWithVat.toFixed(2)}`
+            isIncluded ? `€${totalWithVat.toFixed(2)}` : `(€${totalWithVat.toFixed(2)})`
         ];
     });
+    const hasExcludedItems = documentType === 'quote' && items.some((item: any) => !isQuoteItemIncluded(item));
 
     autoTable(doc, {
         startY: y + 10,
@@ -223,25 +311,56 @@ export const generateDocumentPDF = async (
             3: { halign: 'right' },
             4: { halign: 'right' },
             5: { halign: 'right' },
+            6: { halign: 'right' },
         },
         marginBottom: FOOTER_HEIGHT,
     });
     
     y = (doc as any).lastAutoTable.finalY;
 
-    const invoice = docData as Invoice;
-    let subtotal = 0;
-    const vatTotals: { [key: number]: number } = {};
-    items.forEach((item: any) => {
-        const itemTotal = item.quantity * item.unit_price;
-        subtotal += itemTotal;
-        vatTotals[item.vat_rate] = (vatTotals[item.vat_rate] || 0) + (itemTotal * (item.vat_rate / 100));
-    });
-
-    const hasStripeLink = documentType === 'invoice' && invoice.organizations?.is_payment_gateway_enabled && invoice.payment_link_url;
-    const hasSepaQr = documentType === 'invoice' && org.iban && org.bic && (org.company_name || org.name);
+    if (hasExcludedItems) {
+        doc.setFontSize(8).setFont('helvetica', 'italic');
+        doc.text(t('excludedItemsNote'), PAGE_MARGIN, y + 4);
+        doc.setFontSize(10).setFont('helvetica', 'normal');
+        y += 4;
+    }
 
-    const totalsHeight = (2 + Object.keys(vatTotals).length) * 6;
+    const invoice = docData as Invoice;
+    const totals = calculateDocumentTotals(documentType === 'quote' ? getIncludedQuoteItems(items) : items, docData as Invoice | Quote);
+    const vatTotals = totals.vatTotals;
+    const vatRates = getVatRates(org);
+
+    // Payments already received are listed below the total and reduce the amount still due.
+    let payments: Pick<InvoicePayment, 'amount' | 'skonto_amount' | 'payment_date'>[] = [];
+    if (documentType === 'invoice' && !isCorrection) {
+        const { data: paymentsData } = await supabase
+            .from('invoice_payments')
+            .select('amount, skonto_amount, payment_date')
+            .eq('invoice_id', documentId)
+            .order('payment_date', { ascending: true });
+        payments = paymentsData || [];
+    }
+    const amountDue = documentType === 'invoice' ? calculateOpenBalance(invoice, payments) : 0;
+
+    const hasStripeLink = documentType === 'invoice' && !isCorrection && amountDue > 0 && invoice.organizations?.is_payment_gateway_enabled && invoice.payment_link_url;
+    const hasSepaQr = documentType === 'invoice' && !isCorrection && amountDue > 0 && org.iban && org.bic && (org.company_name || org.name);
+
+    // The Skonto clause is printed as long as the Skonto has not been used or the invoice is settled otherwise.
+    const skontoClause = documentType === 'invoice' && !isCorrection && amountDue > 0 && !payments.some(payment => Number(payment.skonto_amount) > 0)
+        ? getSkontoClause(invoice, language)
+        : null;
+
+    // Tax-free invoices carry the legal note of their tax treatment; small businesses (§19 UStG) must not show any VAT.
+    const taxTreatment = documentType === 'invoice' ? getTaxTreatment(invoice) : 'domestic';
+    const taxNote = getTaxTreatmentNote(taxTreatment, language);
+    const vatRows = taxTreatment === 'small_business' ? [] : Object.entries(vatTotals);
+    const vatIdNote = requiresCustomerVatId(taxTreatment)
+        ? [customer.vat_id && `${t('customerVatId')}: ${customer.vat_id}`, org.ust_idnr && `${t('vat_id')}: ${org.ust_idnr}`].filter(Boolean).join(' · ')
+        : '';
+
+    const discountRows = (totals.lineDiscountTotal !== 0 ? 1 : 0) + (totals.documentDiscount !== 0 ? 2 : 0);
+    const paymentRows = payments.length + payments.filter(payment => Number(payment.skonto_amount) > 0).length;
+    const totalsHeight = (2 + discountRows + vatRows.length + (payments.length > 0 ? paymentRows + 1 : 0)) * 6;
     let paymentHeight = 0;
     if (hasStripeLink) paymentHeight += 15;
     if (hasSepaQr) paymentHeight += 45;
@@ -257,17 +376,49 @@ export const generateDocumentPDF = async (
     let totalsY = startY;
     const rightColX = pageWidth / 2 + 10;
     doc.setFontSize(10).setFont(undefined, 'normal');
+    if (totals.lineDiscountTotal !== 0) {
+        doc.text(`${t('lineDiscounts')}:`, rightColX, totalsY);
+        doc.text(`€${(-totals.lineDiscountTotal).toFixed(2)}`, pageWidth - PAGE_MARGIN, totalsY, { align: 'right' });
+        totalsY += 6;
+    }
     doc.text(`${t('subtotal')}:`, rightColX, totalsY);
-    doc.text(`€${subtotal.toFixed(2)}`, pageWidth - PAGE_MARGIN, totalsY, { align: 'right' });
+    doc.text(`€${totals.subtotal.toFixed(2)}`, pageWidth - PAGE_MARGIN, totalsY, { align: 'right' });
     totalsY += 6;
-    Object.entries(vatTotals).forEach(([rate, amount]) => {
-        doc.text(`+ MwSt./VAT ${rate}%:`, rightColX, totalsY);
+    if (totals.documentDiscount !== 0) {
+        const discountLabel = docData.discount_type === 'percent' ? `${t('documentDiscount')} ${formatDiscount(docData)}` : t('documentDiscount');
+        doc.text(`${discountLabel}:`, rightColX, totalsY);
+        doc.text(`€${(-totals.documentDiscount).toFixed(2)}`, pageWidth - PAGE_MARGIN, totalsY, { align: 'right' });
+        totalsY += 6;
+        doc.text(`${t('netTotal')}:`, rightColX, totalsY);
+        doc.text(`€${totals.netTotal.toFixed(2)}`, pageWidth - PAGE_MARGIN, totalsY, { align: 'right' });
+        totalsY += 6;
+    }
+    vatRows.forEach(([rate, amount]) => {
+        const vatRateLabel = findVatRate(vatRates, Number(rate), docData.issue_date)?.label;
+        doc.text(`+ MwSt./VAT ${rate}%${vatRateLabel ? ` (${vatRateLabel})` : ''}:`, rightColX, totalsY);
         doc.text(`€${amount.toFixed(2)}`, pageWidth - PAGE_MARGIN, totalsY, { align: 'right' });
         totalsY += 6;
     });
     doc.setFontSize(12).setFont(undefined, 'bold');
     doc.text(`${t('total')}:`, rightColX, totalsY);
     doc.text(`€${(docData as Invoice | Quote).total_amount.toFixed(2)}`, pageWidth - PAGE_MARGIN, totalsY, { align: 'right' });
+    if (payments.length > 0) {
+        doc.setFontSize(10).setFont('helvetica', 'normal');
+        payments.forEach(payment => {
+            totalsY += 6;
+            doc.text(`- ${t('paymentOn').replace('{date}', formatEuropeanDate(payment.payment_date))}:`, rightColX, totalsY);
+            doc.text(`€${Number(payment.amount).toFixed(2)}`, pageWidth - PAGE_MARGIN, totalsY, { align: 'right' });
+            if (Number(payment.skonto_amount) > 0) {
+                totalsY += 6;
+                doc.text(`- ${t('skonto')}:`, rightColX, totalsY);
+                doc.text(`€${Number(payment.skonto_amount).toFixed(2)}`, pageWidth - PAGE_MARGIN, totalsY, { align: 'right' });
+            }
+        });
+        totalsY += 6;
+        doc.setFont('helvetica', 'bold');
+        doc.text(`${t('openBalance')}:`, rightColX, totalsY);
+        doc.text(`€${amountDue.toFixed(2)}`, pageWidth - PAGE_MARGIN, totalsY, { align: 'right' });
+    }
 
     let paymentY = startY;
     if (hasStripeLink) {
@@ -284,12 +435,21 @@ export const generateDocumentPDF = async (
     }
     
     if (hasSepaQr) {
-        const sepaString = [ 'BCD', '002', '1', 'SCT', org.bic, org.company_name || org.name, org.iban.replace(/\s/g, ''), `EUR${invoice.total_amount.toFixed(2)}`, '', '', `Rechnung ${invoice.invoice_number}`, '' ].join('\n');
+        const sepaString = [ 'BCD', '002', '1', 'SCT', org.bic, org.company_name || org.name, org.iban.replace(/\s/g, ''), `EUR${amountDue.toFixed(2)}`, '', '', `Rechnung ${invoice.invoice_number}`, '' ].join('\n');
         try {
             const qrCodeDataUrl = await QRCode.toDataURL(sepaString, { errorCorrectionLevel: 'M', margin: 2, width: 256 });
             doc.addImage(qrCodeDataUrl, 'PNG', PAGE_MARGIN, paymentY, 40, 40);
         } catch (qrError) { console.error("Failed to generate SEPA QR code:", qrError); }
+        paymentY += 40;
     }
+
+    y = Math.max(totalsY, paymentY) + 10;
+    [skontoClause, taxNote, vatIdNote].filter((note): note is string => !!note).forEach(note => {
+        const noteLines = doc.setFontSize(10).setFont('helvetica', 'normal').splitTextToSize(note, pageWidth - (PAGE_MARGIN * 2));
+        if (y + noteLines.length * 5 > pageHeight - FOOTER_HEIGHT) { doc.addPage(); y = PAGE_MARGIN; }
+        doc.text(noteLines, PAGE_MARGIN, y);
+        y += noteLines.length * 5 + 2;
+    });
     
     addFooters(doc, org, language);
 
@@ -470,4 +630,152 @@ export const generateVisitSummaryPDF = async (
     }
 };
 
+/**
+ * Generates the PDF for a dunning notice (payment reminder or dunning letter).
+ * @param noticeId The ID of the dunning notice.
+ * @param language The language of the document.
+ * @param outputType 'download' saves the file, 'blob' returns it (e.g. for email attachments).
+ */
+export const generateDunningPDF = async (
+    noticeId: number,
+    language: 'de' | 'al' = 'de',
+    outputType: 'download' | 'blob' = 'download'
+): Promise<void | Blob> => {
+    const t = (key: string): string => (translations[language] as Record<string, string>)[key] || (translations.de as Record<string, string>)[key] || key;
+
+    const { data: notice, error } = await supabase
+        .from('dunning_notices')
+        .select('*, invoices:invoices!inner(id, invoice_number, issue_date, due_date, total_amount), customers:customers!inner(*), organizations:organizations!inner(*)')
+        .eq('id', noticeId)
+        .single();
+
+    if (error || !notice) {
+        throw new Error(`Could not fetch dunning notice: ${error?.message || 'Not found'}`);
+    }
+
+    // Fees of earlier levels are carried over to every following notice.
+    const { data: previousNotices } = await supabase
+        .from('dunning_notices')
+        .select('level, fee')
+        .eq('invoice_id', notice.invoice_id)
+        .lt('level', notice.level);
+    const previousFees = (previousNotices || []).reduce((sum, n) => sum + Number(n.fee || 0), 0);
+
+    const doc = new jsPDF();
+    const org = notice.organizations;
+    const customer = notice.customers;
+    const invoice = notice.invoices;
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const pageWidth = doc.internal.pageSize.getWidth();
+
+    let y = PAGE_MARGIN;
+
+    if (org.logo_url) {
+        const logoBase64 = await getBase64ImageFromUrl(org.logo_url);
+        if (logoBase64) {
+            doc.addImage(logoBase64, 'PNG', PAGE_MARGIN, y, 40, 20, undefined, 'FAST');
+        }
+    }
+
+    let headerY = 20;
+    doc.setFontSize(10);
+    doc.text(org.company_name || org.name, pageWidth - PAGE_MARGIN, headerY, { align: 'right' });
+    if (org.address) {
+        const addressLines = String(org.address).split('\n');
+        addressLines.forEach((line: string) => { headerY += 5; doc.text(line, pageWidth - PAGE_MARGIN, headerY, { align: 'right' }); });
+    }
+    headerY += 5;
+    if (org.phone) { headerY += 5; doc.text(`${t('phone')}: ${org.phone}`, pageWidth - PAGE_MARGIN, headerY, { align: 'right' }); }
+    if (org.email) { headerY += 5; doc.text(`${t('email')}: ${org.email}`, pageWidth - PAGE_MARGIN, headerY, { align: 'right' }); }
+
+    y = 60;
+
+    doc.setFontSize(10);
+    doc.text(customer.name, PAGE_MARGIN, y);
+    y += 5;
+    if (customer.address) {
+        const addressLines = String(customer.address).split('\n');
+        addressLines.forEach((line: string) => { doc.text(line, PAGE_MARGIN, y); y += 5; });
+    }
+
+    let detailsY = 80;
+    const docTitle = `${t(`dunningLevel${notice.level}`)} - ${t('invoice')} #${invoice.invoice_number}`;
+    doc.setFontSize(14).setFont('helvetica', 'bold');
+    doc.text(docTitle, PAGE_MARGIN, detailsY);
+
+    detailsY += 10;
+    doc.setFontSize(10).setFont('helvetica', 'normal');
+    doc.text(`${t('customer_number')}: ${customer.customer_number}`, PAGE_MARGIN, detailsY);
+    doc.text(`${t('date')}: ${formatEuropeanDate(notice.notice_date)}`, pageWidth - PAGE_MARGIN, detailsY, { align: 'right' });
+    doc.text(`${t('paymentDeadline')}: ${formatEuropeanDate(notice.payment_deadline)}`, pageWidth - PAGE_MARGIN, detailsY + 5, { align: 'right' });
+
+    y = detailsY + 20;
+    y = drawTextBox(doc, notice.text, PAGE_MARGIN, y, pageWidth - (PAGE_MARGIN * 2), { fontSize: 10, fontStyle: 'normal' });
+
+    const fees = previousFees + Number(notice.fee || 0);
+    const interest = Number(notice.interest || 0);
+    const totalDue = Number(notice.open_balance) + fees + interest;
+
+    autoTable(doc, {
+        startY: y + 8,
+        head: [[t('invoice'), t('issue_date'), t('due_date'), t('total'), t('openBalance')]],
+        body: [[
+            invoice.invoice_number,
+            formatEuropeanDate(invoice.issue_date),
+            formatEuropeanDate(invoice.due_date),
+            `€${Number(invoice.total_amount).toFixed(2)}`,
+            `€${Number(notice.open_balance).toFixed(2)}`,
+        ]],
+        theme: 'grid',
+        headStyles: { fillColor: [47, 55, 69], textColor: 255 },
+        columnStyles: { 3: { halign: 'right' }, 4: { halign: 'right' } },
+        margin: { bottom: FOOTER_HEIGHT },
+    });
+    y = (doc as any).lastAutoTable.finalY;
+
+    const hasSepaQr = totalDue > 0 && org.iban && org.bic && (org.company_name || org.name);
+    const requiredHeight = Math.max(4 * 6, hasSepaQr ? 45 : 0);
+    if (y + 10 + requiredHeight > pageHeight - FOOTER_HEIGHT) {
+        doc.addPage();
+        y = PAGE_MARGIN;
+    }
+
+    const startY = y + 10;
+    let totalsY = startY;
+    const rightColX = pageWidth / 2 + 10;
+    doc.setFontSize(10).setFont('helvetica', 'normal');
+    doc.text(`${t('openBalance')}:`, rightColX, totalsY);
+    doc.text(`€${Number(notice.open_balance).toFixed(2)}`, pageWidth - PAGE_MARGIN, totalsY, { align: 'right' });
+    if (fees > 0) {
+        totalsY += 6;
+        doc.text(`+ ${t('dunningFees')}:`, rightColX, totalsY);
+        doc.text(`€${fees.toFixed(2)}`, pageWidth - PAGE_MARGIN, totalsY, { align: 'right' });
+    }
+    if (interest > 0) {
+        totalsY += 6;
+        doc.text(`+ ${t('dunningInterest')}:`, rightColX, totalsY);
+        doc.text(`€${interest.toFixed(2)}`, pageWidth - PAGE_MARGIN, totalsY, { align: 'right' });
+    }
+    totalsY += 6;
+    doc.setFontSize(12).setFont('helvetica', 'bold');
+    doc.text(`${t('totalDue')}:`, rightColX, totalsY);
+    doc.text(`€${totalDue.toFixed(2)}`, pageWidth - PAGE_MARGIN, totalsY, { align: 'right' });
+
+    if (hasSepaQr) {
+        const sepaString = [ 'BCD', '002', '1', 'SCT', org.bic, org.company_name || org.name, org.iban.replace(/\s/g, ''), `EUR${totalDue.toFixed(2)}`, '', '', `Rechnung ${invoice.invoice_number}`, '' ].join('\n');
+        try {
+            const qrCodeDataUrl = await QRCode.toDataURL(sepaString, { errorCorrectionLevel: 'M', margin: 2, width: 256 });
+            doc.addImage(qrCodeDataUrl, 'PNG', PAGE_MARGIN, startY, 40, 40);
+        } catch (qrError) { console.error("Failed to generate SEPA QR code:", qrError); }
+    }
+
+    addFooters(doc, org, language);
+
+    if (outputType === 'blob') {
+        return doc.output('blob');
+    } else {
+        doc.save(`${docTitle.replace('#', '')}.pdf`);
+    }
+};
+
 export default generateDocumentPDF;
\ No newline at end of file
@@ -0,0 +1,81 @@
+import { QuoteItem } from "../types";
+
+type SelectableItem = Partial<Pick<QuoteItem, 'is_optional' | 'alternative_group' | 'is_selected'>>;
+
+/**
+ * A regular line, an optional add-on, or one variant of an either/or group.
+ */
+export type QuoteItemKind = 'standard' | 'optional' | 'alternative';
+
+export const getQuoteItemKind = (item: SelectableItem): QuoteItemKind => {
+  if (item.alternative_group) return 'alternative';
+  return item.is_optional ? 'optional' : 'standard';
+};
+
+/**
+ * Returns true if a line counts towards the quote total and is invoiced: regular lines always,
+ * optional lines and alternatives only if they are selected.
+ */
+export const isQuoteItemIncluded = (item: SelectableItem): boolean => {
+  return getQuoteItemKind(item) === 'standard' || !!item.is_selected;
+};
+
+/**
+ * Returns the lines the customer ordered: regular lines plus the selected options and alternatives.
+ */
+export const getIncludedQuoteItems = <T extends SelectableItem>(items: T[]): T[] => items.filter(isQuoteItemIncluded);
+
+/**
+ * Ensures that exactly one line of each alternative group is selected: the first selected line,
+ * otherwise the first line of the group.
+ */
+export const normalizeQuoteSelection = <T extends SelectableItem>(items: T[]): T[] => {
+  const chosenIndex = new Map<string, number>();
+  items.forEach((item, index) => {
+    const group = item.alternative_group;
+    if (!group) return;
+    const current = chosenIndex.get(group);
+    if (current === undefined || (item.is_selected && !items[current].is_selected)) {
+      chosenIndex.set(group, index);
+    }
+  });
+  return items.map((item, index) => (item.alternative_group ? { ...item, is_selected: chosenIndex.get(item.alternative_group) === index } : item));
+};
+
+/**
+ * Selects or deselects a line. Selecting an alternative deselects the other lines of its group;
+ * an alternative cannot be deselected, another one has to be selected instead.
+ */
+export const selectQuoteItem = <T extends SelectableItem>(items: T[], index: number, selected: boolean): T[] => {
+  const target = items[index];
+  if (!target) return items;
+  if (!target.alternative_group) {
+    return items.map((item, i) => (i === index ? { ...item, is_selected: selected } : item));
+  }
+  if (!selected) return items;
+  return items.map((item, i) => (item.alternative_group === target.alternative_group ? { ...item, is_selected: i === index } : item));
+};
+
+/**
+ * Changes the kind of a line. A new alternative joins the group of the line above it if that is an
+ * alternative, otherwise it starts a new group.
+ */
+export const setQuoteItemKind = <T extends SelectableItem>(items: T[], index: number, kind: QuoteItemKind): T[] => {
+  const usedGroups = new Set(items.map(item => item.alternative_group).filter(Boolean));
+  const previousGroup = index > 0 ? items[index - 1].alternative_group : null;
+  let newGroup = previousGroup || '';
+  if (!newGroup) {
+    for (let code = 65; code <= 90 && !newGroup; code++) {
+      if (!usedGroups.has(String.fromCharCode(code))) newGroup = String.fromCharCode(code);
+    }
+  }
+
+  return normalizeQuoteSelection(items.map((item, i) => {
+    if (i !== index) return item;
+    switch (kind) {
+      case 'optional': return { ...item, is_optional: true, alternative_group: null, is_selected: false };
+      case 'alternative': return { ...item, is_optional: false, alternative_group: newGroup || 'Z', is_selected: false };
+      default: return { ...item, is_optional: false, alternative_group: null, is_selected: false };
+    }
+  }));
+};
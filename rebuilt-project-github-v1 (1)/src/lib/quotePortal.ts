@@ -0,0 +1,44 @@
+import { supabase } from "../services/supabase";
+import { Quote } from "../types";
+import { storeQuotePdf } from "./quoteRevisions";
+
+type Language = 'de' | 'al';
+
+/**
+ * Returns the public portal URL of a quote token. The app uses a hash router, so the route follows the '#'.
+ */
+export const getQuotePortalUrl = (token: string): string => {
+  return `${window.location.origin}${window.location.pathname}#/quote/${token}`;
+};
+
+/**
+ * Creates the acceptance link of a sent quote. The token is created once and kept, so links already
+ * sent to the customer stay valid; the PDF is stored so the customer sees the quote as it was sent.
+ * @returns The portal URL.
+ */
+export const createQuotePortalLink = async (quote: Pick<Quote, 'id' | 'org_id' | 'quote_number' | 'status' | 'superseded_at' | 'public_token'>, language: Language): Promise<string> => {
+  if (quote.status !== 'sent' || quote.superseded_at) {
+    throw new Error("Only sent quotes that have not been revised can be shared for acceptance.");
+  }
+
+  await storeQuotePdf(quote, language);
+  if (quote.public_token) {
+    return getQuotePortalUrl(quote.public_token);
+  }
+
+  const token = crypto.randomUUID();
+  const { data: updated, error } = await supabase.from('quotes').update({ public_token: token }).eq('id', quote.id).is('public_token', null).select('id');
+  if (error) {
+    throw new Error(`Failed to create the acceptance link: ${error.message}`);
+  }
+  if (updated && updated.length > 0) {
+    return getQuotePortalUrl(token);
+  }
+
+  // Another session created the token in the meantime; share that one so both links stay valid.
+  const { data: stored, error: fetchError } = await supabase.from('quotes').select('public_token').eq('id', quote.id).single();
+  if (fetchError || !stored?.public_token) {
+    throw new Error(`Failed to create the acceptance link: ${fetchError?.message || 'the quote could not be updated.'}`);
+  }
+  return getQuotePortalUrl(stored.public_token);
+};
@@ -0,0 +1,226 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { format } from "date-fns";
+import { DiscountType, Quote, QuoteItem, QuoteStatus } from "../types";
+import { calculateDocumentTotals } from "./documentTotals";
+import { createNotification } from "./notifications";
+import { getIncludedQuoteItems, normalizeQuoteSelection } from "./quoteOptions";
+import { getQuotePdfPath, QUOTE_DOCUMENTS_BUCKET, SIGNATURES_BUCKET } from "./quoteStorage";
+
+// The customer portal runs in the `quote-portal` Edge Function, so this module must not import the browser client.
+
+// The signed PDF link handed to the customer is valid for one hour; the portal fetches a new one on every visit.
+const PDF_URL_EXPIRY_SECONDS = 60 * 60;
+
+export type PortalQuoteItem = Pick<QuoteItem, 'id' | 'description' | 'quantity' | 'unit_price' | 'discount_type' | 'discount_value' | 'vat_rate' | 'is_optional' | 'alternative_group' | 'is_selected'>;
+
+/**
+ * The part of a quote shown to the customer in the portal. Internal notes and prices of other documents are never included.
+ */
+export interface PortalQuote {
+  quote_number: string;
+  issue_date: string;
+  valid_until_date: string;
+  status: QuoteStatus;
+  total_amount: number;
+  discount_type?: DiscountType | null;
+  discount_value?: number | null;
+  customer_notes?: string;
+  customer_name: string;
+  company_name: string;
+  signer_name?: string | null;
+  signature_date?: string | null;
+  /** False if the quote can no longer be accepted or declined: it was answered, revised or has expired. */
+  can_respond: boolean;
+  pdf_url: string | null;
+  items: PortalQuoteItem[];
+}
+
+export interface QuotePortalResponse {
+  accept: boolean;
+  signerName: string;
+  /** The drawn signature as PNG data URL; required to accept. */
+  signature?: string | null;
+  /** The IDs of the selected optional items and alternatives. */
+  selectedItemIds?: number[];
+}
+
+export type QuotePortalRequest = ({ action: 'view' } | ({ action: 'respond' } & QuotePortalResponse)) & { token: string };
+
+const PORTAL_QUOTE_SELECT = '*, quote_items(id, product_id, description, quantity, unit_price, discount_type, discount_value, vat_rate, is_optional, alternative_group, is_selected), customers(name), organizations:org_id(name, company_name)';
+
+const fetchQuoteByToken = async (client: SupabaseClient, token: string) => {
+  // Tokens are UUIDs; anything else is rejected before it reaches the database.
+  if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(token || '')) {
+    throw new Error("The link is invalid.");
+  }
+  const { data: quote, error } = await client.from('quotes').select(PORTAL_QUOTE_SELECT).eq('public_token', token).maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!quote) throw new Error("The link is invalid or the quote has been withdrawn.");
+  return quote;
+};
+
+const canRespond = (quote: Pick<Quote, 'status' | 'superseded_at' | 'valid_until_date'>, today: string): boolean => {
+  return quote.status === 'sent' && !quote.superseded_at && quote.valid_until_date.slice(0, 10) >= today;
+};
+
+const sortItems = <T extends { id: number }>(items: T[]): T[] => [...items].sort((a, b) => a.id - b.id);
+
+/**
+ * Loads the quote of a portal token as shown to the customer, with a signed link to its stored PDF.
+ * @param client A Supabase client with the service role; the customer is not signed in.
+ * @param token The public token of the quote.
+ */
+export const getPortalQuote = async (client: SupabaseClient, token: string): Promise<PortalQuote> => {
+  const quote = await fetchQuoteByToken(client, token);
+
+  let pdfUrl: string | null = null;
+  const { data: signed } = await client.storage.from(QUOTE_DOCUMENTS_BUCKET).createSignedUrl(quote.pdf_storage_path || getQuotePdfPath(quote), PDF_URL_EXPIRY_SECONDS);
+  if (signed?.signedUrl) pdfUrl = signed.signedUrl;
+
+  return {
+    quote_number: quote.quote_number,
+    issue_date: quote.issue_date,
+    valid_until_date: quote.valid_until_date,
+    status: quote.status,
+    total_amount: Number(quote.total_amount),
+    discount_type: quote.discount_type,
+    discount_value: quote.discount_value,
+    customer_notes: quote.customer_notes,
+    customer_name: quote.customers?.name || '',
+    company_name: quote.organizations?.company_name || quote.organizations?.name || '',
+    signer_name: quote.signer_name,
+    signature_date: quote.signature_date,
+    can_respond: canRespond(quote, format(new Date(), 'yyyy-MM-dd')),
+    pdf_url: pdfUrl,
+    items: sortItems(quote.quote_items || []).map(({ product_id, ...item }: any) => item),
+  };
+};
+
+const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const match = /^data:image\/png;base64,([A-Za-z0-9+/=]+)$/.exec(dataUrl);
+  if (!match) throw new Error("The signature must be a PNG image.");
+  const binary = atob(match[1]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+// Products reserved by the quote, by product ID; only ordered lines reserve stock.
+const getReservedQuantities = (items: Pick<QuoteItem, 'product_id' | 'quantity' | 'is_optional' | 'alternative_group' | 'is_selected'>[]): Map<number, number> => {
+  const reserved = new Map<number, number>();
+  getIncludedQuoteItems(items).forEach(item => {
+    if (item.product_id) reserved.set(item.product_id, (reserved.get(item.product_id) || 0) + Number(item.quantity || 0));
+  });
+  return reserved;
+};
+
+/**
+ * Accepts or declines a quote on behalf of the customer. On acceptance the customer's selection of optional
+ * items and alternatives is stored, the total recalculated and the drawn signature stored; stock reserved by
+ * the sent quote is adjusted to the selection, or released if the quote is declined. The owner is notified.
+ * @param client A Supabase client with the service role; the customer is not signed in.
+ * @param token The public token of the quote.
+ * @param response The customer's answer.
+ * @returns The quote as shown to the customer afterwards.
+ */
+export const respondToPortalQuote = async (client: SupabaseClient, token: string, response: QuotePortalResponse): Promise<PortalQuote> => {
+  const quote = await fetchQuoteByToken(client, token);
+  if (!canRespond(quote, format(new Date(), 'yyyy-MM-dd'))) {
+    throw new Error(`Quote ${quote.quote_number} can no longer be accepted or declined.`);
+  }
+
+  const signerName = (response.signerName || '').trim();
+  if (!signerName) {
+    throw new Error("Please enter your name.");
+  }
+  if (response.accept && !response.signature) {
+    throw new Error("Please sign the quote to accept it.");
+  }
+
+  const items: QuoteItem[] = sortItems(quote.quote_items || []);
+  const selectedIds = new Set(response.selectedItemIds || []);
+  const finalItems = response.accept
+    ? normalizeQuoteSelection(items.map(item => (item.is_optional || item.alternative_group ? { ...item, is_selected: selectedIds.has(item.id) } : item)))
+    : items;
+  const totalAmount = calculateDocumentTotals(getIncludedQuoteItems(finalItems), { discount_type: quote.discount_type, discount_value: quote.discount_value }).grandTotal;
+
+  let signaturePath: string | null = null;
+  if (response.accept && response.signature) {
+    signaturePath = `${quote.org_id}/quotes/${quote.id}/signature_${Date.now()}.png`;
+    const { error: uploadError } = await client.storage.from(SIGNATURES_BUCKET).upload(signaturePath, dataUrlToBytes(response.signature), { contentType: 'image/png' });
+    if (uploadError) throw new Error(`Failed to store the signature: ${uploadError.message}`);
+  }
+
+  const newStatus: QuoteStatus = response.accept ? 'accepted' : 'declined';
+  // The answer and the item selection are stored in one transaction; a quote that has already been answered
+  // (e.g. after a double click) is not overwritten.
+  const { data: answered, error: answerError } = await client.rpc('answer_quote', {
+    p_quote_id: quote.id,
+    p_status: newStatus,
+    p_total_amount: totalAmount,
+    p_signer_name: signerName,
+    p_signature_path: signaturePath,
+    p_selected_item_ids: response.accept ? finalItems.filter(item => (item.is_optional || item.alternative_group) && item.is_selected).map(item => item.id) : null,
+  });
+  if (answerError || !answered) {
+    if (signaturePath) await client.storage.from(SIGNATURES_BUCKET).remove([signaturePath]);
+    throw new Error(answerError?.message || `Quote ${quote.quote_number} has already been answered.`);
+  }
+
+  const reservedBefore = getReservedQuantities(items);
+  const reservedAfter = response.accept ? getReservedQuantities(finalItems) : new Map<number, number>();
+  const stockUpdates = Array.from(new Set([...reservedBefore.keys(), ...reservedAfter.keys()]))
+    .map(productId => ({ product_id: productId, quantity_delta: (reservedAfter.get(productId) || 0) - (reservedBefore.get(productId) || 0) }))
+    .filter(update => update.quantity_delta !== 0);
+  if (stockUpdates.length > 0) {
+    const { error } = await client.rpc('update_stock_levels', { updates: stockUpdates });
+    if (error) console.error("Stock update for quote response failed:", error);
+  }
+
+  if (quote.user_id) {
+    await createNotification({
+      user_id: quote.user_id,
+      org_id: quote.org_id,
+      title: response.accept ? 'quoteAcceptedOnlineTitle' : 'quoteDeclinedOnlineTitle',
+      body: JSON.stringify({ key: response.accept ? 'quoteAcceptedOnline' : 'quoteDeclinedOnline', params: { quoteNumber: quote.quote_number, customerName: quote.customers?.name || '', signerName, amount: totalAmount.toFixed(2) } }),
+      type: 'generic',
+      related_entity_path: `/quotes/edit/${quote.id}`,
+      related_entity_id: String(quote.id),
+    }, client);
+  }
+
+  return getPortalQuote(client, token);
+};
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status: number): Response =>
+  new Response(JSON.stringify(body), { status, headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' } });
+
+/**
+ * Handles a request of the customer portal end to end; this is the body of the `quote-portal` Edge Function.
+ * Errors are answered with 400 and a message that can be shown to the customer.
+ * @param request The incoming request with a QuotePortalRequest as JSON body.
+ * @param client A Supabase client with the service role.
+ */
+export const handleQuotePortalRequest = async (request: Request, client: SupabaseClient): Promise<Response> => {
+  if (request.method === 'OPTIONS') {
+    return new Response('ok', { headers: CORS_HEADERS });
+  }
+  if (request.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const body = await request.json() as QuotePortalRequest;
+    const quote = body.action === 'respond'
+      ? await respondToPortalQuote(client, body.token, body)
+      : await getPortalQuote(client, body.token);
+    return jsonResponse({ quote }, 200);
+  } catch (error: any) {
+    return jsonResponse({ error: error.message }, 400);
+  }
+};
@@ -0,0 +1,258 @@
+import { supabase } from "../services/supabase";
+import { Profile, Quote, QuoteItem, QuoteStatus } from "../types";
+import { addDays, differenceInCalendarDays, format } from "date-fns";
+import generateDocumentPDF from "./pdfGenerator";
+import { parseAsLocalDate } from "./formatting";
+import { getIncludedQuoteItems } from "./quoteOptions";
+import { getQuotePdfPath, QUOTE_DOCUMENTS_BUCKET } from "./quoteStorage";
+
+type Language = 'de' | 'al';
+
+// Only quotes the customer has seen are revised; drafts are simply edited and accepted quotes are billed.
+export const REVISABLE_QUOTE_STATUSES: QuoteStatus[] = ['sent', 'declined', 'expired'];
+
+export type QuoteRevision = Quote & { quote_items: QuoteItem[] };
+
+export type RevisionChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface RevisionItemDiff {
+  older?: QuoteItem;
+  newer?: QuoteItem;
+  change: RevisionChange;
+  /** The fields that differ between both revisions of a changed item. */
+  changedFields: (keyof QuoteItem)[];
+}
+
+const COMPARED_FIELDS: (keyof QuoteItem)[] = ['description', 'quantity', 'unit_price', 'discount_type', 'discount_value', 'vat_rate', 'is_optional', 'alternative_group', 'is_selected'];
+
+/**
+ * Returns true if a new revision can be created from the quote.
+ */
+export const canReviseQuote = (quote: Pick<Quote, 'status' | 'superseded_at'>): boolean => {
+  return !quote.superseded_at && REVISABLE_QUOTE_STATUSES.includes(quote.status);
+};
+
+/**
+ * Returns the number of a revision: the original number for revision 1, otherwise the number with an -R suffix (QUO-2025-0012-R2).
+ */
+export const formatRevisionNumber = (baseNumber: string, revisionNumber: number): string => {
+  return revisionNumber > 1 ? `${baseNumber}-R${revisionNumber}` : baseNumber;
+};
+
+const getBaseQuoteNumber = (quote: Pick<Quote, 'quote_number' | 'revision_number'>): string => {
+  const suffix = `-R${quote.revision_number}`;
+  return (quote.revision_number || 1) > 1 && quote.quote_number.endsWith(suffix) ? quote.quote_number.slice(0, -suffix.length) : quote.quote_number;
+};
+
+const updateReservedStock = async (quoteId: number, direction: 1 | -1): Promise<void> => {
+  const { data: items } = await supabase.from('quote_items').select('product_id, quantity, is_optional, alternative_group, is_selected').eq('quote_id', quoteId).not('product_id', 'is', null);
+  const stockUpdates = getIncludedQuoteItems(items || []).map(item => ({ product_id: item.product_id!, quantity_delta: direction * item.quantity }));
+  if (stockUpdates.length > 0) {
+    const { error } = await supabase.rpc('update_stock_levels', { updates: stockUpdates });
+    if (error) {
+      console.error("Stock update for quote revision failed:", error);
+    }
+  }
+};
+
+/**
+ * Stores the PDF of a quote as it was sent, so later changes to the customer or organization do not alter it.
+ * @returns The storage path of the PDF.
+ */
+export const storeQuotePdf = async (quote: Pick<Quote, 'id' | 'org_id' | 'quote_number'>, language: Language): Promise<string> => {
+  const pdfBlob = await generateDocumentPDF(quote.id, 'quote', language, 'blob');
+  if (!pdfBlob) {
+    throw new Error("Failed to generate the PDF of the quote.");
+  }
+  const path = getQuotePdfPath(quote);
+  const { error } = await supabase.storage.from(QUOTE_DOCUMENTS_BUCKET).upload(path, pdfBlob, { contentType: 'application/pdf', upsert: true });
+  if (error) {
+    throw new Error(`Failed to store the PDF of the quote: ${error.message}`);
+  }
+  return path;
+};
+
+/**
+ * Creates a new revision of a sent quote. The current revision is frozen together with its items and PDF
+ * and marked as superseded; only the new revision (a draft) can be edited and converted to an invoice.
+ * Stock reserved by the superseded revision is released; the new revision reserves it again once it is sent.
+ * @param quoteId The ID of the latest revision.
+ * @param profile The profile of the user performing the action.
+ * @param language The language of the stored PDF.
+ * @returns The new revision.
+ */
+export const createQuoteRevision = async (quoteId: number, profile: Profile, language: Language): Promise<Quote> => {
+  if (!profile.org_id) {
+    throw new Error("User is not associated with an organization.");
+  }
+
+  const { data: quote, error: quoteError } = await supabase
+    .from('quotes')
+    .select('*, quote_items(*)')
+    .eq('id', quoteId)
+    .eq('org_id', profile.org_id)
+    .single();
+
+  if (quoteError || !quote) {
+    throw new Error(quoteError?.message || "Quote not found or you do not have permission to access it.");
+  }
+  if (quote.superseded_at) {
+    throw new Error(`Quote #${quote.quote_number} has already been revised. Only the latest revision can be revised.`);
+  }
+  if (!canReviseQuote(quote)) {
+    throw new Error(`Quote #${quote.quote_number} cannot be revised in status '${quote.status}'.`);
+  }
+
+  const pdfStoragePath = quote.pdf_storage_path || await storeQuotePdf(quote, language);
+
+  // The new revision keeps the validity period of the previous one, counted from today.
+  const today = new Date();
+  const issueDate = parseAsLocalDate(quote.issue_date);
+  const validUntil = parseAsLocalDate(quote.valid_until_date);
+  const validityDays = issueDate && validUntil ? Math.max(differenceInCalendarDays(validUntil, issueDate), 0) : 14;
+  const revisionNumber = (quote.revision_number || 1) + 1;
+
+  // The acceptance link and signature belong to the revision the customer answered.
+  const { id, created_at, quote_number, status, quote_items, superseded_at, pdf_storage_path, public_token, signer_name, signature_storage_path, signature_date, ...rest } = quote;
+  const { data: revision, error: insertError } = await supabase
+    .from('quotes')
+    .insert({
+      ...rest,
+      user_id: profile.id,
+      quote_number: formatRevisionNumber(getBaseQuoteNumber(quote), revisionNumber),
+      status: 'draft' as QuoteStatus,
+      issue_date: format(today, 'yyyy-MM-dd'),
+      valid_until_date: format(addDays(today, validityDays), 'yyyy-MM-dd'),
+      original_quote_id: quote.original_quote_id || quote.id,
+      revision_number: revisionNumber,
+    })
+    .select()
+    .single();
+
+  if (insertError || !revision) {
+    throw new Error(insertError?.message || "Failed to create the quote revision.");
+  }
+
+  const rollback = async () => {
+    await supabase.from('quote_items').delete().eq('quote_id', revision.id);
+    await supabase.from('quotes').delete().eq('id', revision.id);
+  };
+
+  if (quote_items && quote_items.length > 0) {
+    const newItems = (quote_items as QuoteItem[]).map(({ id: itemId, quote_id, ...item }) => ({ ...item, quote_id: revision.id }));
+    const { error: itemsError } = await supabase.from('quote_items').insert(newItems);
+    if (itemsError) {
+      await rollback();
+      throw new Error(itemsError.message || "Failed to copy the quote items.");
+    }
+  }
+
+  // The superseded_at filter makes a concurrent second revision of the same quote fail instead of forking the history.
+  const { data: superseded, error: supersedeError } = await supabase
+    .from('quotes')
+    .update({ superseded_at: new Date().toISOString(), pdf_storage_path: pdfStoragePath })
+    .eq('id', quote.id)
+    .is('superseded_at', null)
+    .select('id');
+
+  if (supersedeError || !superseded || superseded.length === 0) {
+    await rollback();
+    throw new Error(supersedeError?.message || `Quote #${quote.quote_number} has already been revised.`);
+  }
+
+  if (quote.status === 'sent') {
+    await updateReservedStock(quote.id, -1);
+  }
+
+  return revision as Quote;
+};
+
+/**
+ * Makes the previous revision the latest one again after a draft revision has been deleted,
+ * reserving its stock again if it is still sent.
+ * @param deletedRevision The deleted revision.
+ */
+export const reactivatePreviousRevision = async (deletedRevision: Pick<Quote, 'id' | 'original_quote_id' | 'revision_number'>): Promise<void> => {
+  if (!deletedRevision.original_quote_id || (deletedRevision.revision_number || 1) <= 1) return;
+
+  const { data: previous, error } = await supabase
+    .from('quotes')
+    .update({ superseded_at: null })
+    .or(`id.eq.${deletedRevision.original_quote_id},original_quote_id.eq.${deletedRevision.original_quote_id}`)
+    .eq('revision_number', (deletedRevision.revision_number || 1) - 1)
+    .select('id, status');
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  for (const revision of previous || []) {
+    if (revision.status === 'sent') {
+      await updateReservedStock(revision.id, 1);
+    }
+  }
+};
+
+/**
+ * Fetches all revisions of a quote with their items, oldest first.
+ */
+export const getQuoteRevisions = async (quote: Pick<Quote, 'id' | 'original_quote_id'>): Promise<QuoteRevision[]> => {
+  const rootId = quote.original_quote_id || quote.id;
+  const { data, error } = await supabase
+    .from('quotes')
+    .select('*, quote_items(*)')
+    .or(`id.eq.${rootId},original_quote_id.eq.${rootId}`)
+    .order('revision_number', { ascending: true });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data || []) as QuoteRevision[];
+};
+
+// Items are matched by product or expense; free-text items by their description.
+const getItemKey = (item: QuoteItem): string => {
+  if (item.product_id) return `product:${item.product_id}`;
+  if (item.expense_id) return `expense:${item.expense_id}`;
+  return `text:${(item.description || '').trim().toLowerCase()}`;
+};
+
+/**
+ * Compares the items of two revisions. Items of the older revision come first in their order,
+ * followed by the items only contained in the newer revision.
+ */
+export const compareQuoteRevisions = (older: QuoteRevision, newer: QuoteRevision): RevisionItemDiff[] => {
+  const remaining = [...(newer.quote_items || [])];
+  const diffs: RevisionItemDiff[] = (older.quote_items || []).map(olderItem => {
+    const index = remaining.findIndex(item => getItemKey(item) === getItemKey(olderItem));
+    if (index === -1) {
+      return { older: olderItem, change: 'removed', changedFields: [] };
+    }
+    const [newerItem] = remaining.splice(index, 1);
+    const changedFields = COMPARED_FIELDS.filter(field => String(olderItem[field] ?? '') !== String(newerItem[field] ?? ''));
+    return { older: olderItem, newer: newerItem, change: changedFields.length > 0 ? 'changed' : 'unchanged', changedFields };
+  });
+  return [...diffs, ...remaining.map(item => ({ newer: item, change: 'added' as RevisionChange, changedFields: [] }))];
+};
+
+/**
+ * Downloads the PDF of a quote: the stored PDF of a superseded revision, otherwise a freshly generated one.
+ */
+export const downloadQuotePdf = async (quote: Pick<Quote, 'id' | 'quote_number' | 'pdf_storage_path'>, language: Language): Promise<void> => {
+  if (!quote.pdf_storage_path) {
+    await generateDocumentPDF(quote.id, 'quote', language);
+    return;
+  }
+
+  const { data, error } = await supabase.storage.from(QUOTE_DOCUMENTS_BUCKET).download(quote.pdf_storage_path);
+  if (error || !data) {
+    throw new Error(error?.message || "Failed to download the stored PDF.");
+  }
+  const url = URL.createObjectURL(data);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${quote.quote_number}.pdf`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
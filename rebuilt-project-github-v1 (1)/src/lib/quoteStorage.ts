@@ -0,0 +1,13 @@
+import { Quote } from "../types";
+
+// Where the documents of quotes are stored. Shared by the app and the `quote-portal` Edge Function,
+// so this module must not import the browser client.
+export const QUOTE_DOCUMENTS_BUCKET = 'quote-documents';
+export const SIGNATURES_BUCKET = 'signatures';
+
+/**
+ * Returns the storage path of the stored PDF of a quote in the quote-documents bucket.
+ */
+export const getQuotePdfPath = (quote: Pick<Quote, 'id' | 'org_id' | 'quote_number'>): string => {
+  return `${quote.org_id}/${quote.id}/${quote.quote_number}.pdf`;
+};
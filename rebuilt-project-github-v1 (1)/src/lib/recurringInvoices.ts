@@ -0,0 +1,259 @@
+import { supabase } from "../services/supabase";
+import { Invoice, PaymentTerm, RecurrenceInterval, RecurringInvoice } from "../types";
+import { addDays, addMonths, format, subDays } from "date-fns";
+import { generateNextNumber } from "./numberGenerator";
+import { createNotification } from "./notifications";
+import { formatEuropeanDate, parseAsLocalDate, resolvePlaceholders } from "./formatting";
+import generateDocumentPDF from "./pdfGenerator";
+import { applyTaxTreatment, getTaxTreatment } from "./taxTreatment";
+import { calculateDocumentTotals } from "./documentTotals";
+import { calculateDueDate, getPaymentTermFields, getPaymentTerms, resolvePaymentTerm } from "./paymentTerms";
+
+export const RECURRENCE_INTERVALS: RecurrenceInterval[] = ['monthly', 'quarterly', 'half_yearly', 'yearly'];
+
+const INTERVAL_MONTHS: Record<RecurrenceInterval, number> = { monthly: 1, quarterly: 3, half_yearly: 6, yearly: 12 };
+
+// A template that was not run for a long time (e.g. nobody logged in) catches up at most this many periods per run.
+const MAX_CATCH_UP_RUNS = 12;
+
+// Placeholders available in the notes of a template, resolved for every generated invoice.
+export const RECURRING_PLACEHOLDERS = ['[customer.name]', '[document.number]', '[document.date]', '[recurring.period_start]', '[recurring.period_end]'];
+
+// Prevents overlapping runs for the same organization within this browser session.
+const runningOrgs = new Set<string>();
+
+/**
+ * Returns the first scheduled date of a template that lies after the given date.
+ * Dates are always derived from the start date, so a template starting on the 31st
+ * runs on the last day of shorter months without drifting to earlier days afterwards.
+ * @param startDate The first run date of the template ('yyyy-MM-dd').
+ * @param interval The recurrence interval.
+ * @param after The date the next run must follow ('yyyy-MM-dd').
+ * @returns The next run date ('yyyy-MM-dd').
+ */
+export const calculateNextRunDate = (startDate: string, interval: RecurrenceInterval, after: string): string => {
+  const start = parseAsLocalDate(startDate);
+  if (!start) throw new Error(`Invalid start date "${startDate}".`);
+  const months = INTERVAL_MONTHS[interval];
+  let period = 0;
+  let next = start;
+  while (format(next, 'yyyy-MM-dd') <= after) {
+    period++;
+    next = addMonths(start, period * months);
+  }
+  return format(next, 'yyyy-MM-dd');
+};
+
+const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * Creates the invoice for one period of a template. With auto_send the invoice is issued
+ * right away ('sent', stock reserved); otherwise it is created as a draft for review.
+ * @param template The template including its items and customer.
+ * @param runDate The scheduled date of this period ('yyyy-MM-dd'), used as issue date.
+ * @param paymentTerms The payment terms of the organization.
+ * @returns The new invoice.
+ */
+export const createInvoiceFromTemplate = async (template: RecurringInvoice, runDate: string, paymentTerms: PaymentTerm[] = []): Promise<Invoice> => {
+  // Customers with a treatment without German VAT are invoiced at 0%.
+  const taxTreatment = getTaxTreatment(template.customers);
+  const items = applyTaxTreatment(template.recurring_invoice_items || [], taxTreatment);
+  if (items.length === 0) {
+    throw new Error(`Recurring invoice "${template.title}" has no items.`);
+  }
+
+  const issueDate = parseAsLocalDate(runDate)!;
+  const periodEnd = subDays(addMonths(issueDate, INTERVAL_MONTHS[template.interval]), 1);
+  const invoiceNumber = await generateNextNumber(template.org_id, 'invoice');
+  // The customer's payment terms or the organization's default set the due date and Skonto; the template's
+  // payment days only apply if neither has any.
+  const paymentTerm = resolvePaymentTerm(paymentTerms, template.customers);
+  const dueDate = paymentTerm ? calculateDueDate(issueDate, paymentTerm) : addDays(issueDate, template.payment_days);
+  const customerNotes = template.customer_notes
+    ? resolvePlaceholders(template.customer_notes, {
+        customer: template.customers,
+        document: { number: invoiceNumber, date: runDate },
+        recurring: { period_start: formatEuropeanDate(issueDate), period_end: formatEuropeanDate(periodEnd) },
+      })
+    : null;
+  const status = template.auto_send ? 'sent' : 'draft';
+
+  const { data: invoice, error } = await supabase
+    .from('invoices')
+    .insert({
+      org_id: template.org_id,
+      user_id: template.user_id,
+      customer_id: template.customer_id,
+      invoice_number: invoiceNumber,
+      issue_date: runDate,
+      due_date: format(dueDate, 'yyyy-MM-dd'),
+      total_amount: calculateDocumentTotals(items).grandTotal,
+      status,
+      customer_notes: customerNotes,
+      recurring_invoice_id: template.id,
+      tax_treatment: taxTreatment,
+      ...getPaymentTermFields(paymentTerm),
+    })
+    .select()
+    .single();
+
+  if (error || !invoice) {
+    throw new Error(error?.message || "Failed to create invoice.");
+  }
+
+  const { error: itemsError } = await supabase.from('invoice_items').insert(items.map(item => ({
+    invoice_id: invoice.id,
+    product_id: item.product_id || null,
+    description: item.description,
+    quantity: item.quantity,
+    unit_price: item.unit_price,
+    vat_rate: item.vat_rate,
+  })));
+
+  if (itemsError) {
+    // Don't leave an invoice without items behind.
+    await supabase.from('invoices').delete().eq('id', invoice.id);
+    throw new Error(itemsError.message);
+  }
+
+  // Issued invoices reserve their products, just like invoices set to 'sent' in the editor.
+  if (status === 'sent') {
+    const stockUpdates = items
+      .filter(item => item.product_id)
+      .map(item => ({ product_id: item.product_id!, quantity_delta: Number(item.quantity) }));
+    if (stockUpdates.length > 0) {
+      const { error: stockError } = await supabase.rpc('update_stock_levels', { updates: stockUpdates });
+      if (stockError) {
+        console.error(`Stock update for recurring invoice ${invoiceNumber} failed:`, stockError);
+      }
+    }
+  }
+
+  return invoice as Invoice;
+};
+
+/**
+ * Emails a generated invoice to the customer via the `send-document-email` function.
+ */
+const sendRecurringInvoice = async (invoiceId: number, language: 'de' | 'al'): Promise<void> => {
+  const pdfBlob = await generateDocumentPDF(invoiceId, 'invoice', language, 'blob');
+  if (!pdfBlob) throw new Error("Failed to generate PDF blob.");
+
+  const { error } = await supabase.functions.invoke('send-document-email', {
+    body: {
+      document_id: invoiceId,
+      document_type: 'invoice',
+      pdf_base_64: await blobToBase64(pdfBlob),
+    },
+  });
+
+  if (error) {
+    const functionError = error.context?.json?.error;
+    throw new Error(functionError || error.message);
+  }
+};
+
+/**
+ * Generates the invoices of all active templates of an organization whose next run date has been reached.
+ * Each period is claimed by advancing next_run_date before the invoice is created, so several
+ * users opening the app at the same time don't create the same invoice twice.
+ * @param orgId The organization to process.
+ * @param language The language of the emailed PDFs.
+ * @returns The created invoices and the errors of templates that failed.
+ */
+export const runDueRecurringInvoices = async (orgId: string, language: 'de' | 'al' = 'de'): Promise<{ created: Invoice[]; errors: string[] }> => {
+  const created: Invoice[] = [];
+  const errors: string[] = [];
+  if (runningOrgs.has(orgId)) return { created, errors };
+  runningOrgs.add(orgId);
+
+  try {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const [{ data: templates, error }, { data: organization }] = await Promise.all([
+      supabase
+        .from('recurring_invoices')
+        .select('*, customers(id, name, email, tax_treatment, payment_term_id), recurring_invoice_items(*)')
+        .eq('org_id', orgId)
+        .eq('is_active', true)
+        .lte('next_run_date', today),
+      supabase.from('organizations').select('is_email_sending_enabled, payment_terms').eq('id', orgId).single(),
+    ]);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    for (const template of (templates || []) as RecurringInvoice[]) {
+      let runDate = template.next_run_date;
+      let lastRunDate = template.last_run_date || null;
+      for (let run = 0; run < MAX_CATCH_UP_RUNS && runDate <= today; run++) {
+        if (template.end_date && runDate > template.end_date) break;
+
+        const nextRunDate = calculateNextRunDate(template.start_date, template.interval, runDate);
+        const isFinished = !!template.end_date && nextRunDate > template.end_date;
+        const { data: claimed, error: claimError } = await supabase
+          .from('recurring_invoices')
+          .update({ next_run_date: nextRunDate, last_run_date: runDate, is_active: !isFinished })
+          .eq('id', template.id)
+          .eq('next_run_date', runDate)
+          .select('id');
+
+        if (claimError) {
+          errors.push(`${template.title}: ${claimError.message}`);
+          break;
+        }
+        if (!claimed || claimed.length === 0) break; // Another session already handled this period.
+
+        let invoice: Invoice;
+        try {
+          invoice = await createInvoiceFromTemplate(template, runDate, getPaymentTerms(organization));
+        } catch (createError: any) {
+          // Release the period again so the next run retries it.
+          await supabase.from('recurring_invoices').update({ next_run_date: runDate, last_run_date: lastRunDate, is_active: true }).eq('id', template.id);
+          errors.push(`${template.title}: ${createError.message}`);
+          break;
+        }
+        created.push(invoice);
+
+        let wasEmailed = false;
+        if (template.auto_send && organization?.is_email_sending_enabled && template.customers?.email) {
+          try {
+            await sendRecurringInvoice(invoice.id, language);
+            wasEmailed = true;
+          } catch (sendError: any) {
+            errors.push(`${invoice.invoice_number}: ${sendError.message}`);
+          }
+        }
+
+        if (template.user_id) {
+          await createNotification({
+            user_id: template.user_id,
+            org_id: orgId,
+            title: 'recurringInvoiceCreatedTitle',
+            body: JSON.stringify({
+              key: wasEmailed ? 'recurringInvoiceSent' : 'recurringInvoiceCreated',
+              params: { invoiceNumber: invoice.invoice_number, customerName: template.customers?.name || '', title: template.title },
+            }),
+            type: 'generic',
+            related_entity_path: `/invoices/edit/${invoice.id}`,
+            related_entity_id: String(invoice.id),
+          }, supabase);
+        }
+
+        lastRunDate = runDate;
+        runDate = nextRunDate;
+      }
+    }
+  } finally {
+    runningOrgs.delete(orgId);
+  }
+
+  return { created, errors };
+};
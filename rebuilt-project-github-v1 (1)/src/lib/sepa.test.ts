@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { isValidCreditorId, isValidIban, normalizeIban } from './sepa';
+
+describe('isValidIban', () => {
+  it('accepts valid IBANs, with or without spaces', () => {
+    expect(isValidIban('DE89 3704 0044 0532 0130 00')).toBe(true);
+    expect(isValidIban('de89370400440532013000')).toBe(true);
+    expect(isValidIban('GB82WEST12345698765432')).toBe(true);
+  });
+
+  it('rejects IBANs with wrong check digits or a mistyped digit', () => {
+    expect(isValidIban('DE88370400440532013000')).toBe(false);
+    expect(isValidIban('DE89370400440532013001')).toBe(false);
+  });
+
+  it('rejects malformed values', () => {
+    expect(isValidIban('')).toBe(false);
+    expect(isValidIban(null)).toBe(false);
+    expect(isValidIban('DE89')).toBe(false);
+    expect(isValidIban('1289370400440532013000')).toBe(false);
+  });
+});
+
+describe('isValidCreditorId', () => {
+  it('accepts a valid creditor ID', () => {
+    expect(isValidCreditorId('DE98ZZZ09999999999')).toBe(true);
+    expect(isValidCreditorId('de98 zzz0 9999 9999 99')).toBe(true);
+  });
+
+  it('ignores the creditor business code in the checksum', () => {
+    expect(isValidCreditorId('DE98ABC09999999999')).toBe(true);
+  });
+
+  it('rejects wrong check digits and malformed values', () => {
+    expect(isValidCreditorId('DE97ZZZ09999999999')).toBe(false);
+    expect(isValidCreditorId('DE98ZZZ09999999998')).toBe(false);
+    expect(isValidCreditorId('DE98')).toBe(false);
+    expect(isValidCreditorId(undefined)).toBe(false);
+  });
+});
+
+describe('normalizeIban', () => {
+  it('removes spaces and converts to upper case', () => {
+    expect(normalizeIban(' de89 3704 0044 ')).toBe('DE8937040044');
+  });
+});
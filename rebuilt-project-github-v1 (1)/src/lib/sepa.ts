@@ -0,0 +1,242 @@
+import { addDays, format, isWeekend } from "date-fns";
+import { supabase } from "../services/supabase";
+import { Customer, Invoice, Organization } from "../types";
+import { parseAsLocalDate } from "./formatting";
+
+type MandateFields = Pick<Customer, 'name' | 'sepa_mandate_id' | 'sepa_mandate_date' | 'sepa_iban' | 'sepa_bic' | 'sepa_sequence_type'>;
+
+/**
+ * An invoice to be collected by direct debit, with the amount to collect (its open balance).
+ */
+export interface DirectDebitItem {
+  invoice: Invoice & { customers?: Customer | null };
+  amount: number;
+}
+
+const round2 = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+
+const escapeXml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+// SEPA files only allow a restricted character set (German banks additionally accept umlauts and ß).
+const sepaText = (value: string, maxLength: number): string => escapeXml(
+  value.replace(/[^A-Za-z0-9ÄÖÜäöüß/\-?:().,'+ &*$%]/g, ' ').replace(/\s+/g, ' ').trim().slice(0, maxLength)
+);
+
+/**
+ * Removes spaces from an IBAN and converts it to upper case.
+ */
+export const normalizeIban = (iban?: string | null): string => (iban || '').replace(/\s+/g, '').toUpperCase();
+
+// ISO 7064 MOD 97-10 as used by IBANs and creditor IDs; letters count as 10 (A) to 35 (Z).
+const mod97 = (value: string): number => value
+  .split('')
+  .map(char => (/[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char))
+  .join('')
+  .split('')
+  .reduce((remainder, digit) => (remainder * 10 + Number(digit)) % 97, 0);
+
+/**
+ * Checks the format and the check digits of an IBAN.
+ */
+export const isValidIban = (iban?: string | null): boolean => {
+  const value = normalizeIban(iban);
+  return /^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(value) && mod97(value.slice(4) + value.slice(0, 4)) === 1;
+};
+
+/**
+ * Checks the format of a BIC (8 or 11 characters).
+ */
+export const isValidBic = (bic?: string | null): boolean => /^[A-Z]{6}[A-Z0-9]{2}([A-Z0-9]{3})?$/.test((bic || '').replace(/\s+/g, '').toUpperCase());
+
+/**
+ * Checks the format and the check digits of a SEPA creditor ID (Gläubiger-ID, e.g. DE98ZZZ09999999999).
+ * The creditor business code (positions 5-7) is not part of the checksum.
+ */
+export const isValidCreditorId = (creditorId?: string | null): boolean => {
+  const value = normalizeIban(creditorId);
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{3}[A-Z0-9]{1,28}$/.test(value)) return false;
+  return mod97(`${value.slice(7)}${value.slice(0, 2)}${value.slice(2, 4)}`) === 1;
+};
+
+/**
+ * Returns true if the customer has a complete SEPA mandate.
+ */
+export const hasSepaMandate = (customer?: Partial<MandateFields> | null): boolean =>
+  !!customer?.sepa_mandate_id && !!customer.sepa_mandate_date && !!customer.sepa_iban;
+
+/**
+ * Checks the SEPA mandate of a customer. A customer without any mandate data is valid.
+ * @returns A list of error messages; empty if the mandate is valid.
+ */
+export const validateSepaMandate = (customer: Partial<MandateFields>): string[] => {
+  const errors: string[] = [];
+  if (!customer.sepa_mandate_id && !customer.sepa_mandate_date && !customer.sepa_iban && !customer.sepa_bic) return errors;
+  if (!customer.sepa_mandate_id) errors.push("The mandate reference is required.");
+  else if (!/^[A-Za-z0-9+?/\-:().,' ]{1,35}$/.test(customer.sepa_mandate_id)) errors.push("The mandate reference may contain up to 35 letters, digits and +?/-:().,' only.");
+  if (!customer.sepa_mandate_date) errors.push("The date of signature of the mandate is required.");
+  else if (customer.sepa_mandate_date > format(new Date(), 'yyyy-MM-dd')) errors.push("The date of signature must not be in the future.");
+  if (!isValidIban(customer.sepa_iban)) errors.push("The IBAN of the mandate is invalid.");
+  if (customer.sepa_bic && !isValidBic(customer.sepa_bic)) errors.push("The BIC of the mandate is invalid.");
+  return errors;
+};
+
+/**
+ * Returns the earliest possible collection date: SEPA core direct debits have to reach the bank
+ * one business day before they are due, so the next business day after today.
+ */
+export const getEarliestCollectionDate = (today: Date = new Date()): Date => {
+  let date = addDays(today, 1);
+  while (isWeekend(date)) date = addDays(date, 1);
+  return date;
+};
+
+/**
+ * Checks that a direct debit batch can be created: the organization's creditor data, the requested
+ * collection date and a valid mandate and amount for every invoice.
+ * @returns A list of error messages; empty if the batch is valid.
+ */
+export const validateDirectDebitBatch = (
+  org: Pick<Organization, 'company_name' | 'name' | 'iban' | 'bic' | 'sepa_creditor_id'>,
+  items: DirectDebitItem[],
+  collectionDate: string
+): string[] => {
+  const errors: string[] = [];
+  if (!isValidCreditorId(org.sepa_creditor_id)) errors.push("The organization's SEPA creditor ID is missing or invalid.");
+  if (!isValidIban(org.iban)) errors.push("The organization's IBAN is missing or invalid.");
+  if (org.bic && !isValidBic(org.bic)) errors.push("The organization's BIC is invalid.");
+  if (!org.company_name && !org.name) errors.push("The organization's name is missing.");
+  if (items.length === 0) errors.push("No invoices are selected.");
+  if (!collectionDate || collectionDate < format(getEarliestCollectionDate(), 'yyyy-MM-dd')) {
+    errors.push("The collection date must be at least one business day in the future.");
+  }
+  items.forEach(({ invoice, amount }) => {
+    const mandateErrors = hasSepaMandate(invoice.customers) ? validateSepaMandate(invoice.customers!) : ["The customer has no SEPA mandate."];
+    mandateErrors.forEach(error => errors.push(`${invoice.invoice_number}: ${error}`));
+    if (!(amount > 0)) errors.push(`${invoice.invoice_number}: The amount to collect must be greater than zero.`);
+  });
+  return errors;
+};
+
+/**
+ * Builds a SEPA core direct debit file (pain.008.001.08). Invoices are grouped into one payment
+ * information block per sequence type, since first and recurring collections are booked separately.
+ * @param messageId The unique ID of the file (max. 35 characters).
+ */
+export const generatePain008Xml = (
+  org: Pick<Organization, 'company_name' | 'name' | 'iban' | 'bic' | 'sepa_creditor_id'>,
+  items: DirectDebitItem[],
+  collectionDate: string,
+  messageId: string
+): string => {
+  const creditorName = sepaText(org.company_name || org.name, 70);
+  const agent = (bic?: string | null) => bic
+    ? `<FinInstnId><BICFI>${escapeXml(bic.replace(/\s+/g, '').toUpperCase())}</BICFI></FinInstnId>`
+    : '<FinInstnId><Othr><Id>NOTPROVIDED</Id></Othr></FinInstnId>';
+  const controlSum = (batch: DirectDebitItem[]) => round2(batch.reduce((sum, item) => sum + item.amount, 0)).toFixed(2);
+
+  const groups = (['FRST', 'RCUR'] as const)
+    .map(sequenceType => ({ sequenceType, batch: items.filter(item => (item.invoice.customers?.sepa_sequence_type || 'FRST') === sequenceType) }))
+    .filter(group => group.batch.length > 0);
+
+  const paymentInfos = groups.map(({ sequenceType, batch }) => `
+    <PmtInf>
+      <PmtInfId>${escapeXml(`${messageId}-${sequenceType}`)}</PmtInfId>
+      <PmtMtd>DD</PmtMtd>
+      <BtchBookg>true</BtchBookg>
+      <NbOfTxs>${batch.length}</NbOfTxs>
+      <CtrlSum>${controlSum(batch)}</CtrlSum>
+      <PmtTpInf>
+        <SvcLvl><Cd>SEPA</Cd></SvcLvl>
+        <LclInstrm><Cd>CORE</Cd></LclInstrm>
+        <SeqTp>${sequenceType}</SeqTp>
+      </PmtTpInf>
+      <ReqdColltnDt>${collectionDate}</ReqdColltnDt>
+      <Cdtr><Nm>${creditorName}</Nm></Cdtr>
+      <CdtrAcct><Id><IBAN>${normalizeIban(org.iban)}</IBAN></Id></CdtrAcct>
+      <CdtrAgt>${agent(org.bic)}</CdtrAgt>
+      <ChrgBr>SLEV</ChrgBr>
+      <CdtrSchmeId><Id><PrvtId><Othr><Id>${normalizeIban(org.sepa_creditor_id)}</Id><SchmeNm><Prtry>SEPA</Prtry></SchmeNm></Othr></PrvtId></Id></CdtrSchmeId>${batch.map(({ invoice, amount }) => {
+        const customer = invoice.customers!;
+        return `
+      <DrctDbtTxInf>
+        <PmtId><EndToEndId>${sepaText(invoice.invoice_number, 35)}</EndToEndId></PmtId>
+        <InstdAmt Ccy="EUR">${round2(amount).toFixed(2)}</InstdAmt>
+        <DrctDbtTx><MndtRltdInf><MndtId>${sepaText(customer.sepa_mandate_id!, 35)}</MndtId><DtOfSgntr>${customer.sepa_mandate_date}</DtOfSgntr></MndtRltdInf></DrctDbtTx>
+        <DbtrAgt>${agent(customer.sepa_bic)}</DbtrAgt>
+        <Dbtr><Nm>${sepaText(customer.name, 70)}</Nm></Dbtr>
+        <DbtrAcct><Id><IBAN>${normalizeIban(customer.sepa_iban)}</IBAN></Id></DbtrAcct>
+        <RmtInf><Ustrd>${sepaText(`Rechnung ${invoice.invoice_number} vom ${format(parseAsLocalDate(invoice.issue_date)!, 'dd.MM.yyyy')}`, 140)}</Ustrd></RmtInf>
+      </DrctDbtTxInf>`;
+      }).join('')}
+    </PmtInf>`).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:pain.008.001.08" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <CstmrDrctDbtInitn>
+    <GrpHdr>
+      <MsgId>${escapeXml(messageId)}</MsgId>
+      <CreDtTm>${format(new Date(), "yyyy-MM-dd'T'HH:mm:ss")}</CreDtTm>
+      <NbOfTxs>${items.length}</NbOfTxs>
+      <CtrlSum>${controlSum(items)}</CtrlSum>
+      <InitgPty><Nm>${creditorName}</Nm></InitgPty>
+    </GrpHdr>${paymentInfos}
+  </CstmrDrctDbtInitn>
+</Document>
+`;
+};
+
+/**
+ * Marks the given invoices as collected and downloads their pain.008 file. Mandates used for the first
+ * time switch to recurring collections; the file is only downloaded once both updates succeeded.
+ * @returns The message ID of the file.
+ */
+export const createDirectDebitBatch = async (
+  org: Organization,
+  items: DirectDebitItem[],
+  collectionDate: string
+): Promise<string> => {
+  const errors = validateDirectDebitBatch(org, items, collectionDate);
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'));
+  }
+
+  const messageId = `DD-${format(new Date(), 'yyyyMMddHHmmss')}`;
+  const xml = generatePain008Xml(org, items, collectionDate, messageId);
+
+  // The invoices are marked before the file is offered; a file submitted to the bank without the marking
+  // would leave the invoices open for a second collection.
+  const invoiceIds = items.map(item => item.invoice.id);
+  const { error: invoiceError } = await supabase
+    .from('invoices')
+    .update({ sepa_collection_date: collectionDate, sepa_message_id: messageId })
+    .in('id', invoiceIds);
+  if (invoiceError) {
+    throw new Error(invoiceError.message);
+  }
+
+  const firstCollections = Array.from(new Set(items.filter(item => item.invoice.customers?.sepa_sequence_type !== 'RCUR').map(item => item.invoice.customer_id)));
+  if (firstCollections.length > 0) {
+    const { error: customerError } = await supabase.from('customers').update({ sepa_sequence_type: 'RCUR' }).in('id', firstCollections);
+    if (customerError) {
+      await supabase.from('invoices').update({ sepa_collection_date: null, sepa_message_id: null }).in('id', invoiceIds).eq('sepa_message_id', messageId);
+      throw new Error(customerError.message);
+    }
+  }
+
+  const blob = new Blob([xml], { type: 'application/xml' });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.setAttribute('href', url);
+  link.setAttribute('download', `SEPA_Lastschrift_${messageId}.xml`);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+  return messageId;
+};
@@ -0,0 +1,31 @@
+import { addDays, format } from "date-fns";
+import { Invoice } from "../types";
+import { parseAsLocalDate } from "./formatting";
+
+export type SkontoInvoice = Pick<Invoice, 'issue_date' | 'total_amount' | 'skonto_percent' | 'skonto_days'>;
+
+const round2 = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+
+/**
+ * Returns true if the invoice grants Skonto.
+ */
+export const hasSkonto = (invoice: Pick<Invoice, 'skonto_percent' | 'skonto_days'>): boolean => {
+  return Number(invoice.skonto_percent) > 0 && invoice.skonto_days !== null && invoice.skonto_days !== undefined;
+};
+
+/**
+ * Returns the last day on which Skonto may be deducted ('yyyy-MM-dd'), or null if the invoice grants no Skonto.
+ */
+export const getSkontoDeadline = (invoice: Pick<Invoice, 'issue_date' | 'skonto_percent' | 'skonto_days'>): string | null => {
+  const issueDate = parseAsLocalDate(invoice.issue_date);
+  if (!hasSkonto(invoice) || !issueDate) return null;
+  return format(addDays(issueDate, Number(invoice.skonto_days)), 'yyyy-MM-dd');
+};
+
+/**
+ * Calculates the Skonto of an invoice on its gross total, rounded to cents.
+ */
+export const calculateSkontoAmount = (invoice: SkontoInvoice): number => {
+  if (!hasSkonto(invoice)) return 0;
+  return round2((invoice.total_amount || 0) * Number(invoice.skonto_percent) / 100);
+};
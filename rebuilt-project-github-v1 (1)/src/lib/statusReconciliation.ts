@@ -0,0 +1,96 @@
+import { supabase } from "../services/supabase";
+import { format } from "date-fns";
+import { createNotification } from "./notifications";
+import { BILLING_INVOICE_TYPES } from "./cancellation";
+import { getIncludedQuoteItems } from "./quoteOptions";
+
+// The reconciliation runs on app load and periodically; this avoids hammering the database when several tabs mount at once.
+const MIN_INTERVAL_MS = 5 * 60 * 1000;
+const lastRunByOrg = new Map<string, number>();
+
+/**
+ * Moves documents whose deadline has passed to their follow-up status:
+ * sent invoices past their due date become 'overdue', sent quotes past their
+ * validity date become 'expired' (releasing the stock they reserved).
+ * The owner of each document is notified about the transition.
+ * @param orgId The organization to reconcile.
+ * @param force Ignore the minimum interval between two runs.
+ * @returns The number of invoices and quotes that changed status.
+ */
+export const reconcileDocumentStatuses = async (orgId: string, force = false): Promise<{ overdueInvoices: number; expiredQuotes: number }> => {
+  const now = Date.now();
+  if (!force && now - (lastRunByOrg.get(orgId) || 0) < MIN_INTERVAL_MS) {
+    return { overdueInvoices: 0, expiredQuotes: 0 };
+  }
+  lastRunByOrg.set(orgId, now);
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  // 1. Invoices: the status filter in the update makes concurrent runs only report rows they actually changed.
+  const { data: overdueInvoices, error: invoiceError } = await supabase
+    .from('invoices')
+    .update({ status: 'overdue' })
+    .eq('org_id', orgId)
+    .eq('status', 'sent')
+    .in('invoice_type', BILLING_INVOICE_TYPES)
+    .lt('due_date', today)
+    .select('id, invoice_number, user_id, customers(name)');
+
+  if (invoiceError) {
+    throw new Error(invoiceError.message);
+  }
+
+  // 2. Quotes
+  const { data: expiredQuotes, error: quoteError } = await supabase
+    .from('quotes')
+    .update({ status: 'expired' })
+    .eq('org_id', orgId)
+    .eq('status', 'sent')
+    .is('superseded_at', null)
+    .lt('valid_until_date', today)
+    .select('id, quote_number, user_id, customers(name)');
+
+  if (quoteError) {
+    throw new Error(quoteError.message);
+  }
+
+  // 3. Release the stock reserved by the expired quotes
+  if (expiredQuotes && expiredQuotes.length > 0) {
+    const { data: items } = await supabase
+      .from('quote_items')
+      .select('product_id, quantity, is_optional, alternative_group, is_selected')
+      .in('quote_id', expiredQuotes.map(q => q.id))
+      .not('product_id', 'is', null);
+    const stockUpdates = getIncludedQuoteItems(items || []).map(item => ({ product_id: item.product_id!, quantity_delta: -item.quantity }));
+    if (stockUpdates.length > 0) {
+      const { error: stockError } = await supabase.rpc('update_stock_levels', { updates: stockUpdates });
+      if (stockError) {
+        console.error("Stock update for expired quotes failed:", stockError);
+      }
+    }
+  }
+
+  // 4. Notify the document owners
+  await Promise.all([
+    ...(overdueInvoices || []).filter(inv => inv.user_id).map(inv => createNotification({
+      user_id: inv.user_id,
+      org_id: orgId,
+      title: 'invoiceOverdueTitle',
+      body: JSON.stringify({ key: 'invoiceIsNowOverdue', params: { invoiceNumber: inv.invoice_number, customerName: (inv.customers as any)?.name || '' } }),
+      type: 'generic',
+      related_entity_path: `/invoices/edit/${inv.id}`,
+      related_entity_id: String(inv.id),
+    }, supabase)),
+    ...(expiredQuotes || []).filter(quote => quote.user_id).map(quote => createNotification({
+      user_id: quote.user_id,
+      org_id: orgId,
+      title: 'quoteExpiredTitle',
+      body: JSON.stringify({ key: 'quoteHasExpired', params: { quoteNumber: quote.quote_number, customerName: (quote.customers as any)?.name || '' } }),
+      type: 'generic',
+      related_entity_path: `/quotes/edit/${quote.id}`,
+      related_entity_id: String(quote.id),
+    }, supabase)),
+  ]);
+
+  return { overdueInvoices: overdueInvoices?.length || 0, expiredQuotes: expiredQuotes?.length || 0 };
+};
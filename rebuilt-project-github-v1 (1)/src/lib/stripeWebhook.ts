@@ -0,0 +1,236 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { format } from "date-fns";
+import { InvoiceStatus } from "../types";
+import { createNotification } from "./notifications";
+import { recordPayment } from "./payments";
+
+/**
+ * The parts of a Stripe event this handler reads. See https://docs.stripe.com/api/events/object.
+ */
+export interface StripeEvent {
+  id: string;
+  type: string;
+  created: number;
+  livemode?: boolean;
+  data: { object: Record<string, any> };
+}
+
+export interface StripeWebhookResult {
+  status: 'processed' | 'duplicate' | 'ignored';
+  invoiceId?: number;
+  invoiceStatus?: InvoiceStatus;
+  message?: string;
+}
+
+/**
+ * A successful payment extracted from a Stripe event.
+ */
+interface StripePaymentInfo {
+  paymentIntentId: string;
+  amount: number;
+  currency: string;
+  invoiceId: number | null;
+}
+
+// Stripe rejects events whose signature timestamp is older than five minutes to prevent replays; we do the same.
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+const toHex = (buffer: ArrayBuffer): string => Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const hmacSha256 = async (secret: string, value: string): Promise<string> => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(value)));
+};
+
+// Compares in constant time so the signature cannot be guessed byte by byte.
+const safeEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+/**
+ * Builds a `Stripe-Signature` header for a payload, the way Stripe signs webhook requests.
+ * Used by local webhook stand-ins to send events the handler accepts.
+ * @param payload The raw request body.
+ * @param secret The webhook signing secret (whsec_...).
+ * @param timestamp The signing time in Unix seconds; now if omitted.
+ */
+export const buildStripeSignatureHeader = async (payload: string, secret: string, timestamp: number = Math.floor(Date.now() / 1000)): Promise<string> => {
+  return `t=${timestamp},v1=${await hmacSha256(secret, `${timestamp}.${payload}`)}`;
+};
+
+/**
+ * Verifies the `Stripe-Signature` header of a webhook request and parses the event.
+ * Throws if the header is missing or malformed, no signature matches, or the timestamp is outside the tolerance.
+ * @param payload The raw request body, exactly as received.
+ * @param signatureHeader The value of the `Stripe-Signature` header.
+ * @param secret The webhook signing secret (whsec_...).
+ * @param now The current time in Unix seconds.
+ */
+export const verifyStripeEvent = async (payload: string, signatureHeader: string | null, secret: string, now: number = Math.floor(Date.now() / 1000)): Promise<StripeEvent> => {
+  if (!secret) {
+    throw new Error("The webhook signing secret is not configured.");
+  }
+  if (!signatureHeader) {
+    throw new Error("Missing Stripe-Signature header.");
+  }
+
+  const parts = signatureHeader.split(',').map(part => part.trim().split('='));
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+  if (!timestamp || signatures.length === 0) {
+    throw new Error("Malformed Stripe-Signature header.");
+  }
+
+  const expected = await hmacSha256(secret, `${timestamp}.${payload}`);
+  if (!signatures.some(signature => safeEqual(signature, expected))) {
+    throw new Error("Stripe signature does not match the payload.");
+  }
+  if (Math.abs(now - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    throw new Error("Stripe signature timestamp is outside the tolerance.");
+  }
+
+  return JSON.parse(payload) as StripeEvent;
+};
+
+const parseInvoiceId = (metadata?: Record<string, string> | null): number | null => {
+  const invoiceId = Number(metadata?.invoice_id);
+  return Number.isInteger(invoiceId) && invoiceId > 0 ? invoiceId : null;
+};
+
+/**
+ * Extracts the payment of a successful checkout session or payment intent; null for all other events.
+ * Amounts are converted from cents.
+ */
+export const getStripePaymentInfo = (event: StripeEvent): StripePaymentInfo | null => {
+  const object = event.data?.object || {};
+  switch (event.type) {
+    case 'payment_intent.succeeded':
+      return {
+        paymentIntentId: object.id,
+        amount: Number(object.amount_received ?? object.amount) / 100,
+        currency: String(object.currency || '').toUpperCase(),
+        invoiceId: parseInvoiceId(object.metadata),
+      };
+    case 'checkout.session.completed':
+    case 'checkout.session.async_payment_succeeded':
+      // Delayed payment methods complete the session before the money arrives; they send async_payment_succeeded later.
+      if (object.payment_status !== 'paid' || !object.payment_intent) return null;
+      return {
+        paymentIntentId: typeof object.payment_intent === 'string' ? object.payment_intent : object.payment_intent.id,
+        amount: Number(object.amount_total) / 100,
+        currency: String(object.currency || '').toUpperCase(),
+        invoiceId: parseInvoiceId(object.metadata) ?? parseInvoiceId(object.payment_intent?.metadata),
+      };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Books a successful Stripe payment on its invoice and notifies the invoice owner.
+ * The invoice is found by its stripe_payment_intent_id, or by the invoice_id in the event metadata,
+ * in which case the payment intent is stored on it. Stripe delivers events at least once and sends both
+ * a checkout and a payment intent event per payment, so a payment intent is only ever recorded once.
+ * @param client A Supabase client that may read and write all organizations' invoices (service role).
+ * @param event The verified Stripe event.
+ */
+export const handleStripeEvent = async (client: SupabaseClient, event: StripeEvent): Promise<StripeWebhookResult> => {
+  const payment = getStripePaymentInfo(event);
+  if (!payment) {
+    return { status: 'ignored', message: `Event type ${event.type} is not handled.` };
+  }
+  if (payment.currency && payment.currency !== 'EUR') {
+    return { status: 'ignored', message: `Payments in ${payment.currency} are not supported.` };
+  }
+
+  let { data: invoice, error } = await client
+    .from('invoices')
+    .select('id, org_id, user_id, invoice_number, status, stripe_payment_intent_id, customers(name)')
+    .eq('stripe_payment_intent_id', payment.paymentIntentId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+
+  if (!invoice && payment.invoiceId) {
+    ({ data: invoice, error } = await client
+      .from('invoices')
+      .select('id, org_id, user_id, invoice_number, status, stripe_payment_intent_id, customers(name)')
+      .eq('id', payment.invoiceId)
+      .maybeSingle());
+    if (error) throw new Error(error.message);
+  }
+  if (!invoice) {
+    return { status: 'ignored', message: `No invoice found for payment intent ${payment.paymentIntentId}.` };
+  }
+
+  const { data: existingPayments, error: paymentsError } = await client
+    .from('invoice_payments')
+    .select('id')
+    .eq('invoice_id', invoice.id)
+    .eq('method', 'stripe')
+    .eq('reference', payment.paymentIntentId);
+  if (paymentsError) throw new Error(paymentsError.message);
+  if (existingPayments && existingPayments.length > 0) {
+    return { status: 'duplicate', invoiceId: invoice.id, invoiceStatus: invoice.status };
+  }
+
+  if (invoice.stripe_payment_intent_id !== payment.paymentIntentId) {
+    const { error: updateError } = await client.from('invoices').update({ stripe_payment_intent_id: payment.paymentIntentId }).eq('id', invoice.id);
+    if (updateError) throw new Error(updateError.message);
+  }
+
+  const { status } = await recordPayment(invoice, {
+    amount: payment.amount,
+    payment_date: format(new Date(event.created * 1000), 'yyyy-MM-dd'),
+    method: 'stripe',
+    reference: payment.paymentIntentId,
+  }, null, client);
+
+  if (invoice.user_id) {
+    await createNotification({
+      user_id: invoice.user_id,
+      org_id: invoice.org_id,
+      title: 'invoicePaidOnlineTitle',
+      body: JSON.stringify({ key: 'invoicePaidOnline', params: { invoiceNumber: invoice.invoice_number, customerName: (invoice.customers as any)?.name || '', amount: payment.amount.toFixed(2) } }),
+      type: 'generic',
+      related_entity_path: `/invoices/edit/${invoice.id}`,
+      related_entity_id: String(invoice.id),
+    }, client);
+  }
+
+  return { status: 'processed', invoiceId: invoice.id, invoiceStatus: status };
+};
+
+const jsonResponse = (body: unknown, status: number): Response =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+/**
+ * Handles a Stripe webhook request end to end; this is the body of the `stripe-webhook` Edge Function.
+ * Invalid signatures are answered with 400, processing errors with 500 so that Stripe retries the event.
+ * @param request The incoming request.
+ * @param client A Supabase client with the service role.
+ * @param secret The webhook signing secret (whsec_...).
+ */
+export const handleStripeWebhookRequest = async (request: Request, client: SupabaseClient, secret: string): Promise<Response> => {
+  if (request.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const payload = await request.text();
+  let event: StripeEvent;
+  try {
+    event = await verifyStripeEvent(payload, request.headers.get('Stripe-Signature'), secret);
+  } catch (error: any) {
+    return jsonResponse({ error: error.message }, 400);
+  }
+
+  try {
+    return jsonResponse(await handleStripeEvent(client, event), 200);
+  } catch (error: any) {
+    console.error(`Stripe webhook ${event.id} failed:`, error.message);
+    return jsonResponse({ error: error.message }, 500);
+  }
+};
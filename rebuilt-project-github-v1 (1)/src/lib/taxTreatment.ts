@@ -0,0 +1,58 @@
+import { Customer, Invoice, TaxTreatment } from "../types";
+import { translations } from "../constants";
+
+export const TAX_TREATMENTS: TaxTreatment[] = ['domestic', 'reverse_charge', 'intra_eu', 'export', 'small_business'];
+
+const translate = (key: string, language: 'de' | 'al'): string =>
+  (translations[language] as Record<string, string>)[key] || (translations.de as Record<string, string>)[key] || key;
+
+/**
+ * Returns the tax treatment of an invoice or customer; records without one are taxed domestically.
+ */
+export const getTaxTreatment = (record?: { tax_treatment?: TaxTreatment | null } | null): TaxTreatment => record?.tax_treatment || 'domestic';
+
+/**
+ * Returns true if no German VAT is charged under the tax treatment, so all lines have a VAT rate of 0%.
+ */
+export const isTaxFree = (treatment?: TaxTreatment | null): boolean => !!treatment && treatment !== 'domestic';
+
+/**
+ * Returns true if the invoice has to state the customer's VAT ID (§13b reverse charge and intra-community supplies).
+ */
+export const requiresCustomerVatId = (treatment?: TaxTreatment | null): boolean => treatment === 'reverse_charge' || treatment === 'intra_eu';
+
+/**
+ * Sets the VAT rate of all lines to 0% if the tax treatment is tax-free; otherwise returns the lines unchanged.
+ */
+export const applyTaxTreatment = <T extends { vat_rate?: number | null }>(items: T[], treatment?: TaxTreatment | null): T[] => {
+  if (!isTaxFree(treatment)) return items;
+  return items.map(item => (Number(item.vat_rate) === 0 ? item : { ...item, vat_rate: 0 }));
+};
+
+/**
+ * Checks that an invoice meets the requirements of its tax treatment.
+ * @returns A list of error messages; empty if the invoice is valid.
+ */
+export const validateTaxTreatment = (
+  invoice: Pick<Invoice, 'tax_treatment'>,
+  items: { vat_rate?: number | null }[],
+  customer?: Pick<Customer, 'vat_id'> | null
+): string[] => {
+  const treatment = getTaxTreatment(invoice);
+  const errors: string[] = [];
+  if (isTaxFree(treatment) && items.some(item => Number(item.vat_rate) !== 0)) {
+    errors.push("Invoices without German VAT must not contain items with a VAT rate.");
+  }
+  if (requiresCustomerVatId(treatment) && !customer?.vat_id?.trim()) {
+    errors.push("The customer's VAT ID is required for reverse-charge and intra-community invoices.");
+  }
+  return errors;
+};
+
+/**
+ * Returns the legal wording that has to be printed on invoices of the tax treatment, or null for domestic invoices.
+ */
+export const getTaxTreatmentNote = (treatment: TaxTreatment | null | undefined, language: 'de' | 'al' = 'de'): string | null => {
+  if (!isTaxFree(treatment)) return null;
+  return translate(`taxNote_${treatment}`, language);
+};
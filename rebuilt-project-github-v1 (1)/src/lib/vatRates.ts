@@ -0,0 +1,75 @@
+import { format } from "date-fns";
+import { DatevSettings, Organization, VatRate } from "../types";
+import { parseAsLocalDate } from "./formatting";
+
+// The German rates, used until an organization saves its own catalogue. Their DATEV accounts are taken
+// from the former per-rate DATEV settings, so existing exports keep working.
+const getDefaultCatalogue = (datevSettings?: DatevSettings | null): VatRate[] => [
+  { id: 'standard', label: 'Regelsatz', rate: 19, is_default: true, datev_account: datevSettings?.revenue_19 || null, datev_bu_key: '3', datev_input_bu_key: '9' },
+  { id: 'reduced', label: 'Ermäßigt', rate: 7, datev_account: datevSettings?.revenue_7 || null, datev_bu_key: '2', datev_input_bu_key: '8' },
+  { id: 'zero', label: 'Steuerfrei', rate: 0, datev_account: datevSettings?.revenue_0 || null, datev_bu_key: null, datev_input_bu_key: null },
+];
+
+const toDay = (date?: Date | string | null): string => format(parseAsLocalDate(date) || new Date(), 'yyyy-MM-dd');
+
+/**
+ * Returns the VAT rate catalogue of an organization, or the German default rates if it has none.
+ */
+export const getVatRates = (org?: Pick<Organization, 'vat_rates' | 'datev_settings'> | null): VatRate[] => {
+  return org?.vat_rates && org.vat_rates.length > 0 ? org.vat_rates : getDefaultCatalogue(org?.datev_settings);
+};
+
+/**
+ * Returns true if the VAT rate applies on the given day (today if omitted).
+ */
+export const isVatRateValidOn = (vatRate: VatRate, date?: Date | string | null): boolean => {
+  const day = toDay(date);
+  return (!vatRate.valid_from || vatRate.valid_from <= day) && (!vatRate.valid_to || day <= vatRate.valid_to);
+};
+
+/**
+ * Returns the rates that can be selected on a document dated on the given day, highest first.
+ * Rates already used on the document stay selectable, so older documents can still be edited.
+ * @param rates The VAT rate catalogue.
+ * @param date The document date.
+ * @param usedRates The rates of the document's lines.
+ */
+export const getVatRateOptions = (rates: VatRate[], date?: Date | string | null, usedRates: (number | null | undefined)[] = []): number[] => {
+  const options = new Set(rates.filter(rate => isVatRateValidOn(rate, date)).map(rate => Number(rate.rate)));
+  usedRates.forEach(rate => {
+    if (rate !== null && rate !== undefined && !isNaN(Number(rate))) options.add(Number(rate));
+  });
+  return Array.from(options).sort((a, b) => b - a);
+};
+
+/**
+ * Returns the rate preselected for new lines on the given day: the default rate, otherwise the highest valid rate.
+ */
+export const getDefaultVatRate = (rates: VatRate[], date?: Date | string | null): number => {
+  const validRates = rates.filter(rate => isVatRateValidOn(rate, date));
+  const defaultRate = validRates.find(rate => rate.is_default)
+    || validRates.reduce<VatRate | undefined>((highest, rate) => (!highest || Number(rate.rate) > Number(highest.rate) ? rate : highest), undefined);
+  return defaultRate ? Number(defaultRate.rate) : 0;
+};
+
+/**
+ * Finds the catalogue entry of a rate on the given day, falling back to any entry with that rate.
+ */
+export const findVatRate = (rates: VatRate[], rate: number, date?: Date | string | null): VatRate | undefined => {
+  const matching = rates.filter(vatRate => Number(vatRate.rate) === Number(rate));
+  return matching.find(vatRate => isVatRateValidOn(vatRate, date)) || matching[0];
+};
+
+/**
+ * Checks a VAT rate catalogue before saving.
+ * @returns A list of error messages; empty if the catalogue is valid.
+ */
+export const validateVatRates = (rates: VatRate[]): string[] => {
+  const errors: string[] = [];
+  rates.forEach(rate => {
+    const name = rate.label || `${rate.rate}%`;
+    if (isNaN(Number(rate.rate)) || Number(rate.rate) < 0 || Number(rate.rate) >= 100) errors.push(`${name}: the rate must be between 0 and 100%.`);
+    if (rate.valid_from && rate.valid_to && rate.valid_from > rate.valid_to) errors.push(`${name}: the validity ends before it starts.`);
+  });
+  return errors;
+};
@@ -212,7 +212,7 @@ const AppointmentsPage: React.FC = () => {
                 type: 'new_appointment',
                 related_entity_path: '/appointments',
                 related_entity_id: savedAppt.id.toString(),
-            });
+            }, supabase);
         }
         
         await fetchAppointments();
@@ -0,0 +1,272 @@
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { supabase } from '../services/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useRefresh } from '../contexts/RefreshContext';
+import { useTabs } from '../contexts/TabContext';
+import { useNotifications } from '../contexts/NotificationContext';
+import { BankTransaction, BankTransactionStatus } from '../types';
+import { ArrowUpTrayIcon, CheckIcon, EyeSlashIcon, ArrowUturnLeftIcon } from '@heroicons/react/24/outline';
+import { BankMatchCandidate, confirmBankMatch, findMatchCandidates, importBankTransactions, OpenInvoice, proposeMatch, readBankStatementFile, setBankTransactionIgnored } from '../lib/bankImport';
+import { calculateOpenBalance } from '../lib/payments';
+import { formatEuropeanDate } from '../lib/formatting';
+import { BILLING_INVOICE_TYPES } from '../lib/cancellation';
+
+const BankReconciliationPage: React.FC = () => {
+  const { user, profile } = useAuth();
+  const { t } = useLanguage();
+  const { refreshKey } = useRefresh();
+  const { openTab } = useTabs();
+  const { addToast } = useNotifications();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [transactions, setTransactions] = useState<BankTransaction[]>([]);
+  const [openInvoices, setOpenInvoices] = useState<OpenInvoice[]>([]);
+  const [statusFilter, setStatusFilter] = useState<BankTransactionStatus>('open');
+  const [assignments, setAssignments] = useState<Map<number, number>>(new Map());
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const canManage = profile?.role !== 'field_service_employee';
+
+  const fetchData = useCallback(async () => {
+    if (!profile?.org_id) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+
+    const [{ data: transactionData, error }, { data: invoiceData }] = await Promise.all([
+      supabase
+        .from('bank_transactions')
+        .select('*, invoices:invoice_id(id, invoice_number)')
+        .eq('org_id', profile.org_id)
+        .eq('status', statusFilter)
+        .order('booking_date', { ascending: false }),
+      supabase
+        .from('invoices')
+        .select('*, customers:customers!inner(id, name), invoice_payments(amount, skonto_amount)')
+        .eq('org_id', profile.org_id)
+        .in('invoice_type', BILLING_INVOICE_TYPES)
+        .in('status', ['sent', 'overdue'])
+        .order('invoice_number', { ascending: true }),
+    ]);
+
+    if (error) {
+      addToast({ title: 'Error', body: `Failed to fetch bank transactions: ${error.message}`, type: 'error' });
+      setLoading(false);
+      return;
+    }
+
+    const invoices = ((invoiceData || []) as OpenInvoice[]).filter(invoice => calculateOpenBalance(invoice, invoice.invoice_payments || []) > 0);
+    const queued = (transactionData || []) as BankTransaction[];
+    // Proposed matches are preselected; an invoice is proposed for one credit only.
+    const proposals = new Map<number, number>();
+    queued.filter(transaction => transaction.status === 'open').forEach(transaction => {
+      const proposal = proposeMatch(findMatchCandidates(transaction, invoices));
+      if (proposal && !Array.from(proposals.values()).includes(proposal.invoice.id)) proposals.set(transaction.id, proposal.invoice.id);
+    });
+    setTransactions(queued);
+    setOpenInvoices(invoices);
+    setAssignments(proposals);
+    setSelectedIds(new Set(proposals.keys()));
+    setLoading(false);
+  }, [profile, statusFilter, addToast]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData, refreshKey]);
+
+  const candidatesByTransaction = useMemo(() => {
+    const candidates = new Map<number, BankMatchCandidate[]>();
+    transactions.forEach(transaction => candidates.set(transaction.id, findMatchCandidates(transaction, openInvoices)));
+    return candidates;
+  }, [transactions, openInvoices]);
+
+  const selectedTransactions = useMemo(() => transactions.filter(transaction => selectedIds.has(transaction.id) && assignments.has(transaction.id)), [transactions, selectedIds, assignments]);
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file || !profile?.org_id) return;
+    setIsProcessing(true);
+    try {
+      const parsed = await readBankStatementFile(file);
+      const imported = await importBankTransactions(parsed, profile.org_id, user?.id || null);
+      addToast({
+        title: t('bankStatementImported'),
+        body: t('bankStatementImportedMessage').replace('{count}', String(parsed.length)).replace('{new}', String(imported.length)),
+        type: 'success',
+      });
+      setStatusFilter('open');
+      await fetchData();
+    } catch (error: any) {
+      addToast({ title: 'Error', body: error.message, type: 'error' });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleAssign = (transactionId: number, invoiceId: string) => {
+    setAssignments(prev => {
+      const next = new Map(prev);
+      if (invoiceId) next.set(transactionId, Number(invoiceId));
+      else next.delete(transactionId);
+      return next;
+    });
+    setSelectedIds(prev => new Set(prev).add(transactionId));
+  };
+
+  const toggleSelected = (transactionId: number) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(transactionId)) next.delete(transactionId);
+      else next.add(transactionId);
+      return next;
+    });
+  };
+
+  const executeReconciliation = async () => {
+    setIsProcessing(true);
+    let matchedCount = 0;
+    let paidCount = 0;
+    const failures: string[] = [];
+
+    // Credits are booked one by one so a single failure does not stop the others.
+    for (const transaction of selectedTransactions) {
+      const invoice = openInvoices.find(inv => inv.id === assignments.get(transaction.id));
+      if (!invoice) continue;
+      try {
+        const status = await confirmBankMatch(transaction, invoice, user?.id || null);
+        matchedCount++;
+        if (status === 'paid') paidCount++;
+      } catch (error: any) {
+        failures.push(`${invoice.invoice_number}: ${error.message}`);
+      }
+    }
+
+    if (matchedCount > 0) {
+      addToast({ title: t('bankReconciliation'), body: t('bankMatchesConfirmed').replace('{count}', String(matchedCount)).replace('{paid}', String(paidCount)), type: 'success' });
+    }
+    if (failures.length > 0) {
+      addToast({ title: 'Error', body: failures.join('\n'), type: 'error' });
+    }
+
+    setIsProcessing(false);
+    await fetchData();
+  };
+
+  const handleSetIgnored = async (transactionId: number, ignored: boolean) => {
+    try {
+      await setBankTransactionIgnored(transactionId, ignored);
+      setTransactions(prev => prev.filter(transaction => transaction.id !== transactionId));
+    } catch (error: any) {
+      addToast({ title: 'Error', body: error.message, type: 'error' });
+    }
+  };
+
+  const thClass = "px-4 py-3 text-left text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider border-b-2 border-gray-200 dark:border-gray-700";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{t('bankReconciliation')}</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">{t('bankReconciliationDescription')}</p>
+        </div>
+        {canManage && (
+          <div className="flex gap-2 mt-4 sm:mt-0">
+            <button onClick={() => fileInputRef.current?.click()} disabled={isProcessing} className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50 dark:bg-gray-700 dark:text-gray-200 dark:border-gray-600 disabled:opacity-50">
+              <ArrowUpTrayIcon className="w-5 h-5 mr-2" /> {t('importBankStatement')}
+            </button>
+            <input ref={fileInputRef} type="file" accept=".xml,.sta,.mt940,.940,.txt,application/xml,text/xml,text/plain" onChange={handleImport} className="hidden" />
+            {statusFilter === 'open' && (
+              <button onClick={executeReconciliation} disabled={isProcessing || selectedTransactions.length === 0} className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-md shadow-sm hover:bg-primary-700 disabled:bg-primary-300">
+                <CheckIcon className="w-5 h-5 mr-2" /> {isProcessing ? t('processing') : `${t('confirmBankMatches')} (${selectedTransactions.length})`}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="p-4 bg-white rounded-lg shadow-md dark:bg-gray-800 flex items-center gap-4">
+        <select value={statusFilter} onChange={e => setStatusFilter(e.target.value as BankTransactionStatus)} className="p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600">
+          {(['open', 'matched', 'ignored'] as BankTransactionStatus[]).map(status => <option key={status} value={status}>{t(`bankTransactionStatus_${status}`)}</option>)}
+        </select>
+        <span className="text-sm text-gray-500 dark:text-gray-400">{t('bankImportFormatsHint')}</span>
+      </div>
+
+      {loading ? <div className="p-6 text-center text-gray-500">{t('loading')}</div> : (
+        <div className="bg-white rounded-lg shadow-md dark:bg-gray-800 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full">
+              <thead>
+                <tr>
+                  {statusFilter === 'open' && <th className={thClass}></th>}
+                  <th className={thClass}>{t('bookingDate')}</th>
+                  <th className={thClass}>{t('payer')}</th>
+                  <th className={thClass}>{t('paymentReference')}</th>
+                  <th className={`${thClass} text-right`}>{t('amount')}</th>
+                  <th className={thClass}>{t('invoice')}</th>
+                  <th className={`${thClass} text-right`}>{t('actions')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {transactions.length > 0 ? transactions.map(transaction => {
+                  const candidates = candidatesByTransaction.get(transaction.id) || [];
+                  const assignedCandidate = candidates.find(candidate => candidate.invoice.id === assignments.get(transaction.id));
+                  const otherInvoices = openInvoices.filter(invoice => !candidates.some(candidate => candidate.invoice.id === invoice.id));
+                  return (
+                    <tr key={transaction.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 border-b border-gray-200 dark:border-gray-700 text-sm align-top">
+                      {statusFilter === 'open' && <td className="px-4 py-3">{canManage && assignments.has(transaction.id) && <input type="checkbox" checked={selectedIds.has(transaction.id)} onChange={() => toggleSelected(transaction.id)} className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"/>}</td>}
+                      <td className="px-4 py-3 whitespace-nowrap text-gray-500 dark:text-gray-400">{formatEuropeanDate(transaction.booking_date)}</td>
+                      <td className="px-4 py-3">
+                        <span className="font-medium">{transaction.counterparty_name || '-'}</span>
+                        {transaction.counterparty_iban && <span className="block text-xs text-gray-500">{transaction.counterparty_iban}</span>}
+                      </td>
+                      <td className="px-4 py-3 max-w-xs break-words text-gray-600 dark:text-gray-300">{transaction.reference || '-'}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-right font-medium text-green-600">{transaction.currency === 'EUR' ? '€' : `${transaction.currency} `}{transaction.amount.toFixed(2)}</td>
+                      <td className="px-4 py-3 min-w-[16rem]">
+                        {transaction.status === 'open' ? (
+                          <>
+                            <select value={assignments.get(transaction.id) ?? ''} onChange={e => handleAssign(transaction.id, e.target.value)} disabled={!canManage} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600">
+                              <option value="">{t('noInvoiceAssigned')}</option>
+                              {candidates.length > 0 && (
+                                <optgroup label={t('suggestedInvoices')}>
+                                  {candidates.map(candidate => <option key={candidate.invoice.id} value={candidate.invoice.id}>{candidate.invoice.invoice_number} – {candidate.invoice.customers?.name} (€{candidate.openBalance.toFixed(2)})</option>)}
+                                </optgroup>
+                              )}
+                              <optgroup label={t('otherOpenInvoices')}>
+                                {otherInvoices.map(invoice => <option key={invoice.id} value={invoice.id}>{invoice.invoice_number} – {invoice.customers?.name} (€{calculateOpenBalance(invoice, invoice.invoice_payments || []).toFixed(2)})</option>)}
+                              </optgroup>
+                            </select>
+                            {assignedCandidate && (
+                              <div className="flex flex-wrap gap-1 mt-1">
+                                {assignedCandidate.reasons.map(reason => <span key={reason} className="px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300">{t(`bankMatchReason_${reason}`)}</span>)}
+                              </div>
+                            )}
+                          </>
+                        ) : transaction.invoices ? (
+                          <button onClick={() => openTab({ path: `/invoices/edit/${transaction.invoices!.id}`, label: transaction.invoices!.invoice_number })} className="font-medium text-primary-600 hover:underline">{transaction.invoices.invoice_number}</button>
+                        ) : '-'}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-right">
+                        {canManage && transaction.status === 'open' && <button onClick={() => handleSetIgnored(transaction.id, true)} title={t('ignoreBankTransaction')}><EyeSlashIcon className="w-5 h-5 inline-block text-gray-500 hover:text-gray-700"/></button>}
+                        {canManage && transaction.status === 'ignored' && <button onClick={() => handleSetIgnored(transaction.id, false)} title={t('restoreBankTransaction')}><ArrowUturnLeftIcon className="w-5 h-5 inline-block text-gray-500 hover:text-gray-700"/></button>}
+                      </td>
+                    </tr>
+                  );
+                }) : (
+                  <tr><td colSpan={7} className="p-4 text-center text-gray-500">{t('noBankTransactions')}</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BankReconciliationPage;
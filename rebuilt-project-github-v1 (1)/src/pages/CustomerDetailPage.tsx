@@ -5,14 +5,16 @@ import { useAuth } from '../contexts/AuthContext';
 import { useLanguage } from '../contexts/LanguageContext';
 import { useRefresh } from '../contexts/RefreshContext';
 import { useTabs } from '../contexts/TabContext';
-import { Customer, Visit, VisitStatus, Invoice, Quote, Appointment, CustomerDocument, EmailLog } from '../types';
-import { ArrowLeftIcon, BuildingOffice2Icon, EnvelopeIcon, PhoneIcon, DocumentTextIcon, DocumentPlusIcon, BriefcaseIcon, CalendarDaysIcon, PencilIcon, PlusIcon, PaperClipIcon, ArrowDownTrayIcon, TrashIcon, BellIcon, BellSlashIcon } from '@heroicons/react/24/outline';
+import { Customer, Visit, VisitStatus, Invoice, Quote, Appointment, CustomerDocument, EmailLog, DunningNotice } from '../types';
+import { ArrowLeftIcon, BuildingOffice2Icon, EnvelopeIcon, PhoneIcon, DocumentTextIcon, DocumentPlusIcon, BriefcaseIcon, CalendarDaysIcon, PencilIcon, PlusIcon, PaperClipIcon, ArrowDownTrayIcon, TrashIcon, BellIcon, BellSlashIcon, BellAlertIcon } from '@heroicons/react/24/outline';
 import { formatEuropeanDate, formatEuropeanTime, parseAsLocalDate } from '../lib/formatting';
+import { getDunningLevelName } from '../lib/dunning';
+import { getInvoiceStatusLabelKey } from '../lib/cancellation';
 import CustomerModal from '../components/modals/CustomerModal';
 
 type TimelineItem = {
     id: string;
-    type: 'invoice' | 'quote' | 'visit' | 'appointment' | 'email';
+    type: 'invoice' | 'quote' | 'visit' | 'appointment' | 'email' | 'dunning';
     date: Date;
     title: string;
     details: string | React.ReactNode;
@@ -24,14 +26,14 @@ type TimelineItem = {
     icon: React.ElementType;
 };
 
-type ActiveTab = 'all' | 'invoices' | 'quotes' | 'visits' | 'appointments' | 'emails';
+type ActiveTab = 'all' | 'invoices' | 'quotes' | 'visits' | 'appointments' | 'emails' | 'dunning';
 
 const CustomerDetailPage: React.FC = () => {
   const location = useLocation();
   const params = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { profile, user } = useAuth();
-  const { t } = useLanguage();
+  const { t, language } = useLanguage();
   const { refreshKey } = useRefresh();
   const { openTab, updateTabLabel } = useTabs();
 
@@ -51,6 +53,7 @@ const CustomerDetailPage: React.FC = () => {
   const [quotes, setQuotes] = useState<Quote[]>([]);
   const [appointments, setAppointments] = useState<Appointment[]>([]);
   const [emailLogs, setEmailLogs] = useState<EmailLog[]>([]);
+  const [dunningNotices, setDunningNotices] = useState<DunningNotice[]>([]);
   const [documents, setDocuments] = useState<CustomerDocument[]>([]);
   
   const [activeTab, setActiveTab] = useState<ActiveTab>('all');
@@ -123,6 +126,7 @@ const CustomerDetailPage: React.FC = () => {
         { data: appointmentsData },
         { data: documentsData },
         { data: emailLogsData },
+        { data: dunningNoticesData },
     ] = await Promise.all([
         supabase.from('visits').select('*, profiles:assigned_employee_id(full_name)').eq('customer_id', customerId),
         supabase.from('invoices').select('*').eq('customer_id', customerId),
@@ -130,6 +134,7 @@ const CustomerDetailPage: React.FC = () => {
         supabase.from('appointments').select('*').eq('customer_id', customerId),
         isDocFeatureEnabled ? supabase.from('customer_documents').select('*').eq('customer_id', customerId).order('created_at', { ascending: false }) : Promise.resolve({ data: [] }),
         supabase.from('email_logs').select('*, sent_by:sent_by_user_id!left(full_name)').eq('customer_id', customerId),
+        supabase.from('dunning_notices').select('*, invoices(id, invoice_number)').eq('customer_id', customerId),
     ]);
     
     setVisits(visitsData || []);
@@ -138,6 +143,7 @@ const CustomerDetailPage: React.FC = () => {
     setAppointments(appointmentsData || []);
     setDocuments(documentsData || []);
     setEmailLogs(emailLogsData || []);
+    setDunningNotices((dunningNoticesData as DunningNotice[]) || []);
     setLoading(false);
   }, [id, profile, navigate, instancePath, updateTabLabel]);
 
@@ -157,25 +163,40 @@ const CustomerDetailPage: React.FC = () => {
     const combinedItems: TimelineItem[] = [];
     const visitStatusColors: { [key in VisitStatus]: string } = { planned: 'blue', completed: 'green', cancelled: 'red' };
 
+    // Source document references: invoices point to their quote and visit, visits to their quote.
+    const linkButton = (path: string, label: string, text: string) => (
+        <button key={path} onClick={() => openTab({ path, label })} className="text-primary-600 hover:underline">{text}</button>
+    );
+    const withLinks = (details: string, prefix: string, links: React.ReactNode[]) => links.length === 0 ? details : (
+        <>{details} &bull; {prefix} {links.map((link, index) => <React.Fragment key={index}>{index > 0 && ', '}{link}</React.Fragment>)}</>
+    );
+    const quoteLink = (quoteId?: number | null) => {
+        const quote = quoteId ? quotes.find(q => q.id === quoteId) : undefined;
+        return quote ? [linkButton(`/quotes/edit/${quote.id}`, quote.quote_number, `${t('quote')} #${quote.quote_number}`)] : [];
+    };
+
     visits.forEach(v => {
         const parsedDate = parseAsLocalDate(v.start_time);
         if (parsedDate) {
-            combinedItems.push({ id: `vis-${v.id}`, type: 'visit', date: parsedDate, title: `${t('visits')} #${v.visit_number}`, details: `${(v as any).profiles?.full_name || t('unassignedVisits')} at ${v.location || 'N/A'}`, path: `/visits/edit/${v.id}`, label: v.visit_number, status: t(v.status), statusColor: visitStatusColors[v.status], icon: BriefcaseIcon });
+            combinedItems.push({ id: `vis-${v.id}`, type: 'visit', date: parsedDate, title: `${t('visits')} #${v.visit_number}`, details: withLinks(`${(v as any).profiles?.full_name || t('unassignedVisits')} at ${v.location || 'N/A'}`, t('createdFrom'), quoteLink(v.quote_id)), path: `/visits/edit/${v.id}`, label: v.visit_number, status: t(v.status), statusColor: visitStatusColors[v.status], icon: BriefcaseIcon });
         }
     });
 
-    const docStatusColors = { draft: 'yellow', sent: 'blue', accepted: 'green', declined: 'red', paid: 'green', overdue: 'red' };
+    const docStatusColors = { draft: 'yellow', sent: 'blue', accepted: 'green', declined: 'red', expired: 'red', paid: 'green', overdue: 'red', cancelled: 'gray' };
     invoices.forEach(i => {
         const parsedDate = parseAsLocalDate(i.issue_date);
         if (parsedDate) {
-            combinedItems.push({ id: `inv-${i.id}`, type: 'invoice', date: parsedDate, title: `${t('invoice')} #${i.invoice_number}`, details: `Total: €${i.total_amount.toFixed(2)}`, path: `/invoices/edit/${i.id}`, label: i.invoice_number, status: t(i.status as any), statusColor: docStatusColors[i.status], icon: DocumentTextIcon });
+            const visit = i.visit_id ? visits.find(v => v.id === i.visit_id) : undefined;
+            const sources = [...quoteLink(i.quote_id), ...(visit ? [linkButton(`/visits/edit/${visit.id}`, visit.visit_number, `${t('visit')} #${visit.visit_number}`)] : [])];
+            combinedItems.push({ id: `inv-${i.id}`, type: 'invoice', date: parsedDate, title: `${i.invoice_type && i.invoice_type !== 'invoice' ? t(`invoice_type_${i.invoice_type}` as any) : t('invoice')} #${i.invoice_number}`, details: withLinks(`Total: €${i.total_amount.toFixed(2)}`, t('createdFrom'), sources), path: `/invoices/edit/${i.id}`, label: i.invoice_number, status: t(getInvoiceStatusLabelKey(i.status) as any), statusColor: docStatusColors[i.status], icon: DocumentTextIcon });
         }
     });
 
     quotes.forEach(q => {
         const parsedDate = parseAsLocalDate(q.issue_date);
         if(parsedDate) {
-            combinedItems.push({ id: `quo-${q.id}`, type: 'quote', date: parsedDate, title: `${t('quote')} #${q.quote_number}`, details: `Total: €${q.total_amount.toFixed(2)}`, path: `/quotes/edit/${q.id}`, label: q.quote_number, status: t(q.status as any), statusColor: docStatusColors[q.status], icon: DocumentPlusIcon });
+            const derived = invoices.filter(i => i.quote_id === q.id).map(i => linkButton(`/invoices/edit/${i.id}`, i.invoice_number, `${t('invoice')} #${i.invoice_number}`));
+            combinedItems.push({ id: `quo-${q.id}`, type: 'quote', date: parsedDate, title: `${t('quote')} #${q.quote_number}`, details: withLinks(`Total: €${q.total_amount.toFixed(2)}`, t('convertedTo'), derived), path: `/quotes/edit/${q.id}`, label: q.quote_number, status: t(q.status as any), statusColor: docStatusColors[q.status], icon: DocumentPlusIcon });
         }
     });
     
@@ -195,14 +216,24 @@ const CustomerDetailPage: React.FC = () => {
                 case 'invoice': path = `/invoices/edit/${log.related_document_id}`; label = `Invoice`; break;
                 case 'quote': path = `/quotes/edit/${log.related_document_id}`; label = `Quote`; break;
                 case 'visit_reminder': path = `/visits/edit/${log.related_document_id}`; label = `Visit`; break;
+                case 'dunning': path = `/invoices/edit/${log.related_document_id}`; label = `Invoice`; break;
             }
-            combinedItems.push({ id: `email-${log.id}`, type: 'email', date: parsedDate, title: log.subject, details: <span className="capitalize">{t('sentBy')}: {(log as any).sent_by?.full_name || t('system')} &bull; {log.document_type.replace('_', ' ')}</span>, path: path, label: label, status: 'Sent', statusColor: 'gray', icon: EnvelopeIcon });
+            const title = log.document_type === 'dunning' && log.dunning_level ? `${getDunningLevelName(log.dunning_level, language)}: ${log.subject}` : log.subject;
+            combinedItems.push({ id: `email-${log.id}`, type: 'email', date: parsedDate, title, details: <span className="capitalize">{t('sentBy')}: {(log as any).sent_by?.full_name || t('system')} &bull; {log.document_type.replace('_', ' ')}</span>, path: path, label: label, status: 'Sent', statusColor: 'gray', icon: EnvelopeIcon });
+        }
+    });
+    
+    dunningNotices.forEach(notice => {
+        const parsedDate = parseAsLocalDate(notice.notice_date);
+        if (parsedDate && notice.invoices) {
+            const totalDue = Number(notice.open_balance) + Number(notice.fee) + Number(notice.interest);
+            combinedItems.push({ id: `dun-${notice.id}`, type: 'dunning', date: parsedDate, title: `${getDunningLevelName(notice.level, language)} - ${t('invoice')} #${notice.invoices.invoice_number}`, details: `${t('totalDue')}: €${totalDue.toFixed(2)} \u2022 ${t('paymentDeadline')}: ${formatEuropeanDate(notice.payment_deadline)}`, path: `/invoices/edit/${notice.invoice_id}`, label: notice.invoices.invoice_number, status: notice.sent_via_email ? t('sentViaEmail') : undefined, statusColor: 'red', icon: BellAlertIcon });
         }
     });
     
     combinedItems.sort((a, b) => b.date.getTime() - a.date.getTime());
     return combinedItems;
-  }, [appointments, invoices, quotes, visits, emailLogs, t]);
+  }, [appointments, invoices, quotes, visits, emailLogs, dunningNotices, t, language, openTab]);
   
   const handleSaveNotes = async () => {
     if (!customer || !canEditNotes) return;
@@ -286,6 +317,9 @@ const CustomerDetailPage: React.FC = () => {
     if (activeTab === 'emails') {
         return timelineItems.filter(item => item.type === 'email');
     }
+    if (activeTab === 'dunning') {
+        return timelineItems.filter(item => item.type === 'dunning');
+    }
     const type = activeTab.slice(0, -1) as TimelineItem['type'];
     return timelineItems.filter(item => item.type === type);
   }, [activeTab, timelineItems]);
@@ -299,9 +333,10 @@ const CustomerDetailPage: React.FC = () => {
     { id: 'quotes', label: t('quotes') }, 
     { id: 'visits', label: t('visits') }, 
     { id: 'appointments', label: t('appointments') },
-    { id: 'emails', label: t('emails') }
+    { id: 'emails', label: t('emails') },
+    { id: 'dunning', label: t('dunning') }
   ];
-  const typeColors: Record<TimelineItem['type'], string> = { visit: 'bg-purple-100 dark:bg-purple-900/50', invoice: 'bg-green-100 dark:bg-green-900/50', quote: 'bg-sky-100 dark:bg-sky-900/50', appointment: 'bg-teal-100 dark:bg-teal-900/50', email: 'bg-gray-100 dark:bg-gray-700' };
+  const typeColors: Record<TimelineItem['type'], string> = { visit: 'bg-purple-100 dark:bg-purple-900/50', invoice: 'bg-green-100 dark:bg-green-900/50', quote: 'bg-sky-100 dark:bg-sky-900/50', appointment: 'bg-teal-100 dark:bg-teal-900/50', email: 'bg-gray-100 dark:bg-gray-700', dunning: 'bg-red-100 dark:bg-red-900/50' };
 
   return (
     <div className="space-y-8">
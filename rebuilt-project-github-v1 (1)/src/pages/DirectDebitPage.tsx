@@ -0,0 +1,188 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '../services/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useRefresh } from '../contexts/RefreshContext';
+import { useTabs } from '../contexts/TabContext';
+import { useNotifications } from '../contexts/NotificationContext';
+import { Customer, Invoice, Organization } from '../types';
+import { BanknotesIcon } from '@heroicons/react/24/outline';
+import { createDirectDebitBatch, DirectDebitItem, getEarliestCollectionDate } from '../lib/sepa';
+import { calculateOpenBalance } from '../lib/payments';
+import { formatEuropeanDate } from '../lib/formatting';
+import { BILLING_INVOICE_TYPES } from '../lib/cancellation';
+import { format } from 'date-fns';
+import DatePicker from '../components/ui/DatePicker';
+import ConfirmModal from '../components/modals/ConfirmModal';
+
+const DirectDebitPage: React.FC = () => {
+  const { profile } = useAuth();
+  const { t } = useLanguage();
+  const { refreshKey } = useRefresh();
+  const { openTab } = useTabs();
+  const { addToast } = useNotifications();
+
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [items, setItems] = useState<DirectDebitItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [showCollected, setShowCollected] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [collectionDate, setCollectionDate] = useState<Date | null>(getEarliestCollectionDate());
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+
+  const canManage = profile?.role !== 'field_service_employee';
+
+  const fetchItems = useCallback(async () => {
+    if (!profile?.org_id) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+
+    const [{ data: org }, { data: invoices, error }] = await Promise.all([
+      supabase.from('organizations').select('*').eq('id', profile.org_id).single(),
+      supabase
+        .from('invoices')
+        .select('*, customers:customers!inner(*), invoice_payments(amount, skonto_amount)')
+        .eq('org_id', profile.org_id)
+        .in('invoice_type', BILLING_INVOICE_TYPES)
+        .in('status', ['sent', 'overdue'])
+        .not('customers.sepa_mandate_id', 'is', null)
+        .order('due_date', { ascending: true }),
+    ]);
+
+    if (error) {
+      addToast({ title: 'Error', body: `Failed to fetch invoices: ${error.message}`, type: 'error' });
+      setLoading(false);
+      return;
+    }
+
+    const openItems = (invoices || [])
+      .map((invoice: any) => ({ invoice: invoice as Invoice & { customers: Customer }, amount: calculateOpenBalance(invoice, invoice.invoice_payments || []) }))
+      .filter(item => item.amount > 0);
+    setOrganization(org);
+    setItems(openItems);
+    setSelectedIds(new Set(openItems.filter(item => !item.invoice.sepa_collection_date).map(item => item.invoice.id)));
+    setLoading(false);
+  }, [profile, addToast]);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems, refreshKey]);
+
+  const visibleItems = useMemo(() => showCollected ? items : items.filter(item => !item.invoice.sepa_collection_date), [items, showCollected]);
+  const selectedItems = useMemo(() => items.filter(item => !item.invoice.sepa_collection_date && selectedIds.has(item.invoice.id)), [items, selectedIds]);
+  const selectedTotal = selectedItems.reduce((sum, item) => sum + item.amount, 0);
+
+  const toggleSelected = (invoiceId: number) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(invoiceId)) next.delete(invoiceId);
+      else next.add(invoiceId);
+      return next;
+    });
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(visibleItems.filter(item => !item.invoice.sepa_collection_date).map(item => item.invoice.id)) : new Set());
+  };
+
+  const executeExport = async () => {
+    if (!organization || !collectionDate) return;
+    setIsConfirmOpen(false);
+    setIsProcessing(true);
+    try {
+      const messageId = await createDirectDebitBatch(organization, selectedItems, format(collectionDate, 'yyyy-MM-dd'));
+      addToast({ title: t('directDebits'), body: t('directDebitExported').replace('{count}', String(selectedItems.length)).replace('{id}', messageId), type: 'success' });
+      await fetchItems();
+    } catch (error: any) {
+      addToast({ title: 'Error', body: error.message, type: 'error' });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const thClass = "px-4 py-3 text-left text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider border-b-2 border-gray-200 dark:border-gray-700";
+  const selectableItems = visibleItems.filter(item => !item.invoice.sepa_collection_date);
+  const allVisibleSelected = selectableItems.length > 0 && selectableItems.every(item => selectedIds.has(item.invoice.id));
+
+  return (
+    <>
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{t('directDebits')}</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">{t('directDebitsDescription')}</p>
+        </div>
+        {canManage && (
+          <button onClick={() => setIsConfirmOpen(true)} disabled={isProcessing || selectedItems.length === 0 || !collectionDate} className="mt-4 sm:mt-0 inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-md shadow-sm hover:bg-primary-700 disabled:bg-primary-300">
+            <BanknotesIcon className="w-5 h-5 mr-2" /> {isProcessing ? t('processing') : `${t('createDirectDebitFile')} (${selectedItems.length})`}
+          </button>
+        )}
+      </div>
+
+      <div className="p-4 bg-white rounded-lg shadow-md dark:bg-gray-800 flex flex-col sm:flex-row sm:items-center gap-4">
+        <div className="flex items-center gap-2">
+          <label className="text-sm font-medium text-gray-700 dark:text-gray-300 whitespace-nowrap">{t('collectionDate')}</label>
+          <div className="w-40"><DatePicker selected={collectionDate} onChange={setCollectionDate} /></div>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+          <input type="checkbox" checked={showCollected} onChange={e => setShowCollected(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"/>
+          {t('showCollectedInvoices')}
+        </label>
+        {!organization?.sepa_creditor_id && !loading && <span className="text-sm text-yellow-700 dark:text-yellow-300">{t('sepaCreditorIdMissing')}</span>}
+      </div>
+
+      {loading ? <div className="p-6 text-center text-gray-500">{t('loading')}</div> : (
+        <div className="bg-white rounded-lg shadow-md dark:bg-gray-800 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full">
+              <thead>
+                <tr>
+                  <th className={thClass}>{canManage && <input type="checkbox" checked={allVisibleSelected} onChange={e => toggleAll(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"/>}</th>
+                  <th className={thClass}>{t('invoice_number')}</th>
+                  <th className={thClass}>{t('customer')}</th>
+                  <th className={thClass}>{t('due_date')}</th>
+                  <th className={thClass}>{t('sepaMandateId')}</th>
+                  <th className={thClass}>IBAN</th>
+                  <th className={thClass}>{t('sepaSequenceType')}</th>
+                  <th className={`${thClass} text-right`}>{t('openBalance')}</th>
+                  <th className={thClass}>{t('collectionDate')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleItems.length > 0 ? visibleItems.map(({ invoice, amount }) => (
+                  <tr key={invoice.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 border-b border-gray-200 dark:border-gray-700 text-sm">
+                    <td className="px-4 py-3">{canManage && !invoice.sepa_collection_date && <input type="checkbox" checked={selectedIds.has(invoice.id)} onChange={() => toggleSelected(invoice.id)} className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"/>}</td>
+                    <td className="px-4 py-3 whitespace-nowrap"><button onClick={() => openTab({ path: `/invoices/edit/${invoice.id}`, label: invoice.invoice_number })} className="font-medium text-primary-600 hover:underline">{invoice.invoice_number}</button></td>
+                    <td className="px-4 py-3 whitespace-nowrap"><button onClick={() => openTab({ path: `/customers/${invoice.customer_id}`, label: invoice.customers?.name || '' })} className="text-primary-600 hover:underline">{invoice.customers?.name}</button></td>
+                    <td className="px-4 py-3 whitespace-nowrap text-gray-500 dark:text-gray-400">{formatEuropeanDate(invoice.due_date)}</td>
+                    <td className="px-4 py-3 whitespace-nowrap">{invoice.customers?.sepa_mandate_id}</td>
+                    <td className="px-4 py-3 whitespace-nowrap font-mono text-xs">{invoice.customers?.sepa_iban}</td>
+                    <td className="px-4 py-3 whitespace-nowrap">{invoice.customers?.sepa_sequence_type || 'FRST'}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-right font-medium">€{amount.toFixed(2)}</td>
+                    <td className="px-4 py-3 whitespace-nowrap">{invoice.sepa_collection_date ? <span className="px-2 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300">{formatEuropeanDate(invoice.sepa_collection_date)}</span> : '-'}</td>
+                  </tr>
+                )) : (
+                  <tr><td colSpan={9} className="p-4 text-center text-gray-500">{t('noDirectDebitInvoices')}</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+    <ConfirmModal
+      isOpen={isConfirmOpen}
+      onClose={() => setIsConfirmOpen(false)}
+      onConfirm={executeExport}
+      title={t('createDirectDebitFile')}
+      message={t('confirmDirectDebitMessage').replace('{count}', String(selectedItems.length)).replace('{total}', `€${selectedTotal.toFixed(2)}`).replace('{date}', formatEuropeanDate(collectionDate))}
+      confirmText={t('createDirectDebitFile')}
+    />
+    </>
+  );
+};
+
+export default DirectDebitPage;
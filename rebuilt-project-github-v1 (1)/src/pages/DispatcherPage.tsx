@@ -1,4 +1,5 @@
 import React, { useState, useEffect, useCallback, useMemo, DragEvent } from 'react';
+import { useLocation } from 'react-router-dom';
 import { supabase } from '../services/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { useLanguage } from '../contexts/LanguageContext';
@@ -35,10 +36,14 @@ const DispatcherPage: React.FC = () => {
     const { openTab } = useTabs();
     const { openAppointmentModal, openTaskModal } = useModal();
     const { addToast } = useNotifications();
+    const location = useLocation();
 
     // State
     const [employees, setEmployees] = useState<Profile[]>([]);
     const [activities, setActivities] = useState<Activity[]>([]);
+    // Planned visits without an employee, e.g. scheduled from a quote; they are assigned by dragging them onto the grid.
+    const [unassignedVisits, setUnassignedVisits] = useState<Activity[]>([]);
+    const [highlightedVisitId, setHighlightedVisitId] = useState<number | null>(null);
     const [customers, setCustomers] = useState<Customer[]>([]);
     const [loading, setLoading] = useState(true);
     const [currentDate, setCurrentDate] = useState(new Date());
@@ -97,11 +102,13 @@ const DispatcherPage: React.FC = () => {
         const [
             { data: visitsData },
             { data: tasksData },
-            { data: appointmentsData }
+            { data: appointmentsData },
+            { data: unassignedVisitsData }
         ] = await Promise.all([
             supabase.from('visits').select('*, customers(name)').eq('org_id', profile.org_id).gte('start_time', start.toISOString()).lte('start_time', end.toISOString()),
             supabase.from('tasks').select('*, customers(name)').eq('org_id', profile.org_id).gte('start_time', start.toISOString()).lte('start_time', end.toISOString()),
             supabase.from('appointments').select('*, customers(name)').eq('org_id', profile.org_id).lte('start_time', end.toISOString()).gte('end_time', start.toISOString()),
+            supabase.from('visits').select('*, customers(name)').eq('org_id', profile.org_id).is('assigned_employee_id', null).eq('status', 'planned').order('start_time', { ascending: true }),
         ]);
 
         const combined: Activity[] = [
@@ -111,12 +118,21 @@ const DispatcherPage: React.FC = () => {
         ];
 
         setActivities(combined);
+        setUnassignedVisits((unassignedVisitsData || []).map(v => ({ ...v, activity_type: 'visit' as const })));
         setLoading(false);
     }, [profile?.org_id, visibleDateRange]);
 
     useEffect(() => {
         fetchData();
-    }, [fetchData, refreshKey]);
+    }, [fetchData, refreshKey, highlightedVisitId]);
+
+    // A visit scheduled elsewhere (e.g. from a quote) opens the dispatcher at its date, highlighted and ready to assign.
+    useEffect(() => {
+        const state = location.state as { scheduledVisitId?: number; scheduledVisitDate?: string } | null;
+        if (location.pathname !== '/dispatcher' || !state?.scheduledVisitId) return;
+        setHighlightedVisitId(state.scheduledVisitId);
+        if (state.scheduledVisitDate) setCurrentDate(new Date(state.scheduledVisitDate));
+    }, [location.pathname, location.state]);
 
     // Component for a single activity card
     const ActivityCard: React.FC<{ activity: Activity, onDragStart: (e: DragEvent<HTMLDivElement>, activityId: string, type: 'visit' | 'task' | 'appointment') => void }> = ({ activity, onDragStart }) => {
@@ -169,7 +185,7 @@ const DispatcherPage: React.FC = () => {
           draggable
           onDragStart={(e) => onDragStart(e, String(activity.id), activity.activity_type)}
           onClick={handleClick}
-          className="p-2 bg-white dark:bg-gray-800 border-l-4 border-primary-500 rounded-md shadow-sm cursor-grab hover:shadow-md transition-shadow"
+          className={`p-2 bg-white dark:bg-gray-800 border-l-4 border-primary-500 rounded-md shadow-sm cursor-grab hover:shadow-md transition-shadow ${activity.activity_type === 'visit' && activity.id === highlightedVisitId ? 'ring-2 ring-primary-400' : ''}`}
         >
           <div className="flex justify-between items-start">
             <p className="font-semibold text-sm truncate pr-2 flex items-center gap-x-2">
@@ -203,7 +219,7 @@ const DispatcherPage: React.FC = () => {
         
         const updateData: { [key: string]: any } = { [assignmentField]: newAssigneeId };
 
-        const originalActivity = activities.find(a => a.id.toString() === activityId && a.activity_type === activityType);
+        const originalActivity = [...activities, ...unassignedVisits].find(a => a.id.toString() === activityId && a.activity_type === activityType);
         if (originalActivity) {
             const originalDate = new Date(originalActivity.start_time as string);
             const duration = (originalActivity.end_time ? new Date(originalActivity.end_time).getTime() : originalDate.getTime()) - originalDate.getTime();
@@ -287,7 +303,7 @@ const DispatcherPage: React.FC = () => {
                     type: 'new_task',
                     related_entity_path: '/tasks',
                     related_entity_id: savedTask.id,
-                });
+                }, supabase);
             }
             fetchData(); 
             handleCloseTaskModal(); 
@@ -497,6 +513,15 @@ const DispatcherPage: React.FC = () => {
                         ))}
                     </div>
                 </div>
+
+                {unassignedVisits.length > 0 && (
+                    <div className="w-64 shrink-0 border-l dark:border-gray-700 overflow-y-auto p-2">
+                        <h4 className="text-sm font-semibold mb-2">{t('unassignedVisits')} ({unassignedVisits.length})</h4>
+                        <div className="space-y-2">
+                            {unassignedVisits.map(visit => <ActivityCard key={`unassigned-${visit.id}`} activity={visit} onDragStart={handleDragStart} />)}
+                        </div>
+                    </div>
+                )}
             </div>
             
             {/* Employee Filter Footer */}
@@ -0,0 +1,226 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '../services/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useRefresh } from '../contexts/RefreshContext';
+import { useTabs } from '../contexts/TabContext';
+import { useNotifications } from '../contexts/NotificationContext';
+import { DunningSettings, Invoice } from '../types';
+import { ArrowDownTrayIcon, BellAlertIcon } from '@heroicons/react/24/outline';
+import { buildDunningCandidate, createDunningNotice, DunningCandidate, getDunningLevelName, getDunningSettings, sendDunningNotice } from '../lib/dunning';
+import { generateDunningPDF } from '../lib/pdfGenerator';
+import { formatEuropeanDate } from '../lib/formatting';
+import { BILLING_INVOICE_TYPES } from '../lib/cancellation';
+import { format } from 'date-fns';
+import ConfirmModal from '../components/modals/ConfirmModal';
+
+const DunningPage: React.FC = () => {
+  const { profile } = useAuth();
+  const { t, language } = useLanguage();
+  const { refreshKey } = useRefresh();
+  const { openTab } = useTabs();
+  const { addToast } = useNotifications();
+
+  const [candidates, setCandidates] = useState<DunningCandidate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [showOnlyDue, setShowOnlyDue] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [emailSendingEnabled, setEmailSendingEnabled] = useState(false);
+  const [isConfirmRunOpen, setIsConfirmRunOpen] = useState(false);
+
+  const canManage = profile?.role !== 'field_service_employee';
+
+  const fetchCandidates = useCallback(async () => {
+    if (!profile?.org_id) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const [{ data: org }, { data: invoices, error }] = await Promise.all([
+      supabase.from('organizations').select('dunning_settings, is_email_sending_enabled').eq('id', profile.org_id).single(),
+      supabase
+        .from('invoices')
+        .select('*, customers:customers!inner(id, name, email, customer_number), organizations:organizations!inner(name, company_name), invoice_payments(amount, skonto_amount), dunning_notices(id, level, notice_date, fee)')
+        .eq('org_id', profile.org_id)
+        .in('invoice_type', BILLING_INVOICE_TYPES)
+        .in('status', ['sent', 'overdue'])
+        .lt('due_date', today)
+        .order('due_date', { ascending: true }),
+    ]);
+
+    if (error) {
+      addToast({ title: 'Error', body: `Failed to fetch invoices: ${error.message}`, type: 'error' });
+      setLoading(false);
+      return;
+    }
+
+    const settings = getDunningSettings(org?.dunning_settings as DunningSettings | null);
+    setEmailSendingEnabled(org?.is_email_sending_enabled || false);
+    const evaluated = (invoices || [])
+      .map((invoice: any) => buildDunningCandidate(invoice as Invoice, invoice.invoice_payments || [], invoice.dunning_notices || [], settings))
+      .filter(candidate => candidate.openBalance > 0);
+    setCandidates(evaluated);
+    setSelectedIds(new Set(evaluated.filter(c => c.nextLevel).map(c => c.invoice.id)));
+    setLoading(false);
+  }, [profile, addToast]);
+
+  useEffect(() => {
+    fetchCandidates();
+  }, [fetchCandidates, refreshKey]);
+
+  const visibleCandidates = useMemo(() => showOnlyDue ? candidates.filter(c => c.nextLevel) : candidates, [candidates, showOnlyDue]);
+  const selectedCandidates = useMemo(() => candidates.filter(c => c.nextLevel && selectedIds.has(c.invoice.id)), [candidates, selectedIds]);
+
+  const toggleSelected = (invoiceId: number) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(invoiceId)) next.delete(invoiceId);
+      else next.add(invoiceId);
+      return next;
+    });
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(visibleCandidates.filter(c => c.nextLevel).map(c => c.invoice.id)) : new Set());
+  };
+
+  const executeDunningRun = async () => {
+    if (!profile) return;
+    setIsConfirmRunOpen(false);
+    setIsProcessing(true);
+
+    let sentCount = 0;
+    let printedCount = 0;
+    const failures: string[] = [];
+
+    // Invoices are processed one by one so a single failure does not stop the whole run.
+    for (const candidate of selectedCandidates) {
+      try {
+        const notice = await createDunningNotice(candidate, profile, language);
+        if (emailSendingEnabled && candidate.invoice.customers?.email) {
+          await sendDunningNotice(notice, language);
+          sentCount++;
+        } else {
+          await generateDunningPDF(notice.id, language);
+          printedCount++;
+        }
+      } catch (error: any) {
+        failures.push(`${candidate.invoice.invoice_number}: ${error.message}`);
+      }
+    }
+
+    if (sentCount + printedCount > 0) {
+      addToast({ title: t('dunningRun'), body: t('dunningRunCompleted').replace('{sent}', String(sentCount)).replace('{printed}', String(printedCount)), type: 'success' });
+    }
+    if (failures.length > 0) {
+      addToast({ title: 'Error', body: failures.join('\n'), type: 'error' });
+    }
+
+    setIsProcessing(false);
+    await fetchCandidates();
+  };
+
+  const handleDownloadNotice = async (noticeId: number) => {
+    try {
+      await generateDunningPDF(noticeId, language);
+    } catch (error: any) {
+      addToast({ type: 'error', title: 'PDF Error', body: error.message });
+    }
+  };
+
+  const thClass = "px-4 py-3 text-left text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider border-b-2 border-gray-200 dark:border-gray-700";
+  const allVisibleSelected = visibleCandidates.some(c => c.nextLevel) && visibleCandidates.filter(c => c.nextLevel).every(c => selectedIds.has(c.invoice.id));
+
+  return (
+    <>
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{t('dunningRun')}</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">{t('dunningRunDescription')}</p>
+        </div>
+        {canManage && (
+          <button onClick={() => setIsConfirmRunOpen(true)} disabled={isProcessing || selectedCandidates.length === 0} className="mt-4 sm:mt-0 inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-md shadow-sm hover:bg-primary-700 disabled:bg-primary-300">
+            <BellAlertIcon className="w-5 h-5 mr-2" /> {isProcessing ? t('processing') : `${t('startDunningRun')} (${selectedCandidates.length})`}
+          </button>
+        )}
+      </div>
+
+      <div className="p-4 bg-white rounded-lg shadow-md dark:bg-gray-800 flex items-center gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+          <input type="checkbox" checked={showOnlyDue} onChange={e => setShowOnlyDue(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"/>
+          {t('showOnlyDueDunning')}
+        </label>
+        {!emailSendingEnabled && <span className="text-sm text-yellow-700 dark:text-yellow-300">{t('dunningEmailDisabledHint')}</span>}
+      </div>
+
+      {loading ? <div className="p-6 text-center text-gray-500">{t('loading')}</div> : (
+        <div className="bg-white rounded-lg shadow-md dark:bg-gray-800 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full">
+              <thead>
+                <tr>
+                  <th className={thClass}>{canManage && <input type="checkbox" checked={allVisibleSelected} onChange={e => toggleAll(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"/>}</th>
+                  <th className={thClass}>{t('invoice_number')}</th>
+                  <th className={thClass}>{t('customer')}</th>
+                  <th className={thClass}>{t('due_date')}</th>
+                  <th className={thClass}>{t('daysOverdue')}</th>
+                  <th className={`${thClass} text-right`}>{t('openBalance')}</th>
+                  <th className={thClass}>{t('currentDunningLevel')}</th>
+                  <th className={thClass}>{t('nextDunningLevel')}</th>
+                  <th className={`${thClass} text-right`}>{t('dunningFees')}</th>
+                  <th className={`${thClass} text-right`}>{t('dunningInterest')}</th>
+                  <th className={`${thClass} text-right`}>{t('totalDue')}</th>
+                  <th className={`${thClass} text-right`}>{t('actions')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleCandidates.length > 0 ? visibleCandidates.map(candidate => {
+                  const { invoice } = candidate;
+                  const lastNotice = candidate.notices.find(n => n.level === candidate.currentLevel);
+                  return (
+                    <tr key={invoice.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 border-b border-gray-200 dark:border-gray-700 text-sm">
+                      <td className="px-4 py-3">{canManage && candidate.nextLevel && <input type="checkbox" checked={selectedIds.has(invoice.id)} onChange={() => toggleSelected(invoice.id)} className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"/>}</td>
+                      <td className="px-4 py-3 whitespace-nowrap"><button onClick={() => openTab({ path: `/invoices/edit/${invoice.id}`, label: invoice.invoice_number })} className="font-medium text-primary-600 hover:underline">{invoice.invoice_number}</button></td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <button onClick={() => openTab({ path: `/customers/${invoice.customer_id}`, label: invoice.customers?.name || '' })} className="text-primary-600 hover:underline">{invoice.customers?.name}</button>
+                        {!invoice.customers?.email && <span className="block text-xs text-gray-500">{t('noEmailAddress')}</span>}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-gray-500 dark:text-gray-400">{formatEuropeanDate(invoice.due_date)}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-red-600">{candidate.daysOverdue}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-right">€{candidate.openBalance.toFixed(2)}</td>
+                      <td className="px-4 py-3 whitespace-nowrap">{candidate.currentLevel > 0 ? `${getDunningLevelName(candidate.currentLevel, language)} (${formatEuropeanDate(lastNotice?.notice_date)})` : '-'}</td>
+                      <td className="px-4 py-3 whitespace-nowrap">{candidate.nextLevel ? <span className="px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-300">{getDunningLevelName(candidate.nextLevel.level, language)}</span> : <span className="text-gray-500">{t('dunningNotDue')}</span>}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-right">€{candidate.fees.toFixed(2)}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-right">€{candidate.interest.toFixed(2)}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-right font-medium">€{(candidate.openBalance + candidate.fees + candidate.interest).toFixed(2)}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-right">
+                        {lastNotice && <button onClick={() => handleDownloadNotice(lastNotice.id)} title={t('downloadPDF')}><ArrowDownTrayIcon className="w-5 h-5 inline-block text-gray-500 hover:text-gray-700"/></button>}
+                      </td>
+                    </tr>
+                  );
+                }) : (
+                  <tr><td colSpan={12} className="p-4 text-center text-gray-500">{t('noDunningCandidates')}</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+    <ConfirmModal
+      isOpen={isConfirmRunOpen}
+      onClose={() => setIsConfirmRunOpen(false)}
+      onConfirm={executeDunningRun}
+      title={t('startDunningRun')}
+      message={t('confirmDunningRunMessage').replace('{count}', String(selectedCandidates.length))}
+      confirmText={t('startDunningRun')}
+    />
+    </>
+  );
+};
+
+export default DunningPage;
@@ -4,9 +4,13 @@ import { useAuth } from '../contexts/AuthContext';
 import { useLanguage } from '../contexts/LanguageContext';
 import { useRefresh } from '../contexts/RefreshContext';
 import { useNotifications } from '../contexts/NotificationContext';
-import { Expense } from '../types';
+import { Expense, ExpenseStatus } from '../types';
 import ExpenseModal from '../components/modals/ExpenseModal';
-import { PlusIcon, PencilIcon, TrashIcon, ChevronUpIcon, ChevronDownIcon, DocumentDuplicateIcon } from '@heroicons/react/24/outline';
+import EInvoiceViewerModal from '../components/modals/EInvoiceViewerModal';
+import RejectExpenseModal from '../components/modals/RejectExpenseModal';
+import { EXPENSE_ATTACHMENTS_BUCKET } from '../lib/eInvoiceImport';
+import { canApproveExpenses, notifyExpenseSubmitted, openExpenseAttachment, setExpenseStatus } from '../lib/expenseApproval';
+import { PlusIcon, PencilIcon, TrashIcon, ChevronUpIcon, ChevronDownIcon, DocumentDuplicateIcon, DocumentMagnifyingGlassIcon, PaperClipIcon, CheckCircleIcon, XCircleIcon, BanknotesIcon } from '@heroicons/react/24/outline';
 import { formatEuropeanDate } from '../lib/formatting';
 import { generateNextNumber } from '../lib/numberGenerator';
 import { format } from 'date-fns';
@@ -14,8 +18,16 @@ import Pagination from '../components/ui/Pagination';
 import ConfirmModal from '../components/modals/ConfirmModal';
 
 type SortConfig = { key: string; direction: 'asc' | 'desc' };
+type ExpenseView = 'all' | 'approvalQueue';
 const ITEMS_PER_PAGE = 20;
 
+const statusColors: { [key in ExpenseStatus]: string } = {
+  submitted: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-300 border border-yellow-300/50',
+  approved: 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-300 border border-blue-300/50',
+  rejected: 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-300 border border-red-300/50',
+  reimbursed: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300 border border-green-300/50',
+};
+
 const ExpensesPage: React.FC = () => {
   const { user, profile } = useAuth();
   const { t } = useLanguage();
@@ -30,13 +42,18 @@ const ExpensesPage: React.FC = () => {
   const [currentPage, setCurrentPage] = useState(0);
   const [totalItems, setTotalItems] = useState(0);
   const [expenseToDelete, setExpenseToDelete] = useState<Expense | null>(null);
+  const [eInvoiceToView, setEInvoiceToView] = useState<Expense | null>(null);
+  const [expenseToReject, setExpenseToReject] = useState<Expense | null>(null);
+  const [view, setView] = useState<ExpenseView>('all');
+  const [approvalQueueCount, setApprovalQueueCount] = useState(0);
 
   const canCreate = profile?.role !== 'super_admin';
   const isFieldServiceEmployee = profile?.role === 'field_service_employee';
+  const isApprover = canApproveExpenses(profile?.role);
 
   useEffect(() => {
     setCurrentPage(0);
-  }, [searchTerm]);
+  }, [searchTerm, view]);
 
   const fetchExpenses = useCallback(async () => {
     if (!user || !profile) return;
@@ -53,6 +70,10 @@ const ExpensesPage: React.FC = () => {
     if (searchTerm) {
       query = query.or(`description.ilike.%${searchTerm}%,expense_number.ilike.%${searchTerm}%`);
     }
+
+    if (view === 'approvalQueue') {
+      query = query.eq('status', 'submitted');
+    }
     
     const from = currentPage * ITEMS_PER_PAGE;
     const to = from + ITEMS_PER_PAGE - 1;
@@ -70,9 +91,16 @@ const ExpensesPage: React.FC = () => {
         setExpenses(data as any || []);
         setTotalItems(count || 0);
     }
+
+    if (isApprover) {
+      let countQuery = supabase.from('expenses').select('id', { count: 'exact', head: true }).eq('status', 'submitted');
+      if (profile.role !== 'super_admin') countQuery = countQuery.eq('org_id', profile.org_id);
+      const { count: queueCount } = await countQuery;
+      setApprovalQueueCount(queueCount || 0);
+    }
     
     setLoading(false);
-  }, [user, profile, searchTerm, sortConfig, currentPage, addToast]);
+  }, [user, profile, searchTerm, sortConfig, currentPage, view, isApprover, addToast]);
 
   useEffect(() => {
     fetchExpenses();
@@ -109,7 +137,10 @@ const ExpensesPage: React.FC = () => {
         if (fetchError || !original) throw new Error(fetchError?.message || 'Expense not found.');
         
         const newNumber = await generateNextNumber(profile.org_id, 'expense');
-        const { id, created_at, expense_number, ...rest } = original;
+        // The copy doesn't share the attachment, otherwise deleting one expense would remove the other's file.
+        // It is a new submission, so it doesn't take over the approval of the original either.
+        const { id, created_at, expense_number, attachment_path, attachment_name, attachment_mime_type, e_invoice_format,
+          status, approved_by, approved_at, rejection_reason, reimbursed_at, ...rest } = original;
 
         const newExpenseData = {
             ...rest,
@@ -120,6 +151,7 @@ const ExpensesPage: React.FC = () => {
 
         const { data: newExpense, error: insertError } = await supabase.from('expenses').insert(newExpenseData).select().single();
         if (insertError) throw insertError;
+        await notifyExpenseSubmitted(newExpense, profile);
 
         addToast({ title: 'Success', body: `Expense copied. Opening new draft...`, type: 'success' });
         handleOpenModal(newExpense);
@@ -137,12 +169,39 @@ const ExpensesPage: React.FC = () => {
     if (error) {
       addToast({ title: 'Error', body: 'Error deleting expense: ' + error.message, type: 'error' });
     } else {
+      if (expenseToDelete.attachment_path) {
+        await supabase.storage.from(EXPENSE_ATTACHMENTS_BUCKET).remove([expenseToDelete.attachment_path]);
+      }
       addToast({ title: 'Success', body: 'Expense deleted.', type: 'success' });
       fetchExpenses();
     }
     setExpenseToDelete(null);
   };
 
+  const handleSetStatus = async (expense: Expense, status: 'approved' | 'rejected' | 'reimbursed', rejectionReason?: string) => {
+    if (!profile) return;
+    try {
+      await setExpenseStatus(expense, status, profile, rejectionReason);
+      addToast({ title: 'Success', body: `Expense ${expense.expense_number} ${status}.`, type: 'success' });
+      setExpenseToReject(null);
+      fetchExpenses();
+    } catch (error: any) {
+      addToast({ title: 'Error', body: `Failed to update expense: ${error.message}`, type: 'error' });
+    }
+  };
+
+  const handleViewReceipt = async (expense: Expense) => {
+    try {
+      await openExpenseAttachment(expense);
+    } catch (error: any) {
+      addToast({ title: 'Error', body: `Failed to open receipt: ${error.message}`, type: 'error' });
+    }
+  };
+
+  const StatusBadge: React.FC<{ expense: Expense }> = ({ expense }) => (
+    <span title={expense.rejection_reason || undefined} className={`px-2 py-1 text-xs font-semibold rounded-full ${statusColors[expense.status]}`}>{t(`expenseStatus_${expense.status}` as any)}</span>
+  );
+
   const SortableHeader: React.FC<{ sortKey: string; label: string; }> = ({ sortKey, label }) => (
     <th 
         className="px-6 py-3 text-left text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider cursor-pointer border-b-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800"
@@ -166,9 +225,17 @@ const ExpensesPage: React.FC = () => {
             </div>
             <span className="font-bold text-lg">€{expense.amount.toFixed(2)}</span>
         </div>
-        <p className="text-sm text-gray-500 dark:text-gray-400">
-            {formatEuropeanDate(expense.expense_date)}
-        </p>
+        <div className="flex justify-between items-center">
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+                {formatEuropeanDate(expense.expense_date)}
+            </p>
+            <StatusBadge expense={expense} />
+        </div>
+        {expense.status === 'rejected' && expense.rejection_reason && <p className="text-sm text-red-600 dark:text-red-400">{expense.rejection_reason}</p>}
+        <div className="flex justify-end space-x-3 pt-1">
+            {expense.attachment_path && !expense.e_invoice_format && <button onClick={() => handleViewReceipt(expense)} title={t('viewReceipt')}><PaperClipIcon className="w-5 h-5 text-gray-500 hover:text-primary-600"/></button>}
+            <button onClick={() => handleOpenModal(expense)} className="text-primary-600 hover:text-primary-800" title={t('edit')}><PencilIcon className="w-5 h-5"/></button>
+        </div>
     </div>
   );
 
@@ -184,6 +251,19 @@ const ExpensesPage: React.FC = () => {
           )}
         </div>
 
+        {isApprover && (
+          <div className="border-b border-gray-200 dark:border-gray-700">
+            <nav className="-mb-px flex space-x-6" aria-label="Tabs">
+              {(['all', 'approvalQueue'] as ExpenseView[]).map(tab => (
+                <button key={tab} onClick={() => setView(tab)} className={`whitespace-nowrap py-3 px-1 border-b-2 font-medium text-sm ${view === tab ? 'border-primary-500 text-primary-600' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}`}>
+                  {t(tab === 'all' ? 'allExpenses' : 'approvalQueue')}
+                  {tab === 'approvalQueue' && approvalQueueCount > 0 && <span className="ml-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-300">{approvalQueueCount}</span>}
+                </button>
+              ))}
+            </nav>
+          </div>
+        )}
+
         <div className="p-4 bg-white rounded-lg shadow-md dark:bg-gray-800">
           <input 
             type="text"
@@ -219,6 +299,7 @@ const ExpensesPage: React.FC = () => {
                         {profile?.role === 'super_admin' && <SortableHeader sortKey="organizations.name" label={t('organization')} />}
                         <SortableHeader sortKey="category" label={t('category')} />
                         <SortableHeader sortKey="amount" label={t('amount')} />
+                        <SortableHeader sortKey="status" label={t('status')} />
                         <SortableHeader sortKey="profiles.full_name" label={t('createdBy')} />
                         <SortableHeader sortKey="created_at" label={t('createdAt')} />
                         <th className="px-6 py-3 text-right text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider border-b-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">{t('actions')}</th>
@@ -229,13 +310,22 @@ const ExpensesPage: React.FC = () => {
                         <tr key={expense.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 border-b border-gray-200 dark:border-gray-700">
                         <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{formatEuropeanDate(expense.expense_date)}</td>
                         <td className="px-6 py-3 whitespace-nowrap text-sm font-mono text-gray-500 dark:text-gray-400">{expense.expense_number}</td>
-                        <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">{expense.description}</td>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                            {expense.description}
+                            {expense.supplier_invoice_number && <span className="block text-xs font-normal text-gray-500 dark:text-gray-400">{expense.supplier_name} · {expense.supplier_invoice_number}</span>}
+                        </td>
                         {profile?.role === 'super_admin' && <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{expense.organizations?.name || 'N/A'}</td>}
                         <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{expense.category ? t(expense.category as any) : '-'}</td>
                         <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">€{expense.amount.toFixed(2)}</td>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm"><StatusBadge expense={expense} /></td>
                         <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{(expense as any).profiles?.full_name || 'N/A'}</td>
                         <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{formatEuropeanDate(expense.created_at)}</td>
                         <td className="px-6 py-3 whitespace-nowrap text-right text-sm font-medium space-x-2">
+                            {isApprover && (expense.status === 'submitted' || expense.status === 'rejected') && <button onClick={() => handleSetStatus(expense, 'approved')} title={t('approveExpense')}><CheckCircleIcon className="w-5 h-5 text-green-600 hover:text-green-800"/></button>}
+                            {isApprover && (expense.status === 'submitted' || expense.status === 'approved') && <button onClick={() => setExpenseToReject(expense)} title={t('rejectExpense')}><XCircleIcon className="w-5 h-5 text-red-600 hover:text-red-800"/></button>}
+                            {isApprover && expense.status === 'approved' && <button onClick={() => handleSetStatus(expense, 'reimbursed')} title={t('markReimbursed')}><BanknotesIcon className="w-5 h-5 text-gray-500 hover:text-green-600"/></button>}
+                            {expense.e_invoice_format && <button onClick={() => setEInvoiceToView(expense)} title={t('viewEInvoice')}><DocumentMagnifyingGlassIcon className="w-5 h-5 text-gray-500 hover:text-primary-600"/></button>}
+                            {expense.attachment_path && !expense.e_invoice_format && <button onClick={() => handleViewReceipt(expense)} title={t('viewReceipt')}><PaperClipIcon className="w-5 h-5 text-gray-500 hover:text-primary-600"/></button>}
                             <button onClick={() => handleOpenModal(expense)} className="text-primary-600 hover:text-primary-800" title={t('edit')}><PencilIcon className="w-5 h-5"/></button>
                             <button onClick={() => handleCopyExpense(expense.id)} title={t('copyExpense')}><DocumentDuplicateIcon className="w-5 h-5 text-gray-500 hover:text-primary-600"/></button>
                             <button onClick={() => setExpenseToDelete(expense)} className="text-red-600 hover:text-red-800" title={t('delete')}><TrashIcon className="w-5 h-5"/></button>
@@ -256,6 +346,8 @@ const ExpensesPage: React.FC = () => {
         )}
       </div>
       {isModalOpen && <ExpenseModal expense={selectedExpense} closeModal={handleCloseModal} onSave={handleSaveExpense} />}
+      {eInvoiceToView && <EInvoiceViewerModal expense={eInvoiceToView} closeModal={() => setEInvoiceToView(null)} />}
+      <RejectExpenseModal expense={expenseToReject} onClose={() => setExpenseToReject(null)} onConfirm={reason => expenseToReject && handleSetStatus(expenseToReject, 'rejected', reason)} />
       <ConfirmModal
         isOpen={!!expenseToDelete}
         onClose={() => setExpenseToDelete(null)}
@@ -5,20 +5,31 @@ import { useAuth } from '../contexts/AuthContext';
 import { useLanguage } from '../contexts/LanguageContext';
 import { useTabs } from '../contexts/TabContext';
 import { useModal } from '../contexts/ModalContext';
-import { Customer, Product, Invoice, InvoiceItem, InvoiceStatus, EmailLog, Expense } from '../types';
-import { GERMAN_VAT_RATES } from '../constants';
+import { Customer, Product, Invoice, InvoiceItem, InvoiceStatus, EmailLog, Expense, InvoicePayment, PaymentMethod, PaymentTerm, TaxTreatment } from '../types';
+import { PAYMENT_METHODS } from '../constants';
 import { generateNextNumber } from '../lib/numberGenerator';
 import generateDocumentPDF from '../lib/pdfGenerator';
-import { PlusIcon, TrashIcon, ArrowDownTrayIcon, EllipsisVerticalIcon, ArrowLeftIcon, EnvelopeIcon, DocumentDuplicateIcon, LinkIcon, CreditCardIcon, InformationCircleIcon, CurrencyDollarIcon, DocumentTextIcon as TextBlockIcon } from '@heroicons/react/24/outline';
+import { DocumentFormat, E_INVOICE_FORMATS } from '../lib/eInvoice';
+import { calculateDocumentTotals, calculateItemNet } from '../lib/documentTotals';
+import { recordPayment, deletePayment, calculatePaidAmount, calculateOpenBalance } from '../lib/payments';
+import { calculateDueDate, formatPaymentTerm, getPaymentTermFields, getPaymentTerms, resolvePaymentTerm } from '../lib/paymentTerms';
+import { calculateSkontoAmount, getSkontoDeadline } from '../lib/skonto';
+import { createCorrectionInvoice, getExistingCorrections, getInvoiceStatusLabelKey, isCorrectionDocument, CorrectionType } from '../lib/cancellation';
+import { applyTaxTreatment, getTaxTreatment, getTaxTreatmentNote, isTaxFree, TAX_TREATMENTS, validateTaxTreatment } from '../lib/taxTreatment';
+import { getDefaultVatRate, getVatRateOptions, getVatRates } from '../lib/vatRates';
+import { PlusIcon, TrashIcon, ArrowDownTrayIcon, EllipsisVerticalIcon, ArrowLeftIcon, EnvelopeIcon, DocumentDuplicateIcon, LinkIcon, CreditCardIcon, InformationCircleIcon, CurrencyDollarIcon, XCircleIcon, ReceiptRefundIcon, BanknotesIcon, ArrowPathIcon, DocumentTextIcon as TextBlockIcon } from '@heroicons/react/24/outline';
 import CustomerModal from '../components/modals/CustomerModal';
 import ProductSelectionModal from '../components/modals/ProductSelectionModal';
 import ExpenseSelectionModal from '../components/modals/ExpenseSelectionModal';
 import TextBlockSelectionModal from '../components/modals/TextBlockSelectionModal';
 import DatePicker from '../components/ui/DatePicker';
+import DiscountInput from '../components/ui/DiscountInput';
 import { format } from 'date-fns';
 import { parseAsLocalDate, formatEuropeanDate, formatEuropeanTime, resolvePlaceholders } from '../lib/formatting';
 import { useNotifications } from '../contexts/NotificationContext';
 import ConfirmModal from '../components/modals/ConfirmModal';
+import CreditNoteModal from '../components/modals/CreditNoteModal';
+import LinkedDocuments from '../components/LinkedDocuments';
 
 const blobToBase64 = (blob: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
@@ -32,13 +43,19 @@ const blobToBase64 = (blob: Blob): Promise<string> => {
   });
 };
 
+// The invoice fields set by payment terms; the due date is only changed when terms are selected.
+const getPaymentTermUpdate = (term: PaymentTerm | null, issueDate?: string): Partial<Invoice> => {
+  const issue = parseAsLocalDate(issueDate) || new Date();
+  return { ...getPaymentTermFields(term), ...(term ? { due_date: calculateDueDate(issue, term).toISOString() } : {}) };
+};
+
 const InvoiceEditor: React.FC = () => {
   const location = useLocation();
   const params = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { user, profile } = useAuth();
   const { t, language } = useLanguage();
-  const { closeTab, updateTabLabel, replaceTab } = useTabs();
+  const { openTab, closeTab, updateTabLabel, replaceTab } = useTabs();
   const { addToast } = useNotifications();
   const { openExpenseModal } = useModal();
 
@@ -53,7 +70,7 @@ const InvoiceEditor: React.FC = () => {
     status: 'draft',
     customer_id: undefined,
   });
-  const [items, setItems] = useState<Partial<InvoiceItem>[]>([{ description: '', quantity: 1, unit_price: 0, vat_rate: 19 }]);
+  const [items, setItems] = useState<Partial<InvoiceItem>[]>([{ description: '', quantity: 1, unit_price: 0, vat_rate: getDefaultVatRate(getVatRates()) }]);
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [emailLogs, setEmailLogs] = useState<EmailLog[]>([]);
   const [loading, setLoading] = useState(true);
@@ -66,13 +83,36 @@ const InvoiceEditor: React.FC = () => {
   const [isTextBlockModalOpen, setIsTextBlockModalOpen] = useState(false);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [isConfirmSendMailOpen, setIsConfirmSendMailOpen] = useState(false);
+  const [corrections, setCorrections] = useState<Partial<Invoice>[]>([]);
+  const [creditedQuantities, setCreditedQuantities] = useState<Map<number, number>>(new Map());
+  const [isConfirmCancellationOpen, setIsConfirmCancellationOpen] = useState(false);
+  const [isCreditNoteModalOpen, setIsCreditNoteModalOpen] = useState(false);
+  const [isCreatingCorrection, setIsCreatingCorrection] = useState(false);
+  const [payments, setPayments] = useState<InvoicePayment[]>([]);
+  const [newPayment, setNewPayment] = useState<{ amount: string; payment_date: string; method: PaymentMethod; reference: string }>({ amount: '', payment_date: new Date().toISOString(), method: 'bank_transfer', reference: '' });
+  const [isRecordingPayment, setIsRecordingPayment] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
 
-  const isReadOnly = profile?.role === 'field_service_employee' || invoice.status === 'paid';
+  const isCorrection = isCorrectionDocument(invoice);
+  const isReadOnly = profile?.role === 'field_service_employee' || invoice.status === 'paid' || invoice.status === 'cancelled' || isCorrection || corrections.length > 0;
+  const canCreateCorrection = !!id && id !== 'new' && !isCorrection && !!profile?.org_id && profile.role !== 'field_service_employee'
+    && ['sent', 'paid', 'overdue'].includes(initialInvoiceRef.current?.status as string)
+    && !corrections.some(c => c.invoice_type === 'cancellation');
+  const paidAmount = calculatePaidAmount(payments);
+  const openBalance = calculateOpenBalance({ total_amount: invoice.total_amount || 0, credited_amount: invoice.credited_amount, status: invoice.status as InvoiceStatus }, payments);
+  const showPayments = !!id && id !== 'new' && !isCorrection && ['sent', 'paid', 'overdue'].includes(initialInvoiceRef.current?.status as string);
+  const canManagePayments = showPayments && profile?.role !== 'field_service_employee';
   const canSave = !isReadOnly;
   const paymentGatewayEnabled = invoice.organizations?.is_payment_gateway_enabled && !!invoice.organizations?.stripe_account_id;
   const emailSendingEnabled = invoice.organizations?.is_email_sending_enabled;
   const textBlocksEnabled = invoice.organizations?.is_text_blocks_enabled;
+  const paymentTerms = getPaymentTerms(invoice.organizations);
+  const vatRates = getVatRates(invoice.organizations);
+  const defaultVatRate = getDefaultVatRate(vatRates, invoice.issue_date);
+  const vatRateOptions = getVatRateOptions(vatRates, invoice.issue_date, items.map(item => item.vat_rate));
+  const skontoDeadline = getSkontoDeadline(invoice as Invoice);
+  const skontoAmount = calculateSkontoAmount(invoice as Invoice);
+  const canUseSkonto = !!skontoDeadline && !payments.some(payment => Number(payment.skonto_amount) > 0);
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -97,7 +137,7 @@ const InvoiceEditor: React.FC = () => {
 
     let query = supabase
       .from('invoices')
-      .select('*, invoice_items:invoice_items!left(*), customers:customers!left(*), organizations:org_id(*)')
+      .select('*, invoice_items:invoice_items!left(*), customers:customers!left(*), organizations:org_id(*), original_invoice:original_invoice_id(id, invoice_number, issue_date), quote:quote_id(id, quote_number, issue_date)')
       .eq('id', invoiceId);
       
     if (profile.role !== 'super_admin' && profile.org_id) {
@@ -134,6 +174,24 @@ const InvoiceEditor: React.FC = () => {
     
     setEmailLogs(emailLogsData || []);
 
+    const { data: paymentsData } = await supabase
+        .from('invoice_payments')
+        .select('*')
+        .eq('invoice_id', invoiceId)
+        .order('payment_date', { ascending: true });
+
+    setPayments(paymentsData || []);
+
+    if (!isCorrectionDocument(fetchedInvoice)) {
+        try {
+            const { corrections: existingCorrections, creditedQuantities: credited } = await getExistingCorrections(invoiceId);
+            setCorrections(existingCorrections);
+            setCreditedQuantities(credited);
+        } catch (correctionsError) {
+            console.error('Error fetching corrections:', correctionsError);
+        }
+    }
+
     setLoading(false);
   }, [id, profile, navigate, instancePath, updateTabLabel]);
 
@@ -164,10 +222,15 @@ const InvoiceEditor: React.FC = () => {
           setInvoice(inv => ({ ...inv, customer_id: state.customerId }));
       }
       if (profile?.org_id) {
-          supabase.from('organizations').select('*').eq('id', profile.org_id).single()
-          .then(({ data: orgData }) => {
+          Promise.all([
+              supabase.from('organizations').select('*').eq('id', profile.org_id).single(),
+              state?.customerId ? supabase.from('customers').select('payment_term_id, tax_treatment').eq('id', state.customerId).single() : Promise.resolve({ data: null }),
+          ]).then(([{ data: orgData }, { data: customerData }]) => {
               if (orgData) {
-                  setInvoice(prev => ({ ...prev, organizations: orgData }));
+                  // New invoices start with the customer's payment terms or the organization's default, and the customer's tax treatment.
+                  const term = resolvePaymentTerm(getPaymentTerms(orgData), customerData);
+                  setInvoice(prev => ({ ...prev, organizations: orgData, tax_treatment: getTaxTreatment(customerData), ...getPaymentTermUpdate(term, prev.issue_date) }));
+                  setItems(prev => prev.map(item => (item.description ? item : { ...item, vat_rate: getDefaultVatRate(getVatRates(orgData)) })));
               }
           });
       }
@@ -181,30 +244,54 @@ const InvoiceEditor: React.FC = () => {
 
   useEffect(() => {
     if (!isReadOnly) {
-        const newTotal = items.reduce((acc, item) => {
-            const itemTotal = (item.quantity || 0) * (item.unit_price || 0);
-            const vatAmount = itemTotal * ((item.vat_rate || 0) / 100);
-            return acc + itemTotal + vatAmount;
-        }, 0);
+        const newTotal = calculateDocumentTotals(items, { discount_type: invoice.discount_type, discount_value: invoice.discount_value }).grandTotal;
         setInvoice(inv => ({...inv, total_amount: newTotal }));
     }
-  }, [items, isReadOnly]);
+  }, [items, isReadOnly, invoice.discount_type, invoice.discount_value]);
+
+  // Lines added while a treatment without German VAT is selected are set to 0%.
+  useEffect(() => {
+    if (!isReadOnly && isTaxFree(invoice.tax_treatment) && items.some(item => Number(item.vat_rate) !== 0)) {
+        setItems(prev => applyTaxTreatment(prev, invoice.tax_treatment));
+    }
+  }, [items, isReadOnly, invoice.tax_treatment]);
 
 
   const handleInvoiceChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
-    setInvoice({ ...invoice, [e.target.name]: e.target.value });
+    const { name, value } = e.target;
+    if (name === 'customer_id' && invoice.status === 'draft') {
+        const customer = customers.find(c => c.id === Number(value));
+        const term = resolvePaymentTerm(paymentTerms, customer);
+        setInvoice({ ...invoice, customer_id: value as any, tax_treatment: getTaxTreatment(customer), ...(term ? getPaymentTermUpdate(term, invoice.issue_date) : {}) });
+        return;
+    }
+    setInvoice({ ...invoice, [name]: value });
+  };
+
+  const selectedCustomer = customers.find(c => c.id === Number(invoice.customer_id));
+
+  const handleTaxTreatmentChange = (treatment: TaxTreatment) => {
+    setInvoice({ ...invoice, tax_treatment: treatment });
+    setItems(prev => applyTaxTreatment(prev, treatment));
+  };
+
+  const handlePaymentTermChange = (termId: string) => {
+    const term = paymentTerms.find(p => p.id === termId) || null;
+    setInvoice({ ...invoice, ...getPaymentTermUpdate(term, invoice.issue_date) });
   };
   
   const handleDateChange = (name: 'issue_date' | 'due_date', date: Date | null) => {
     if (date) {
-        setInvoice({ ...invoice, [name]: date.toISOString() });
+        // Changing the issue date moves the due date along with the selected payment terms.
+        const term = name === 'issue_date' ? paymentTerms.find(p => p.id === invoice.payment_term_id) : undefined;
+        setInvoice({ ...invoice, [name]: date.toISOString(), ...(term ? { due_date: calculateDueDate(date, term).toISOString() } : {}) });
     }
   };
 
   const handleItemChange = (index: number, field: keyof InvoiceItem, value: any) => {
     const newItems = [...items];
     const item = { ...newItems[index] };
-    if (field === 'quantity' || field === 'unit_price' || field === 'vat_rate') {
+    if (field === 'quantity' || field === 'unit_price' || field === 'vat_rate' || field === 'discount_value') {
       const numericValue = Number(value);
       (item as any)[field] = isNaN(numericValue) ? undefined : numericValue;
     } else {
@@ -214,7 +301,7 @@ const InvoiceEditor: React.FC = () => {
     setItems(newItems);
   };
 
-  const addItem = () => setItems([...items, { description: '', quantity: 1, unit_price: 0, vat_rate: 19 }]);
+  const addItem = () => setItems([...items, { description: '', quantity: 1, unit_price: 0, vat_rate: defaultVatRate }]);
   const removeItem = (index: number) => setItems(items.filter((_, i) => i !== index));
   
   const addProductsFromModal = (selectedProducts: Product[]) => {
@@ -243,7 +330,7 @@ const InvoiceEditor: React.FC = () => {
             description: product.name,
             quantity: 1,
             unit_price: product.selling_price,
-            vat_rate: 19, // default VAT
+            vat_rate: defaultVatRate,
           });
         }
       });
@@ -260,7 +347,7 @@ const InvoiceEditor: React.FC = () => {
       description: e.description,
       quantity: 1,
       unit_price: e.amount,
-      vat_rate: 19, // Default VAT, user can change.
+      vat_rate: defaultVatRate, // user can change.
     }));
     const existingExpenseIds = new Set(items.filter(i => i.expense_id).map(i => i.expense_id));
     const uniqueNewItems = newItems.filter(item => !existingExpenseIds.has(item.expense_id));
@@ -335,14 +422,71 @@ const InvoiceEditor: React.FC = () => {
   };
 
 
+  const executeCreateCorrection = async (type: CorrectionType, quantities?: Record<number, number>) => {
+    if (!id || id === 'new' || !profile) return;
+    setIsCreatingCorrection(true);
+    try {
+        const correction = await createCorrectionInvoice(parseInt(id, 10), type, profile, quantities);
+        setIsConfirmCancellationOpen(false);
+        setIsCreditNoteModalOpen(false);
+        addToast({ title: 'Success', body: t('correctionCreatedSuccess').replace('{number}', correction.invoice_number), type: 'success' });
+        await fetchData();
+        openTab({ path: `/invoices/edit/${correction.id}`, label: correction.invoice_number });
+    } catch (error: any) {
+        addToast({ title: 'Error', body: error.message, type: 'error' });
+    } finally {
+        setIsCreatingCorrection(false);
+    }
+  };
+
+  const handleRecordPayment = async () => {
+    if (!invoice.id || !invoice.org_id || !user) return;
+    const paymentDate = parseAsLocalDate(newPayment.payment_date);
+    if (!paymentDate) {
+        addToast({ title: 'Error', body: 'Payment date is required.', type: 'error' });
+        return;
+    }
+    setIsRecordingPayment(true);
+    try {
+        const { status } = await recordPayment(
+            { id: invoice.id, org_id: invoice.org_id },
+            { amount: parseFloat(newPayment.amount), payment_date: format(paymentDate, 'yyyy-MM-dd'), method: newPayment.method, reference: newPayment.reference },
+            user.id,
+            supabase
+        );
+        addToast({ title: 'Success', body: status === 'paid' ? t('paymentRecordedInvoicePaid') : t('paymentRecorded'), type: 'success' });
+        setNewPayment({ amount: '', payment_date: new Date().toISOString(), method: 'bank_transfer', reference: '' });
+        await fetchData();
+    } catch (error: any) {
+        addToast({ title: 'Error', body: error.message, type: 'error' });
+    } finally {
+        setIsRecordingPayment(false);
+    }
+  };
+
+  const handleDeletePayment = async (payment: InvoicePayment) => {
+    if (!invoice.id || !window.confirm(t('confirmDeletePayment'))) return;
+    try {
+        await deletePayment(payment.id, invoice.id, supabase);
+        await fetchData();
+    } catch (error: any) {
+        addToast({ title: 'Error', body: error.message, type: 'error' });
+    }
+  };
+
   const handleSave = async () => {
     if (!canSave || !user || !profile?.org_id || !invoice.customer_id) {
       addToast({ title: 'Cannot save', body: t('pleaseSelectCustomer'), type: 'error' });
       return;
     }
+    const taxErrors = validateTaxTreatment(invoice, items, selectedCustomer);
+    if (taxErrors.length > 0) {
+      addToast({ title: 'Cannot save', body: taxErrors.join(' '), type: 'error' });
+      return;
+    }
     setIsSaving(true);
     
-    const { customers, invoice_items, organizations, ...invoiceDataToSave } = invoice;
+    const { customers, invoice_items, organizations, original_invoice, quote, ...invoiceDataToSave } = invoice;
     const isNewInvoice = !id || id === 'new';
 
     const issueDate = parseAsLocalDate(invoiceDataToSave.issue_date);
@@ -392,6 +536,13 @@ const InvoiceEditor: React.FC = () => {
 
       await handleStockUpdate(savedInvoice, items);
 
+      // Marking an invoice as paid manually books the remaining balance into the payment ledger.
+      const wasPreviouslyPaid = initialInvoiceRef.current?.status === 'paid';
+      const remainingBalance = savedInvoice.total_amount - calculatePaidAmount(payments);
+      if (!wasPreviouslyPaid && savedInvoice.status === 'paid' && remainingBalance > 0.005) {
+          await recordPayment(savedInvoice, { amount: remainingBalance, payment_date: format(new Date(), 'yyyy-MM-dd'), method: 'other' }, user.id, supabase);
+      }
+
       // Auto-generate payment link on status change to 'sent'
       const wasPreviouslySent = ['sent', 'paid', 'overdue'].includes(initialInvoiceRef.current?.status as string);
       const isNowSent = savedInvoice.status === 'sent';
@@ -439,20 +590,10 @@ const InvoiceEditor: React.FC = () => {
     }
   };
 
-  const totals = useMemo(() => {
-    let subtotal = 0;
-    const vatTotals: { [key: number]: number } = {};
-    items.forEach(item => {
-      const itemTotal = (item.quantity || 0) * (item.unit_price || 0);
-      subtotal += itemTotal;
-      const vatRate = item.vat_rate || 0;
-      const vatAmount = itemTotal * (vatRate / 100);
-      vatTotals[vatRate] = (vatTotals[vatRate] || 0) + vatAmount;
-    });
-    const totalVat = Object.values(vatTotals).reduce((a, b) => a + b, 0);
-    const grandTotal = subtotal + totalVat;
-    return { subtotal, vatTotals, totalVat, grandTotal };
-  }, [items]);
+  const totals = useMemo(
+    () => calculateDocumentTotals(items, { discount_type: invoice.discount_type, discount_value: invoice.discount_value }),
+    [items, invoice.discount_type, invoice.discount_value]
+  );
 
   const handleDownloadPdf = async () => {
     if (!id || id === 'new') return;
@@ -462,6 +603,16 @@ const InvoiceEditor: React.FC = () => {
         addToast({ type: 'error', title: 'PDF Error', body: error.message });
     }
   };
+
+  const handleDownloadEInvoice = async (format: DocumentFormat) => {
+    if (!id || id === 'new') return;
+    setIsMenuOpen(false);
+    try {
+        await generateDocumentPDF(parseInt(id, 10), 'invoice', language, 'download', format);
+    } catch (error: any) {
+        addToast({ type: 'error', title: t('eInvoiceExportFailed'), body: error.message });
+    }
+  };
   
   const executeSendEmail = async () => {
     if (!id || id === 'new' || !invoice.customers?.email) {
@@ -615,7 +766,7 @@ const InvoiceEditor: React.FC = () => {
       <div className="space-y-6">
         <div className="flex justify-between items-start">
           <div>
-            <h1 className="text-3xl font-bold">{id && id !== 'new' ? `${isReadOnly ? t('viewInvoice') : t('editInvoice')} ${invoice.invoice_number || ''}` : t('newInvoice')}</h1>
+            <h1 className="text-3xl font-bold">{id && id !== 'new' ? `${invoice.invoice_type && invoice.invoice_type !== 'invoice' ? t(`invoice_type_${invoice.invoice_type}` as any) : isReadOnly ? t('viewInvoice') : t('editInvoice')} ${invoice.invoice_number || ''}` : t('newInvoice')}</h1>
           </div>
           <div className="flex items-center gap-x-2">
             {!isReadOnly && <button onClick={handleSave} disabled={isSaving} className="px-6 py-2 text-white bg-primary-600 rounded-md font-medium hover:bg-primary-700 disabled:bg-primary-300">
@@ -640,6 +791,9 @@ const InvoiceEditor: React.FC = () => {
                     {isMenuOpen && (
                         <div className="absolute right-0 mt-2 w-56 bg-white dark:bg-gray-800 rounded-md shadow-lg z-10 border dark:border-slate-700">
                            <button onClick={handleDownloadPdf} className="w-full text-left flex items-center gap-x-3 px-4 py-2 text-sm hover:bg-gray-100 dark:hover:bg-gray-700"><ArrowDownTrayIcon className="w-5 h-5"/> {t('downloadPDF')}</button>
+                           {invoice.status !== 'draft' && E_INVOICE_FORMATS.map(format => (
+                              <button key={format} onClick={() => handleDownloadEInvoice(format)} className="w-full text-left flex items-center gap-x-3 px-4 py-2 text-sm hover:bg-gray-100 dark:hover:bg-gray-700"><ArrowDownTrayIcon className="w-5 h-5"/> {t(`eInvoiceFormat_${format}` as any)}</button>
+                           ))}
                            {paymentGatewayEnabled && (
                               <button onClick={handleCopyPaymentLink} disabled={isSaving} className="w-full text-left flex items-center gap-x-3 px-4 py-2 text-sm hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50">
                                   <LinkIcon className="w-5 h-5"/> {t('copyPaymentLink')}
@@ -651,6 +805,21 @@ const InvoiceEditor: React.FC = () => {
                                     {isFetchingReceipt ? t('processing') : t('viewPaymentReceipt')}
                                 </button>
                            )}
+                           {canCreateCorrection && (
+                              <>
+                                <button onClick={() => { setIsMenuOpen(false); setIsConfirmCancellationOpen(true); }} disabled={isCreatingCorrection} className="w-full text-left flex items-center gap-x-3 px-4 py-2 text-sm text-red-600 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50">
+                                    <XCircleIcon className="w-5 h-5"/> {t('createCancellation')}
+                                </button>
+                                <button onClick={() => { setIsMenuOpen(false); setIsCreditNoteModalOpen(true); }} disabled={isCreatingCorrection} className="w-full text-left flex items-center gap-x-3 px-4 py-2 text-sm hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50">
+                                    <ReceiptRefundIcon className="w-5 h-5"/> {t('createCreditNote')}
+                                </button>
+                              </>
+                           )}
+                           {!isCorrection && profile?.role !== 'field_service_employee' && (
+                              <button onClick={() => { setIsMenuOpen(false); openTab({ path: '/invoices/recurring', label: t('recurringInvoices'), labelKey: 'recurringInvoices', state: { sourceInvoiceId: invoice.id } }); }} className="w-full text-left flex items-center gap-x-3 px-4 py-2 text-sm hover:bg-gray-100 dark:hover:bg-gray-700">
+                                  <ArrowPathIcon className="w-5 h-5"/> {t('makeRecurring')}
+                              </button>
+                           )}
                         </div>
                     )}
                 </div>
@@ -658,7 +827,63 @@ const InvoiceEditor: React.FC = () => {
           </div>
         </div>
 
-        {invoice.status === 'paid' && (
+        {isCorrection && (
+            <div className="p-4 bg-yellow-100 border-l-4 border-yellow-500 rounded-r-lg dark:bg-yellow-900/50">
+                <div className="flex">
+                    <div className="flex-shrink-0">
+                        <InformationCircleIcon className="w-5 h-5 text-yellow-600" />
+                    </div>
+                    <div className="ml-3 text-sm text-yellow-700 dark:text-yellow-200">
+                        <p>{t('correctionIsReadOnly')}</p>
+                        {invoice.original_invoice && (
+                            <button onClick={() => openTab({ path: `/invoices/edit/${invoice.original_invoice!.id}`, label: invoice.original_invoice!.invoice_number })} className="font-medium hover:underline">
+                                {t('correctionForInvoice').replace('{number}', invoice.original_invoice.invoice_number).replace('{date}', formatEuropeanDate(invoice.original_invoice.issue_date))}
+                            </button>
+                        )}
+                    </div>
+                </div>
+            </div>
+        )}
+
+        {invoice.quote && (
+            <div className="p-4 bg-blue-100 border-l-4 border-blue-500 rounded-r-lg dark:bg-blue-900/50">
+                <div className="flex">
+                    <div className="flex-shrink-0">
+                        <InformationCircleIcon className="w-5 h-5 text-blue-600" />
+                    </div>
+                    <div className="ml-3 text-sm text-blue-700 dark:text-blue-200">
+                        <button onClick={() => openTab({ path: `/quotes/edit/${invoice.quote!.id}`, label: invoice.quote!.quote_number })} className="font-medium hover:underline">
+                            {t('invoiceForQuote').replace('{number}', invoice.quote.quote_number).replace('{date}', formatEuropeanDate(invoice.quote.issue_date))}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        )}
+
+        {corrections.length > 0 && (
+            <div className="p-4 bg-yellow-100 border-l-4 border-yellow-500 rounded-r-lg dark:bg-yellow-900/50">
+                <div className="flex">
+                    <div className="flex-shrink-0">
+                        <InformationCircleIcon className="w-5 h-5 text-yellow-600" />
+                    </div>
+                    <div className="ml-3 text-sm text-yellow-700 dark:text-yellow-200">
+                        <p>{t('invoiceHasCorrections')}</p>
+                        <ul className="mt-1 space-y-1">
+                            {corrections.map(c => (
+                                <li key={c.id}>
+                                    <button onClick={() => openTab({ path: `/invoices/edit/${c.id}`, label: c.invoice_number! })} className="font-medium hover:underline">
+                                        {t(`invoice_type_${c.invoice_type}` as any)} #{c.invoice_number}
+                                    </button>
+                                    {` (${formatEuropeanDate(c.issue_date)}, €${(c.total_amount || 0).toFixed(2)})`}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                </div>
+            </div>
+        )}
+
+        {invoice.status === 'paid' && !isCorrection && (
             <div className="p-4 bg-blue-100 border-l-4 border-blue-500 rounded-r-lg dark:bg-blue-900/50">
                 <div className="flex">
                     <div className="flex-shrink-0">
@@ -692,25 +917,43 @@ const InvoiceEditor: React.FC = () => {
             <label className="block text-sm font-medium">{t('due_date')}</label>
             <DatePicker selected={parseAsLocalDate(invoice.due_date)} onChange={(date) => handleDateChange('due_date', date)} />
           </div>
+          {(paymentTerms.length > 0 || skontoDeadline) && (
+            <div>
+              <label className="block text-sm font-medium">{t('paymentTerms')}</label>
+              <select value={invoice.payment_term_id || ''} onChange={(e) => handlePaymentTermChange(e.target.value)} disabled={isReadOnly} className="mt-1 w-full p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600 disabled:bg-gray-100 dark:disabled:bg-gray-700/50">
+                <option value="">{t('noPaymentTerms')}</option>
+                {paymentTerms.map(term => <option key={term.id} value={term.id}>{formatPaymentTerm(term, language)}</option>)}
+              </select>
+              {skontoDeadline && <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{t('skontoUntil').replace('{percent}', String(invoice.skonto_percent)).replace('{date}', formatEuropeanDate(skontoDeadline)).replace('{amount}', `€${skontoAmount.toFixed(2)}`)}</p>}
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium">{t('taxTreatment')}</label>
+            <select value={getTaxTreatment(invoice)} onChange={(e) => handleTaxTreatmentChange(e.target.value as TaxTreatment)} disabled={isReadOnly} className="mt-1 w-full p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600 disabled:bg-gray-100 dark:disabled:bg-gray-700/50">
+              {TAX_TREATMENTS.map(treatment => <option key={treatment} value={treatment}>{t(`taxTreatment_${treatment}`)}</option>)}
+            </select>
+            {isTaxFree(invoice.tax_treatment) && <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{getTaxTreatmentNote(invoice.tax_treatment, language)}</p>}
+          </div>
           <div>
             <label className="block text-sm font-medium">{t('status')}</label>
             <select name="status" value={invoice.status} onChange={handleInvoiceChange} disabled={isReadOnly} className="mt-1 w-full p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600 capitalize disabled:bg-gray-100 dark:disabled:bg-gray-700/50">
-              {(['draft', 'sent', 'paid', 'overdue'] as InvoiceStatus[]).map(s => <option key={s} value={s}>{t(s as any)}</option>)}
+              {(['draft', 'sent', 'paid', 'overdue', ...(invoice.status === 'cancelled' ? ['cancelled'] : [])] as InvoiceStatus[]).map(s => <option key={s} value={s}>{t(getInvoiceStatusLabelKey(s) as any)}</option>)}
             </select>
           </div>
         </div>
         
         {id && id !== 'new' && <EmailHistory logs={emailLogs} />}
+        {id && id !== 'new' && <LinkedDocuments type="invoice" id={parseInt(id, 10)} />}
 
         <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
           <h2 className="text-xl font-bold mb-4">{t('items')}</h2>
           <div className="overflow-x-auto -mx-6">
               <table className="min-w-full">
               <thead className="border-b dark:border-gray-700"><tr className="text-left text-sm text-gray-500 dark:text-gray-400">
-                  <th className="px-6 py-2 w-[40%]">{t('description')}</th><th className="px-6 py-2 w-28">{t('quantity')}</th><th className="px-6 py-2 w-40">{t('unitPrice')}</th><th className="px-6 py-2 w-32">{t('vatPercent')}</th><th className="px-6 py-2 w-36 text-right">{t('total')}</th><th className="w-10 px-6"></th>
+                  <th className="px-6 py-2 w-[40%]">{t('description')}</th><th className="px-6 py-2 w-28">{t('quantity')}</th><th className="px-6 py-2 w-40">{t('unitPrice')}</th><th className="px-6 py-2 w-36">{t('discount')}</th><th className="px-6 py-2 w-32">{t('vatPercent')}</th><th className="px-6 py-2 w-36 text-right">{t('total')}</th><th className="w-10 px-6"></th>
               </tr></thead>
               <tbody>{items.map((item, index) => {
-                  const itemTotal = (item.quantity || 0) * (item.unit_price || 0);
+                  const itemTotal = calculateItemNet(item);
                   const vatAmount = itemTotal * ((item.vat_rate || 0) / 100);
                   const isExpense = !!item.expense_id;
                   return (
@@ -723,7 +966,8 @@ const InvoiceEditor: React.FC = () => {
                           </td>
                           <td className="px-6 py-2"><input type="number" value={item.quantity || ''} onChange={(e) => handleItemChange(index, 'quantity', parseFloat(e.target.value))} readOnly={isReadOnly || isExpense} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600 read-only:bg-gray-100 dark:read-only:bg-gray-700/50"/></td>
                           <td className="px-6 py-2"><input type="number" step="0.01" value={item.unit_price || ''} onChange={(e) => handleItemChange(index, 'unit_price', parseFloat(e.target.value))} readOnly={isReadOnly || isExpense} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600 read-only:bg-gray-100 dark:read-only:bg-gray-700/50"/></td>
-                          <td className="px-6 py-2"><select value={item.vat_rate} onChange={(e) => handleItemChange(index, 'vat_rate', parseInt(e.target.value))} disabled={isReadOnly} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600 disabled:bg-gray-100 dark:disabled:bg-gray-700/50">{GERMAN_VAT_RATES.map(rate => <option key={rate} value={rate}>{rate}%</option>)}</select></td>
+                          <td className="px-6 py-2"><DiscountInput discountType={item.discount_type} discountValue={item.discount_value} onChange={(discount) => setItems(prev => prev.map((it, i) => i === index ? { ...it, ...discount } : it))} readOnly={isReadOnly} /></td>
+                          <td className="px-6 py-2"><select value={item.vat_rate} onChange={(e) => handleItemChange(index, 'vat_rate', Number(e.target.value))} disabled={isReadOnly || isTaxFree(invoice.tax_treatment)} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600 disabled:bg-gray-100 dark:disabled:bg-gray-700/50">{vatRateOptions.map(rate => <option key={rate} value={rate}>{rate}%</option>)}</select></td>
                           <td className="px-6 py-2 text-right font-medium">€{(itemTotal + vatAmount).toFixed(2)}</td>
                           <td className="px-6">{!isReadOnly && <button onClick={() => removeItem(index)}><TrashIcon className="w-5 h-5 text-red-500"/></button>}</td>
                       </tr>
@@ -756,11 +1000,81 @@ const InvoiceEditor: React.FC = () => {
                     <textarea name="internal_notes" value={invoice.internal_notes || ''} onChange={handleInvoiceChange} rows={4} readOnly={isReadOnly} className="w-full p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600 read-only:bg-gray-100 dark:read-only:bg-gray-700/50" placeholder={t('internalNotesHint')}></textarea>
                 </div>
             </div>
-            <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800 space-y-2"><div className="flex justify-between"><span>{t('subtotal')}:</span><span>€{totals.subtotal.toFixed(2)}</span></div>
+            <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800 space-y-2">
+                {totals.lineDiscountTotal !== 0 && <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400"><span>{t('lineDiscounts')}:</span><span>€{(-totals.lineDiscountTotal).toFixed(2)}</span></div>}
+                <div className="flex justify-between"><span>{t('subtotal')}:</span><span>€{totals.subtotal.toFixed(2)}</span></div>
+                <div className="flex justify-between items-center gap-4 text-sm">
+                    <span>{t('documentDiscount')}:</span>
+                    <div className="flex items-center gap-2">
+                        <div className="w-32"><DiscountInput discountType={invoice.discount_type} discountValue={invoice.discount_value} onChange={(discount) => setInvoice(inv => ({ ...inv, ...discount }))} readOnly={isReadOnly} /></div>
+                        <span className="w-24 text-right">€{(-totals.documentDiscount).toFixed(2)}</span>
+                    </div>
+                </div>
+                {totals.documentDiscount !== 0 && <div className="flex justify-between"><span>{t('netTotal')}:</span><span>€{totals.netTotal.toFixed(2)}</span></div>}
                 {Object.entries(totals.vatTotals).map(([rate, amount]) => (<div key={rate} className="flex justify-between text-sm text-gray-600 dark:text-gray-400"><span>{`${t('totalVAT')} (${rate}%)`}:</span><span>€{(amount as number).toFixed(2)}</span></div>))}
                 <hr className="dark:border-gray-600"/><div className="flex justify-between text-xl font-bold"><span >{t('total')}:</span><span>€{invoice.total_amount?.toFixed(2) || '0.00'}</span></div>
+                {showPayments && (
+                    <>
+                        <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400"><span>{t('paidAmount')}:</span><span>- €{paidAmount.toFixed(2)}</span></div>
+                        <div className={`flex justify-between font-bold ${openBalance > 0 ? 'text-red-600' : 'text-green-600'}`}><span>{t('openBalance')}:</span><span>€{openBalance.toFixed(2)}</span></div>
+                    </>
+                )}
             </div>
         </div>
+
+        {showPayments && (
+            <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
+                <h2 className="text-xl font-bold mb-4 flex items-center gap-x-2"><BanknotesIcon className="w-6 h-6"/> {t('payments')}</h2>
+                <div className="overflow-x-auto -mx-6">
+                    <table className="min-w-full">
+                        <thead className="border-b dark:border-gray-700"><tr className="text-left text-sm text-gray-500 dark:text-gray-400">
+                            <th className="px-6 py-2">{t('paymentDate')}</th><th className="px-6 py-2">{t('paymentMethod')}</th><th className="px-6 py-2">{t('paymentReference')}</th><th className="px-6 py-2 text-right">{t('amount')}</th><th className="w-10 px-6"></th>
+                        </tr></thead>
+                        <tbody>
+                            {payments.length > 0 ? payments.map(payment => (
+                                <tr key={payment.id} className="border-b dark:border-gray-700 text-sm">
+                                    <td className="px-6 py-2">{formatEuropeanDate(payment.payment_date)}</td>
+                                    <td className="px-6 py-2">{t(`paymentMethod_${payment.method}` as any)}</td>
+                                    <td className="px-6 py-2 text-gray-500">{payment.reference || '-'}</td>
+                                    <td className="px-6 py-2 text-right font-medium">€{Number(payment.amount).toFixed(2)}{Number(payment.skonto_amount) > 0 && <span className="block text-xs font-normal text-gray-500">+ {t('skonto')} €{Number(payment.skonto_amount).toFixed(2)}</span>}</td>
+                                    <td className="px-6">{canManagePayments && <button onClick={() => handleDeletePayment(payment)} title={t('delete')}><TrashIcon className="w-5 h-5 text-red-500"/></button>}</td>
+                                </tr>
+                            )) : (
+                                <tr><td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500">{t('noPaymentsRecorded')}</td></tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+                {canManagePayments && openBalance > 0 && canUseSkonto && (
+                    <p className="mt-4 text-sm text-gray-600 dark:text-gray-400">{t('skontoPaymentHint').replace('{date}', formatEuropeanDate(skontoDeadline)).replace('{amount}', `€${(openBalance - Math.min(skontoAmount, openBalance)).toFixed(2)}`)}</p>
+                )}
+                {canManagePayments && openBalance > 0 && (
+                    <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mt-4 items-end">
+                        <div>
+                            <label className="block text-sm font-medium">{t('amount')}</label>
+                            <input type="number" step="0.01" min="0" value={newPayment.amount} placeholder={openBalance.toFixed(2)} onChange={(e) => setNewPayment(p => ({ ...p, amount: e.target.value }))} className="mt-1 w-full p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600"/>
+                        </div>
+                        <div className="mt-1">
+                            <label className="block text-sm font-medium">{t('paymentDate')}</label>
+                            <DatePicker selected={parseAsLocalDate(newPayment.payment_date)} onChange={(date) => date && setNewPayment(p => ({ ...p, payment_date: date.toISOString() }))} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium">{t('paymentMethod')}</label>
+                            <select value={newPayment.method} onChange={(e) => setNewPayment(p => ({ ...p, method: e.target.value as PaymentMethod }))} className="mt-1 w-full p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600">
+                                {PAYMENT_METHODS.map(method => <option key={method} value={method}>{t(`paymentMethod_${method}` as any)}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium">{t('paymentReference')}</label>
+                            <input type="text" value={newPayment.reference} onChange={(e) => setNewPayment(p => ({ ...p, reference: e.target.value }))} className="mt-1 w-full p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600"/>
+                        </div>
+                        <button onClick={handleRecordPayment} disabled={isRecordingPayment || !newPayment.amount} className="px-4 py-2 text-white bg-primary-600 rounded-md font-medium hover:bg-primary-700 disabled:bg-primary-300">
+                            {isRecordingPayment ? t('saving') : t('recordPayment')}
+                        </button>
+                    </div>
+                )}
+            </div>
+        )}
       </div>
       {isCustomerModalOpen && <CustomerModal customer={null} closeModal={() => setIsCustomerModalOpen(false)} onSave={() => { fetchCustomersAndProducts(); setIsCustomerModalOpen(false); }} />}
       {isProductModalOpen && <ProductSelectionModal isOpen={isProductModalOpen} onClose={() => setIsProductModalOpen(false)} onAdd={addProductsFromModal} context="invoice" />}
@@ -774,6 +1088,23 @@ const InvoiceEditor: React.FC = () => {
         message={t('confirmSendEmailMessage').replace('{email}', invoice.customers?.email || '')}
         confirmText={t('send')}
       />
+      <ConfirmModal
+        isOpen={isConfirmCancellationOpen}
+        onClose={() => setIsConfirmCancellationOpen(false)}
+        onConfirm={() => executeCreateCorrection('cancellation')}
+        title={t('confirmCancellationTitle')}
+        message={t('confirmCancellationMessage').replace('{number}', invoice.invoice_number || '')}
+        confirmText={t('createCancellation')}
+      />
+      <CreditNoteModal
+        isOpen={isCreditNoteModalOpen}
+        onClose={() => setIsCreditNoteModalOpen(false)}
+        onConfirm={(quantities) => executeCreateCorrection('credit_note', quantities)}
+        items={items}
+        creditedQuantities={creditedQuantities}
+        documentDiscount={{ discount_type: invoice.discount_type, discount_value: invoice.discount_value }}
+        isProcessing={isCreatingCorrection}
+      />
     </>
   );
 };
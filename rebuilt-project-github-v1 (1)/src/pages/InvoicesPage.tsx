@@ -6,9 +6,11 @@ import { useRefresh } from '../contexts/RefreshContext';
 import { useTabs } from '../contexts/TabContext';
 import { useNotifications } from '../contexts/NotificationContext';
 import { Invoice, InvoiceStatus } from '../types';
-import { PlusIcon, PencilIcon, TrashIcon, EnvelopeIcon, ArrowDownTrayIcon, EyeIcon, ChevronUpIcon, ChevronDownIcon, DocumentDuplicateIcon } from '@heroicons/react/24/outline';
+import { PlusIcon, PencilIcon, TrashIcon, EnvelopeIcon, ArrowDownTrayIcon, EyeIcon, ChevronUpIcon, ChevronDownIcon, DocumentDuplicateIcon, BellAlertIcon, ArrowPathIcon, BuildingLibraryIcon, BanknotesIcon } from '@heroicons/react/24/outline';
 import generateDocumentPDF from '../lib/pdfGenerator';
 import { generateNextNumber } from '../lib/numberGenerator';
+import { getInvoiceStatusLabelKey, isCorrectionDocument } from '../lib/cancellation';
+import { calculateOpenBalance } from '../lib/payments';
 import { formatEuropeanDate } from '../lib/formatting';
 import { format } from 'date-fns';
 import { useLocation, useNavigate } from 'react-router-dom';
@@ -40,7 +42,7 @@ const InvoicesPage: React.FC = () => {
   const canManage = profile?.role !== 'field_service_employee';
   const isFieldServiceEmployee = profile?.role === 'field_service_employee';
   
-  const invoiceStatuses: InvoiceStatus[] = ['draft', 'sent', 'paid', 'overdue'];
+  const invoiceStatuses: InvoiceStatus[] = ['draft', 'sent', 'paid', 'overdue', 'cancelled'];
 
   useEffect(() => {
     setCurrentPage(0);
@@ -77,7 +79,7 @@ const InvoicesPage: React.FC = () => {
 
     let query = supabase
       .from('invoices')
-      .select('*, customers:customers!left(id, name, email), organizations:organizations!left(name)', { count: 'exact' });
+      .select('*, customers:customers!left(id, name, email), organizations:organizations!left(name), invoice_payments(amount, skonto_amount)', { count: 'exact' });
 
     if (profile.role !== 'super_admin') {
       query = query.eq('org_id', profile.org_id);
@@ -165,7 +167,7 @@ const InvoicesPage: React.FC = () => {
         const dueDate = new Date();
         dueDate.setDate(today.getDate() + 14);
 
-        const { id, created_at, invoice_number, status, payment_link_url, stripe_payment_intent_id, invoice_items, ...rest } = originalInvoice;
+        const { id, created_at, invoice_number, status, payment_link_url, stripe_payment_intent_id, sepa_collection_date, sepa_message_id, quote_id, visit_id, invoice_items, ...rest } = originalInvoice;
 
         const newInvoiceData = {
             ...rest,
@@ -264,6 +266,7 @@ const InvoicesPage: React.FC = () => {
     sent: 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-300 border border-blue-300/50',
     paid: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300 border border-green-300/50',
     overdue: 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-300 border border-red-300/50',
+    cancelled: 'bg-gray-100 text-gray-800 dark:bg-gray-700/50 dark:text-gray-300 border border-gray-300/50',
   };
   
 
@@ -293,15 +296,19 @@ const InvoicesPage: React.FC = () => {
                     )}
                 </p>
                 <p className="text-sm font-mono text-gray-500">{invoice.invoice_number}</p>
+                {invoice.invoice_type && invoice.invoice_type !== 'invoice' && <p className={`text-xs ${isCorrectionDocument(invoice) ? 'text-orange-600' : 'text-blue-600'}`}>{t(`invoice_type_${invoice.invoice_type}` as any)}</p>}
             </div>
             <div className="flex items-center gap-x-2">
                 {invoice.was_sent_via_email && <EnvelopeIcon className="w-5 h-5 text-blue-500" title="Email sent" />}
-                <span className={`px-2 py-1 text-xs font-semibold rounded-full ${statusColors[invoice.status]} capitalize`}>{t(invoice.status as any)}</span>
+                <span className={`px-2 py-1 text-xs font-semibold rounded-full ${statusColors[invoice.status]} capitalize`}>{t(getInvoiceStatusLabelKey(invoice.status) as any)}</span>
             </div>
         </div>
         <div className="flex justify-between items-end text-sm">
             <span className="text-gray-500">{formatEuropeanDate(invoice.issue_date)}</span>
-            <span className="font-bold text-lg">€{invoice.total_amount.toFixed(2)}</span>
+            <div className="text-right">
+                <span className="font-bold text-lg">€{invoice.total_amount.toFixed(2)}</span>
+                {['sent', 'overdue'].includes(invoice.status) && !isCorrectionDocument(invoice) && <p className="text-xs text-red-600">{t('openBalance')}: €{calculateOpenBalance(invoice, invoice.invoice_payments).toFixed(2)}</p>}
+            </div>
         </div>
     </div>
   );
@@ -311,11 +318,33 @@ const InvoicesPage: React.FC = () => {
     <div className="space-y-6">
       <div className="flex flex-col sm:flex-row justify-between items-center">
         <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{t('invoices')}</h1>
-        {canCreate && (
-          <button onClick={() => openTab({ path: '/invoices/new', label: t('newInvoice') })} className="mt-4 sm:mt-0 inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-md shadow-sm hover:bg-primary-700">
-            <PlusIcon className="w-5 h-5 mr-2" /> {t('newInvoice')}
-          </button>
-        )}
+        <div className="flex gap-2 mt-4 sm:mt-0">
+          {canCreate && (
+            <button onClick={() => openTab({ path: '/invoices/recurring', label: t('recurringInvoices'), labelKey: 'recurringInvoices' })} className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50 dark:bg-gray-700 dark:text-gray-200 dark:border-gray-600">
+              <ArrowPathIcon className="w-5 h-5 mr-2" /> {t('recurringInvoices')}
+            </button>
+          )}
+          {canCreate && (
+            <button onClick={() => openTab({ path: '/invoices/dunning', label: t('dunningRun'), labelKey: 'dunningRun' })} className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50 dark:bg-gray-700 dark:text-gray-200 dark:border-gray-600">
+              <BellAlertIcon className="w-5 h-5 mr-2" /> {t('dunningRun')}
+            </button>
+          )}
+          {canCreate && (
+            <button onClick={() => openTab({ path: '/invoices/bank-reconciliation', label: t('bankReconciliation'), labelKey: 'bankReconciliation' })} className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50 dark:bg-gray-700 dark:text-gray-200 dark:border-gray-600">
+              <BuildingLibraryIcon className="w-5 h-5 mr-2" /> {t('bankReconciliation')}
+            </button>
+          )}
+          {canCreate && (
+            <button onClick={() => openTab({ path: '/invoices/direct-debit', label: t('directDebits'), labelKey: 'directDebits' })} className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50 dark:bg-gray-700 dark:text-gray-200 dark:border-gray-600">
+              <BanknotesIcon className="w-5 h-5 mr-2" /> {t('directDebits')}
+            </button>
+          )}
+          {canCreate && (
+            <button onClick={() => openTab({ path: '/invoices/new', label: t('newInvoice') })} className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-md shadow-sm hover:bg-primary-700">
+              <PlusIcon className="w-5 h-5 mr-2" /> {t('newInvoice')}
+            </button>
+          )}
+        </div>
       </div>
 
       <div className="p-4 bg-white rounded-lg shadow-md dark:bg-gray-800 flex flex-col sm:flex-row gap-4">
@@ -333,7 +362,7 @@ const InvoicesPage: React.FC = () => {
         >
           <option value="all">{t('allStatuses')}</option>
           {invoiceStatuses.map(status => (
-            <option key={status} value={status} className="capitalize">{t(status as any)}</option>
+            <option key={status} value={status} className="capitalize">{t(getInvoiceStatusLabelKey(status) as any)}</option>
           ))}
         </select>
       </div>
@@ -362,6 +391,7 @@ const InvoicesPage: React.FC = () => {
                     {profile?.role === 'super_admin' && <SortableHeader sortKey="organizations.name" label={t('organization')} />}
                     <SortableHeader sortKey="issue_date" label={t('issue_date')} />
                     <SortableHeader sortKey="total_amount" label={t('total')} />
+                    <th className="px-6 py-3 text-left text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider border-b-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">{t('openBalance')}</th>
                     <SortableHeader sortKey="status" label={t('status')} />
                     <th className="px-6 py-3 text-right text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider border-b-2 border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">{t('actions')}</th>
                     </tr>
@@ -369,7 +399,7 @@ const InvoicesPage: React.FC = () => {
                 <tbody className="bg-white dark:bg-gray-800">
                     {invoices.length > 0 ? invoices.map(invoice => (
                     <tr key={invoice.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 border-b border-gray-200 dark:border-gray-700">
-                        <td className="px-6 py-3 whitespace-nowrap"><button onClick={() => openTab({ path: `/invoices/edit/${invoice.id}`, label: invoice.invoice_number })} className="font-medium text-primary-600 hover:underline">{invoice.invoice_number}</button></td>
+                        <td className="px-6 py-3 whitespace-nowrap"><button onClick={() => openTab({ path: `/invoices/edit/${invoice.id}`, label: invoice.invoice_number })} className="font-medium text-primary-600 hover:underline">{invoice.invoice_number}</button>{invoice.invoice_type && invoice.invoice_type !== 'invoice' && <span className={`ml-2 px-2 py-0.5 text-xs font-medium rounded-full ${isCorrectionDocument(invoice) ? 'bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-300' : 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-300'}`}>{t(`invoice_type_${invoice.invoice_type}` as any)}</span>}</td>
                         <td className="px-6 py-3 whitespace-nowrap text-sm font-medium">
                             {invoice.customers ? (
                                 <button onClick={() => openTab({ path: `/customers/${invoice.customer_id}`, label: invoice.customers.name })} className="text-primary-600 hover:underline">{invoice.customers.name}</button>
@@ -380,10 +410,12 @@ const InvoicesPage: React.FC = () => {
                         {profile?.role === 'super_admin' && <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{invoice.organizations?.name || 'N/A'}</td>}
                         <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{formatEuropeanDate(invoice.issue_date)}</td>
                         <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">€{invoice.total_amount.toFixed(2)}</td>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{invoice.status === 'draft' || isCorrectionDocument(invoice) ? '-' : `€${calculateOpenBalance(invoice, invoice.invoice_payments).toFixed(2)}`}</td>
                         <td className="px-6 py-3 whitespace-nowrap">
                             <div className="flex items-center gap-x-2">
-                                <span className={`px-2 py-1 text-xs font-semibold rounded-full ${statusColors[invoice.status]} capitalize`}>{t(invoice.status as any)}</span>
+                                <span className={`px-2 py-1 text-xs font-semibold rounded-full ${statusColors[invoice.status]} capitalize`}>{t(getInvoiceStatusLabelKey(invoice.status) as any)}</span>
                                 {invoice.was_sent_via_email && <EnvelopeIcon className="w-5 h-5 text-blue-500" title={t('sentViaEmail')}/>}
+                                {invoice.sepa_collection_date && invoice.status !== 'paid' && <BanknotesIcon className="w-5 h-5 text-green-600" title={`${t('collectionDate')}: ${formatEuropeanDate(invoice.sepa_collection_date)}`}/>}
                             </div>
                         </td>
                         <td className="px-6 py-3 whitespace-nowrap text-right text-sm font-medium space-x-2">
@@ -393,7 +425,7 @@ const InvoicesPage: React.FC = () => {
                                 <button onClick={() => openTab({ path: `/invoices/edit/${invoice.id}`, label: invoice.invoice_number })} title={t('editView')}><PencilIcon className="w-5 h-5 inline-block text-primary-600 hover:text-primary-800"/></button>
                             )}
                             
-                            {canManage && invoice.status !== 'paid' && (
+                            {canManage && invoice.status !== 'paid' && !isCorrectionDocument(invoice) && (
                                <button onClick={() => handleCopyInvoice(invoice.id)} title={t('copyInvoice')}><DocumentDuplicateIcon className="w-5 h-5 inline-block text-gray-500 hover:text-primary-600"/></button>
                             )}
 
@@ -409,7 +441,7 @@ const InvoicesPage: React.FC = () => {
                         </td>
                     </tr>
                     )) : (
-                    <tr><td colSpan={profile?.role === 'super_admin' ? 7 : 6} className="p-4 text-center text-gray-500">{t('noInvoicesFound')}</td></tr>
+                    <tr><td colSpan={profile?.role === 'super_admin' ? 8 : 7} className="p-4 text-center text-gray-500">{t('noInvoicesFound')}</td></tr>
                     )}
                 </tbody>
                 </table>
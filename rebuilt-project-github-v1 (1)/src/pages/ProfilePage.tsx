@@ -155,6 +155,10 @@ const ProfilePage: React.FC = () => {
                     <label className="block text-sm font-medium">{t('vat_id')}</label>
                     <input type="text" name="ust_idnr" value={organization.ust_idnr || ''} onChange={handleCompanyChange} disabled={!canEditCompany} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600 disabled:bg-gray-100 dark:disabled:bg-gray-700/50" />
                 </div>
+                <div>
+                    <label className="block text-sm font-medium">{t('steuernummer')}</label>
+                    <input type="text" name="steuernummer" value={organization.steuernummer || ''} onChange={handleCompanyChange} disabled={!canEditCompany} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600 disabled:bg-gray-100 dark:disabled:bg-gray-700/50" />
+                </div>
             </div>
             <div>
               <label className="block text-sm font-medium">{t('address')}</label>
@@ -170,6 +174,11 @@ const ProfilePage: React.FC = () => {
                 <input type="text" name="bic" value={organization.bic || ''} onChange={handleCompanyChange} disabled={!canEditCompany} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600 disabled:bg-gray-100 dark:disabled:bg-gray-700/50" />
               </div>
             </div>
+            <div>
+              <label className="block text-sm font-medium">{t('sepaCreditorId')}</label>
+              <input type="text" name="sepa_creditor_id" value={organization.sepa_creditor_id || ''} onChange={handleCompanyChange} disabled={!canEditCompany} placeholder="DE98ZZZ09999999999" className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600 disabled:bg-gray-100 dark:disabled:bg-gray-700/50" />
+              <p className="text-xs text-gray-500 mt-1">{t('sepaCreditorIdHint')}</p>
+            </div>
           </div>
         </div>
 
@@ -5,21 +5,33 @@ import { useAuth } from '../contexts/AuthContext';
 import { useLanguage } from '../contexts/LanguageContext';
 import { useTabs } from '../contexts/TabContext';
 import { useModal } from '../contexts/ModalContext';
-import { Customer, Product, Quote, QuoteItem, QuoteStatus, UserRole, EmailLog, Expense } from '../types';
-import { GERMAN_VAT_RATES } from '../constants';
+import { Customer, Product, Quote, QuoteItem, QuoteStatus, UserRole, EmailLog, Expense, VisitCategory } from '../types';
 import { generateNextNumber } from '../lib/numberGenerator';
 import generateDocumentPDF from '../lib/pdfGenerator';
-import { convertQuoteToInvoice } from '../lib/conversion';
-import { PlusIcon, TrashIcon, ArrowDownTrayIcon, EllipsisVerticalIcon, ArrowLeftIcon, EnvelopeIcon, CurrencyDollarIcon, ArrowUpOnSquareIcon, DocumentTextIcon as TextBlockIcon, InformationCircleIcon } from '@heroicons/react/24/outline';
+import { convertQuoteToInvoice, createVisitFromQuote } from '../lib/conversion';
+import { createDownPaymentInvoice, createFinalInvoice, DownPaymentAmount, getQuoteBilling, QuoteBilling } from '../lib/downPayments';
+import { getInvoiceStatusLabelKey } from '../lib/cancellation';
+import { calculateDocumentTotals, calculateItemNet } from '../lib/documentTotals';
+import { getDefaultVatRate, getVatRateOptions, getVatRates } from '../lib/vatRates';
+import { getIncludedQuoteItems, getQuoteItemKind, isQuoteItemIncluded, normalizeQuoteSelection, QuoteItemKind, selectQuoteItem, setQuoteItemKind } from '../lib/quoteOptions';
+import { canReviseQuote, createQuoteRevision, downloadQuotePdf, getQuoteRevisions, QuoteRevision, REVISABLE_QUOTE_STATUSES } from '../lib/quoteRevisions';
+import { createQuotePortalLink } from '../lib/quotePortal';
+import { SIGNATURES_BUCKET } from '../lib/quoteStorage';
+import { PlusIcon, TrashIcon, ArrowDownTrayIcon, EllipsisVerticalIcon, ArrowLeftIcon, EnvelopeIcon, CurrencyDollarIcon, ArrowUpOnSquareIcon, DocumentTextIcon as TextBlockIcon, InformationCircleIcon, ArrowPathRoundedSquareIcon, ArrowsRightLeftIcon, LinkIcon, BriefcaseIcon } from '@heroicons/react/24/outline';
 import CustomerModal from '../components/modals/CustomerModal';
 import ProductSelectionModal from '../components/modals/ProductSelectionModal';
 import ExpenseSelectionModal from '../components/modals/ExpenseSelectionModal';
 import TextBlockSelectionModal from '../components/modals/TextBlockSelectionModal';
 import DatePicker from '../components/ui/DatePicker';
+import DiscountInput from '../components/ui/DiscountInput';
 import { format } from 'date-fns';
 import { parseAsLocalDate, formatEuropeanDate, formatEuropeanTime, resolvePlaceholders } from '../lib/formatting';
 import { useNotifications } from '../contexts/NotificationContext';
 import ConfirmModal from '../components/modals/ConfirmModal';
+import DownPaymentModal from '../components/modals/DownPaymentModal';
+import QuoteRevisionCompareModal from '../components/modals/QuoteRevisionCompareModal';
+import ScheduleVisitModal from '../components/modals/ScheduleVisitModal';
+import LinkedDocuments from '../components/LinkedDocuments';
 
 const blobToBase64 = (blob: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
@@ -54,7 +66,7 @@ const QuoteEditor: React.FC = () => {
     status: 'draft',
     customer_id: undefined,
   });
-  const [items, setItems] = useState<Partial<QuoteItem>[]>([{ description: '', quantity: 1, unit_price: 0, vat_rate: 19 }]);
+  const [items, setItems] = useState<Partial<QuoteItem>[]>([{ description: '', quantity: 1, unit_price: 0, vat_rate: getDefaultVatRate(getVatRates()) }]);
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [emailLogs, setEmailLogs] = useState<EmailLog[]>([]);
   const [loading, setLoading] = useState(true);
@@ -67,26 +79,58 @@ const QuoteEditor: React.FC = () => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [isConfirmSendMailOpen, setIsConfirmSendMailOpen] = useState(false);
   const [isConfirmConvertOpen, setIsConfirmConvertOpen] = useState(false);
+  const [billing, setBilling] = useState<QuoteBilling | null>(null);
+  const [isDownPaymentModalOpen, setIsDownPaymentModalOpen] = useState(false);
+  const [isConfirmFinalInvoiceOpen, setIsConfirmFinalInvoiceOpen] = useState(false);
+  const [revisions, setRevisions] = useState<QuoteRevision[]>([]);
+  const [isConfirmRevisionOpen, setIsConfirmRevisionOpen] = useState(false);
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+  const [isScheduleVisitOpen, setIsScheduleVisitOpen] = useState(false);
+  const [signatureUrl, setSignatureUrl] = useState<string | null>(null);
   const menuRef = useRef<HTMLDivElement>(null);
 
   const canSave = useMemo(() => {
     if (!profile) return false;
     if (profile.role === 'super_admin') return false;
+    if (quote?.superseded_at) return false;
     const isAccepted = quote?.status === 'accepted';
     if (isAccepted) return profile.role === 'admin';
     const allowedRoles: UserRole[] = ['admin', 'key_user', 'field_service_employee'];
     return allowedRoles.includes(profile.role);
-  }, [profile, quote?.status]);
+  }, [profile, quote?.status, quote?.superseded_at]);
 
   const canConvertToInvoice = useMemo(() => {
     if (!profile) return false;
     if (profile.role === 'super_admin' || profile.role === 'field_service_employee') return false;
-    return quote.status !== 'accepted';
-  }, [profile, quote.status]);
+    return quote.status !== 'accepted' && !quote.superseded_at;
+  }, [profile, quote.status, quote.superseded_at]);
+
+  // Accepted quotes are billed in stages by down-payment invoices and a final invoice.
+  const canBillInStages = useMemo(() => {
+    if (!profile || !billing) return false;
+    if (profile.role === 'super_admin' || profile.role === 'field_service_employee') return false;
+    return quote.status === 'accepted' && !billing.isFullyBilled;
+  }, [profile, billing, quote.status]);
+
+  // Service work of accepted quotes is carried out in visits.
+  const canScheduleVisit = useMemo(() => {
+    if (!profile || profile.role === 'super_admin') return false;
+    return quote.status === 'accepted' && !quote.superseded_at;
+  }, [profile, quote.status, quote.superseded_at]);
 
   const isReadOnly = !canSave;
+  // A sent quote stays as the customer received it; changes are made in a new revision.
+  const savedStatus = initialQuoteRef.current?.status as QuoteStatus | undefined;
+  const isSentVersion = !!savedStatus && REVISABLE_QUOTE_STATUSES.includes(savedStatus);
+  const isContentLocked = isReadOnly || isSentVersion;
+  const canCreateRevision = canSave && !!savedStatus && canReviseQuote({ status: savedStatus, superseded_at: quote.superseded_at });
+  const canShareForAcceptance = canSave && savedStatus === 'sent' && !quote.superseded_at;
+  const latestRevision = revisions.length > 0 ? revisions[revisions.length - 1] : null;
   const emailSendingEnabled = quote.organizations?.is_email_sending_enabled;
   const textBlocksEnabled = quote.organizations?.is_text_blocks_enabled;
+  const vatRates = getVatRates(quote.organizations);
+  const defaultVatRate = getDefaultVatRate(vatRates, quote.issue_date);
+  const vatRateOptions = getVatRateOptions(vatRates, quote.issue_date, items.map(item => item.vat_rate));
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -148,6 +192,36 @@ const QuoteEditor: React.FC = () => {
         .order('created_at', { ascending: false });
     
     setEmailLogs(emailLogsData || []);
+
+    setSignatureUrl(null);
+    if (fetchedQuote.signature_storage_path) {
+        const { data: signedUrlData, error: urlError } = await supabase.storage
+            .from(SIGNATURES_BUCKET)
+            .createSignedUrl(fetchedQuote.signature_storage_path, 3600);
+        if (urlError) {
+            console.error("Error creating signed URL for signature:", urlError);
+        } else {
+            setSignatureUrl(signedUrlData.signedUrl);
+        }
+    }
+
+    if (fetchedQuote.original_quote_id || fetchedQuote.superseded_at) {
+        try {
+            setRevisions(await getQuoteRevisions(fetchedQuote));
+        } catch (revisionsError) {
+            console.error('Error fetching quote revisions:', revisionsError);
+        }
+    } else {
+        setRevisions([]);
+    }
+
+    if (fetchedQuote.status === 'accepted') {
+        try {
+            setBilling(await getQuoteBilling(quoteId));
+        } catch (billingError) {
+            console.error('Error fetching quote billing:', billingError);
+        }
+    }
     
     setLoading(false);
   }, [id, profile, navigate, instancePath, updateTabLabel]);
@@ -181,6 +255,7 @@ const QuoteEditor: React.FC = () => {
           .then(({ data: orgData }) => {
               if (orgData) {
                   setQuote(prev => ({ ...prev, organizations: orgData }));
+                  setItems(prev => prev.map(item => (item.description ? item : { ...item, vat_rate: getDefaultVatRate(getVatRates(orgData)) })));
               }
           });
       }
@@ -193,15 +268,12 @@ const QuoteEditor: React.FC = () => {
   }, [id, fetchCustomersAndProducts, fetchData, location.state, profile?.org_id]);
 
   useEffect(() => {
+    // Sent quotes are recalculated as well, as the customer's selection of options changes their total.
     if (!isReadOnly) {
-        const newTotal = items.reduce((acc, item) => {
-            const itemTotal = (item.quantity || 0) * (item.unit_price || 0);
-            const vatAmount = itemTotal * ((item.vat_rate || 0) / 100);
-            return acc + itemTotal + vatAmount;
-        }, 0);
+        const newTotal = calculateDocumentTotals(getIncludedQuoteItems(items), { discount_type: quote.discount_type, discount_value: quote.discount_value }).grandTotal;
         setQuote(q => ({...q, total_amount: newTotal }));
     }
-  }, [items, isReadOnly]);
+  }, [items, isReadOnly, quote.discount_type, quote.discount_value]);
 
   const handleQuoteChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     setQuote({ ...quote, [e.target.name]: e.target.value });
@@ -221,7 +293,7 @@ const QuoteEditor: React.FC = () => {
         return;
     }
 
-    if (field === 'quantity' || field === 'unit_price' || field === 'vat_rate') {
+    if (field === 'quantity' || field === 'unit_price' || field === 'vat_rate' || field === 'discount_value') {
       const numericValue = Number(value);
       (item as any)[field] = isNaN(numericValue) ? undefined : numericValue;
     } else {
@@ -232,7 +304,7 @@ const QuoteEditor: React.FC = () => {
     setItems(newItems);
   };
 
-  const addItem = () => setItems([...items, { description: '', quantity: 1, unit_price: 0, vat_rate: 19 }]);
+  const addItem = () => setItems([...items, { description: '', quantity: 1, unit_price: 0, vat_rate: defaultVatRate }]);
   const removeItem = (index: number) => setItems(items.filter((_, i) => i !== index));
   
   const addProductsFromModal = (selectedProducts: Product[]) => {
@@ -261,7 +333,7 @@ const QuoteEditor: React.FC = () => {
             description: product.name,
             quantity: 1,
             unit_price: product.selling_price,
-            vat_rate: 19, // default VAT
+            vat_rate: defaultVatRate,
           });
         }
       });
@@ -278,7 +350,7 @@ const QuoteEditor: React.FC = () => {
       description: e.description,
       quantity: 1,
       unit_price: e.amount,
-      vat_rate: 19,
+      vat_rate: defaultVatRate,
     }));
     const existingExpenseIds = new Set(items.filter(i => i.expense_id).map(i => i.expense_id));
     const uniqueNewItems = newItems.filter(item => !existingExpenseIds.has(item.expense_id));
@@ -358,7 +430,7 @@ const QuoteEditor: React.FC = () => {
         savedQuote = { ...data, quote_items: [] };
       }
       
-      const itemsToSave = items.map(item => ({ ...item, quote_id: savedQuote.id }));
+      const itemsToSave = normalizeQuoteSelection(items).map(item => ({ ...item, quote_id: savedQuote.id }));
       await supabase.from('quote_items').delete().eq('quote_id', savedQuote.id);
       if (itemsToSave.length > 0) {
         const { data: savedItems, error: itemsError } = await supabase.from('quote_items').insert(itemsToSave.map(({ id, ...rest }) => rest)).select();
@@ -393,8 +465,9 @@ const QuoteEditor: React.FC = () => {
     if (!wasActive && !isNowActive) return; // No change in stock reservation status
 
     // Fix: Cast initial items array to restore type info lost from JSON.parse and ensure quantity is treated as a number.
-    const initialItemsMap = new Map(((initial.quote_items || []) as Partial<QuoteItem>[]).filter(i => i.product_id).map(i => [i.product_id, Number(i.quantity ?? 0)]));
-    const finalItemsMap = new Map(finalItems.filter(i => i.product_id).map(i => [i.product_id, Number(i.quantity ?? 0)]));
+    // Only ordered items reserve stock; options and alternatives that were not selected do not.
+    const initialItemsMap = new Map(getIncludedQuoteItems((initial.quote_items || []) as Partial<QuoteItem>[]).filter(i => i.product_id).map(i => [i.product_id, Number(i.quantity ?? 0)]));
+    const finalItemsMap = new Map(getIncludedQuoteItems(finalItems).filter(i => i.product_id).map(i => [i.product_id, Number(i.quantity ?? 0)]));
 
     const allProductIds = new Set([...initialItemsMap.keys(), ...finalItemsMap.keys()]);
     const stockUpdates: { product_id: number; quantity_delta: number }[] = [];
@@ -439,30 +512,104 @@ const QuoteEditor: React.FC = () => {
     }
   };
 
-  const totals = useMemo(() => {
-    let subtotal = 0;
-    const vatTotals: { [key: number]: number } = {};
-    items.forEach(item => {
-      const itemTotal = (item.quantity || 0) * (item.unit_price || 0);
-      subtotal += itemTotal;
-      const vatRate = item.vat_rate || 0;
-      const vatAmount = itemTotal * (vatRate / 100);
-      vatTotals[vatRate] = (vatTotals[vatRate] || 0) + vatAmount;
-    });
-    const totalVat = Object.values(vatTotals).reduce((a, b) => a + b, 0);
-    const grandTotal = subtotal + totalVat;
-    return { subtotal, vatTotals, totalVat, grandTotal };
-  }, [items]);
+  const handleScheduleVisit = async (category: VisitCategory) => {
+    if (!id || id === 'new' || !profile) return;
+    setIsSaving(true);
+    try {
+        const visit = await createVisitFromQuote(parseInt(id), profile, category);
+        setIsScheduleVisitOpen(false);
+        addToast({ type: 'success', title: 'Success', body: t('visitScheduledFromQuote').replace('{number}', visit.visit_number) });
+        openTab({ path: '/dispatcher', label: t('dispatcher'), labelKey: 'dispatcher', state: { scheduledVisitId: visit.id, scheduledVisitDate: visit.start_time } });
+    } catch (error: any) {
+        addToast({ type: 'error', title: 'Error', body: error.message });
+    } finally {
+        setIsSaving(false);
+    }
+  };
+
+  const handleConfirmRevision = async () => {
+    if (!id || id === 'new' || !profile) return;
+    setIsConfirmRevisionOpen(false);
+    setIsSaving(true);
+    try {
+        const revision = await createQuoteRevision(parseInt(id), profile, language);
+        addToast({ type: 'success', title: 'Success', body: t('quoteRevisionCreated').replace('{number}', revision.quote_number) });
+        openTab({ path: `/quotes/edit/${revision.id}`, label: revision.quote_number });
+        fetchData();
+    } catch (error: any) {
+        addToast({ type: 'error', title: 'Error', body: error.message });
+    } finally {
+        setIsSaving(false);
+    }
+  };
+
+  const handleDownloadRevisionPdf = async (revision: QuoteRevision) => {
+    try {
+        await downloadQuotePdf(revision, language);
+    } catch (error: any) {
+        addToast({ type: 'error', title: 'PDF Error', body: error.message });
+    }
+  };
+
+  const handleCreateDownPayment = async (amount: DownPaymentAmount) => {
+    if (!id || id === 'new' || !profile) return;
+    setIsSaving(true);
+    try {
+        const newInvoice = await createDownPaymentInvoice(parseInt(id), amount, profile, language);
+        setIsDownPaymentModalOpen(false);
+        addToast({ type: 'success', title: 'Success', body: t('quoteInvoiceCreated').replace('{number}', newInvoice.invoice_number) });
+        openTab({ path: `/invoices/edit/${newInvoice.id}`, label: newInvoice.invoice_number });
+        fetchData();
+    } catch (error: any) {
+        addToast({ type: 'error', title: 'Error', body: error.message });
+    } finally {
+        setIsSaving(false);
+    }
+  };
+
+  const handleConfirmFinalInvoice = async () => {
+    if (!id || id === 'new' || !profile) return;
+    setIsConfirmFinalInvoiceOpen(false);
+    setIsSaving(true);
+    try {
+        const newInvoice = await createFinalInvoice(parseInt(id), profile, language);
+        addToast({ type: 'success', title: 'Success', body: t('quoteInvoiceCreated').replace('{number}', newInvoice.invoice_number) });
+        openTab({ path: `/invoices/edit/${newInvoice.id}`, label: newInvoice.invoice_number });
+        fetchData();
+    } catch (error: any) {
+        addToast({ type: 'error', title: 'Error', body: error.message });
+    } finally {
+        setIsSaving(false);
+    }
+  };
+
+  const totals = useMemo(
+    () => calculateDocumentTotals(getIncludedQuoteItems(items), { discount_type: quote.discount_type, discount_value: quote.discount_value }),
+    [items, quote.discount_type, quote.discount_value]
+  );
 
   const handleDownloadPdf = async () => {
     if (!id || id === 'new') return;
     try {
-        await generateDocumentPDF(parseInt(id, 10), 'quote', language);
+        await downloadQuotePdf({ id: parseInt(id, 10), quote_number: quote.quote_number || '', pdf_storage_path: quote.pdf_storage_path }, language);
     } catch (error: any) {
         addToast({ type: 'error', title: 'PDF Error', body: error.message });
     }
   };
   
+  const handleCopyPortalLink = async () => {
+    if (!id || id === 'new' || !quote.org_id || !quote.quote_number || !quote.status) return;
+    setIsMenuOpen(false);
+    try {
+        const url = await createQuotePortalLink({ id: parseInt(id, 10), org_id: quote.org_id, quote_number: quote.quote_number, status: quote.status, superseded_at: quote.superseded_at, public_token: quote.public_token }, language);
+        await navigator.clipboard.writeText(url);
+        addToast({ type: 'success', title: t('acceptanceLink'), body: t('acceptanceLinkCopied') });
+        await fetchData();
+    } catch (error: any) {
+        addToast({ type: 'error', title: 'Error', body: error.message });
+    }
+  };
+
   const executeSendEmail = async () => {
     if (!id || id === 'new' || !quote.customers?.email) {
         addToast({ title: 'Cannot Send', body: 'Missing document ID or customer email.', type: 'error'});
@@ -566,7 +713,21 @@ const QuoteEditor: React.FC = () => {
                 </button>
               )}
 
-              {emailSendingEnabled && id && id !== 'new' && (
+              {id && id !== 'new' && canCreateRevision && (
+                <button onClick={() => setIsConfirmRevisionOpen(true)} disabled={isSaving} className="px-4 py-2 text-primary-600 bg-primary-100 rounded-md font-medium hover:bg-primary-200 dark:bg-primary-900/50 dark:text-primary-300 dark:hover:bg-primary-900 disabled:opacity-50 flex items-center gap-x-2">
+                    <ArrowPathRoundedSquareIcon className="w-5 h-5"/>
+                    <span>{t('createRevision')}</span>
+                </button>
+              )}
+
+              {id && id !== 'new' && canScheduleVisit && (
+                <button onClick={() => setIsScheduleVisitOpen(true)} disabled={isSaving} className="px-4 py-2 text-primary-600 bg-primary-100 rounded-md font-medium hover:bg-primary-200 dark:bg-primary-900/50 dark:text-primary-300 dark:hover:bg-primary-900 disabled:opacity-50 flex items-center gap-x-2">
+                    <BriefcaseIcon className="w-5 h-5"/>
+                    <span>{t('scheduleVisit')}</span>
+                </button>
+              )}
+
+              {emailSendingEnabled && id && id !== 'new' && !quote.superseded_at && (
                   <button onClick={handleSendEmail} disabled={isSendingEmail} className="px-4 py-2 text-white bg-primary-600 rounded-md font-medium hover:bg-primary-700 disabled:bg-primary-300 flex items-center gap-x-2">
                       <EnvelopeIcon className="w-5 h-5"/>
                       <span>{isSendingEmail ? t('sending') : t('sendViaEmail')}</span>
@@ -584,6 +745,7 @@ const QuoteEditor: React.FC = () => {
                     {isMenuOpen && (
                         <div className="absolute right-0 mt-2 w-56 bg-white dark:bg-gray-800 rounded-md shadow-lg z-10 border dark:border-slate-700">
                            <button onClick={handleDownloadPdf} className="w-full text-left flex items-center gap-x-3 px-4 py-2 text-sm hover:bg-gray-100 dark:hover:bg-gray-700"><ArrowDownTrayIcon className="w-5 h-5"/> {t('downloadPDF')}</button>
+                           {canShareForAcceptance && <button onClick={handleCopyPortalLink} className="w-full text-left flex items-center gap-x-3 px-4 py-2 text-sm hover:bg-gray-100 dark:hover:bg-gray-700"><LinkIcon className="w-5 h-5"/> {t('copyAcceptanceLink')}</button>}
                         </div>
                     )}
                 </div>
@@ -591,6 +753,35 @@ const QuoteEditor: React.FC = () => {
           </div>
         </div>
 
+        {quote.superseded_at && (
+            <div className="p-4 bg-yellow-100 border-l-4 border-yellow-500 rounded-r-lg dark:bg-yellow-900/50">
+                <div className="flex items-center justify-between gap-4">
+                    <div className="flex">
+                        <div className="flex-shrink-0">
+                            <InformationCircleIcon className="w-5 h-5 text-yellow-600" />
+                        </div>
+                        <p className="ml-3 text-sm text-yellow-700 dark:text-yellow-200">{t('quoteIsSuperseded')}</p>
+                    </div>
+                    {latestRevision && latestRevision.id !== quote.id && (
+                        <button onClick={() => openTab({ path: `/quotes/edit/${latestRevision.id}`, label: latestRevision.quote_number })} className="text-sm font-medium text-primary-600 hover:underline whitespace-nowrap">
+                            {t('openLatestRevision')} ({latestRevision.quote_number})
+                        </button>
+                    )}
+                </div>
+            </div>
+        )}
+
+        {isSentVersion && canSave && (
+            <div className="p-4 bg-blue-100 border-l-4 border-blue-500 rounded-r-lg dark:bg-blue-900/50">
+                <div className="flex">
+                    <div className="flex-shrink-0">
+                        <InformationCircleIcon className="w-5 h-5 text-blue-600" />
+                    </div>
+                    <p className="ml-3 text-sm text-blue-700 dark:text-blue-200">{t('quoteIsSentHint')}</p>
+                </div>
+            </div>
+        )}
+
         {quote.status === 'accepted' && (
             <div className="p-4 bg-blue-100 border-l-4 border-blue-500 rounded-r-lg dark:bg-blue-900/50">
                 <div className="flex">
@@ -601,72 +792,179 @@ const QuoteEditor: React.FC = () => {
                         <p className="text-sm text-blue-700 dark:text-blue-200">
                             {t('quoteIsAccepted')}
                         </p>
+                        {quote.signer_name && quote.signature_date && (
+                            <p className="text-sm text-blue-700 dark:text-blue-200 mt-1">
+                                {t('quoteAnsweredOnline').replace('{name}', quote.signer_name).replace('{date}', `${formatEuropeanDate(quote.signature_date)} ${formatEuropeanTime(quote.signature_date)}`)}
+                            </p>
+                        )}
+                        {signatureUrl && <img src={signatureUrl} alt={t('customerSignature')} className="mt-2 h-20 border rounded-md bg-white" />}
                     </div>
                 </div>
             </div>
         )}
 
+        {quote.status === 'declined' && quote.signer_name && quote.signature_date && (
+            <div className="p-4 bg-gray-100 border-l-4 border-gray-400 rounded-r-lg dark:bg-gray-700/50">
+                <div className="flex">
+                    <div className="flex-shrink-0">
+                        <InformationCircleIcon className="w-5 h-5 text-gray-500" />
+                    </div>
+                    <p className="ml-3 text-sm text-gray-700 dark:text-gray-200">
+                        {t('quoteDeclinedOnlineBy').replace('{name}', quote.signer_name).replace('{date}', `${formatEuropeanDate(quote.signature_date)} ${formatEuropeanTime(quote.signature_date)}`)}
+                    </p>
+                </div>
+            </div>
+        )}
+
+        {quote.status === 'accepted' && billing && (billing.invoices.length > 0 || canBillInStages) && (
+            <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-xl font-bold">{t('quoteBilling')}</h2>
+                    {canBillInStages && (
+                        <div className="flex gap-x-2">
+                            <button onClick={() => setIsDownPaymentModalOpen(true)} disabled={isSaving} className="px-3 py-1.5 text-sm font-medium text-primary-600 bg-primary-100 rounded-md hover:bg-primary-200 dark:bg-primary-900/50 dark:text-primary-300 dark:hover:bg-primary-900 disabled:opacity-50">
+                                {t('createDownPaymentInvoice')}
+                            </button>
+                            <button onClick={() => setIsConfirmFinalInvoiceOpen(true)} disabled={isSaving} className="px-3 py-1.5 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:bg-green-300">
+                                {t('createFinalInvoice')}
+                            </button>
+                        </div>
+                    )}
+                </div>
+                {billing.invoices.length === 0 ? (
+                    <p className="text-sm text-gray-500">{t('noQuoteInvoices')}</p>
+                ) : (
+                    <ul className="divide-y dark:divide-gray-700 text-sm">
+                        {billing.invoices.map(invoice => (
+                            <li key={invoice.id} className="flex justify-between py-2">
+                                <span>
+                                    <button onClick={() => openTab({ path: `/invoices/edit/${invoice.id}`, label: invoice.invoice_number })} className="font-medium text-primary-600 hover:underline">
+                                        {t(`invoice_type_${invoice.invoice_type}` as any)} #{invoice.invoice_number}
+                                    </button>
+                                    <span className="text-gray-500"> ({formatEuropeanDate(invoice.issue_date)}, {t(getInvoiceStatusLabelKey(invoice.status) as any)})</span>
+                                </span>
+                                <span className={invoice.billedAmount !== invoice.total_amount ? 'text-gray-500' : ''}>
+                                    €{invoice.billedAmount.toFixed(2)}{invoice.billedAmount !== invoice.total_amount && <span className="line-through ml-2">€{invoice.total_amount.toFixed(2)}</span>}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                <div className="mt-4 pt-2 border-t dark:border-gray-700 space-y-1 text-sm">
+                    <div className="flex justify-between"><span>{t('billedAmount')}:</span><span>€{billing.billedTotal.toFixed(2)} / €{totals.grandTotal.toFixed(2)}</span></div>
+                    {!billing.isFullyBilled && <div className="flex justify-between font-medium"><span>{t('remainingAmount')}:</span><span>€{(totals.grandTotal - billing.billedTotal).toFixed(2)}</span></div>}
+                </div>
+            </div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
           <div>
             <label className="block text-sm font-medium">{t('customers')}</label>
             <div className="flex items-center space-x-2">
-              <select name="customer_id" value={quote.customer_id || ''} onChange={handleQuoteChange} required disabled={isReadOnly} className="mt-1 w-full p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600 disabled:bg-gray-100 dark:disabled:bg-gray-700/50">
+              <select name="customer_id" value={quote.customer_id || ''} onChange={handleQuoteChange} required disabled={isContentLocked} className="mt-1 w-full p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600 disabled:bg-gray-100 dark:disabled:bg-gray-700/50">
                 <option value="">{t('selectCustomer')}</option>
                 {customers.map(c => <option key={c.id} value={c.id}>{c.name} ({c.customer_number})</option>)}
               </select>
-               {!isReadOnly && <button onClick={() => setIsCustomerModalOpen(true)} className="mt-1 p-2 bg-gray-200 rounded-md dark:bg-gray-600"><PlusIcon className="w-5 h-5"/></button>}
+               {!isContentLocked && <button onClick={() => setIsCustomerModalOpen(true)} className="mt-1 p-2 bg-gray-200 rounded-md dark:bg-gray-600"><PlusIcon className="w-5 h-5"/></button>}
             </div>
           </div>
           <div className="mt-1">
             <label className="block text-sm font-medium">{t('issue_date')}</label>
-            <DatePicker selected={parseAsLocalDate(quote.issue_date)} onChange={(date) => handleDateChange('issue_date', date)} />
+            <DatePicker selected={parseAsLocalDate(quote.issue_date)} onChange={(date) => handleDateChange('issue_date', date)} disabled={isContentLocked} />
           </div>
           <div className="mt-1">
             <label className="block text-sm font-medium">{t('valid_until')}</label>
-            <DatePicker selected={parseAsLocalDate(quote.valid_until_date)} onChange={(date) => handleDateChange('valid_until_date', date)} />
+            <DatePicker selected={parseAsLocalDate(quote.valid_until_date)} onChange={(date) => handleDateChange('valid_until_date', date)} disabled={isContentLocked} />
           </div>
           <div>
             <label className="block text-sm font-medium">{t('status')}</label>
             <select name="status" value={quote.status} onChange={handleQuoteChange} disabled={isReadOnly} className="mt-1 w-full p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600 capitalize disabled:bg-gray-100 dark:disabled:bg-gray-700/50">
-              {(['draft', 'sent', 'accepted', 'declined'] as QuoteStatus[]).map(s => <option key={s} value={s}>{t(s as any)}</option>)}
+              {(['draft', 'sent', 'accepted', 'declined', 'expired'] as QuoteStatus[]).map(s => <option key={s} value={s} disabled={s === 'draft' && isSentVersion}>{t(s as any)}</option>)}
             </select>
           </div>
         </div>
         
+        {revisions.length > 1 && (
+            <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-xl font-bold">{t('quoteRevisions')}</h2>
+                    <button onClick={() => setIsCompareOpen(true)} className="flex items-center gap-x-1 px-3 py-1.5 text-sm font-medium text-primary-600 bg-primary-100 rounded-md hover:bg-primary-200 dark:bg-primary-900/50 dark:text-primary-300 dark:hover:bg-primary-900">
+                        <ArrowsRightLeftIcon className="w-4 h-4"/> {t('compareRevisions')}
+                    </button>
+                </div>
+                <ul className="divide-y dark:divide-gray-700 text-sm">
+                    {revisions.map(revision => (
+                        <li key={revision.id} className="flex justify-between items-center py-2">
+                            <span>
+                                {revision.id === quote.id ? (
+                                    <span className="font-medium">{revision.quote_number}</span>
+                                ) : (
+                                    <button onClick={() => openTab({ path: `/quotes/edit/${revision.id}`, label: revision.quote_number })} className="font-medium text-primary-600 hover:underline">{revision.quote_number}</button>
+                                )}
+                                <span className="text-gray-500"> ({formatEuropeanDate(revision.issue_date)}, {t(revision.status as any)}{revision.superseded_at ? `, ${t('supersededOn')} ${formatEuropeanDate(revision.superseded_at)}` : ''})</span>
+                            </span>
+                            <span className="flex items-center gap-x-3">
+                                <span>€{Number(revision.total_amount).toFixed(2)}</span>
+                                <button onClick={() => handleDownloadRevisionPdf(revision)} title={t('downloadPDF')}><ArrowDownTrayIcon className="w-5 h-5 text-gray-500 hover:text-gray-700"/></button>
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        )}
+
         {id && id !== 'new' && <EmailHistory logs={emailLogs} />}
+        {id && id !== 'new' && <LinkedDocuments type="quote" id={parseInt(id, 10)} />}
 
         <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
           <h2 className="text-xl font-bold mb-4">{t('items')}</h2>
           <div className="overflow-x-auto -mx-6">
               <table className="min-w-full">
               <thead className="border-b dark:border-gray-700"><tr className="text-left text-sm text-gray-500 dark:text-gray-400">
-                  <th className="px-6 py-2 w-[40%]">{t('description')}</th><th className="px-6 py-2 w-28">{t('quantity')}</th><th className="px-6 py-2 w-40">{t('unitPrice')}</th><th className="px-6 py-2 w-32">{t('vatPercent')}</th><th className="px-6 py-2 w-36 text-right">{t('total')}</th><th className="w-10 px-6"></th>
+                  <th className="px-6 py-2 w-[40%]">{t('description')}</th><th className="px-6 py-2 w-28">{t('quantity')}</th><th className="px-6 py-2 w-40">{t('unitPrice')}</th><th className="px-6 py-2 w-36">{t('discount')}</th><th className="px-6 py-2 w-32">{t('vatPercent')}</th><th className="px-6 py-2 w-36 text-right">{t('total')}</th><th className="w-10 px-6"></th>
               </tr></thead>
               <tbody>{items.map((item, index) => {
-                  const itemTotal = (item.quantity || 0) * (item.unit_price || 0);
+                  const itemTotal = calculateItemNet(item);
                   const vatAmount = itemTotal * ((item.vat_rate || 0) / 100);
                   const isExpense = !!item.expense_id;
                   const isPriceLocked = (profile?.role === 'field_service_employee' && !!item.product_id) || isExpense;
+                  const itemKind = getQuoteItemKind(item);
+                  const isIncluded = isQuoteItemIncluded(item);
                   
                   return (
                       <tr key={index} className="border-b dark:border-gray-700">
                           <td className="px-6 py-2">
                             <div className="flex items-center">
                                 {isExpense && <CurrencyDollarIcon className="w-4 h-4 mr-2 text-gray-400" title="Expense"/>}
-                                <input type="text" value={item.description || ''} onChange={(e) => handleItemChange(index, 'description', e.target.value)} readOnly={isReadOnly || isExpense} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600 read-only:bg-gray-100 dark:read-only:bg-gray-700/50"/>
+                                <input type="text" value={item.description || ''} onChange={(e) => handleItemChange(index, 'description', e.target.value)} readOnly={isContentLocked || isExpense} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600 read-only:bg-gray-100 dark:read-only:bg-gray-700/50"/>
+                            </div>
+                            <div className="flex items-center gap-2 mt-1 text-xs">
+                                <select value={itemKind} onChange={(e) => setItems(prev => setQuoteItemKind(prev, index, e.target.value as QuoteItemKind))} disabled={isContentLocked} className="p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600 disabled:bg-gray-100 dark:disabled:bg-gray-700/50">
+                                    {(['standard', 'optional', 'alternative'] as QuoteItemKind[]).map(kind => <option key={kind} value={kind}>{t(`quoteItemKind_${kind}` as any)}</option>)}
+                                </select>
+                                {itemKind === 'alternative' && (
+                                    <input type="text" value={item.alternative_group || ''} onChange={(e) => setItems(prev => normalizeQuoteSelection(prev.map((it, i) => i === index ? { ...it, alternative_group: e.target.value.trim().toUpperCase() || it.alternative_group } : it)))} readOnly={isContentLocked} maxLength={3} title={t('alternativeGroup')} className="w-12 p-1 border rounded-md text-center dark:bg-gray-700 dark:border-gray-600 read-only:bg-gray-100 dark:read-only:bg-gray-700/50"/>
+                                )}
+                                {itemKind !== 'standard' && (
+                                    <label className="flex items-center gap-1 cursor-pointer">
+                                        <input type={itemKind === 'alternative' ? 'radio' : 'checkbox'} checked={!!item.is_selected} onChange={(e) => setItems(prev => selectQuoteItem(prev, index, e.target.checked))} disabled={isReadOnly} className="h-3.5 w-3.5 text-primary-600 focus:ring-primary-500"/>
+                                        {t('selectedByCustomer')}
+                                    </label>
+                                )}
                             </div>
                           </td>
-                          <td className="px-6 py-2"><input type="number" value={item.quantity || ''} onChange={(e) => handleItemChange(index, 'quantity', parseFloat(e.target.value))} readOnly={isReadOnly || isExpense} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600 read-only:bg-gray-100 dark:read-only:bg-gray-700/50"/></td>
-                          <td className="px-6 py-2"><input type="number" step="0.01" value={item.unit_price || ''} onChange={(e) => handleItemChange(index, 'unit_price', parseFloat(e.target.value))} readOnly={isReadOnly || isPriceLocked} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600 read-only:bg-gray-100 dark:read-only:bg-gray-700/50"/></td>
-                          <td className="px-6 py-2"><select value={item.vat_rate} onChange={(e) => handleItemChange(index, 'vat_rate', parseInt(e.target.value))} disabled={isReadOnly} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600 disabled:bg-gray-100 dark:disabled:bg-gray-700/50">{GERMAN_VAT_RATES.map(rate => <option key={rate} value={rate}>{rate}%</option>)}</select></td>
-                          <td className="px-6 py-2 text-right font-medium">€{(itemTotal + vatAmount).toFixed(2)}</td>
-                          <td className="px-6">{!isReadOnly && <button onClick={() => removeItem(index)}><TrashIcon className="w-5 h-5 text-red-500"/></button>}</td>
+                          <td className="px-6 py-2"><input type="number" value={item.quantity || ''} onChange={(e) => handleItemChange(index, 'quantity', parseFloat(e.target.value))} readOnly={isContentLocked || isExpense} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600 read-only:bg-gray-100 dark:read-only:bg-gray-700/50"/></td>
+                          <td className="px-6 py-2"><input type="number" step="0.01" value={item.unit_price || ''} onChange={(e) => handleItemChange(index, 'unit_price', parseFloat(e.target.value))} readOnly={isContentLocked || isPriceLocked} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600 read-only:bg-gray-100 dark:read-only:bg-gray-700/50"/></td>
+                          <td className="px-6 py-2"><DiscountInput discountType={item.discount_type} discountValue={item.discount_value} onChange={(discount) => setItems(prev => prev.map((it, i) => i === index ? { ...it, ...discount } : it))} readOnly={isContentLocked || isPriceLocked} /></td>
+                          <td className="px-6 py-2"><select value={item.vat_rate} onChange={(e) => handleItemChange(index, 'vat_rate', Number(e.target.value))} disabled={isContentLocked} className="w-full p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600 disabled:bg-gray-100 dark:disabled:bg-gray-700/50">{vatRateOptions.map(rate => <option key={rate} value={rate}>{rate}%</option>)}</select></td>
+                          <td className={`px-6 py-2 text-right font-medium ${isIncluded ? '' : 'text-gray-400 italic'}`} title={isIncluded ? undefined : t('notInQuoteTotal')}>{isIncluded ? '' : '('}€{(itemTotal + vatAmount).toFixed(2)}{isIncluded ? '' : ')'}</td>
+                          <td className="px-6">{!isContentLocked && <button onClick={() => removeItem(index)}><TrashIcon className="w-5 h-5 text-red-500"/></button>}</td>
                       </tr>
                   );
               })}</tbody>
               </table>
           </div>
-          {!isReadOnly && <div className="flex space-x-2 mt-4">
+          {!isContentLocked && <div className="flex space-x-2 mt-4">
               <button onClick={() => setIsProductModalOpen(true)} className="px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 text-sm">{t('addProduct')}</button>
               <button onClick={() => setIsExpenseModalOpen(true)} className="px-4 py-2 bg-yellow-500 text-white rounded-md hover:bg-yellow-600 text-sm">{t('addExpense')}</button>
               <button onClick={addItem} className="px-4 py-2 bg-gray-200 rounded-md dark:bg-gray-600 text-sm">{t('addItem')}</button>
@@ -678,13 +976,13 @@ const QuoteEditor: React.FC = () => {
                 <div>
                     <div className="flex justify-between items-center mb-2">
                         <h3 className="font-bold">{t('customerNotes')}</h3>
-                        {textBlocksEnabled && !isReadOnly && (
+                        {textBlocksEnabled && !isContentLocked && (
                             <button onClick={() => setIsTextBlockModalOpen(true)} className="flex items-center gap-x-1 px-2 py-1 text-xs font-medium text-primary-600 bg-primary-100 rounded-md hover:bg-primary-200 dark:bg-primary-900/50 dark:text-primary-300 dark:hover:bg-primary-900">
                                 <TextBlockIcon className="w-4 h-4"/> {t('insertTextBlock')}
                             </button>
                         )}
                     </div>
-                    <textarea name="customer_notes" value={quote.customer_notes || ''} onChange={handleQuoteChange} rows={4} readOnly={isReadOnly} className="w-full p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600 read-only:bg-gray-100 dark:read-only:bg-gray-700/50" placeholder={t('customerNotesHint')}></textarea>
+                    <textarea name="customer_notes" value={quote.customer_notes || ''} onChange={handleQuoteChange} rows={4} readOnly={isContentLocked} className="w-full p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600 read-only:bg-gray-100 dark:read-only:bg-gray-700/50" placeholder={t('customerNotesHint')}></textarea>
                 </div>
                  <div>
                     <h3 className="font-bold mb-2">{t('internalNotes')}</h3>
@@ -692,7 +990,16 @@ const QuoteEditor: React.FC = () => {
                 </div>
             </div>
             <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800 space-y-2">
+                {totals.lineDiscountTotal !== 0 && <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400"><span>{t('lineDiscounts')}:</span><span>€{(-totals.lineDiscountTotal).toFixed(2)}</span></div>}
                 <div className="flex justify-between"><span>{t('subtotal')}:</span><span>€{totals.subtotal.toFixed(2)}</span></div>
+                <div className="flex justify-between items-center gap-4 text-sm">
+                    <span>{t('documentDiscount')}:</span>
+                    <div className="flex items-center gap-2">
+                        <div className="w-32"><DiscountInput discountType={quote.discount_type} discountValue={quote.discount_value} onChange={(discount) => setQuote(q => ({ ...q, ...discount }))} readOnly={isContentLocked || profile?.role === 'field_service_employee'} /></div>
+                        <span className="w-24 text-right">€{(-totals.documentDiscount).toFixed(2)}</span>
+                    </div>
+                </div>
+                {totals.documentDiscount !== 0 && <div className="flex justify-between"><span>{t('netTotal')}:</span><span>€{totals.netTotal.toFixed(2)}</span></div>}
                 {Object.entries(totals.vatTotals).map(([rate, amount]) => (<div key={rate} className="flex justify-between text-sm text-gray-600 dark:text-gray-400"><span>{`${t('totalVAT')} (${rate}%)`}:</span><span>€{(amount as number).toFixed(2)}</span></div>))}
                 <hr className="dark:border-gray-600"/>
                 <div className="flex justify-between text-xl font-bold"><span >{t('total')}:</span><span>€{quote.total_amount?.toFixed(2) || '0.00'}</span></div>
@@ -719,6 +1026,42 @@ const QuoteEditor: React.FC = () => {
         message={t('confirmConvertToInvoiceMsg').replace('{number}', quote.quote_number || '')}
         confirmText={t('convert')}
       />
+      <ConfirmModal
+        isOpen={isConfirmFinalInvoiceOpen}
+        onClose={() => setIsConfirmFinalInvoiceOpen(false)}
+        onConfirm={handleConfirmFinalInvoice}
+        title={t('createFinalInvoice')}
+        message={t('confirmFinalInvoiceMessage').replace('{number}', quote.quote_number || '')}
+        confirmText={t('create')}
+      />
+      <ConfirmModal
+        isOpen={isConfirmRevisionOpen}
+        onClose={() => setIsConfirmRevisionOpen(false)}
+        onConfirm={handleConfirmRevision}
+        title={t('createRevision')}
+        message={t('confirmCreateRevisionMessage').replace('{number}', quote.quote_number || '')}
+        confirmText={t('create')}
+      />
+      <QuoteRevisionCompareModal
+        isOpen={isCompareOpen}
+        onClose={() => setIsCompareOpen(false)}
+        revisions={revisions}
+        currentRevisionId={quote.id}
+      />
+      <DownPaymentModal
+        isOpen={isDownPaymentModalOpen}
+        onClose={() => setIsDownPaymentModalOpen(false)}
+        onConfirm={handleCreateDownPayment}
+        quoteTotal={totals.grandTotal}
+        billedTotal={billing?.billedTotal || 0}
+        isProcessing={isSaving}
+      />
+      <ScheduleVisitModal
+        isOpen={isScheduleVisitOpen}
+        onClose={() => setIsScheduleVisitOpen(false)}
+        onConfirm={handleScheduleVisit}
+        isProcessing={isSaving}
+      />
     </>
   );
 };
@@ -0,0 +1,250 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useParams } from 'react-router-dom';
+import { supabase } from '../services/supabase';
+import { useLanguage } from '../contexts/LanguageContext';
+import { PortalQuote, PortalQuoteItem, QuotePortalRequest } from '../lib/quotePortalHandler';
+import { getIncludedQuoteItems, getQuoteItemKind, isQuoteItemIncluded, selectQuoteItem } from '../lib/quoteOptions';
+import { calculateDocumentTotals, calculateItemNet, formatDiscount } from '../lib/documentTotals';
+import { formatEuropeanDate } from '../lib/formatting';
+import { CubeIcon } from '@heroicons/react/24/solid';
+import { ArrowDownTrayIcon, CheckCircleIcon, XCircleIcon, PencilSquareIcon } from '@heroicons/react/24/outline';
+import SignatureModal from '../components/modals/SignatureModal';
+import LanguageSwitcher from '../components/ui/LanguageSwitcher';
+
+const QuotePortalPage: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const { t } = useLanguage();
+
+  const [quote, setQuote] = useState<PortalQuote | null>(null);
+  const [items, setItems] = useState<PortalQuoteItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [signerName, setSignerName] = useState('');
+  const [signature, setSignature] = useState<string | null>(null);
+  const [isSignatureModalOpen, setIsSignatureModalOpen] = useState(false);
+
+  const callPortal = useCallback(async (body: QuotePortalRequest) => {
+    const { data, error: functionError } = await supabase.functions.invoke('quote-portal', { body });
+    if (functionError) {
+      const message = (functionError as any).context?.json?.error;
+      throw new Error(message || functionError.message);
+    }
+    if (data?.error) throw new Error(data.error);
+    return data.quote as PortalQuote;
+  }, []);
+
+  const applyQuote = (portalQuote: PortalQuote) => {
+    setQuote(portalQuote);
+    setItems(portalQuote.items);
+  };
+
+  useEffect(() => {
+    if (!token) return;
+    setLoading(true);
+    callPortal({ action: 'view', token })
+      .then(applyQuote)
+      .catch((err: any) => setError(err.message))
+      .finally(() => setLoading(false));
+  }, [token, callPortal]);
+
+  const totals = useMemo(() => calculateDocumentTotals(getIncludedQuoteItems(items), { discount_type: quote?.discount_type, discount_value: quote?.discount_value }), [items, quote?.discount_type, quote?.discount_value]);
+
+  const handleRespond = async (accept: boolean) => {
+    if (!token) return;
+    setError(null);
+    if (!signerName.trim()) {
+      setError(t('portalEnterName'));
+      return;
+    }
+    if (accept && !signature) {
+      setError(t('portalSignatureRequired'));
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      applyQuote(await callPortal({
+        action: 'respond',
+        token,
+        accept,
+        signerName: signerName.trim(),
+        signature: accept ? signature : null,
+        selectedItemIds: items.filter(item => getQuoteItemKind(item) !== 'standard' && item.is_selected).map(item => item.id),
+      }));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderSelection = (item: PortalQuoteItem, index: number) => {
+    const kind = getQuoteItemKind(item);
+    if (kind === 'standard') return null;
+    const label = kind === 'alternative' ? `${t('quoteItemKind_alternative')} ${item.alternative_group}` : t('quoteItemKind_optional');
+    if (!quote?.can_respond) {
+      return <span className="block text-xs text-gray-500">{label}{isQuoteItemIncluded(item) ? ` · ${t('selectedByCustomer')}` : ''}</span>;
+    }
+    return (
+      <label className="flex items-center gap-2 mt-1 text-xs text-gray-600 dark:text-gray-300 cursor-pointer">
+        <input
+          type={kind === 'alternative' ? 'radio' : 'checkbox'}
+          name={kind === 'alternative' ? `alternative-${item.alternative_group}` : undefined}
+          checked={!!item.is_selected}
+          onChange={e => setItems(prev => selectQuoteItem(prev, index, e.target.checked))}
+          className="h-4 w-4 border-gray-300 text-primary-600 focus:ring-primary-500"
+        />
+        {label}
+      </label>
+    );
+  };
+
+  const statusMessage = () => {
+    if (!quote || quote.can_respond) return null;
+    if (quote.status === 'accepted' || quote.status === 'declined') {
+      const isAccepted = quote.status === 'accepted';
+      const Icon = isAccepted ? CheckCircleIcon : XCircleIcon;
+      return (
+        <div className={`flex items-center gap-3 p-4 rounded-lg ${isAccepted ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300' : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-200'}`}>
+          <Icon className="w-6 h-6 flex-shrink-0" />
+          <p className="text-sm">
+            {t(isAccepted ? 'portalQuoteAccepted' : 'portalQuoteDeclined').replace('{name}', quote.signer_name || '').replace('{date}', formatEuropeanDate(quote.signature_date))}
+          </p>
+        </div>
+      );
+    }
+    return <div className="p-4 rounded-lg bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-200 text-sm">{t('portalQuoteNotAvailable')}</div>;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900">
+        <div className="w-16 h-16 border-4 border-dashed rounded-full animate-spin border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100 dark:bg-gray-900 py-8 px-4">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <CubeIcon className="w-10 h-10 text-primary-500" />
+            <div>
+              <p className="text-sm text-gray-500 dark:text-gray-400">{quote?.company_name}</p>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{quote ? `${t('quote')} ${quote.quote_number}` : t('quote')}</h1>
+            </div>
+          </div>
+          <LanguageSwitcher />
+        </div>
+
+        {error && <div className="p-4 rounded-lg bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300 text-sm">{error}</div>}
+
+        {quote && (
+          <>
+            {statusMessage()}
+
+            <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800 space-y-4">
+              <div className="flex flex-col sm:flex-row sm:justify-between gap-4 text-sm">
+                <div>
+                  <p className="text-gray-500 dark:text-gray-400">{t('customer')}</p>
+                  <p className="font-medium">{quote.customer_name}</p>
+                </div>
+                <div className="flex gap-6">
+                  <div><p className="text-gray-500 dark:text-gray-400">{t('issue_date')}</p><p className="font-medium">{formatEuropeanDate(quote.issue_date)}</p></div>
+                  <div><p className="text-gray-500 dark:text-gray-400">{t('valid_until')}</p><p className="font-medium">{formatEuropeanDate(quote.valid_until_date)}</p></div>
+                </div>
+                {quote.pdf_url && (
+                  <a href={quote.pdf_url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center self-start px-4 py-2 text-sm font-medium text-primary-600 bg-primary-100 rounded-md hover:bg-primary-200 dark:bg-primary-900/50 dark:text-primary-300">
+                    <ArrowDownTrayIcon className="w-5 h-5 mr-2" /> {t('downloadPDF')}
+                  </a>
+                )}
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500 dark:text-gray-400 uppercase border-b dark:border-gray-700">
+                      <th className="px-3 py-2">{t('description')}</th>
+                      <th className="px-3 py-2 text-right">{t('quantity')}</th>
+                      <th className="px-3 py-2 text-right">{t('unitPrice')}</th>
+                      <th className="px-3 py-2 text-right">{t('total')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {items.map((item, index) => {
+                      const included = isQuoteItemIncluded(item);
+                      return (
+                        <tr key={item.id} className="border-b dark:border-gray-700">
+                          <td className="px-3 py-2">{item.description}{renderSelection(item, index)}</td>
+                          <td className="px-3 py-2 text-right">{item.quantity}</td>
+                          <td className="px-3 py-2 text-right">€{Number(item.unit_price).toFixed(2)}{item.discount_value ? <span className="block text-xs text-gray-500">-{formatDiscount(item)}</span> : null}</td>
+                          <td className={`px-3 py-2 text-right ${included ? '' : 'text-gray-400 italic'}`} title={included ? undefined : t('notInQuoteTotal')}>
+                            {included ? `€${calculateItemNet(item).toFixed(2)}` : `(€${calculateItemNet(item).toFixed(2)})`}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex justify-end">
+                <div className="w-full max-w-xs space-y-1 text-sm">
+                  <div className="flex justify-between"><span className="text-gray-500">{t('subtotal')}:</span><span>€{totals.subtotal.toFixed(2)}</span></div>
+                  {totals.documentDiscount > 0 && <div className="flex justify-between"><span className="text-gray-500">{t('discount')}:</span><span>-€{totals.documentDiscount.toFixed(2)}</span></div>}
+                  {Object.entries(totals.vatTotals).map(([rate, amount]) => (
+                    <div key={rate} className="flex justify-between"><span className="text-gray-500">{t('vat')} ({rate}%):</span><span>€{amount.toFixed(2)}</span></div>
+                  ))}
+                  <div className="flex justify-between text-lg font-bold pt-1 border-t dark:border-gray-700"><span>{t('total')}:</span><span>€{totals.grandTotal.toFixed(2)}</span></div>
+                </div>
+              </div>
+
+              {quote.customer_notes && <p className="text-sm text-gray-600 dark:text-gray-300 whitespace-pre-wrap">{quote.customer_notes}</p>}
+            </div>
+
+            {quote.can_respond && (
+              <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800 space-y-4">
+                <h2 className="text-xl font-bold">{t('portalYourResponse')}</h2>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">{t('portalSignerName')}</label>
+                  <input type="text" value={signerName} onChange={e => setSignerName(e.target.value)} className="mt-1 w-full p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600" />
+                </div>
+                <div>
+                  {signature ? (
+                    <div className="flex items-end gap-4">
+                      <img src={signature} alt={t('customerSignature')} className="h-24 border rounded-md bg-white dark:border-gray-600" />
+                      <button type="button" onClick={() => setIsSignatureModalOpen(true)} className="text-sm text-primary-600 hover:underline">{t('portalSignAgain')}</button>
+                    </div>
+                  ) : (
+                    <button type="button" onClick={() => setIsSignatureModalOpen(true)} className="inline-flex items-center px-4 py-2 text-sm font-medium text-primary-600 bg-primary-100 rounded-md hover:bg-primary-200 dark:bg-primary-900/50 dark:text-primary-300">
+                      <PencilSquareIcon className="w-5 h-5 mr-2" /> {t('portalSign')}
+                    </button>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{t('portalAcceptanceNote')}</p>
+                <div className="flex flex-col sm:flex-row justify-end gap-2">
+                  <button type="button" onClick={() => handleRespond(false)} disabled={isSubmitting} className="px-4 py-2 bg-gray-200 rounded-md font-medium hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 disabled:opacity-50">
+                    {t('portalDeclineQuote')}
+                  </button>
+                  <button type="button" onClick={() => handleRespond(true)} disabled={isSubmitting} className="px-6 py-2 text-white bg-green-600 rounded-md font-medium hover:bg-green-700 disabled:bg-green-300">
+                    {isSubmitting ? t('processing') : `${t('portalAcceptQuote')} (€${totals.grandTotal.toFixed(2)})`}
+                  </button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {isSignatureModalOpen && (
+        <SignatureModal
+          onClose={() => setIsSignatureModalOpen(false)}
+          onSave={dataUrl => { setSignature(dataUrl); setIsSignatureModalOpen(false); }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default QuotePortalPage;
@@ -9,7 +9,8 @@ import { Quote, QuoteStatus } from '../types';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { PlusIcon, PencilIcon, TrashIcon, DocumentDuplicateIcon, ChevronUpIcon, ChevronDownIcon, ArrowDownTrayIcon, EnvelopeIcon, ArrowUpOnSquareIcon } from '@heroicons/react/24/outline';
 import { convertQuoteToInvoice } from '../lib/conversion';
-import generateDocumentPDF from '../lib/pdfGenerator';
+import { downloadQuotePdf, reactivatePreviousRevision } from '../lib/quoteRevisions';
+import { getIncludedQuoteItems } from '../lib/quoteOptions';
 import { generateNextNumber } from '../lib/numberGenerator';
 import ConfirmModal from '../components/modals/ConfirmModal';
 import { formatEuropeanDate } from '../lib/formatting';
@@ -17,7 +18,6 @@ import { format } from 'date-fns';
 import Pagination from '../components/ui/Pagination';
 
 type SortConfig = { key: string; direction: 'asc' | 'desc' };
-type QuoteStatusFilter = QuoteStatus | 'expired';
 const ITEMS_PER_PAGE = 20;
 
 const QuotesPage: React.FC = () => {
@@ -32,7 +32,8 @@ const QuotesPage: React.FC = () => {
   const [quotes, setQuotes] = useState<Quote[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
-  const [statusFilter, setStatusFilter] = useState<QuoteStatusFilter | 'all'>('all');
+  const [statusFilter, setStatusFilter] = useState<QuoteStatus | 'all'>('all');
+  const [showSuperseded, setShowSuperseded] = useState(false);
   const [isConfirmModalOpen, setIsConfirmModalOpen] = useState(false);
   const [quoteToConvert, setQuoteToConvert] = useState<Quote | null>(null);
   const [quoteToDelete, setQuoteToDelete] = useState<Quote | null>(null);
@@ -44,18 +45,18 @@ const QuotesPage: React.FC = () => {
   const canManage = profile?.role !== 'field_service_employee';
   const isFieldServiceEmployee = profile?.role === 'field_service_employee';
   
-  const quoteStatuses: QuoteStatusFilter[] = ['draft', 'sent', 'accepted', 'declined', 'expired'];
+  const quoteStatuses: QuoteStatus[] = ['draft', 'sent', 'accepted', 'declined', 'expired'];
 
   useEffect(() => {
     setCurrentPage(0);
-  }, [searchTerm, statusFilter]);
+  }, [searchTerm, statusFilter, showSuperseded]);
 
   useEffect(() => {
     const state = location.state as { statusFilter?: string }; // Accept any string from navigation state
     if (state?.statusFilter) {
         // Validate that the passed filter is a valid QuoteStatus before applying it.
-        if (quoteStatuses.includes(state.statusFilter as QuoteStatusFilter)) {
-            setStatusFilter(state.statusFilter as QuoteStatusFilter);
+        if (quoteStatuses.includes(state.statusFilter as QuoteStatus)) {
+            setStatusFilter(state.statusFilter as QuoteStatus);
         } else {
             console.error(`Invalid status filter "${state.statusFilter}" passed to QuotesPage. Ignoring.`);
         }
@@ -86,12 +87,11 @@ const QuotesPage: React.FC = () => {
     }
 
     if (statusFilter !== 'all') {
-      if (statusFilter === 'expired') {
-        const today = new Date().toISOString().split('T')[0];
-        query = query.eq('status', 'sent').lt('valid_until_date', today);
-      } else {
-        query = query.eq('status', statusFilter);
-      }
+      query = query.eq('status', statusFilter);
+    }
+
+    if (!showSuperseded) {
+      query = query.is('superseded_at', null);
     }
     
     if (searchTerm) {
@@ -140,7 +140,7 @@ const QuotesPage: React.FC = () => {
     }
     
     setLoading(false);
-  }, [user, profile, searchTerm, statusFilter, sortConfig, currentPage, addToast]);
+  }, [user, profile, searchTerm, statusFilter, showSuperseded, sortConfig, currentPage, addToast]);
 
   useEffect(() => {
     fetchQuotes();
@@ -171,7 +171,7 @@ const QuotesPage: React.FC = () => {
         const validUntil = new Date();
         validUntil.setDate(today.getDate() + 14);
 
-        const { id, created_at, quote_number, status, quote_items, ...rest } = originalQuote;
+        const { id, created_at, quote_number, status, quote_items, original_quote_id, revision_number, superseded_at, pdf_storage_path, public_token, signer_name, signature_storage_path, signature_date, ...rest } = originalQuote;
 
         const newQuoteData = {
             ...rest,
@@ -230,8 +230,9 @@ const QuotesPage: React.FC = () => {
     // Release stock if the quote was active
     const stockRelevantStatuses: QuoteStatus[] = ['sent', 'accepted'];
     if (stockRelevantStatuses.includes(quoteToDelete.status)) {
-        const { data: items } = await supabase.from('quote_items').select('product_id, quantity').eq('quote_id', quoteToDelete.id).not('product_id', 'is', null);
-        if (items && items.length > 0) {
+        const { data: quoteItems } = await supabase.from('quote_items').select('product_id, quantity, is_optional, alternative_group, is_selected').eq('quote_id', quoteToDelete.id).not('product_id', 'is', null);
+        const items = getIncludedQuoteItems(quoteItems || []);
+        if (items.length > 0) {
             const stockUpdates = items.map(item => ({
                 product_id: item.product_id!,
                 quantity_delta: -item.quantity // Negative delta to increase stock
@@ -248,21 +249,26 @@ const QuotesPage: React.FC = () => {
     if (error) {
         addToast({ title: 'Error', body: 'Error deleting quote: ' + error.message, type: 'error' });
     } else {
+        try {
+            await reactivatePreviousRevision(quoteToDelete);
+        } catch (revisionError: any) {
+            addToast({ title: 'Error', body: revisionError.message, type: 'error' });
+        }
         addToast({ title: 'Success', body: 'Quote deleted.', type: 'success' });
         fetchQuotes();
     }
     setQuoteToDelete(null);
   };
 
-  const handleDownloadPDF = async (quoteId: number) => {
+  const handleDownloadPDF = async (quote: Quote) => {
     try {
-        await generateDocumentPDF(quoteId, 'quote', language);
+        await downloadQuotePdf(quote, language);
     } catch(error: any) {
         addToast({ type: 'error', title: 'PDF Error', body: error.message });
     }
   };
   
-  const statusColors: { [key in QuoteStatusFilter | 'default']: string } = {
+  const statusColors: { [key in QuoteStatus | 'default']: string } = {
     draft: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-300 border border-yellow-300/50',
     sent: 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-300 border border-blue-300/50',
     accepted: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300 border border-green-300/50',
@@ -276,6 +282,7 @@ const QuotesPage: React.FC = () => {
     today.setHours(0, 0, 0, 0); // Compare date part only
     const validUntil = new Date(quote.valid_until_date + 'T00:00:00');
     
+    // Until the next status reconciliation runs, a sent quote past its validity date is already shown as expired.
     if (quote.status === 'sent' && validUntil < today) {
         return { label: t('expired'), color: statusColors.expired };
     }
@@ -309,7 +316,7 @@ const QuotesPage: React.FC = () => {
                             'N/A'
                         )}
                     </p>
-                    <p className="text-sm font-mono text-gray-500">{quote.quote_number}</p>
+                    <p className="text-sm font-mono text-gray-500">{quote.quote_number}{quote.superseded_at && <span className="ml-2 font-sans">({t('superseded')})</span>}</p>
                 </div>
                 <div className="flex items-center gap-x-2">
                     {quote.was_sent_via_email && <EnvelopeIcon className="w-5 h-5 text-blue-500" title={t('sentViaEmail')} />}
@@ -349,7 +356,7 @@ const QuotesPage: React.FC = () => {
           />
           <select 
             value={statusFilter}
-            onChange={(e) => setStatusFilter(e.target.value as QuoteStatusFilter | 'all')}
+            onChange={(e) => setStatusFilter(e.target.value as QuoteStatus | 'all')}
             className="w-full sm:w-auto p-2 border rounded-md shadow-sm dark:bg-gray-700 dark:border-gray-600"
           >
             <option value="all">{t('allStatuses')}</option>
@@ -357,6 +364,10 @@ const QuotesPage: React.FC = () => {
               <option key={status} value={status} className="capitalize">{t(status as any)}</option>
             ))}
           </select>
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer whitespace-nowrap">
+            <input type="checkbox" checked={showSuperseded} onChange={e => setShowSuperseded(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"/>
+            {t('showSupersededRevisions')}
+          </label>
         </div>
 
         {loading ? <div className="p-6 text-center text-gray-500">{t('loading')}</div> : (
@@ -393,7 +404,7 @@ const QuotesPage: React.FC = () => {
                         const { label, color } = getStatusInfo(quote);
                         return (
                             <tr key={quote.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 border-b border-gray-200 dark:border-gray-700">
-                                <td className="px-6 py-3 whitespace-nowrap"><button onClick={() => openTab({ path: `/quotes/edit/${quote.id}`, label: quote.quote_number })} className="font-medium text-primary-600 hover:underline">{quote.quote_number}</button></td>
+                                <td className="px-6 py-3 whitespace-nowrap"><button onClick={() => openTab({ path: `/quotes/edit/${quote.id}`, label: quote.quote_number })} className="font-medium text-primary-600 hover:underline">{quote.quote_number}</button>{quote.superseded_at && <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300">{t('superseded')}</span>}</td>
                                 <td className="px-6 py-3 whitespace-nowrap text-sm font-medium">
                                     {quote.customers ? (
                                         <button onClick={() => openTab({ path: `/customers/${quote.customer_id}`, label: quote.customers.name })} className="text-primary-600 hover:underline">{quote.customers.name}</button>
@@ -412,13 +423,13 @@ const QuotesPage: React.FC = () => {
                                     </div>
                                 </td>
                                 <td className="px-6 py-3 whitespace-nowrap text-right text-sm font-medium space-x-2">
-                                    {quote.status !== 'accepted' && canManage && (
+                                    {quote.status !== 'accepted' && !quote.superseded_at && canManage && (
                                         <button onClick={() => handleOpenConfirmModal(quote)} title={t('convertToInvoice')} className="text-green-600 hover:text-green-800">
                                             <ArrowUpOnSquareIcon className="w-5 h-5 inline-block"/>
                                         </button>
                                     )}
                                     {canManage && <button onClick={() => handleCopyQuote(quote.id)} title={t('copyQuote')}><DocumentDuplicateIcon className="w-5 h-5 inline-block text-gray-500 hover:text-primary-600"/></button>}
-                                    <button onClick={() => handleDownloadPDF(quote.id)} title={t('downloadPDF')}><ArrowDownTrayIcon className="w-5 h-5 inline-block text-gray-500 hover:text-gray-700"/></button>
+                                    <button onClick={() => handleDownloadPDF(quote)} title={t('downloadPDF')}><ArrowDownTrayIcon className="w-5 h-5 inline-block text-gray-500 hover:text-gray-700"/></button>
                                     <button onClick={() => openTab({ path: `/quotes/edit/${quote.id}`, label: quote.quote_number })} title={t('editView')}><PencilIcon className="w-5 h-5 inline-block text-primary-600 hover:text-primary-800"/></button>
                                     {canManage && quote.status === 'draft' && (
                                       <button onClick={() => setQuoteToDelete(quote)} title={t('delete')}><TrashIcon className="w-5 h-5 inline-block text-red-600 hover:text-red-800"/></button>
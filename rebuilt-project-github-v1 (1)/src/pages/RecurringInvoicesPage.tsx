@@ -0,0 +1,240 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useLocation } from 'react-router-dom';
+import { supabase } from '../services/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useRefresh } from '../contexts/RefreshContext';
+import { useTabs } from '../contexts/TabContext';
+import { useNotifications } from '../contexts/NotificationContext';
+import { Customer, RecurringInvoice } from '../types';
+import { PlusIcon, PencilIcon, TrashIcon, PlayIcon } from '@heroicons/react/24/outline';
+import { runDueRecurringInvoices } from '../lib/recurringInvoices';
+import { formatEuropeanDate } from '../lib/formatting';
+import { addDays, format } from 'date-fns';
+import ConfirmModal from '../components/modals/ConfirmModal';
+import RecurringInvoiceModal, { RecurringInvoiceDraft } from '../components/modals/RecurringInvoiceModal';
+
+const RecurringInvoicesPage: React.FC = () => {
+  const { profile } = useAuth();
+  const { t, language } = useLanguage();
+  const { refreshKey, triggerRefresh } = useRefresh();
+  const { openTab } = useTabs();
+  const { addToast } = useNotifications();
+  const location = useLocation();
+
+  const [templates, setTemplates] = useState<RecurringInvoice[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isRunning, setIsRunning] = useState(false);
+  const [templateToEdit, setTemplateToEdit] = useState<RecurringInvoiceDraft | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [templateToDelete, setTemplateToDelete] = useState<RecurringInvoice | null>(null);
+
+  const canManage = profile?.role !== 'field_service_employee' && profile?.role !== 'super_admin';
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const fetchData = useCallback(async () => {
+    if (!profile?.org_id) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    const [{ data, error }, { data: customerData }] = await Promise.all([
+      supabase
+        .from('recurring_invoices')
+        .select('*, customers(id, name, email), recurring_invoice_items(*)')
+        .eq('org_id', profile.org_id)
+        .order('next_run_date', { ascending: true }),
+      supabase.from('customers').select('*').eq('org_id', profile.org_id).order('name'),
+    ]);
+
+    if (error) {
+      addToast({ title: 'Error', body: `Failed to fetch recurring invoices: ${error.message}`, type: 'error' });
+    } else {
+      setTemplates((data || []) as RecurringInvoice[]);
+    }
+    setCustomers(customerData || []);
+    setLoading(false);
+  }, [profile, addToast]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData, refreshKey]);
+
+  // "Make recurring" in the invoice editor opens this page with the invoice to copy.
+  useEffect(() => {
+    const state = location.state as { sourceInvoiceId?: number } | null;
+    if (!state?.sourceInvoiceId) return;
+    supabase
+      .from('invoices')
+      .select('customer_id, customer_notes, invoice_number, invoice_items(product_id, description, quantity, unit_price, vat_rate)')
+      .eq('id', state.sourceInvoiceId)
+      .single()
+      .then(({ data: invoice }) => {
+        if (!invoice) return;
+        const startDate = format(addDays(new Date(), 1), 'yyyy-MM-dd');
+        setTemplateToEdit({
+          title: invoice.invoice_number,
+          customer_id: invoice.customer_id,
+          customer_notes: invoice.customer_notes,
+          start_date: startDate,
+          next_run_date: startDate,
+          recurring_invoice_items: (invoice.invoice_items || []) as RecurringInvoiceDraft['recurring_invoice_items'],
+        });
+        setIsModalOpen(true);
+      });
+  }, [location.state]);
+
+  const handleNew = () => {
+    setTemplateToEdit(null);
+    setIsModalOpen(true);
+  };
+
+  const handleEdit = (template: RecurringInvoice) => {
+    setTemplateToEdit(template);
+    setIsModalOpen(true);
+  };
+
+  const handleSaved = () => {
+    setIsModalOpen(false);
+    setTemplateToEdit(null);
+    addToast({ title: 'Success', body: t('recurringInvoiceSaved'), type: 'success' });
+    fetchData();
+  };
+
+  const handleToggleActive = async (template: RecurringInvoice) => {
+    const { error } = await supabase.from('recurring_invoices').update({ is_active: !template.is_active }).eq('id', template.id);
+    if (error) {
+      addToast({ title: 'Error', body: error.message, type: 'error' });
+      return;
+    }
+    fetchData();
+  };
+
+  const executeDelete = async () => {
+    if (!templateToDelete) return;
+    const { error } = await supabase.from('recurring_invoices').delete().eq('id', templateToDelete.id);
+    if (error) {
+      addToast({ title: 'Error', body: error.message, type: 'error' });
+    } else {
+      addToast({ title: 'Success', body: t('recurringInvoiceDeleted'), type: 'success' });
+      fetchData();
+    }
+    setTemplateToDelete(null);
+  };
+
+  const handleRunNow = async () => {
+    if (!profile?.org_id) return;
+    setIsRunning(true);
+    try {
+      const { created, errors } = await runDueRecurringInvoices(profile.org_id, language);
+      addToast({ title: t('recurringInvoices'), body: t('recurringRunCompleted').replace('{count}', String(created.length)), type: 'success' });
+      if (errors.length > 0) {
+        addToast({ title: 'Error', body: errors.join('\n'), type: 'error' });
+      }
+      if (created.length > 0) triggerRefresh();
+    } catch (error: any) {
+      addToast({ title: 'Error', body: error.message, type: 'error' });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const calculateTotal = (template: RecurringInvoice) => (template.recurring_invoice_items || []).reduce((acc, item) => {
+    const net = Number(item.quantity) * Number(item.unit_price);
+    return acc + net + net * (Number(item.vat_rate) / 100);
+  }, 0);
+
+  const thClass = "px-6 py-3 text-left text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider border-b-2 border-gray-200 dark:border-gray-700";
+  const dueCount = templates.filter(template => template.is_active && template.next_run_date <= today).length;
+
+  return (
+    <>
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{t('recurringInvoices')}</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">{t('recurringInvoicesDescription')}</p>
+        </div>
+        {canManage && (
+          <div className="flex gap-2 mt-4 sm:mt-0">
+            <button onClick={handleRunNow} disabled={isRunning || dueCount === 0} className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50 dark:bg-gray-700 dark:text-gray-200 dark:border-gray-600 disabled:opacity-50">
+              <PlayIcon className="w-5 h-5 mr-2" /> {isRunning ? t('processing') : `${t('runDueRecurringInvoices')} (${dueCount})`}
+            </button>
+            <button onClick={handleNew} className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-md shadow-sm hover:bg-primary-700">
+              <PlusIcon className="w-5 h-5 mr-2" /> {t('newRecurringInvoice')}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {loading ? <div className="p-6 text-center text-gray-500">{t('loading')}</div> : (
+        <div className="bg-white rounded-lg shadow-md dark:bg-gray-800 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full">
+              <thead>
+                <tr>
+                  <th className={thClass}>{t('title')}</th>
+                  <th className={thClass}>{t('customer')}</th>
+                  <th className={thClass}>{t('recurrenceInterval')}</th>
+                  <th className={thClass}>{t('nextRunDate')}</th>
+                  <th className={thClass}>{t('endDate')}</th>
+                  <th className={`${thClass} text-right`}>{t('total')}</th>
+                  <th className={thClass}>{t('status')}</th>
+                  <th className={`${thClass} text-right`}>{t('actions')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {templates.length > 0 ? templates.map(template => (
+                  <tr key={template.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 border-b border-gray-200 dark:border-gray-700 text-sm">
+                    <td className="px-6 py-4 font-medium">
+                      {template.title}
+                      {template.auto_send && <span className="block text-xs text-gray-500">{t('autoSendRecurringInvoice')}</span>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <button onClick={() => openTab({ path: `/customers/${template.customer_id}`, label: template.customers?.name || '' })} className="text-primary-600 hover:underline">{template.customers?.name}</button>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">{t(`interval_${template.interval}` as any)}</td>
+                    <td className={`px-6 py-4 whitespace-nowrap ${template.is_active && template.next_run_date <= today ? 'text-red-600 font-medium' : 'text-gray-500 dark:text-gray-400'}`}>{template.is_active ? formatEuropeanDate(template.next_run_date) : '-'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-gray-500 dark:text-gray-400">{template.end_date ? formatEuropeanDate(template.end_date) : '-'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right">€{calculateTotal(template).toFixed(2)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <button onClick={() => canManage && handleToggleActive(template)} disabled={!canManage} className={`px-2 py-1 text-xs font-semibold rounded-full ${template.is_active ? 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300' : 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300'}`}>
+                        {template.is_active ? t('active') : t('inactive')}
+                      </button>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right space-x-2">
+                      {canManage && <button onClick={() => handleEdit(template)} title={t('edit')}><PencilIcon className="w-5 h-5 inline-block text-primary-600 hover:text-primary-800"/></button>}
+                      {canManage && <button onClick={() => setTemplateToDelete(template)} title={t('delete')}><TrashIcon className="w-5 h-5 inline-block text-red-600 hover:text-red-800"/></button>}
+                    </td>
+                  </tr>
+                )) : (
+                  <tr><td colSpan={8} className="p-4 text-center text-gray-500">{t('noRecurringInvoices')}</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+    {isModalOpen && (
+      <RecurringInvoiceModal
+        template={templateToEdit}
+        customers={customers}
+        closeModal={() => setIsModalOpen(false)}
+        onSave={handleSaved}
+      />
+    )}
+    <ConfirmModal
+      isOpen={!!templateToDelete}
+      onClose={() => setTemplateToDelete(null)}
+      onConfirm={executeDelete}
+      title={t('deleteRecurringInvoice')}
+      message={t('confirmDeleteRecurringInvoice').replace('{title}', templateToDelete?.title || '')}
+      confirmText={t('delete')}
+    />
+    </>
+  );
+};
+
+export default RecurringInvoicesPage;
@@ -5,10 +5,16 @@ import { useLanguage } from '../contexts/LanguageContext';
 import { useRefresh } from '../contexts/RefreshContext';
 import { Customer, Visit, Invoice, Quote, Profile, Organization, Expense } from '../types';
 import DatePicker from '../components/ui/DatePicker';
+import DatevValidationModal from '../components/modals/DatevValidationModal';
 import { format } from 'date-fns';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, LabelList } from 'recharts';
 import { downloadCsv, generateReportPdf } from '../lib/export';
-import { generateDatevExport } from '../lib/datev';
+import { DatevExport, downloadDatevExport, prepareDatevExport } from '../lib/datev';
+import { downloadDatevDocumentPackage } from '../lib/datevDocuments';
+import { findVatRate, getVatRates } from '../lib/vatRates';
+import { calculateDocumentTotals, calculateItemNet } from '../lib/documentTotals';
+import { getExpenseVatLines } from '../lib/expenseVat';
+import { BOOKED_EXPENSE_STATUSES } from '../lib/expenseApproval';
 import { ArrowDownTrayIcon, ChevronDownIcon } from '@heroicons/react/24/outline';
 
 interface SalesByCustomer {
@@ -26,7 +32,18 @@ interface TeamPerformance {
     completedVisits: number;
 }
 
+type RevenueBasis = 'cash' | 'accrual';
+
+interface RevenueInvoice {
+    id: number;
+    amount: number;
+    total_amount: number;
+    user_id: string;
+    customerName: string;
+}
+
 interface ReportData {
+  revenueBasis: RevenueBasis;
   kpis: {
     newCustomers: number;
     avgInvoiceValue: number;
@@ -40,6 +57,10 @@ interface ReportData {
   salesByCustomer: SalesByCustomer[];
   taxSummary: {
     collected: number;
+    byRate: { rate: number; label: string; amount: number }[];
+    inputTax: number; // deductible VAT of the expenses (Vorsteuer)
+    inputTaxByRate: { rate: number; label: string; amount: number }[];
+    payable: number; // collected VAT minus input tax
   };
   topSellingProducts: TopSellingProduct[];
   teamPerformance: TeamPerformance[];
@@ -47,7 +68,7 @@ interface ReportData {
 
 const ReportsPage: React.FC = () => {
   const { user, profile } = useAuth();
-  const { t } = useLanguage();
+  const { t, language } = useLanguage();
   const { refreshKey } = useRefresh();
   const [loading, setLoading] = useState(false);
   const [reportData, setReportData] = useState<ReportData | null>(null);
@@ -56,6 +77,9 @@ const ReportsPage: React.FC = () => {
   const [currentOrganization, setCurrentOrganization] = useState<Organization | null>(null);
   const [selectedOrgId, setSelectedOrgId] = useState<string>('');
   const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [datevExport, setDatevExport] = useState<DatevExport | null>(null);
+  const [isDatevExportWithDocuments, setIsDatevExportWithDocuments] = useState(false);
+  const [revenueBasis, setRevenueBasis] = useState<RevenueBasis>('cash');
   const exportMenuRef = useRef<HTMLDivElement>(null);
 
   const today = new Date();
@@ -94,36 +118,67 @@ const ReportsPage: React.FC = () => {
     setLoading(true); setReportData(null);
     const startDateString = format(startDate, 'yyyy-MM-dd');
     const endDateString = format(endDate, 'yyyy-MM-dd');
-    const [{ data: invoices }, { data: expenses }, { data: quotes }, { data: customers }, { data: visits }, { data: employees }] = await Promise.all([
-      supabase.from('invoices').select('id, total_amount, customer_id, user_id, customers!inner(name)').eq('org_id', targetOrgId).eq('status', 'paid').gte('issue_date', startDateString).lte('issue_date', endDateString),
-      supabase.from('expenses').select('amount').eq('org_id', targetOrgId).gte('expense_date', startDateString).lte('expense_date', endDateString),
+    const [{ data: expenses }, { data: quotes }, { data: customers }, { data: visits }, { data: employees }] = await Promise.all([
+      supabase.from('expenses').select('amount, net_amount, vat_amount, vat_lines').eq('org_id', targetOrgId).in('status', BOOKED_EXPENSE_STATUSES).gte('expense_date', startDateString).lte('expense_date', endDateString),
       supabase.from('quotes').select('status').eq('org_id', targetOrgId).gte('issue_date', startDateString).lte('issue_date', endDateString),
       supabase.from('customers').select('created_at').eq('org_id', targetOrgId).gte('created_at', startDateString).lte('created_at', endDateString),
       supabase.from('visits').select('assigned_employee_id, status').eq('org_id', targetOrgId).gte('visit_date', startDateString).lte('visit_date', endDateString),
       supabase.from('profiles').select('id, full_name, email').eq('org_id', targetOrgId),
     ]);
-    const paidInvoices = invoices || [];
-    const totalRevenue = paidInvoices.reduce((sum, inv) => sum + inv.total_amount, 0);
+    // Revenue is recognised per invoice: the full total when issued (accrual basis) or the payments received in the period (cash basis).
+    let paidInvoices: RevenueInvoice[] = [];
+    if (revenueBasis === 'accrual') {
+      const { data: issuedInvoices } = await supabase.from('invoices').select('id, total_amount, user_id, customers!inner(name)').eq('org_id', targetOrgId).in('status', ['sent', 'paid', 'overdue', 'cancelled']).gte('issue_date', startDateString).lte('issue_date', endDateString);
+      paidInvoices = (issuedInvoices || []).map(inv => ({ id: inv.id, amount: inv.total_amount, total_amount: inv.total_amount, user_id: inv.user_id, customerName: (inv.customers as any)?.name || 'Unknown Customer' }));
+    } else {
+      const [{ data: payments }, { data: settledInvoices }] = await Promise.all([
+        supabase.from('invoice_payments').select('amount, invoices!inner(id, total_amount, user_id, customers!inner(name))').eq('org_id', targetOrgId).gte('payment_date', startDateString).lte('payment_date', endDateString),
+        supabase.from('invoices').select('id, total_amount, user_id, customers!inner(name), invoice_payments(id)').eq('org_id', targetOrgId).eq('status', 'paid').gte('issue_date', startDateString).lte('issue_date', endDateString),
+      ]);
+      const revenueByInvoice = new Map<number, RevenueInvoice>();
+      (payments || []).forEach(payment => {
+        const inv = payment.invoices as any;
+        const existing = revenueByInvoice.get(inv.id);
+        if (existing) existing.amount += Number(payment.amount);
+        else revenueByInvoice.set(inv.id, { id: inv.id, amount: Number(payment.amount), total_amount: inv.total_amount, user_id: inv.user_id, customerName: inv.customers?.name || 'Unknown Customer' });
+      });
+      // Invoices marked as paid without ledger entries (legacy data, credit notes) count on their issue date.
+      (settledInvoices || []).filter(inv => (inv.invoice_payments || []).length === 0).forEach(inv => {
+        revenueByInvoice.set(inv.id, { id: inv.id, amount: inv.total_amount, total_amount: inv.total_amount, user_id: inv.user_id, customerName: (inv.customers as any)?.name || 'Unknown Customer' });
+      });
+      paidInvoices = Array.from(revenueByInvoice.values());
+    }
+    // Share of each invoice recognised in this period, used to pro-rate VAT and product revenue.
+    const recognisedShare = new Map(paidInvoices.map(inv => [inv.id, inv.total_amount ? inv.amount / inv.total_amount : 0]));
+    const totalRevenue = paidInvoices.reduce((sum, inv) => sum + inv.amount, 0);
     const avgInvoiceValue = paidInvoices.length > 0 ? totalRevenue / paidInvoices.length : 0;
     const acceptedQuotes = (quotes || []).filter(q => q.status === 'accepted').length;
-    const relevantQuotes = (quotes || []).filter(q => ['sent', 'accepted', 'declined'].includes(q.status)).length;
+    const relevantQuotes = (quotes || []).filter(q => ['sent', 'accepted', 'declined', 'expired'].includes(q.status)).length;
     const quoteConversionRate = relevantQuotes > 0 ? (acceptedQuotes / relevantQuotes) * 100 : 0;
     const totalExpenses = (expenses || []).reduce((sum, exp) => sum + exp.amount, 0);
     const profit = totalRevenue - totalExpenses;
     const customerSales: { [key: string]: number } = {};
     paidInvoices.forEach(inv => {
-      const customerName = (inv.customers as any)?.name || 'Unknown Customer';
-      customerSales[customerName] = (customerSales[customerName] || 0) + inv.total_amount;
+      customerSales[inv.customerName] = (customerSales[inv.customerName] || 0) + inv.amount;
     });
     const salesByCustomer = Object.entries(customerSales).map(([customerName, totalSales]) => ({ customerName, totalSales })).sort((a, b) => a.totalSales - b.totalSales);
     let totalVatCollected = 0;
-    if (paidInvoices.length > 0) {
-      const { data: items } = await supabase.from('invoice_items').select('quantity, unit_price, vat_rate').in('invoice_id', paidInvoices.map(i => i.id));
-      totalVatCollected = (items || []).reduce((sum, item) => sum + (item.quantity * item.unit_price * (item.vat_rate / 100)), 0);
-    }
+    const vatByRate: { [rate: number]: number } = {};
     let topSellingProducts: TopSellingProduct[] = [];
     if (paidInvoices.length > 0) {
-      const { data: items } = await supabase.from('invoice_items').select('quantity, unit_price, products!left(name)').in('invoice_id', paidInvoices.map(i => i.id));
+      const { data: items } = await supabase.from('invoice_items').select('invoice_id, quantity, unit_price, vat_rate, discount_type, discount_value, products!left(name), invoices!inner(discount_type, discount_value)').in('invoice_id', paidInvoices.map(i => i.id));
+      // Totals per invoice, so line and document discounts reduce both the VAT and the product revenue.
+      const itemsByInvoice = new Map<number, any[]>();
+      (items || []).forEach(item => itemsByInvoice.set(item.invoice_id, [...(itemsByInvoice.get(item.invoice_id) || []), item]));
+      const documentDiscountShare = new Map<number, number>();
+      itemsByInvoice.forEach((invoiceItems, invoiceId) => {
+        const totals = calculateDocumentTotals(invoiceItems, invoiceItems[0].invoices as any);
+        totalVatCollected += totals.totalVat * (recognisedShare.get(invoiceId) ?? 1);
+        Object.entries(totals.vatTotals).forEach(([rate, amount]) => {
+          vatByRate[Number(rate)] = (vatByRate[Number(rate)] || 0) + amount * (recognisedShare.get(invoiceId) ?? 1);
+        });
+        documentDiscountShare.set(invoiceId, totals.subtotal ? totals.netTotal / totals.subtotal : 1);
+      });
       const productMap: { [key: string]: { totalQuantity: number, totalRevenue: number } } = {};
       (items || []).forEach(item => {
         if (item.products) {
@@ -131,20 +186,32 @@ const ReportsPage: React.FC = () => {
           if (name) {
             if (!productMap[name]) productMap[name] = { totalQuantity: 0, totalRevenue: 0 };
             productMap[name].totalQuantity += item.quantity;
-            productMap[name].totalRevenue += item.quantity * item.unit_price;
+            productMap[name].totalRevenue += calculateItemNet(item) * (documentDiscountShare.get(item.invoice_id) ?? 1) * (recognisedShare.get(item.invoice_id) ?? 1);
           }
         }
       });
       topSellingProducts = Object.entries(productMap).map(([productName, data]) => ({ productName, ...data })).sort((a, b) => b.totalRevenue - a.totalRevenue).slice(0, 10);
     }
     const teamRevenueMap: { [key: string]: number } = {};
-    paidInvoices.forEach(inv => { if (inv.user_id) teamRevenueMap[inv.user_id] = (teamRevenueMap[inv.user_id] || 0) + inv.total_amount; });
+    paidInvoices.forEach(inv => { if (inv.user_id) teamRevenueMap[inv.user_id] = (teamRevenueMap[inv.user_id] || 0) + inv.amount; });
     const teamVisitsMap: { [key: string]: number } = {};
     (visits || []).forEach(v => { if (v.assigned_employee_id && v.status === 'completed') { teamVisitsMap[v.assigned_employee_id] = (teamVisitsMap[v.assigned_employee_id] || 0) + 1; } });
     const teamPerformance = (employees || []).map(emp => ({ employeeName: emp.full_name || emp.email, totalRevenue: teamRevenueMap[emp.id] || 0, completedVisits: teamVisitsMap[emp.id] || 0 })).filter(e => e.totalRevenue > 0 || e.completedVisits > 0).sort((a, b) => b.totalRevenue - a.totalRevenue);
-    setReportData({ kpis: { newCustomers: (customers || []).length, avgInvoiceValue, quoteConversionRate }, profitLoss: { revenue: totalRevenue, expenses: totalExpenses, profit }, salesByCustomer, taxSummary: { collected: totalVatCollected }, topSellingProducts, teamPerformance });
+    const vatRates = getVatRates(organizations.find(o => o.id === targetOrgId));
+    const toRateEntries = (amounts: { [rate: number]: number }) => Object.entries(amounts)
+      .map(([rate, amount]) => ({ rate: Number(rate), label: findVatRate(vatRates, Number(rate), endDate)?.label || '', amount }))
+      .filter(entry => entry.amount !== 0)
+      .sort((a, b) => b.rate - a.rate);
+    const vatCollectedByRate = toRateEntries(vatByRate);
+    // Only deductible VAT counts as input tax; non-deductible VAT is part of the expense.
+    const inputTaxByRate: { [rate: number]: number } = {};
+    (expenses || []).forEach(expense => getExpenseVatLines(expense).filter(line => line.is_deductible).forEach(line => {
+      inputTaxByRate[Number(line.vat_rate)] = (inputTaxByRate[Number(line.vat_rate)] || 0) + Number(line.vat_amount);
+    }));
+    const totalInputTax = Object.values(inputTaxByRate).reduce((sum, amount) => sum + amount, 0);
+    setReportData({ revenueBasis, kpis: { newCustomers: (customers || []).length, avgInvoiceValue, quoteConversionRate }, profitLoss: { revenue: totalRevenue, expenses: totalExpenses, profit }, salesByCustomer, taxSummary: { collected: totalVatCollected, byRate: vatCollectedByRate, inputTax: totalInputTax, inputTaxByRate: toRateEntries(inputTaxByRate), payable: totalVatCollected - totalInputTax }, topSellingProducts, teamPerformance });
     setLoading(false);
-  }, [user, profile, startDate, endDate, selectedOrgId]);
+  }, [user, profile, startDate, endDate, selectedOrgId, revenueBasis, organizations]);
 
   const handleExport = (fileType: 'csv' | 'pdf') => {
     if (!reportData) { alert(t('pleaseGenerateReportFirst')); return; }
@@ -160,13 +227,25 @@ const ReportsPage: React.FC = () => {
     setIsExportMenuOpen(false);
   };
 
-  const handleDatevExport = async () => {
+  // The package variant bundles the bookings with the invoice PDFs and expense receipts in one ZIP file.
+  const downloadDatev = async (prepared: DatevExport, org: Organization, withDocuments: boolean) => {
+    if (!withDocuments) {
+        downloadDatevExport(prepared, org.datev_settings!);
+        return;
+    }
+    const { missingDocuments } = await downloadDatevDocumentPackage(prepared, org.datev_settings!, { start: startDate!, end: endDate! }, language);
+    if (missingDocuments.length > 0) {
+        alert(t('datevDocumentsMissing').replace('{count}', String(missingDocuments.length)).replace('{documents}', missingDocuments.join(', ')));
+    }
+  };
+
+  const handleDatevExport = async (withDocuments: boolean) => {
     const targetOrgId = profile?.role === 'super_admin' ? selectedOrgId : profile?.org_id;
     const org = organizations.find(o => o.id === targetOrgId);
     if (!org || !startDate || !endDate) return;
 
-    if (!org.datev_settings || !org.datev_settings.debtor_account) {
-        alert("DATEV settings are incomplete. Please configure them in the Settings page.");
+    if (!org.datev_settings?.consultant_number || !org.datev_settings?.client_number) {
+        alert(t('datevSettingsIncomplete'));
         return;
     }
 
@@ -175,10 +254,22 @@ const ReportsPage: React.FC = () => {
         const startDateString = format(startDate, 'yyyy-MM-dd');
         const endDateString = format(endDate, 'yyyy-MM-dd');
 
-        const { data: invoices } = await supabase.from('invoices').select('*, invoice_items(*), customers(name)').eq('org_id', targetOrgId).eq('status', 'paid').gte('issue_date', startDateString).lte('issue_date', endDateString);
-        const { data: expenses } = await supabase.from('expenses').select('*').eq('org_id', targetOrgId).gte('expense_date', startDateString).lte('expense_date', endDateString);
+        // Paid invoices, and every correction: a cancelled invoice is exported together with its cancellation, a credit
+        // note on an unpaid invoice as soon as it is issued.
+        const { data: invoices } = await supabase.from('invoices').select('*, invoice_items(*), customers(*), original_invoice:original_invoice_id(invoice_number)').eq('org_id', targetOrgId).or('status.in.(paid,cancelled),invoice_type.in.(cancellation,credit_note)').gte('issue_date', startDateString).lte('issue_date', endDateString);
+        const { data: expenses } = await supabase.from('expenses').select('*').eq('org_id', targetOrgId).in('status', BOOKED_EXPENSE_STATUSES).gte('expense_date', startDateString).lte('expense_date', endDateString);
+        const { data: payments } = org.datev_settings.payment_account
+            ? await supabase.from('invoice_payments').select('*, invoices!inner(invoice_number, customers(*))').eq('org_id', targetOrgId).gte('payment_date', startDateString).lte('payment_date', endDateString)
+            : { data: [] };
 
-        await generateDatevExport(invoices || [], expenses || [], org.datev_settings, { start: startDate, end: endDate });
+        const prepared = prepareDatevExport(invoices || [], expenses || [], org.datev_settings, getVatRates(org), { start: startDate, end: endDate }, payments || []);
+        // Documents without account mappings are listed before the export instead of being left out silently.
+        if (prepared.skipped.length > 0) {
+            setIsDatevExportWithDocuments(withDocuments);
+            setDatevExport(prepared);
+        } else {
+            await downloadDatev(prepared, org, withDocuments);
+        }
 
     } catch (error: any) {
         alert("Failed to generate DATEV export: " + error.message);
@@ -188,6 +279,21 @@ const ReportsPage: React.FC = () => {
     }
   };
 
+  const handleConfirmDatevExport = async () => {
+    const org = organizations.find(o => o.id === (profile?.role === 'super_admin' ? selectedOrgId : profile?.org_id));
+    if (!datevExport || !org?.datev_settings) return;
+    const prepared = datevExport;
+    setDatevExport(null);
+    setLoading(true);
+    try {
+        await downloadDatev(prepared, org, isDatevExportWithDocuments);
+    } catch (error: any) {
+        alert("Failed to generate DATEV export: " + error.message);
+    } finally {
+        setLoading(false);
+    }
+  };
+
   const ReportCard: React.FC<{ title: string; children: React.ReactNode; className?: string }> = ({ title, children, className }) => (
     <div className={`bg-white dark:bg-slate-800 rounded-lg shadow-md p-6 ${className}`}>
       <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">{title}</h2>
@@ -215,7 +321,10 @@ const ReportsPage: React.FC = () => {
                     {isExportMenuOpen && (
                         <div className="absolute right-0 mt-2 w-48 bg-white dark:bg-gray-700 rounded-md shadow-lg z-10">
                             {currentOrganization?.is_datev_export_enabled && (
-                                <button onClick={handleDatevExport} disabled={loading} className="block w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600 disabled:opacity-50">{t('exportForDatev')}</button>
+                                <>
+                                    <button onClick={() => handleDatevExport(false)} disabled={loading} className="block w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600 disabled:opacity-50">{t('exportForDatev')}</button>
+                                    <button onClick={() => handleDatevExport(true)} disabled={loading} className="block w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600 disabled:opacity-50">{t('exportForDatevWithDocuments')}</button>
+                                </>
                             )}
                             <button onClick={() => handleExport('csv')} className="block w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600">{t('exportAsCsv')}</button>
                             <button onClick={() => handleExport('pdf')} className="block w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600">{t('exportAsPdf')}</button>
@@ -240,6 +349,13 @@ const ReportsPage: React.FC = () => {
         )}
         <div className="flex-1 w-full"><label className="block text-sm font-medium text-gray-700 dark:text-gray-300">{t('startDate')}</label><DatePicker selected={startDate} onChange={setStartDate} /></div>
         <div className="flex-1 w-full"><label className="block text-sm font-medium text-gray-700 dark:text-gray-300">{t('endDate')}</label><DatePicker selected={endDate} onChange={setEndDate} /></div>
+        <div className="flex-1 w-full">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">{t('revenueBasis')}</label>
+            <select value={revenueBasis} onChange={e => setRevenueBasis(e.target.value as RevenueBasis)} className="mt-1 w-full p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600">
+                <option value="cash">{t('revenueBasisCash')}</option>
+                <option value="accrual">{t('revenueBasisAccrual')}</option>
+            </select>
+        </div>
         <button onClick={generateReport} disabled={loading || (profile?.role === 'super_admin' && !selectedOrgId)} className="w-full md:w-auto mt-4 md:mt-0 px-6 py-2.5 text-sm font-medium text-white bg-primary-600 rounded-md shadow-sm hover:bg-primary-700 disabled:bg-primary-300">
           {loading ? t('generating') : t('generateReport')}
         </button>
@@ -250,11 +366,13 @@ const ReportsPage: React.FC = () => {
       {reportData && (
         <div className="space-y-8">
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6"><KPICard title={t('newCustomers')} value={reportData.kpis.newCustomers.toString()} /><KPICard title={t('avgInvoiceValue')} value={`€${reportData.kpis.avgInvoiceValue.toFixed(2)}`} /><KPICard title={t('quoteConversion')} value={`${reportData.kpis.quoteConversionRate.toFixed(1)}%`} /></div>
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8"><ReportCard title={t('profitLoss')}><div className="space-y-3"><div className="flex justify-between items-baseline"><p className="text-gray-600 dark:text-gray-400">{t('totalRevenue')}</p><p className="text-2xl font-semibold text-green-600">€{reportData.profitLoss.revenue.toFixed(2)}</p></div><div className="flex justify-between items-baseline"><p className="text-gray-600 dark:text-gray-400">{t('totalExpenses')}</p><p className="text-2xl font-semibold text-red-600">- €{reportData.profitLoss.expenses.toFixed(2)}</p></div><hr className="border-gray-200 dark:border-gray-600 my-2" /><div className="flex justify-between items-baseline"><p className="font-bold text-gray-800 dark:text-gray-200">{t('netProfit')}</p><p className={`text-3xl font-bold ${reportData.profitLoss.profit >= 0 ? 'text-green-700' : 'text-red-700'}`}>€{reportData.profitLoss.profit.toFixed(2)}</p></div></div></ReportCard><ReportCard title={t('taxSummary')}><div className="space-y-3"><div className="flex justify-between items-baseline"><p className="text-gray-600 dark:text-gray-400">{t('vatCollected')}</p><p className="text-2xl font-semibold text-blue-600">€{reportData.taxSummary.collected.toFixed(2)}</p></div><p className="text-xs text-gray-400 italic pt-4">{t('vatPaidNotTracked')}</p></div></ReportCard></div>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8"><ReportCard title={t('profitLoss')}><div className="space-y-3"><div className="flex justify-between items-baseline"><p className="text-gray-600 dark:text-gray-400">{t('totalRevenue')} <span className="text-xs">({reportData.revenueBasis === 'cash' ? t('revenueBasisCash') : t('revenueBasisAccrual')})</span></p><p className="text-2xl font-semibold text-green-600">€{reportData.profitLoss.revenue.toFixed(2)}</p></div><div className="flex justify-between items-baseline"><p className="text-gray-600 dark:text-gray-400">{t('totalExpenses')}</p><p className="text-2xl font-semibold text-red-600">- €{reportData.profitLoss.expenses.toFixed(2)}</p></div><hr className="border-gray-200 dark:border-gray-600 my-2" /><div className="flex justify-between items-baseline"><p className="font-bold text-gray-800 dark:text-gray-200">{t('netProfit')}</p><p className={`text-3xl font-bold ${reportData.profitLoss.profit >= 0 ? 'text-green-700' : 'text-red-700'}`}>€{reportData.profitLoss.profit.toFixed(2)}</p></div></div></ReportCard><ReportCard title={t('taxSummary')}><div className="space-y-3"><div className="flex justify-between items-baseline"><p className="text-gray-600 dark:text-gray-400">{t('vatCollected')}</p><p className="text-2xl font-semibold text-blue-600">€{reportData.taxSummary.collected.toFixed(2)}</p></div>{reportData.taxSummary.byRate.map(entry => (<div key={entry.rate} className="flex justify-between items-baseline text-sm"><p className="text-gray-500 dark:text-gray-400">{entry.rate}%{entry.label ? ` (${entry.label})` : ''}</p><p className="text-gray-700 dark:text-gray-300">€{entry.amount.toFixed(2)}</p></div>))}<div className="flex justify-between items-baseline pt-2"><p className="text-gray-600 dark:text-gray-400">{t('inputTax')}</p><p className="text-2xl font-semibold text-orange-600">- €{reportData.taxSummary.inputTax.toFixed(2)}</p></div>{reportData.taxSummary.inputTaxByRate.map(entry => (<div key={entry.rate} className="flex justify-between items-baseline text-sm"><p className="text-gray-500 dark:text-gray-400">{entry.rate}%{entry.label ? ` (${entry.label})` : ''}</p><p className="text-gray-700 dark:text-gray-300">€{entry.amount.toFixed(2)}</p></div>))}<hr className="border-gray-200 dark:border-gray-600 my-2" /><div className="flex justify-between items-baseline"><p className="font-bold text-gray-800 dark:text-gray-200">{t('vatPayable')}</p><p className={`text-2xl font-bold ${reportData.taxSummary.payable >= 0 ? 'text-blue-700' : 'text-green-700'}`}>€{reportData.taxSummary.payable.toFixed(2)}</p></div></div></ReportCard></div>
             <ReportCard title={t('salesByCustomer')} className="min-h-[400px]">{reportData.salesByCustomer.length > 0 ? (<ResponsiveContainer width="100%" height={300 + reportData.salesByCustomer.length * 10}><BarChart data={reportData.salesByCustomer} layout="vertical" margin={{ top: 5, right: 30, left: 20, bottom: 5 }}><CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="rgba(200, 200, 200, 0.2)"/><XAxis type="number" tickFormatter={(value) => `€${value}`} /><YAxis type="category" dataKey="customerName" width={150} tick={{ fontSize: 12 }} /><Tooltip cursor={{ fill: 'rgba(107, 114, 128, 0.1)' }} formatter={(value) => `€${Number(value).toFixed(2)}`} /><Bar dataKey="totalSales" fill="#3b82f6" barSize={20}><LabelList dataKey="totalSales" position="right" formatter={(value) => `€${Number(value).toFixed(0)}`} fontSize={10} /></Bar></BarChart></ResponsiveContainer>) : <p className="text-center text-gray-500 py-10">{t('noSalesDataForPeriod')}</p>}</ReportCard>
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-8"><ReportCard title={t('topSellingProducts')}><div className="overflow-auto max-h-72"><table className="min-w-full text-sm"><thead className="sticky top-0 bg-white dark:bg-slate-800"><tr className="text-left text-xs text-gray-500 uppercase"><th className="py-2">{t('product')}</th><th className="py-2 text-right">{t('quantity')}</th><th className="py-2 text-right">{t('revenue')}</th></tr></thead><tbody>{reportData.topSellingProducts.length > 0 ? reportData.topSellingProducts.map(item => (<tr key={item.productName} className="border-b border-gray-100 dark:border-gray-700"><td className="py-2 pr-4">{item.productName}</td><td className="py-2 text-right">{item.totalQuantity}</td><td className="py-2 text-right font-medium">€{item.totalRevenue.toFixed(2)}</td></tr>)) : (<tr><td colSpan={3} className="py-4 text-center text-gray-500">{t('noProductSalesData')}</td></tr>)}</tbody></table></div></ReportCard><ReportCard title={t('teamPerformance')}><div className="overflow-auto max-h-72"><table className="min-w-full text-sm"><thead className="sticky top-0 bg-white dark:bg-slate-800"><tr className="text-left text-xs text-gray-500 uppercase"><th className="py-2">{t('employee')}</th><th className="py-2 text-right">{t('revenue')}</th><th className="py-2 text-right">{t('visitsDone')}</th></tr></thead><tbody>{reportData.teamPerformance.length > 0 ? reportData.teamPerformance.map(item => (<tr key={item.employeeName} className="border-b border-gray-100 dark:border-gray-700"><td className="py-2 pr-4">{item.employeeName}</td><td className="py-2 text-right font-medium">€{item.totalRevenue.toFixed(2)}</td><td className="py-2 text-right">{item.completedVisits}</td></tr>)) : (<tr><td colSpan={3} className="py-4 text-center text-gray-500">{t('noTeamPerformanceData')}</td></tr>)}</tbody></table></div></ReportCard></div>
         </div>
       )}
+
+      <DatevValidationModal isOpen={!!datevExport} onClose={() => setDatevExport(null)} onConfirm={handleConfirmDatevExport} datevExport={datevExport} />
     </div>
   );
 };
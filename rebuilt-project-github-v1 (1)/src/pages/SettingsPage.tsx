@@ -5,11 +5,16 @@ import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { supabase } from '../services/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { useLanguage } from '../contexts/LanguageContext';
-import { UserRole, Organization, RolePermissions, DatevSettings, HelpContent, Customer } from '../types';
+import { UserRole, Organization, RolePermissions, DatevSettings, DunningLevelSettings, DunningSettings, HelpContent, Customer, PaymentTerm, VatRate } from '../types';
 import { defaultPermissions, EXPENSE_CATEGORIES } from '../constants';
 import { invalidateHelpCache } from '../services/helpContentService';
-import { ShieldCheckIcon } from '@heroicons/react/24/outline';
+import { ShieldCheckIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
 import { exportCustomerDataAsCsv } from '../lib/export';
+import { getDunningSettings, DUNNING_PLACEHOLDERS } from '../lib/dunning';
+import { getVatRates, validateVatRates } from '../lib/vatRates';
+import { parseAsLocalDate } from '../lib/formatting';
+import DatePicker from '../components/ui/DatePicker';
+import { format } from 'date-fns';
 
 const ALL_MODULES = [
     { id: 'dashboard', label: 'dashboard' }, { id: 'dispatcher', label: 'dispatcher' },
@@ -219,9 +224,9 @@ const DataPrivacyCenter: React.FC = () => {
 
 const SettingsPage: React.FC = () => {
     const { profile, permissions: currentUserPermissions, refetchPermissions } = useAuth();
-    const { t } = useLanguage();
+    const { t, language } = useLanguage();
 
-    const [activeTab, setActiveTab] = useState<'permissions' | 'integrations' | 'premium' | 'datev' | 'help' | 'data-privacy'>('permissions');
+    const [activeTab, setActiveTab] = useState<'permissions' | 'integrations' | 'premium' | 'datev' | 'dunning' | 'payment-terms' | 'vat-rates' | 'help' | 'data-privacy'>('permissions');
     const [organizations, setOrganizations] = useState<Organization[]>([]);
     const [selectedOrgId, setSelectedOrgId] = useState<string | null>(null);
     const [selectedOrg, setSelectedOrg] = useState<Organization | null>(null);
@@ -246,6 +251,9 @@ const SettingsPage: React.FC = () => {
     const [isTextBlocksEnabled, setIsTextBlocksEnabled] = useState(false);
     const [stripeAccountId, setStripeAccountId] = useState<string | undefined>(undefined);
     const [datevSettings, setDatevSettings] = useState<Partial<DatevSettings>>({});
+    const [dunningSettings, setDunningSettings] = useState<Required<DunningSettings>>(getDunningSettings());
+    const [paymentTerms, setPaymentTerms] = useState<PaymentTerm[]>([]);
+    const [vatRates, setVatRates] = useState<VatRate[]>([]);
     
     const [helpContents, setHelpContents] = useState<HelpContent[]>([]);
     const [isTestingStripe, setIsTestingStripe] = useState(false);
@@ -289,7 +297,7 @@ const SettingsPage: React.FC = () => {
             try {
                 const [perms, orgDetails] = await Promise.all([
                     supabase.from('role_permissions').select('role, permissions').eq('org_id', targetOrgId).in('role', configurableRoles),
-                    supabase.from('organizations').select('is_document_storage_enabled, is_payment_gateway_enabled, stripe_account_id, is_datev_export_enabled, datev_settings, is_email_sending_enabled, is_visit_reminder_enabled, is_text_blocks_enabled').eq('id', targetOrgId).single(),
+                    supabase.from('organizations').select('is_document_storage_enabled, is_payment_gateway_enabled, stripe_account_id, is_datev_export_enabled, datev_settings, dunning_settings, payment_terms, is_email_sending_enabled, is_visit_reminder_enabled, is_text_blocks_enabled').eq('id', targetOrgId).single(),
                 ]);
                 
                 const dbPermissionsMap = new Map<UserRole, string[]>();
@@ -319,6 +327,9 @@ const SettingsPage: React.FC = () => {
                     setIsTextBlocksEnabled(orgDetails.data.is_text_blocks_enabled || false);
                     setStripeAccountId(orgDetails.data.stripe_account_id);
                     setDatevSettings(orgDetails.data.datev_settings || {});
+                    setDunningSettings(getDunningSettings(orgDetails.data.dunning_settings));
+                    setPaymentTerms(orgDetails.data.payment_terms || []);
+                    setVatRates(getVatRates(orgDetails.data));
                 }
 
             } catch (error) {
@@ -339,7 +350,7 @@ const SettingsPage: React.FC = () => {
         }));
     };
     
-    const handleDatevSettingChange = (field: keyof DatevSettings, value: string) => {
+    const handleDatevSettingChange = <K extends keyof DatevSettings>(field: K, value: DatevSettings[K]) => {
         setDatevSettings(prev => ({ ...prev, [field]: value }));
     };
 
@@ -353,6 +364,33 @@ const SettingsPage: React.FC = () => {
         }));
     };
 
+    const handleDunningLevelChange = (level: number, field: keyof DunningLevelSettings, value: string) => {
+        setDunningSettings(prev => ({
+            ...prev,
+            levels: prev.levels.map(l => l.level === level ? { ...l, [field]: field === 'text' ? value : (parseFloat(value) || 0) } : l),
+        }));
+    };
+
+    const handlePaymentTermChange = (id: string, field: keyof PaymentTerm, value: string) => {
+        setPaymentTerms(prev => prev.map(term => term.id === id ? { ...term, [field]: field === 'name' ? value : (value === '' ? null : parseFloat(value) || 0) } : term));
+    };
+
+    const handleAddPaymentTerm = () => {
+        setPaymentTerms(prev => [...prev, { id: Date.now().toString(36), name: '', net_days: 30, skonto_percent: null, skonto_days: null, is_default: prev.length === 0 }]);
+    };
+
+    const handleVatRateChange = (id: string, field: keyof VatRate, value: string) => {
+        setVatRates(prev => prev.map(rate => rate.id === id ? { ...rate, [field]: field === 'rate' ? (parseFloat(value) || 0) : (value || null) } : rate));
+    };
+
+    const handleVatRateDateChange = (id: string, field: 'valid_from' | 'valid_to', date: Date | null) => {
+        setVatRates(prev => prev.map(rate => rate.id === id ? { ...rate, [field]: date ? format(date, 'yyyy-MM-dd') : null } : rate));
+    };
+
+    const handleAddVatRate = () => {
+        setVatRates(prev => [...prev, { id: Date.now().toString(36), label: '', rate: 0, valid_from: null, valid_to: null, is_default: prev.length === 0, datev_account: null, datev_bu_key: null, datev_input_bu_key: null }]);
+    };
+
     const handleHelpContentChange = (pageKey: string, lang: 'de' | 'al', content: string) => {
         setHelpContents(prev => prev.map(item => 
             item.page_key === pageKey 
@@ -407,7 +445,12 @@ const SettingsPage: React.FC = () => {
                     orgUpdateData.is_text_blocks_enabled = isTextBlocksEnabled;
                 }
                 if (profile?.role === 'admin') {
+                    const vatRateErrors = validateVatRates(vatRates);
+                    if (vatRateErrors.length > 0) throw new Error(vatRateErrors.join('\n'));
                     orgUpdateData.datev_settings = datevSettings;
+                    orgUpdateData.dunning_settings = dunningSettings;
+                    orgUpdateData.payment_terms = paymentTerms.filter(term => term.name.trim());
+                    orgUpdateData.vat_rates = vatRates;
                 }
                 if (Object.keys(orgUpdateData).length > 0) {
                      const { error: orgUpdateError } = await supabase.from('organizations').update(orgUpdateData).eq('id', targetOrgId);
@@ -472,6 +515,34 @@ const SettingsPage: React.FC = () => {
     
     const renderDatevSettings = () => (
         <div className="max-w-3xl space-y-6">
+             <div className="p-4 border rounded-lg dark:border-gray-700">
+                <h3 className="font-bold text-lg text-gray-800 dark:text-gray-200">{t('datevBatchSetup')}</h3>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-1 mb-4">{t('datevBatchDescription')}</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium">{t('consultantNumber')}</label>
+                        <input type="text" inputMode="numeric" value={datevSettings.consultant_number || ''} onChange={e => handleDatevSettingChange('consultant_number', e.target.value)} placeholder="1001 – 9999999" className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium">{t('clientNumber')}</label>
+                        <input type="text" inputMode="numeric" value={datevSettings.client_number || ''} onChange={e => handleDatevSettingChange('client_number', e.target.value)} placeholder="1 – 99999" className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium">{t('fiscalYearStart')}</label>
+                        <select value={datevSettings.fiscal_year_start_month || 1} onChange={e => handleDatevSettingChange('fiscal_year_start_month', Number(e.target.value))} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                            {Array.from({ length: 12 }, (_, i) => <option key={i + 1} value={i + 1}>{new Date(0, i).toLocaleString(language, { month: 'long' })}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium">{t('accountLength')}</label>
+                        <input type="number" min={4} max={8} value={datevSettings.account_length || 4} onChange={e => handleDatevSettingChange('account_length', parseInt(e.target.value, 10) || 4)} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+                    </div>
+                </div>
+                <label className="flex items-start gap-x-2 mt-4 text-sm">
+                    <input type="checkbox" checked={datevSettings.lock_postings !== false} onChange={e => handleDatevSettingChange('lock_postings', e.target.checked)} className="mt-1 h-4 w-4 rounded border-gray-300 text-primary-600"/>
+                    <span><span className="font-medium">{t('lockPostings')}</span><span className="block text-gray-600 dark:text-gray-400">{t('lockPostingsHint')}</span></span>
+                </label>
+            </div>
              <div className="p-4 border rounded-lg dark:border-gray-700">
                 <h3 className="font-bold text-lg text-gray-800 dark:text-gray-200">{t('datevAccountSetup')}</h3>
                 <p className="text-sm text-gray-600 dark:text-gray-400 mt-1 mb-4">{t('datevAccountDescription')}</p>
@@ -484,14 +555,32 @@ const SettingsPage: React.FC = () => {
                         <label className="block text-sm font-medium">{t('creditorAccount')}</label>
                         <input type="text" value={datevSettings.creditor_account || ''} onChange={e => handleDatevSettingChange('creditor_account', e.target.value)} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
                     </div>
+                    <div>
+                        <label className="block text-sm font-medium">{t('paymentAccount')}</label>
+                        <input type="text" value={datevSettings.payment_account || ''} onChange={e => handleDatevSettingChange('payment_account', e.target.value)} placeholder="1200" className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{t('paymentAccountHint')}</p>
+                    </div>
+                </div>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-4 mb-2">{t('debtorRangeDescription')}</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium">{t('debtorRangeStart')}</label>
+                        <input type="number" min={10000} value={datevSettings.debtor_range_start ?? ''} onChange={e => handleDatevSettingChange('debtor_range_start', e.target.value ? parseInt(e.target.value, 10) : undefined)} placeholder="10000" className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium">{t('debtorRangeEnd')}</label>
+                        <input type="number" min={10000} value={datevSettings.debtor_range_end ?? ''} onChange={e => handleDatevSettingChange('debtor_range_end', e.target.value ? parseInt(e.target.value, 10) : undefined)} placeholder="69999" className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+                    </div>
                 </div>
             </div>
              <div className="p-4 border rounded-lg dark:border-gray-700">
                 <h3 className="font-bold text-lg text-gray-800 dark:text-gray-200">{t('revenueAccountMapping')}</h3>
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
-                     <div><label className="block text-sm font-medium">{t('revenue19')}</label><input type="text" value={datevSettings.revenue_19 || ''} onChange={e => handleDatevSettingChange('revenue_19', e.target.value)} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/></div>
-                     <div><label className="block text-sm font-medium">{t('revenue7')}</label><input type="text" value={datevSettings.revenue_7 || ''} onChange={e => handleDatevSettingChange('revenue_7', e.target.value)} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/></div>
-                     <div><label className="block text-sm font-medium">{t('revenue0')}</label><input type="text" value={datevSettings.revenue_0 || ''} onChange={e => handleDatevSettingChange('revenue_0', e.target.value)} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/></div>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{t('vatRateAccountsHint')}</p>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-4">{t('taxTreatmentAccountsDescription')}</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-2">
+                     {([['revenue_reverse_charge', 'reverse_charge', '8337'], ['revenue_intra_eu', 'intra_eu', '8125'], ['revenue_export', 'export', '8120'], ['revenue_small_business', 'small_business', '8195']] as const).map(([key, treatment, placeholder]) => (
+                        <div key={key}><label className="block text-sm font-medium">{t(`taxTreatment_${treatment}`)}</label><input type="text" value={datevSettings[key] || ''} onChange={e => handleDatevSettingChange(key, e.target.value)} placeholder={placeholder} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/></div>
+                     ))}
                 </div>
              </div>
              <div className="p-4 border rounded-lg dark:border-gray-700">
@@ -509,6 +598,108 @@ const SettingsPage: React.FC = () => {
         </div>
     );
 
+    const renderDunningSettings = () => (
+        <div className="max-w-3xl space-y-6">
+            <div className="p-4 border rounded-lg dark:border-gray-700">
+                <h3 className="font-bold text-lg text-gray-800 dark:text-gray-200">{t('dunning')}</h3>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-1 mb-4">{t('dunningSettingsDescription')}</p>
+                <div className="max-w-xs">
+                    <label className="block text-sm font-medium">{t('dunningInterestRate')}</label>
+                    <input type="number" min={0} step="0.01" value={dunningSettings.interest_rate} onChange={e => setDunningSettings(prev => ({ ...prev, interest_rate: parseFloat(e.target.value) || 0 }))} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+                </div>
+            </div>
+            {dunningSettings.levels.map(level => (
+                <div key={level.level} className="p-4 border rounded-lg dark:border-gray-700">
+                    <h3 className="font-bold text-lg text-gray-800 dark:text-gray-200 mb-4">{t(`dunningLevel${level.level}` as any)}</h3>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div><label className="block text-sm font-medium">{t('dunningGraceDays')}</label><input type="number" min={0} value={level.grace_days} onChange={e => handleDunningLevelChange(level.level, 'grace_days', e.target.value)} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/></div>
+                        <div><label className="block text-sm font-medium">{t('dunningPaymentDays')}</label><input type="number" min={0} value={level.payment_days} onChange={e => handleDunningLevelChange(level.level, 'payment_days', e.target.value)} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/></div>
+                        <div><label className="block text-sm font-medium">{t('dunningFee')} (€)</label><input type="number" min={0} step="0.01" value={level.fee} onChange={e => handleDunningLevelChange(level.level, 'fee', e.target.value)} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/></div>
+                    </div>
+                    <div className="mt-4">
+                        <label className="block text-sm font-medium">{t('dunningText')}</label>
+                        <textarea rows={5} value={level.text || ''} placeholder={t(`dunningText${level.level}` as any)} onChange={e => handleDunningLevelChange(level.level, 'text', e.target.value)} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+                    </div>
+                </div>
+            ))}
+            <p className="text-xs text-gray-500 dark:text-gray-400">{t('availablePlaceholders')}: {DUNNING_PLACEHOLDERS.join(', ')}</p>
+        </div>
+    );
+
+    const renderPaymentTermSettings = () => (
+        <div className="max-w-4xl space-y-4">
+            <div>
+                <h3 className="font-bold text-lg text-gray-800 dark:text-gray-200">{t('paymentTerms')}</h3>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{t('paymentTermsSettingsDescription')}</p>
+            </div>
+            <div className="overflow-x-auto">
+                <table className="min-w-full">
+                    <thead><tr className="text-left text-sm text-gray-500 dark:text-gray-400">
+                        <th className="py-2 pr-4">{t('name')}</th>
+                        <th className="py-2 pr-4 w-28">{t('paymentTermNetDaysLabel')}</th>
+                        <th className="py-2 pr-4 w-28">{t('skontoPercent')}</th>
+                        <th className="py-2 pr-4 w-28">{t('skontoDays')}</th>
+                        <th className="py-2 pr-4 w-20 text-center">{t('isDefault')}</th>
+                        <th className="w-10"></th>
+                    </tr></thead>
+                    <tbody className="divide-y dark:divide-gray-700">
+                        {paymentTerms.map(term => (
+                            <tr key={term.id}>
+                                <td className="py-2 pr-4"><input value={term.name} onChange={e => handlePaymentTermChange(term.id, 'name', e.target.value)} placeholder={t('paymentTermNamePlaceholder')} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/></td>
+                                <td className="py-2 pr-4"><input type="number" min={0} value={term.net_days} onChange={e => handlePaymentTermChange(term.id, 'net_days', e.target.value)} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/></td>
+                                <td className="py-2 pr-4"><input type="number" min={0} max={100} step="0.01" value={term.skonto_percent ?? ''} onChange={e => handlePaymentTermChange(term.id, 'skonto_percent', e.target.value)} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/></td>
+                                <td className="py-2 pr-4"><input type="number" min={0} value={term.skonto_days ?? ''} onChange={e => handlePaymentTermChange(term.id, 'skonto_days', e.target.value)} disabled={!term.skonto_percent} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600 disabled:bg-gray-100 dark:disabled:bg-gray-700/50"/></td>
+                                <td className="py-2 pr-4 text-center"><input type="radio" name="default_payment_term" checked={!!term.is_default} onChange={() => setPaymentTerms(prev => prev.map(p => ({ ...p, is_default: p.id === term.id })))} className="h-4 w-4 text-primary-600"/></td>
+                                <td><button type="button" onClick={() => setPaymentTerms(prev => prev.filter(p => p.id !== term.id))} title={t('delete')}><TrashIcon className="w-5 h-5 text-red-500"/></button></td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <button type="button" onClick={handleAddPaymentTerm} className="inline-flex items-center px-3 py-2 text-sm bg-gray-200 rounded-md dark:bg-gray-700"><PlusIcon className="w-4 h-4 mr-1"/> {t('addPaymentTerm')}</button>
+        </div>
+    );
+
+    const renderVatRateSettings = () => (
+        <div className="max-w-5xl space-y-4">
+            <div>
+                <h3 className="font-bold text-lg text-gray-800 dark:text-gray-200">{t('vatRates')}</h3>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{t('vatRatesSettingsDescription')}</p>
+            </div>
+            <div className="overflow-x-auto">
+                <table className="min-w-full">
+                    <thead><tr className="text-left text-sm text-gray-500 dark:text-gray-400">
+                        <th className="py-2 pr-4">{t('name')}</th>
+                        <th className="py-2 pr-4 w-24">{t('vatRatePercent')}</th>
+                        <th className="py-2 pr-4 w-40">{t('validFrom')}</th>
+                        <th className="py-2 pr-4 w-40">{t('validTo')}</th>
+                        <th className="py-2 pr-4 w-20 text-center">{t('isDefault')}</th>
+                        <th className="py-2 pr-4 w-28">{t('datevAccount')}</th>
+                        <th className="py-2 pr-4 w-24">{t('datevBuKey')}</th>
+                        <th className="py-2 pr-4 w-24">{t('datevInputBuKey')}</th>
+                        <th className="w-10"></th>
+                    </tr></thead>
+                    <tbody className="divide-y dark:divide-gray-700">
+                        {vatRates.map(rate => (
+                            <tr key={rate.id}>
+                                <td className="py-2 pr-4"><input value={rate.label} onChange={e => handleVatRateChange(rate.id, 'label', e.target.value)} placeholder={t('vatRateLabelPlaceholder')} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/></td>
+                                <td className="py-2 pr-4"><input type="number" min={0} max={99.99} step="0.01" value={rate.rate} onChange={e => handleVatRateChange(rate.id, 'rate', e.target.value)} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/></td>
+                                <td className="py-2 pr-4"><DatePicker selected={parseAsLocalDate(rate.valid_from)} onChange={date => handleVatRateDateChange(rate.id, 'valid_from', date)} /></td>
+                                <td className="py-2 pr-4"><DatePicker selected={parseAsLocalDate(rate.valid_to)} onChange={date => handleVatRateDateChange(rate.id, 'valid_to', date)} /></td>
+                                <td className="py-2 pr-4 text-center"><input type="radio" name="default_vat_rate" checked={!!rate.is_default} onChange={() => setVatRates(prev => prev.map(r => ({ ...r, is_default: r.id === rate.id })))} className="h-4 w-4 text-primary-600"/></td>
+                                <td className="py-2 pr-4"><input value={rate.datev_account || ''} onChange={e => handleVatRateChange(rate.id, 'datev_account', e.target.value)} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/></td>
+                                <td className="py-2 pr-4"><input value={rate.datev_bu_key || ''} onChange={e => handleVatRateChange(rate.id, 'datev_bu_key', e.target.value)} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/></td>
+                                <td className="py-2 pr-4"><input value={rate.datev_input_bu_key || ''} onChange={e => handleVatRateChange(rate.id, 'datev_input_bu_key', e.target.value)} className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/></td>
+                                <td><button type="button" onClick={() => setVatRates(prev => prev.filter(r => r.id !== rate.id))} title={t('delete')}><TrashIcon className="w-5 h-5 text-red-500"/></button></td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <button type="button" onClick={handleAddVatRate} className="inline-flex items-center px-3 py-2 text-sm bg-gray-200 rounded-md dark:bg-gray-700"><PlusIcon className="w-4 h-4 mr-1"/> {t('addVatRate')}</button>
+        </div>
+    );
+
     const renderPremiumFeatures = () => (
         <div className="space-y-6 max-w-2xl">
             {[
@@ -583,6 +774,9 @@ const SettingsPage: React.FC = () => {
             case 'integrations': return renderIntegrationsContent();
             case 'premium': return renderPremiumFeatures();
             case 'datev': return renderDatevSettings();
+            case 'dunning': return renderDunningSettings();
+            case 'payment-terms': return renderPaymentTermSettings();
+            case 'vat-rates': return renderVatRateSettings();
             case 'help': return renderHelpContentEditor();
             case 'data-privacy': return <DataPrivacyCenter />;
             default: return null;
@@ -644,6 +838,9 @@ const SettingsPage: React.FC = () => {
                            <>
                            <button onClick={() => setActiveTab('integrations')} className={`whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'integrations' ? 'border-primary-500 text-primary-600' : 'border-transparent text-gray-500 hover:text-gray-700'}`}>{t('integrations')}</button>
                            {isDatevExportEnabled && <button onClick={() => setActiveTab('datev')} className={`whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'datev' ? 'border-primary-500 text-primary-600' : 'border-transparent text-gray-500 hover:text-gray-700'}`}>DATEV</button>}
+                           <button onClick={() => setActiveTab('dunning')} className={`whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'dunning' ? 'border-primary-500 text-primary-600' : 'border-transparent text-gray-500 hover:text-gray-700'}`}>{t('dunning')}</button>
+                           <button onClick={() => setActiveTab('payment-terms')} className={`whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'payment-terms' ? 'border-primary-500 text-primary-600' : 'border-transparent text-gray-500 hover:text-gray-700'}`}>{t('paymentTerms')}</button>
+                           <button onClick={() => setActiveTab('vat-rates')} className={`whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'vat-rates' ? 'border-primary-500 text-primary-600' : 'border-transparent text-gray-500 hover:text-gray-700'}`}>{t('vatRates')}</button>
                            </>
                         )}
                         {profile?.role === 'super_admin' && (
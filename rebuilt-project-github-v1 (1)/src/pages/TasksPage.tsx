@@ -139,7 +139,7 @@ const TasksPage: React.FC = () => {
                 type: 'new_task',
                 related_entity_path: '/tasks',
                 related_entity_id: savedTask.id,
-            });
+            }, supabase);
         }
         fetchTasks(); 
         handleCloseModal(); 
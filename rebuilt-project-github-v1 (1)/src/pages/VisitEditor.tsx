@@ -6,10 +6,12 @@ import { useLanguage } from '../contexts/LanguageContext';
 import { useTabs } from '../contexts/TabContext';
 import { useRefresh } from '../contexts/RefreshContext';
 import { useNotifications } from '../contexts/NotificationContext';
-import { Customer, Product, Expense, Profile, Visit, VisitCategory, VisitStatus, VisitProduct, VisitExpense, EmailLog, InvoiceStatus } from '../types';
+import { Customer, Product, Expense, Profile, Visit, VisitStatus, VisitProduct, VisitExpense, EmailLog, InvoiceStatus } from '../types';
+import { VISIT_CATEGORIES } from '../constants';
 import { generateNextNumber } from '../lib/numberGenerator';
 import { generateVisitSummaryPDF } from '../lib/pdfGenerator';
 import { createNotification } from '../lib/notifications';
+import { getDefaultVatRate, getVatRates } from '../lib/vatRates';
 import { PlusIcon, TrashIcon, ArrowLeftIcon, EnvelopeIcon, PencilIcon as SignatureIcon, ArrowDownTrayIcon, CurrencyDollarIcon, DocumentTextIcon, InformationCircleIcon, DocumentTextIcon as TextBlockIcon } from '@heroicons/react/24/outline';
 import ProductSelectionModal from '../components/modals/ProductSelectionModal';
 import ExpenseSelectionModal from '../components/modals/ExpenseSelectionModal';
@@ -17,6 +19,7 @@ import TextBlockSelectionModal from '../components/modals/TextBlockSelectionModa
 import DatePicker from '../components/ui/DatePicker';
 import { parseAsLocalDate, formatEuropeanDate, formatEuropeanTime, resolvePlaceholders } from '../lib/formatting';
 import SignatureModal from '../components/modals/SignatureModal';
+import LinkedDocuments from '../components/LinkedDocuments';
 import { useModal } from '../contexts/ModalContext';
 
 const blobToBase64 = (blob: Blob): Promise<string> => {
@@ -436,7 +439,7 @@ const VisitEditor: React.FC = () => {
             type: 'new_visit',
             related_entity_path: `/visits/edit/${savedVisit.id}`,
             related_entity_id: savedVisit.id.toString(),
-        });
+        }, supabase);
       }
 
       if (isNewVisit) {
@@ -478,6 +481,7 @@ const VisitEditor: React.FC = () => {
         const today = new Date();
         const dueDate = new Date();
         dueDate.setDate(today.getDate() + 14);
+        const vatRate = getDefaultVatRate(getVatRates(visit.organizations), today);
 
         const newInvoiceItems = items.map(item => {
             let unit_price = 0;
@@ -491,7 +495,7 @@ const VisitEditor: React.FC = () => {
             return {
                 product_id: item.product_id, expense_id: item.expense_id,
                 description: item.description || '', quantity: item.quantity || 1,
-                unit_price: unit_price, vat_rate: 19,
+                unit_price: unit_price, vat_rate: vatRate,
             };
         });
 
@@ -718,7 +722,6 @@ const VisitEditor: React.FC = () => {
 
   if (loading) return <div className="text-center p-8">Loading...</div>;
   
-  const visitCategories: VisitCategory[] = ['Maintenance', 'Repair', 'Consulting', 'Training'];
   const visitStatuses: VisitStatus[] = ['planned', 'completed', 'cancelled'];
   const canSendSummary = visit.organizations?.is_email_sending_enabled;
 
@@ -815,7 +818,7 @@ const VisitEditor: React.FC = () => {
             <div>
                 <label className="block text-sm font-medium">{t('category')}</label>
                 <select name="category" value={visit.category} onChange={handleVisitChange} disabled={isReadOnly} className="mt-1 w-full p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600 capitalize disabled:bg-gray-100 dark:disabled:bg-gray-700/50">
-                    {visitCategories.map(c => <option key={c} value={c}>{t(c.toLowerCase() as any)}</option>)}
+                    {VISIT_CATEGORIES.map(c => <option key={c} value={c}>{t(c.toLowerCase() as any)}</option>)}
                 </select>
             </div>
             <div>
@@ -850,6 +853,7 @@ const VisitEditor: React.FC = () => {
       </div>
       
       {id && id !== 'new' && <EmailHistory logs={emailLogs} />}
+      {id && id !== 'new' && <LinkedDocuments type="visit" id={parseInt(id, 10)} />}
 
       <div className="p-6 bg-white rounded-lg shadow-md dark:bg-gray-800">
         <h2 className="text-xl font-bold mb-4">{t('items')}</h2>
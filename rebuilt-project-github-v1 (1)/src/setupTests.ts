@@ -0,0 +1,8 @@
+import { vi } from 'vitest';
+
+// The unit tests cover pure functions only. Creating the app's Supabase client needs a WebSocket
+// implementation Node 20 lacks, so the module is replaced by a client that must not be called.
+vi.mock('./services/supabase', () => ({
+  isSupabaseConfigured: false,
+  supabase: new Proxy({}, { get: () => { throw new Error('The Supabase client is not available in unit tests.'); } }),
+}));
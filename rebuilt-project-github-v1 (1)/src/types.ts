@@ -13,14 +13,61 @@ export interface Profile {
 }
 
 export interface DatevSettings {
-  debtor_account?: string;
+  consultant_number?: string; // Beraternummer
+  client_number?: string; // Mandantennummer
+  fiscal_year_start_month?: number; // 1 = January
+  account_length?: number; // Sachkontenlänge, usually 4
+  lock_postings?: boolean; // Festschreibung of the exported batches, on unless disabled
+  debtor_range_start?: number; // range the debtor accounts of customers are allocated from, default 10000-69999
+  debtor_range_end?: number;
+  debtor_account?: string; // collective debtor account for customers without their own debtor account
   creditor_account?: string;
+  payment_account?: string; // bank account (Geldkonto) incoming payments are booked on; payments are not exported without it
+  // Superseded by the DATEV accounts of the VAT rate catalogue; still used until the catalogue has been saved.
   revenue_19?: string;
   revenue_7?: string;
   revenue_0?: string;
+  revenue_reverse_charge?: string;
+  revenue_intra_eu?: string;
+  revenue_export?: string;
+  revenue_small_business?: string;
   expense_mappings?: { [key: string]: string };
 }
 
+export interface DunningLevelSettings {
+  level: number; // 1 = payment reminder, 2 = 1st dunning notice, 3 = 2nd dunning notice
+  grace_days: number; // days after the due date (level 1) or the previous notice before this level is due
+  payment_days: number; // payment deadline printed on the notice, counted from the notice date
+  fee: number;
+  text?: string; // text block with placeholders, falls back to the default text of the level
+}
+
+export interface DunningSettings {
+  interest_rate?: number; // default interest in percent per year, 0 = no interest
+  levels?: DunningLevelSettings[];
+}
+
+export interface PaymentTerm {
+  id: string;
+  name: string;
+  net_days: number; // due date, counted from the issue date
+  skonto_percent?: number | null; // early-payment discount, 0 or empty = no Skonto
+  skonto_days?: number | null;
+  is_default?: boolean;
+}
+
+export interface VatRate {
+  id: string;
+  label: string;
+  rate: number; // percent
+  valid_from?: string | null; // 'yyyy-MM-dd', empty = no start
+  valid_to?: string | null; // 'yyyy-MM-dd', empty = open-ended
+  is_default?: boolean; // preselected for new lines
+  datev_account?: string | null; // revenue account
+  datev_bu_key?: string | null; // BU-Schlüssel
+  datev_input_bu_key?: string | null; // BU-Schlüssel for input tax (Vorsteuer) on expenses
+}
+
 export interface Organization {
   id: string;
   name: string;
@@ -32,11 +79,16 @@ export interface Organization {
   iban?: string;
   bic?: string;
   ust_idnr?: string; // VAT ID
+  steuernummer?: string; // tax number; e-invoices of sellers without VAT ID (e.g. §19 small businesses) carry it instead
+  sepa_creditor_id?: string | null; // Gläubiger-Identifikationsnummer for SEPA direct debits
   is_payment_gateway_enabled?: boolean;
   stripe_account_id?: string;
   is_document_storage_enabled?: boolean;
   is_datev_export_enabled?: boolean;
   datev_settings?: DatevSettings;
+  dunning_settings?: DunningSettings;
+  payment_terms?: PaymentTerm[] | null;
+  vat_rates?: VatRate[] | null;
   is_email_sending_enabled?: boolean;
   is_visit_reminder_enabled?: boolean;
   is_text_blocks_enabled?: boolean;
@@ -54,11 +106,30 @@ export interface Customer {
   address?: string;
   notes?: string;
   is_reminder_relevant?: boolean;
+  vat_id?: string | null;
+  buyer_reference?: string | null; // Leitweg-ID or other reference the buyer requires on e-invoices
+  payment_term_id?: string | null; // overrides the organization's default payment terms
+  tax_treatment?: TaxTreatment | null; // default tax treatment of the customer's invoices
+  sepa_mandate_id?: string | null;
+  sepa_mandate_date?: string | null; // date the mandate was signed
+  sepa_iban?: string | null;
+  sepa_bic?: string | null;
+  sepa_sequence_type?: SepaSequenceType | null;
+  datev_account?: number | null; // DATEV debtor account (Personenkonto), allocated from the debtor range of the DATEV settings
   created_at: string;
   organizations?: Organization | null;
 }
 
-export type InvoiceStatus = 'draft' | 'sent' | 'paid' | 'overdue';
+// FRST: first collection under a mandate; RCUR: every following collection.
+export type SepaSequenceType = 'FRST' | 'RCUR';
+
+export type InvoiceStatus = 'draft' | 'sent' | 'paid' | 'overdue' | 'cancelled'; // 'cancelled': fully reversed by a cancellation invoice before it was paid
+export type InvoiceType = 'invoice' | 'down_payment' | 'final' | 'cancellation' | 'credit_note';
+
+export type DiscountType = 'percent' | 'amount';
+
+// domestic: German VAT; reverse_charge: §13b UStG; intra_eu: intra-community supply; export: export delivery; small_business: §19 UStG
+export type TaxTreatment = 'domestic' | 'reverse_charge' | 'intra_eu' | 'export' | 'small_business';
 
 export interface InvoiceItem {
   id: number;
@@ -69,6 +140,9 @@ export interface InvoiceItem {
   quantity: number;
   unit_price: number;
   vat_rate: number;
+  discount_type?: DiscountType | null;
+  discount_value?: number | null; // Percent, or the absolute amount off the line total
+  original_item_id?: number | null;
 }
 
 export interface Invoice {
@@ -81,19 +155,122 @@ export interface Invoice {
   due_date: string;
   total_amount: number;
   status: InvoiceStatus;
+  discount_type?: DiscountType | null;
+  discount_value?: number | null;
+  payment_term_id?: string | null;
+  skonto_percent?: number | null;
+  skonto_days?: number | null;
+  tax_treatment?: TaxTreatment | null;
   customer_notes?: string;
   internal_notes?: string;
   payment_link_url?: string;
   stripe_payment_intent_id?: string;
   visit_id?: number;
+  invoice_type?: InvoiceType;
+  original_invoice_id?: number | null;
+  credited_amount?: number; // total of the credit notes that reduce the open balance of an unpaid invoice
+  recurring_invoice_id?: number | null;
+  quote_id?: number | null; // Quote billed by a down-payment or final invoice
+  sepa_collection_date?: string | null; // requested collection date once the invoice was exported for direct debit
+  sepa_message_id?: string | null; // pain.008 file the invoice was collected with
   created_at: string;
   customers?: Customer | null;
   organizations?: Organization | null;
   invoice_items?: InvoiceItem[];
+  quote?: Pick<Quote, 'id' | 'quote_number' | 'issue_date'> | null;
+  original_invoice?: Pick<Invoice, 'id' | 'invoice_number' | 'issue_date'> | null;
+  invoice_payments?: Pick<InvoicePayment, 'amount' | 'skonto_amount'>[];
   was_sent_via_email?: boolean;
 }
 
-export type QuoteStatus = 'draft' | 'sent' | 'accepted' | 'declined';
+export type PaymentMethod = 'bank_transfer' | 'cash' | 'card' | 'stripe' | 'other';
+
+export interface InvoicePayment {
+  id: number;
+  org_id: string;
+  invoice_id: number;
+  user_id?: string | null;
+  amount: number;
+  payment_date: string;
+  method: PaymentMethod;
+  reference?: string | null;
+  skonto_amount?: number | null;
+  created_at: string;
+}
+
+export interface DunningNotice {
+  id: number;
+  org_id: string;
+  invoice_id: number;
+  customer_id: number;
+  user_id?: string | null;
+  level: number;
+  notice_date: string;
+  payment_deadline: string;
+  open_balance: number;
+  fee: number;
+  interest: number;
+  text: string;
+  sent_via_email: boolean;
+  created_at: string;
+  invoices?: Pick<Invoice, 'id' | 'invoice_number'> | null;
+}
+
+export type BankTransactionStatus = 'open' | 'matched' | 'ignored';
+
+export interface BankTransaction {
+  id: number;
+  org_id: string;
+  user_id?: string | null;
+  import_hash: string; // identifies the booking across overlapping statement imports
+  booking_date: string;
+  value_date?: string | null;
+  amount: number; // credits only, always positive
+  currency: string;
+  counterparty_name?: string | null;
+  counterparty_iban?: string | null;
+  reference?: string | null; // remittance information (Verwendungszweck)
+  bank_reference?: string | null;
+  status: BankTransactionStatus;
+  invoice_id?: number | null;
+  payment_id?: number | null;
+  created_at: string;
+  invoices?: Pick<Invoice, 'id' | 'invoice_number'> | null;
+}
+
+export type RecurrenceInterval = 'monthly' | 'quarterly' | 'half_yearly' | 'yearly';
+
+export interface RecurringInvoiceItem {
+  id: number;
+  recurring_invoice_id: number;
+  product_id?: number | null;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  vat_rate: number;
+}
+
+export interface RecurringInvoice {
+  id: number;
+  org_id: string;
+  user_id?: string | null;
+  customer_id: number;
+  title: string;
+  interval: RecurrenceInterval;
+  start_date: string;
+  end_date?: string | null;
+  next_run_date: string;
+  last_run_date?: string | null;
+  payment_days: number;
+  auto_send: boolean;
+  is_active: boolean;
+  customer_notes?: string | null;
+  created_at: string;
+  customers?: Pick<Customer, 'id' | 'name' | 'email' | 'tax_treatment' | 'payment_term_id'> | null;
+  recurring_invoice_items?: RecurringInvoiceItem[];
+}
+
+export type QuoteStatus = 'draft' | 'sent' | 'accepted' | 'declined' | 'expired';
 
 export interface QuoteItem {
   id: number;
@@ -104,6 +281,12 @@ export interface QuoteItem {
   quantity: number;
   unit_price: number;
   vat_rate: number;
+  discount_type?: DiscountType | null;
+  discount_value?: number | null;
+  // Optional lines and alternatives (lines sharing an alternative_group) only count when selected.
+  is_optional?: boolean;
+  alternative_group?: string | null;
+  is_selected?: boolean;
 }
 
 export interface Quote {
@@ -116,6 +299,8 @@ export interface Quote {
     valid_until_date: string;
     total_amount: number;
     status: QuoteStatus;
+    discount_type?: DiscountType | null;
+    discount_value?: number | null;
     customer_notes?: string;
     internal_notes?: string;
     created_at: string;
@@ -123,6 +308,16 @@ export interface Quote {
     organizations?: Organization | null;
     quote_items?: QuoteItem[];
     was_sent_via_email?: boolean;
+    // Revisions: all revisions point to the first one; revision 1 is the original quote.
+    original_quote_id?: number | null;
+    revision_number?: number;
+    superseded_at?: string | null;
+    pdf_storage_path?: string | null;
+    // Customer portal: the token of the acceptance link and the customer's answer.
+    public_token?: string | null;
+    signer_name?: string | null;
+    signature_storage_path?: string | null;
+    signature_date?: string | null;
 }
 
 export type VisitCategory = 'Maintenance' | 'Repair' | 'Consulting' | 'Training';
@@ -144,6 +339,7 @@ export interface Visit {
   internal_notes?: string;
   signature_storage_path?: string;
   signature_date?: string;
+  quote_id?: number | null; // Quote the visit was scheduled from
   created_at: string;
   customers?: Customer | null;
   organizations?: Organization | null;
@@ -191,11 +387,35 @@ export interface Expense {
     amount: number;
     category?: string;
     expense_date: string;
+    supplier_name?: string | null;
+    supplier_invoice_number?: string | null;
+    net_amount?: number | null; // sum of the net amounts of the VAT lines
+    vat_amount?: number | null; // sum of the VAT of the VAT lines, deductible or not
+    vat_lines?: ExpenseVatLine[] | null; // one line per VAT rate of the receipt; amount is their gross total
+    attachment_path?: string | null;
+    attachment_name?: string | null;
+    attachment_mime_type?: string | null;
+    e_invoice_format?: 'ubl' | 'cii' | null; // Set if the attachment is an imported XRechnung / ZUGFeRD invoice
+    status: ExpenseStatus;
+    approved_by?: string | null; // the approver who approved or rejected the expense
+    approved_at?: string | null;
+    rejection_reason?: string | null;
+    reimbursed_at?: string | null;
     created_at: string;
     organizations?: { name: string } | null;
     profiles?: { full_name?: string, email?: string } | null;
 }
 
+export type ExpenseStatus = 'submitted' | 'approved' | 'rejected' | 'reimbursed';
+
+// The part of a receipt taxed at one VAT rate. Non-deductible VAT (e.g. on entertainment) is part of the costs.
+export interface ExpenseVatLine {
+    vat_rate: number; // percent
+    net_amount: number;
+    vat_amount: number;
+    is_deductible: boolean;
+}
+
 export interface VisitExpense {
     id: number;
     visit_id: number;
@@ -281,9 +501,10 @@ export interface EmailLog {
   org_id: string;
   customer_id: number;
   sent_by_user_id: string;
-  document_type: 'invoice' | 'quote' | 'visit_reminder' | 'visit_summary';
+  document_type: 'invoice' | 'quote' | 'visit_reminder' | 'visit_summary' | 'dunning';
   related_document_id: string;
   subject: string;
+  dunning_level?: number | null; // level of the dunning notice sent, for document_type 'dunning'
   created_at: string;
   sent_by?: { full_name: string } | null;
 }
@@ -0,0 +1,11 @@
+// Customer portal endpoint: shows a quote by its public token and records the customer's answer.
+// The handler lives in src/lib/quotePortalHandler.ts; it only depends on modules without browser globals.
+// The app's modules import each other without file extensions, hence "sloppy-imports" in deno.json.
+import { createClient } from '@supabase/supabase-js';
+import { handleQuotePortalRequest } from '../../../src/lib/quotePortalHandler.ts';
+
+const client = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+  auth: { persistSession: false },
+});
+
+Deno.serve(request => handleQuotePortalRequest(request, client));
@@ -0,0 +1,12 @@
+// Stripe webhook endpoint: books successful payments on their invoices.
+// The handler lives in src/lib/stripeWebhook.ts; it only depends on modules without browser globals.
+// The app's modules import each other without file extensions, hence "sloppy-imports" in deno.json.
+import { createClient } from '@supabase/supabase-js';
+import { handleStripeWebhookRequest } from '../../../src/lib/stripeWebhook.ts';
+
+const client = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+  auth: { persistSession: false },
+});
+const secret = Deno.env.get('STRIPE_WEBHOOK_SECRET') ?? '';
+
+Deno.serve(request => handleStripeWebhookRequest(request, client, secret));
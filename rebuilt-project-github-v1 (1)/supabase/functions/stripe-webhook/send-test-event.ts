@@ -0,0 +1,44 @@
+// Local stand-in for Stripe: sends a signed checkout.session.completed event for an invoice to the webhook.
+//
+//   STRIPE_WEBHOOK_SECRET=whsec_... deno run --allow-net --allow-env \
+//     --config supabase/functions/stripe-webhook/deno.json \
+//     supabase/functions/stripe-webhook/send-test-event.ts <invoice-id> <amount> [webhook-url]
+//
+// The webhook URL defaults to the function served by `supabase functions serve stripe-webhook --no-verify-jwt`.
+// The event is delivered twice, as Stripe may do: the first delivery must answer 'processed', the second 'duplicate'.
+import { buildStripeSignatureHeader } from '../../../src/lib/stripeWebhook.ts';
+
+const [invoiceId, amount, url = 'http://localhost:54321/functions/v1/stripe-webhook'] = Deno.args;
+const secret = Deno.env.get('STRIPE_WEBHOOK_SECRET');
+if (!invoiceId || !amount || !secret) {
+  console.error('Usage: STRIPE_WEBHOOK_SECRET=whsec_... send-test-event.ts <invoice-id> <amount> [webhook-url]');
+  Deno.exit(1);
+}
+
+const suffix = crypto.randomUUID().replaceAll('-', '').slice(0, 24);
+const payload = JSON.stringify({
+  id: `evt_test_${suffix}`,
+  type: 'checkout.session.completed',
+  created: Math.floor(Date.now() / 1000),
+  livemode: false,
+  data: {
+    object: {
+      id: `cs_test_${suffix}`,
+      object: 'checkout.session',
+      payment_status: 'paid',
+      payment_intent: `pi_test_${suffix}`,
+      amount_total: Math.round(Number(amount) * 100),
+      currency: 'eur',
+      metadata: { invoice_id: invoiceId },
+    },
+  },
+});
+
+for (let delivery = 1; delivery <= 2; delivery++) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Stripe-Signature': await buildStripeSignatureHeader(payload, secret) },
+    body: payload,
+  });
+  console.log(`Delivery ${delivery}:`, response.status, await response.text());
+}
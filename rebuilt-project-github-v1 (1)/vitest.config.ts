@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config'
+
+// The unit tests only cover the lib modules, so they don't need the plugins of vite.config.ts.
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    setupFiles: ['src/setupTests.ts'],
+  },
+})